@@ -0,0 +1,96 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+// Build the bundled Kinneret bathymetry grid from the shoreline polygon.
+// The grid is synthetic, not survey data: depth follows distance to shore, with
+// a steep eastern slope, a broad shelf off the Jordan delta in the north and a
+// flat floor reaching ~43 m east of centre.
+
+const dataDir = fileURLToPath(new URL('../src/data', import.meta.url))
+const shoreline = JSON.parse(fs.readFileSync(path.join(dataDir, 'kinneret-shoreline.json'), 'utf8'))
+const ring = shoreline.features[0].geometry.coordinates[0]
+
+const CELL = 0.0025 // degrees, ~230 m north-south
+const BOUNDS = [[35.51, 32.7], [35.655, 32.895]]
+const MAX_DEPTH = 43
+const DEEPEST = [35.6, 32.825] // lon, lat of the deepest area
+const KM_PER_DEG_LAT = 111.32
+const KM_PER_DEG_LON = KM_PER_DEG_LAT * Math.cos((32.8 * Math.PI) / 180)
+
+function pointInRing(lon, lat) {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+// Shortest distance to the shoreline in km
+function distanceToShore(lon, lat) {
+  let best = Infinity
+  for (let i = 0; i < ring.length - 1; i++) {
+    const ax = ring[i][0] * KM_PER_DEG_LON
+    const ay = ring[i][1] * KM_PER_DEG_LAT
+    const bx = ring[i + 1][0] * KM_PER_DEG_LON
+    const by = ring[i + 1][1] * KM_PER_DEG_LAT
+    const px = lon * KM_PER_DEG_LON
+    const py = lat * KM_PER_DEG_LAT
+    const dx = bx - ax
+    const dy = by - ay
+    const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / (dx * dx + dy * dy)))
+    best = Math.min(best, Math.hypot(px - (ax + t * dx), py - (ay + t * dy)))
+  }
+  return best
+}
+
+function depthAt(lon, lat) {
+  // Slope length scale (km): gentle in the north and west, steep in the east
+  const north = Math.max(0, Math.min(1, (lat - 32.85) / 0.03))
+  const east = Math.max(0, Math.min(1, (lon - 35.6) / 0.04))
+  const scale = 1.9 + 1.4 * north - 0.8 * east
+  const fromDeepest = Math.hypot((lon - DEEPEST[0]) * KM_PER_DEG_LON, (lat - DEEPEST[1]) * KM_PER_DEG_LAT)
+  const floor = MAX_DEPTH * (1 - 0.15 * Math.min(1, (fromDeepest / 9) ** 2))
+  return Math.max(0.5, floor * Math.tanh(distanceToShore(lon, lat) / scale))
+}
+
+const width = Math.round((BOUNDS[1][0] - BOUNDS[0][0]) / CELL)
+const height = Math.round((BOUNDS[1][1] - BOUNDS[0][1]) / CELL)
+const depths = []
+
+for (let j = 0; j < height; j++) {
+  const row = []
+  const lat = BOUNDS[1][1] - (j + 0.5) * CELL
+  for (let i = 0; i < width; i++) {
+    const lon = BOUNDS[0][0] + (i + 0.5) * CELL
+    row.push(pointInRing(lon, lat) ? Math.round(depthAt(lon, lat) * 10) / 10 : null)
+  }
+  depths.push(row)
+}
+
+const grid = {
+  name: 'Lake Kinneret bathymetry (synthetic)',
+  source: 'Modelled from distance to the kinneret-shoreline.json shore by scripts/generate-bathymetry.js; not survey data',
+  synthetic: true,
+  units: 'm',
+  waterLevel: shoreline.features[0].properties.waterLevel,
+  bounds: BOUNDS,
+  width,
+  height,
+  depths,
+}
+
+const json = `{\n${Object.entries(grid)
+  .map(([key, value]) =>
+    key === 'depths'
+      ? `  "depths": [\n${value.map(row => `    ${JSON.stringify(row)}`).join(',\n')}\n  ]`
+      : `  ${JSON.stringify(key)}: ${JSON.stringify(value)}`
+  )
+  .join(',\n')}\n}\n`
+
+fs.writeFileSync(path.join(dataDir, 'kinneret-bathymetry.json'), json)
+
+const wet = depths.flat().filter(depth => depth !== null)
+console.log(`Bathymetry grid ${width}×${height}: ${wet.length} wet cells, max depth ${Math.max(...wet)} m`)
@@ -8,6 +8,7 @@ import { LiveDataPage } from '@/pages/live-data'
 import { ResearchDashboardPage } from '@/pages/research-dashboard'
 import { StatisticsPage } from '@/pages/statistics'
 import { ScenariosPage } from '@/pages/scenarios'
+import { ParametersPage } from '@/pages/parameters'
 import { DataPage } from '@/pages/data'
 import { AboutPage } from '@/pages/about'
 
@@ -24,6 +25,7 @@ function App() {
             <Route path="/research" element={<ResearchDashboardPage />} />
             <Route path="/statistics" element={<StatisticsPage />} />
             <Route path="/scenarios" element={<ScenariosPage />} />
+            <Route path="/parameters" element={<ParametersPage />} />
             <Route path="/data" element={<DataPage />} />
             <Route path="/about" element={<AboutPage />} />
           </Routes>
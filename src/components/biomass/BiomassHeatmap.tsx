@@ -1,169 +1,126 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react'
-import { generateBiomassHeatmap, getBiomassUnits, getBiomassRange, EnvironmentalConditions } from '@/lib/biomass/response'
-import { getBiomassColor, generateColorScale } from '@/lib/biomass/colormap'
+import { useEffect, useRef, useState, useMemo } from 'react'
+import { BIOMASS_GRID_HEIGHT, BIOMASS_GRID_WIDTH, getBiomassUnits, getBiomassRange, EnvironmentalConditions } from '@/lib/biomass/response'
+import { generateColorScale } from '@/lib/biomass/colormap'
+import { GridField, maskField } from '@/lib/rasters/grid-field'
+import { categoryColor, getFieldColorMap, gridFieldToImageData } from '@/lib/rasters/grid-render'
+import { contourSegments } from '@/lib/rasters/contours'
+import { BATHYMETRY_NOTE } from '@/lib/rasters/bathymetry'
+import { useLakeGeometry } from '@/hooks/use-lake-geometry'
+import { useComputeTask } from '@/hooks/use-compute-task'
+import { useResponseGroups } from '@/hooks/use-parameters'
 
 interface BiomassHeatmapProps {
   groupId: string
-  env: EnvironmentalConditions
+  env?: EnvironmentalConditions // drives the response-model field when no grid is given
+  grid?: GridField | null // imported model field, drawn instead of the response model
   width?: number
   height?: number
   className?: string
 }
 
-export function BiomassHeatmap({ 
-  groupId, 
-  env, 
-  width = 500, 
-  height = 300, 
-  className = '' 
+export function BiomassHeatmap({
+  groupId,
+  env,
+  grid,
+  width = 500,
+  height = 300,
+  className = ''
 }: BiomassHeatmapProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [heatmapData, setHeatmapData] = useState<number[][]>([])
-  const [isLoading, setIsLoading] = useState(false)
-
-  // Generate heatmap data with stable dependencies
-  const processedHeatmapData = useMemo(() => {
-    console.log('Generating biomass heatmap for:', groupId, env)
-    
-    try {
-      const result = generateBiomassHeatmap(groupId, env, width, height)
-      console.log('Biomass heatmap generated successfully:', result.length, 'rows')
-      return result
-    } catch (error) {
-      console.error('Error generating biomass heatmap:', error)
-      return null
-    }
-  }, [groupId, env.temperature, env.windSpeed, env.windDirection, env.light, env.phosphorus, env.nitrogen, env.silicon, env.depth, env.month, width, height])
-
-  // Update heatmap data with debounce
+  const [modelField, setModelField] = useState<GridField | null>(null)
+  const [isDebouncing, setIsDebouncing] = useState(false)
+  const { lake } = useLakeGeometry()
+  const { run, isRunning, progress, error } = useComputeTask()
+  const group = useResponseGroups()[groupId]
+
+  // Response-model field, computed in the worker; a change mid-run supersedes the running job
   useEffect(() => {
-    if (!processedHeatmapData) {
-      console.log('No processed heatmap data available')
-      return
-    }
-    
-    console.log('Setting loading to true, heatmap data:', processedHeatmapData.length, 'rows')
-    setIsLoading(true)
-    
+    if (grid || !env || !group) return
+    setIsDebouncing(true)
+
     // Debounce to prevent constant recalculation
     const timer = setTimeout(() => {
-      console.log('Setting heatmap data after timeout')
-      setHeatmapData(processedHeatmapData)
-      setIsLoading(false)
-    }, 300) // Increased debounce time
+      setIsDebouncing(false)
+      run({ kind: 'biomass-field', group, env, width: BIOMASS_GRID_WIDTH, height: BIOMASS_GRID_HEIGHT, lake })
+        .then(field => {
+          if (field) setModelField(field)
+        })
+    }, 300)
 
     return () => clearTimeout(timer)
-  }, [processedHeatmapData])
+  }, [group, grid, lake, run, env?.temperature, env?.windSpeed, env?.windDirection, env?.cloudCover, env?.kd, env?.chlorophyll, env?.phosphorus, env?.nitrogen, env?.silicon, env?.depth, env?.month, env?.seed])
+
+  // Imported grids are clipped to the shoreline like the model field
+  const clippedGrid = useMemo(() => (grid ? maskField(grid, lake.polygons) : null), [grid, lake])
+  const isLoading = isDebouncing || isRunning
+
+  const field = clippedGrid ?? modelField
 
-  // Render heatmap to canvas
+  // Legend range and units come from the grid when one is shown
+  const [minValue, maxValue] = grid ? [grid.min, grid.max] : getBiomassRange(groupId)
+  const units = grid ? grid.units : getBiomassUnits(groupId)
+
+  // Render the field to canvas; nodata cells stay transparent
   useEffect(() => {
-    console.log('Canvas render effect triggered. Heatmap data length:', heatmapData.length, 'Canvas ref:', !!canvasRef.current)
-    
-    if (!heatmapData.length || !canvasRef.current) {
-      console.log('Skipping canvas render - no data or canvas')
-      return
-    }
+    if (!field || !canvasRef.current) return
 
     const canvas = canvasRef.current
     const ctx = canvas.getContext('2d')
-    if (!ctx) {
-      console.error('Could not get canvas context')
-      return
-    }
-    
-    console.log('Rendering heatmap to canvas with dimensions:', width, 'x', height)
-
-    // Set canvas size
+    if (!ctx) return
+
     canvas.width = width
     canvas.height = height
+    ctx.putImageData(
+      gridFieldToImageData(field, width, height, { min: minValue, max: maxValue }, grid ? getFieldColorMap(grid) : 'biomass'),
+      0,
+      0
+    )
 
-    // Get biomass range for color scaling
-    const [minBiomass, maxBiomass] = getBiomassRange(groupId)
-    
-    // Create image data
-    const imageData = ctx.createImageData(width, height)
-    const data = imageData.data
-
-    // Fill image data with biomass colors
-    for (let j = 0; j < height; j++) {
-      for (let i = 0; i < width; i++) {
-        const biomass = heatmapData[j]?.[i] || 0
-        const color = getBiomassColor(biomass, minBiomass, maxBiomass)
-        
-        // Parse RGB color
-        const rgb = color.match(/\d+/g)
-        if (rgb && rgb.length >= 3) {
-          const index = (j * width + i) * 4
-          data[index] = parseInt(rgb[0])     // Red
-          data[index + 1] = parseInt(rgb[1]) // Green
-          data[index + 2] = parseInt(rgb[2]) // Blue
-          data[index + 3] = 255              // Alpha
-        }
-      }
-    }
-
-    // Draw image data to canvas
-    ctx.putImageData(imageData, 0, 0)
-
-    // Add contour lines if needed
-    drawContourLines(ctx, heatmapData, minBiomass, maxBiomass, width, height)
-
-  }, [heatmapData, width, height, groupId])
-
-  // Draw contour lines for biomass levels
+    // Add contour lines if needed; classes of a categorical field have no levels
+    if (!field.categories) drawContourLines(ctx, field, minValue, maxValue, width, height)
+  }, [field, grid, width, height, minValue, maxValue])
+
+  // Draw contour lines for biomass levels, tracing cell centres and scaling to the canvas
   const drawContourLines = (
     ctx: CanvasRenderingContext2D,
-    data: number[][],
+    data: GridField,
     min: number,
     max: number,
     width: number,
     height: number
   ) => {
     const contourLevels = [0.1, 0.3, 0.5, 0.7, 0.9] // Relative levels
-    
+    const scaleX = width / data.width
+    const scaleY = height / data.height
+
     ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)'
     ctx.lineWidth = 1
-    
+
     contourLevels.forEach(level => {
-      const threshold = min + level * (max - min)
-      
       ctx.beginPath()
-      let hasPath = false
-      
-      for (let j = 0; j < height - 1; j++) {
-        for (let i = 0; i < width - 1; i++) {
-          const val = data[j]?.[i] || 0
-          
-          if (val >= threshold && !hasPath) {
-            ctx.moveTo(i, j)
-            hasPath = true
-          } else if (val < threshold && hasPath) {
-            ctx.lineTo(i, j)
-            hasPath = false
-          }
-        }
-      }
-      
-      if (hasPath) {
-        ctx.stroke()
-      }
+      contourSegments(data, min + level * (max - min)).forEach(([[x1, y1], [x2, y2]]) => {
+        ctx.moveTo(x1 * scaleX, y1 * scaleY)
+        ctx.lineTo(x2 * scaleX, y2 * scaleY)
+      })
+      ctx.stroke()
     })
   }
 
   // Get color scale for legend
-  const colorScale = useMemo(() => {
-    const [min, max] = getBiomassRange(groupId)
-    return generateColorScale(min, max, 8, 'biomass')
-  }, [groupId])
+  const colorScale = useMemo(
+    () => generateColorScale(minValue, maxValue, 8, grid ? getFieldColorMap(grid) : 'biomass'),
+    [minValue, maxValue, grid]
+  )
 
-  if (isLoading) {
+  if (isLoading && !grid) {
     return (
-      <div className={`flex items-center justify-center bg-gray-100 rounded-lg ${className}`} 
+      <div className={`flex items-center justify-center bg-gray-100 rounded-lg ${className}`}
            style={{ width, height }}>
         <div className="text-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
-          <p className="text-sm text-gray-600">Computing biomass...</p>
-          <p className="text-xs text-gray-500 mt-1">Check console for debug info</p>
+          <p className="text-sm text-gray-600">
+            Computing biomass{isRunning ? ` ${Math.round(progress * 100)}%` : '...'}
+          </p>
         </div>
       </div>
     )
@@ -177,27 +134,41 @@ export function BiomassHeatmap({
         height={height}
         className="w-full h-full rounded-lg border border-gray-200"
       />
-      
+      {error && !grid && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
       {/* Legend */}
-      <div className="mt-3">
-        <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
-          <span>Biomass ({getBiomassUnits(groupId)})</span>
-          <span>{getBiomassRange(groupId)[1].toFixed(3)}</span>
-        </div>
-        <div className="flex h-3 rounded overflow-hidden">
-          {colorScale.map((item, index) => (
-            <div
-              key={index}
-              className="flex-1"
-              style={{ backgroundColor: item.color }}
-              title={`${item.value.toFixed(3)} ${getBiomassUnits(groupId)}`}
-            />
+      {grid?.categories ? (
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          <span>{grid.name}</span>
+          {grid.categories.map((category, index) => (
+            <span key={category} className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: categoryColor(index) }} />
+              {category}
+            </span>
           ))}
         </div>
-        <div className="text-xs text-gray-500 mt-1">
-          Min: {getBiomassRange(groupId)[0].toFixed(3)}
+      ) : (
+        <div className="mt-3">
+          <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+            <span>{grid ? grid.name : 'Biomass'} ({units})</span>
+            <span>{maxValue.toFixed(3)}</span>
+          </div>
+          <div className="flex h-3 rounded overflow-hidden">
+            {colorScale.map((item, index) => (
+              <div
+                key={index}
+                className="flex-1"
+                style={{ backgroundColor: item.color }}
+                title={`${item.value.toFixed(3)} ${units}`}
+              />
+            ))}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            Min: {minValue.toFixed(3)}
+          </div>
+          {!grid && <div className="text-xs text-gray-500 mt-1">Water depth per cell: {BATHYMETRY_NOTE.toLowerCase()}</div>}
         </div>
-      </div>
+      )}
     </div>
   )
 }
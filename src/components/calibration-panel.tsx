@@ -0,0 +1,357 @@
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Crosshair, Save, Square, Upload } from 'lucide-react'
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import dayjs from 'dayjs'
+import { useKinneretStore, useTimeSeries } from '@/store/kinneret-store'
+import { ForcingSeries, GroupParams, Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import {
+  CalibrationMethod,
+  CalibrationObjective,
+  CalibrationResult,
+  DEFAULT_CALIBRATION_WEIGHTS,
+  FreeParameter,
+  parameterBounds,
+} from '@/lib/model/calibration'
+import { fixesNitrogen } from '@/lib/model/npz'
+import { useComputeTask } from '@/hooks/use-compute-task'
+import { FigureFrame } from '@/components/figure-frame'
+
+interface CalibrationPanelProps {
+  groups: Record<PhytoplanktonGroup, GroupParams> // starting values, usually the scenario sliders
+  nutrients: Nutrients
+  forcing?: ForcingSeries // of the scenario; absent for the baseline
+  labels: Record<PhytoplanktonGroup, string>
+  onApply: (groups: Record<PhytoplanktonGroup, GroupParams>) => void
+}
+
+const PARAM_NAMES: Array<keyof GroupParams> = ['mu', 'KsP', 'KsN', 'KsFe', 'KsSi', 'Rnp', 'Rsip', 'Rfep']
+
+const inputClassName = 'w-full px-2 py-1 text-xs border border-input rounded-md bg-background font-mono focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent'
+
+type Bounds = { min: string; max: string }
+
+const freeKey = (group: PhytoplanktonGroup, param: keyof GroupParams) => `${group}.${param}`
+
+const formatValue = (value: number) => (Number.isFinite(value) ? Number(value.toPrecision(3)).toString() : '—')
+
+export function CalibrationPanel({ groups, nutrients, forcing, labels, onApply }: CalibrationPanelProps) {
+  const timeSeriesData = useTimeSeries()
+  const updateGroupParams = useKinneretStore(state => state.updateGroupParams)
+  const { run, cancel, isRunning, progress, error } = useComputeTask()
+
+  const [method, setMethod] = useState<CalibrationMethod>('nelder-mead')
+  const [objective, setObjective] = useState<CalibrationObjective>('rmse')
+  const [maxEvaluations, setMaxEvaluations] = useState('300')
+  const [free, setFree] = useState<Record<string, Bounds>>(() => {
+    const [min, max] = parameterBounds('mu')
+    return { [freeKey('microcystis', 'mu')]: { min: String(min), max: String(max) } }
+  })
+  const [weights, setWeights] = useState(DEFAULT_CALIBRATION_WEIGHTS)
+  const [result, setResult] = useState<CalibrationResult | null>(null)
+  const [overlayGroup, setOverlayGroup] = useState<PhytoplanktonGroup>('microcystis')
+  const [saved, setSaved] = useState(false)
+
+  const toggleFree = (group: PhytoplanktonGroup, param: keyof GroupParams, enabled: boolean) => {
+    setFree(prev => {
+      const next = { ...prev }
+      if (enabled) {
+        const [min, max] = parameterBounds(param)
+        next[freeKey(group, param)] = { min: String(min), max: String(max) }
+      } else {
+        delete next[freeKey(group, param)]
+      }
+      return next
+    })
+  }
+
+  const setBound = (key: string, bound: keyof Bounds, value: string) => {
+    setFree(prev => ({ ...prev, [key]: { ...prev[key], [bound]: value } }))
+  }
+
+  const freeParameters = useMemo<FreeParameter[]>(() =>
+    PHYTOPLANKTON_GROUPS.flatMap(group => PARAM_NAMES.flatMap(param => {
+      const bounds = free[freeKey(group, param)]
+      return bounds ? [{ group, param, min: Number(bounds.min), max: Number(bounds.max) }] : []
+    })),
+  [free])
+
+  const runCalibration = async () => {
+    setSaved(false)
+    const calibration = await run({
+      kind: 'calibration',
+      options: {
+        model: { groups, nutrients, forcing },
+        observations: timeSeriesData,
+        free: freeParameters,
+        method,
+        objective,
+        weights,
+        maxEvaluations: Math.max(10, Math.round(Number(maxEvaluations) || 300)),
+        seed: 1,
+      },
+    })
+    if (calibration) {
+      setResult(calibration)
+      setOverlayGroup(calibration.free[0]?.group ?? overlayGroup)
+    }
+  }
+
+  // Fitted values go into the parameter registry, recorded as a calibration
+  const saveToRegistry = () => {
+    if (!result) return
+    const byGroup = new Map<PhytoplanktonGroup, Partial<GroupParams>>()
+    result.free.forEach(({ group, param }, i) => {
+      byGroup.set(group, { ...byGroup.get(group), [param]: result.fittedValues[i] })
+    })
+    const note = `${result.method} fit, ${result.objective === 'log' ? 'log-error' : 'weighted'} RMSE ${result.before.objective.toPrecision(3)} → ${result.after.objective.toPrecision(3)}`
+    byGroup.forEach((params, group) => updateGroupParams(group, params, { source: 'Calibration', note }))
+    setSaved(true)
+  }
+
+  // Daily model trajectories before and after, with the observations on their dates
+  const overlayData = useMemo(() => {
+    if (!result) return []
+    const observed = new Map(timeSeriesData.map(point => [point.date, point[overlayGroup]]))
+    return result.dates.map((date, i) => ({
+      date: dayjs(date).format('MMM D'),
+      initial: result.initial[overlayGroup][i],
+      fitted: result.fitted[overlayGroup][i],
+      observed: observed.get(date) ?? null,
+    }))
+  }, [result, overlayGroup, timeSeriesData])
+
+  const objectiveLabel = objective === 'log' ? 'log-error RMSE' : 'weighted RMSE (mmol P/m³)'
+
+  return (
+    <Card className="responsive-card mb-8">
+      <CardHeader className="pb-4">
+        <CardTitle className="responsive-heading flex items-center gap-2">
+          <Crosshair className="h-5 w-5" />
+          Calibration
+        </CardTitle>
+        <CardDescription className="responsive-text">
+          Fit the chosen group parameters to the active dataset's time series, starting from the slider values
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Optimiser
+            <Select value={method} onValueChange={value => setMethod(value as CalibrationMethod)}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="nelder-mead">Nelder–Mead (local)</SelectItem>
+                <SelectItem value="differential-evolution">Differential evolution (global)</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Objective
+            <Select value={objective} onValueChange={value => setObjective(value as CalibrationObjective)}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rmse">Weighted RMSE</SelectItem>
+                <SelectItem value="log">Log error</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Model evaluations
+            <input
+              type="number"
+              min={10}
+              step={50}
+              value={maxEvaluations}
+              onChange={e => setMaxEvaluations(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        {/* Free parameters and their bounds */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Group</th>
+                <th className="text-right p-2 font-medium">Weight</th>
+                {PARAM_NAMES.map(param => (
+                  <th key={param} className="text-left p-2 font-medium">{param}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PHYTOPLANKTON_GROUPS.map(group => (
+                <tr key={group} className="border-b align-top">
+                  <td className="p-2">{labels[group]}</td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={weights[group]}
+                      onChange={e => setWeights(prev => ({ ...prev, [group]: Math.max(0, Number(e.target.value) || 0) }))}
+                      className={`${inputClassName} w-16`}
+                      aria-label={`Weight of ${labels[group]}`}
+                    />
+                  </td>
+                  {PARAM_NAMES.map(param => {
+                    const key = freeKey(group, param)
+                    const bounds = free[key]
+                    // KsN = 0 marks an N-fixer, so it is not a free parameter for one
+                    if (param === 'KsN' && fixesNitrogen(groups[group])) {
+                      return <td key={param} className="p-2 text-muted-foreground">N-fixer</td>
+                    }
+                    return (
+                      <td key={param} className="p-2 space-y-1 min-w-[90px]">
+                        <label className="flex items-center gap-1">
+                          <Checkbox
+                            checked={Boolean(bounds)}
+                            onCheckedChange={checked => toggleFree(group, param, checked === true)}
+                            aria-label={`Calibrate ${param} of ${labels[group]}`}
+                          />
+                          <span className="font-mono">{formatValue(groups[group][param])}</span>
+                        </label>
+                        {bounds && (
+                          <div className="flex gap-1">
+                            <input value={bounds.min} onChange={e => setBound(key, 'min', e.target.value)} className={inputClassName} aria-label={`Lower bound of ${param}`} />
+                            <input value={bounds.max} onChange={e => setBound(key, 'max', e.target.value)} className={inputClassName} aria-label={`Upper bound of ${param}`} />
+                          </div>
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button size="sm" onClick={isRunning ? cancel : runCalibration} disabled={!isRunning && freeParameters.length === 0}>
+            {isRunning ? <Square className="mr-2 h-4 w-4" /> : <Crosshair className="mr-2 h-4 w-4" />}
+            {isRunning ? `Calibrating ${Math.round(progress * 100)}% · Cancel` : `Calibrate ${freeParameters.length} parameter${freeParameters.length === 1 ? '' : 's'}`}
+          </Button>
+          {result && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => onApply(result.groups)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Apply to sliders
+              </Button>
+              <Button size="sm" variant="outline" onClick={saveToRegistry} disabled={saved}>
+                <Save className="mr-2 h-4 w-4" />
+                {saved ? 'Saved' : 'Save to parameters'}
+              </Button>
+            </>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+        {result && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant="outline">{result.method === 'nelder-mead' ? 'Nelder–Mead' : 'Differential evolution'}</Badge>
+              <Badge variant="outline">{result.evaluations} evaluations</Badge>
+              <Badge variant={result.converged ? 'default' : 'secondary'}>{result.converged ? 'Converged' : 'Evaluation budget reached'}</Badge>
+              <Badge variant="outline">
+                {objectiveLabel}: {formatValue(result.before.objective)} → {formatValue(result.after.objective)}
+              </Badge>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 font-medium">Parameter</th>
+                    <th className="text-right p-2 font-medium">Bounds</th>
+                    <th className="text-right p-2 font-medium">Initial</th>
+                    <th className="text-right p-2 font-medium">Fitted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.free.map(({ group, param, min, max }, i) => (
+                    <tr key={freeKey(group, param)} className="border-b">
+                      <td className="p-2">{labels[group]} · {param}</td>
+                      <td className="p-2 text-right font-mono">{min}–{max}</td>
+                      <td className="p-2 text-right font-mono">{formatValue(result.initialValues[i])}</td>
+                      <td className="p-2 text-right font-mono">{formatValue(result.fittedValues[i])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 font-medium">Group</th>
+                    <th className="text-right p-2 font-medium">n</th>
+                    <th className="text-right p-2 font-medium">RMSE before → after</th>
+                    <th className="text-right p-2 font-medium">Bias before → after</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {PHYTOPLANKTON_GROUPS.map(group => (
+                    <tr key={group} className="border-b">
+                      <td className="p-2">{labels[group]}</td>
+                      <td className="p-2 text-right font-mono">{result.after.groups[group].n}</td>
+                      <td className="p-2 text-right font-mono">
+                        {formatValue(result.before.groups[group].rmse)} → {formatValue(result.after.groups[group].rmse)}
+                      </td>
+                      <td className="p-2 text-right font-mono">
+                        {formatValue(result.before.groups[group].bias)} → {formatValue(result.after.groups[group].bias)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">Overlay group</span>
+              <Select value={overlayGroup} onValueChange={value => setOverlayGroup(value as PhytoplanktonGroup)}>
+                <SelectTrigger className="h-8 w-48 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PHYTOPLANKTON_GROUPS.map(group => (
+                    <SelectItem key={group} value={group}>{labels[group]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <FigureFrame
+              title={`Calibration of ${labels[overlayGroup]}`}
+              subtitle={`${result.dates[0]} to ${result.dates[result.dates.length - 1]}, before and after fitting`}
+              caption={`Model biomass with the initial and fitted parameters against the observations; ${objectiveLabel} ${formatValue(result.before.objective)} → ${formatValue(result.after.objective)}.`}
+              units="mmol P/m³"
+              source="Kinneret NPZ model, active dataset"
+              pageName="scenarios"
+              figureKey={`calibration-${overlayGroup}`}
+              supportsSVG={true}
+            >
+              <div className="h-[300px] min-w-[360px] w-full" role="img" aria-label="Model before and after calibration against observations">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={overlayData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" minTickGap={24} />
+                    <YAxis domain={[0, 'auto']} />
+                    <Tooltip formatter={value => (typeof value === 'number' ? value.toPrecision(3) : '—')} />
+                    <Legend />
+                    <Line type="monotone" dataKey="initial" name="Before" stroke="#9CA3AF" strokeDasharray="5 5" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="fitted" name="After" stroke="#2563EB" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line dataKey="observed" name="Observed" stroke="none" dot={{ r: 4, fill: '#EF4444' }} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </FigureFrame>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle, Trash2 } from 'lucide-react'
+import { useKinneretStore } from '@/store/kinneret-store'
+import { DEFAULT_DATASET_ID } from '@/lib/datasets'
+import { formatDate } from '@/lib/localization'
+import { getDepths, getStations } from '@/lib/observations'
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent'
+
+export function DatasetManager() {
+  const datasets = useKinneretStore(state => state.datasets)
+  const activeDatasetId = useKinneretStore(state => state.activeDatasetId)
+  const { setActiveDataset, renameDataset, updateDatasetMetadata, deleteDataset } = useKinneretStore()
+
+  const activeDataset = datasets.find(dataset => dataset.id === activeDatasetId)
+
+  // Local draft so edits are only committed on save
+  const [draft, setDraft] = useState({ name: '', source: '', units: '', description: '' })
+
+  useEffect(() => {
+    if (!activeDataset) return
+    setDraft({
+      name: activeDataset.name,
+      source: activeDataset.metadata.source,
+      units: activeDataset.metadata.units,
+      description: activeDataset.metadata.description ?? '',
+    })
+  }, [activeDataset])
+
+  const saveMetadata = () => {
+    if (!activeDataset) return
+    renameDataset(activeDataset.id, draft.name)
+    updateDatasetMetadata(activeDataset.id, {
+      source: draft.source,
+      units: draft.units,
+      description: draft.description || undefined,
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Datasets</CardTitle>
+        <CardDescription>
+          Each upload is kept as its own named dataset; pick the active one here or in the header
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="divide-y rounded-lg border">
+          {datasets.map(dataset => {
+            const isActive = dataset.id === activeDatasetId
+            return (
+              <li key={dataset.id} className="flex items-center justify-between gap-2 p-2 sm:p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium">{dataset.name}</span>
+                    <Badge variant={dataset.origin === 'uploaded' ? 'default' : 'outline'} className="text-xs">
+                      {dataset.origin === 'uploaded' ? 'Uploaded' : 'Default'}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {dataset.timeseries.length} rows · {dataset.metadata.source} · {dataset.metadata.units} · {formatDate(dataset.metadata.createdAt)}
+                  </p>
+                  {dataset.observations && dataset.observations.length > 0 && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      {dataset.observations.length} observations · {getStations(dataset.observations).length} stations · {getDepths(dataset.observations).length} depths
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-shrink-0 gap-1">
+                  <Button
+                    variant={isActive ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setActiveDataset(dataset.id)}
+                    disabled={isActive}
+                    className="text-xs"
+                  >
+                    {isActive ? <CheckCircle className="mr-1 h-3 w-3" /> : null}
+                    {isActive ? 'Active' : 'Activate'}
+                  </Button>
+                  {dataset.id !== DEFAULT_DATASET_ID && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteDataset(dataset.id)}
+                      aria-label={`Delete dataset ${dataset.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+
+        {activeDataset && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Active dataset metadata</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="space-y-1 text-xs text-muted-foreground">
+                Name
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="space-y-1 text-xs text-muted-foreground">
+                Source
+                <input
+                  type="text"
+                  value={draft.source}
+                  onChange={(e) => setDraft(prev => ({ ...prev, source: e.target.value }))}
+                  placeholder="Model run, monitoring year, station subset..."
+                  className={inputClassName}
+                />
+              </label>
+              <label className="space-y-1 text-xs text-muted-foreground">
+                Units
+                <input
+                  type="text"
+                  value={draft.units}
+                  onChange={(e) => setDraft(prev => ({ ...prev, units: e.target.value }))}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="space-y-1 text-xs text-muted-foreground">
+                Description
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+            <Button onClick={saveMetadata} size="sm" variant="outline" disabled={!draft.name.trim()}>
+              Save metadata
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
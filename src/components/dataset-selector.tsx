@@ -0,0 +1,59 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useKinneretStore } from '@/store/kinneret-store'
+
+const NO_COMPARISON = 'none'
+
+interface DatasetSelectorProps {
+  className?: string
+}
+
+// Active dataset picker shown in the header
+export function DatasetSelector({ className = '' }: DatasetSelectorProps) {
+  const datasets = useKinneretStore(state => state.datasets)
+  const activeDatasetId = useKinneretStore(state => state.activeDatasetId)
+  const setActiveDataset = useKinneretStore(state => state.setActiveDataset)
+
+  return (
+    <Select value={activeDatasetId} onValueChange={setActiveDataset}>
+      <SelectTrigger className={`h-9 w-48 text-sm ${className}`} aria-label="Active dataset">
+        <SelectValue placeholder="Select dataset" />
+      </SelectTrigger>
+      <SelectContent>
+        {datasets.map(dataset => (
+          <SelectItem key={dataset.id} value={dataset.id}>
+            {dataset.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+// Second dataset to compare against the active one (Statistics, Dashboard)
+export function DatasetCompareSelect({ className = '' }: DatasetSelectorProps) {
+  const datasets = useKinneretStore(state => state.datasets)
+  const activeDatasetId = useKinneretStore(state => state.activeDatasetId)
+  const comparisonDatasetId = useKinneretStore(state => state.comparisonDatasetId)
+  const setComparisonDataset = useKinneretStore(state => state.setComparisonDataset)
+
+  return (
+    <Select
+      value={comparisonDatasetId ?? NO_COMPARISON}
+      onValueChange={(value) => setComparisonDataset(value === NO_COMPARISON ? null : value)}
+    >
+      <SelectTrigger className={`h-9 w-56 text-sm ${className}`} aria-label="Comparison dataset">
+        <SelectValue placeholder="Compare with..." />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_COMPARISON}>No comparison</SelectItem>
+        {datasets
+          .filter(dataset => dataset.id !== activeDatasetId)
+          .map(dataset => (
+            <SelectItem key={dataset.id} value={dataset.id}>
+              {dataset.name}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  )
+}
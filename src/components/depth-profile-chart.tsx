@@ -1,15 +1,26 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { BarChart3, Grid3X3 } from 'lucide-react'
 import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts'
+import { PhytoplanktonGroup } from '@/lib/schemas'
+import { depthTimeMatrix, monthlyProfiles } from '@/lib/model/water-column'
+import { useWaterColumn } from '@/hooks/use-water-column'
 
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Heatmap rows: 2 m bins from the surface to 40 m
+const BIN_SIZE = 2
+const BIN_COUNT = 20
 
 export function DepthProfileChart() {
-  const [selectedGroup, setSelectedGroup] = useState('diatoms')
+  const [selectedGroup, setSelectedGroup] = useState<PhytoplanktonGroup>('diatom')
   const [viewMode, setViewMode] = useState<'heatmap' | 'profile'>('heatmap')
+  const [selectedMonth, setSelectedMonth] = useState<number | null>(null)
+  const { result: column, isRunning, progress, error } = useWaterColumn()
 
-  const groups = [
-    { id: 'diatoms', name: 'Diatoms', color: '#3B82F6' },
+  const groups: Array<{ id: PhytoplanktonGroup; name: string; color: string }> = [
+    { id: 'diatom', name: 'Diatoms', color: '#3B82F6' },
     { id: 'dinoflagellates', name: 'Dinoflagellates', color: '#10B981' },
     { id: 'small_phyto', name: 'Small Phytoplankton', color: '#F59E0B' },
     { id: 'n_fixers', name: 'N-fixing Cyanobacteria', color: '#EF4444' },
@@ -18,117 +29,44 @@ export function DepthProfileChart() {
 
   const selectedGroupData = groups.find(g => g.id === selectedGroup)
 
-  // Generate realistic depth profile data based on research patterns
-  const generateDepthProfileData = () => {
-    const depths = Array.from({ length: 20 }, (_, i) => -(i + 1) * 2) // 0 to -40m in 2m steps
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
-    
-    // Use a fixed month for depth profile (e.g., peak bloom month for each group)
-    let monthIndex = 3 // Default to April
-    if (selectedGroup === 'diatoms') {
-      monthIndex = 3 // Spring bloom
-    } else if (selectedGroup === 'dinoflagellates') {
-      monthIndex = 1 // Winter bloom
-    } else if (selectedGroup === 'small_phyto') {
-      monthIndex = 5 // Summer peak
-    } else if (selectedGroup === 'n_fixers') {
-      monthIndex = 7 // Summer bloom
-    } else if (selectedGroup === 'microcystis') {
-      monthIndex = 3 // Winter bloom
-    }
-    
-    return depths.map(depth => {
-      let concentration = 0
-      
-      if (selectedGroup === 'diatoms') {
-        // Spring and autumn blooms - higher concentration in upper 20m
-        if ((monthIndex >= 2 && monthIndex <= 4) || (monthIndex >= 8 && monthIndex <= 10)) {
-          concentration = Math.max(0, 0.05 * Math.exp(-Math.abs(depth) / 10) * (1 + 0.5 * Math.sin(monthIndex * Math.PI / 6)))
-        } else {
-          // Background concentration even outside bloom periods
-          concentration = Math.max(0, 0.005 * Math.exp(-Math.abs(depth) / 15))
-        }
-      } else if (selectedGroup === 'dinoflagellates') {
-        // Winter/early spring and late summer/autumn - deeper distribution
-        if (monthIndex <= 2 || (monthIndex >= 7 && monthIndex <= 10)) {
-          concentration = Math.max(0, 0.05 * Math.exp(-Math.abs(depth) / 15) * (1 + 0.3 * Math.sin(monthIndex * Math.PI / 6)))
-        } else {
-          concentration = Math.max(0, 0.003 * Math.exp(-Math.abs(depth) / 20))
-        }
-      } else if (selectedGroup === 'small_phyto') {
-        // Year-round with peaks in spring and summer - shallow distribution
-        concentration = Math.max(0, 0.01 * Math.exp(-Math.abs(depth) / 8) * (1 + 0.4 * Math.sin(monthIndex * Math.PI / 6)))
-      } else if (selectedGroup === 'n_fixers') {
-        // Summer bloom (July-September) - moderate depth
-        if (monthIndex >= 6 && monthIndex <= 8) {
-          concentration = Math.max(0, 0.004 * Math.exp(-Math.abs(depth) / 12) * (1 + 0.6 * Math.sin((monthIndex - 6) * Math.PI / 3)))
-        } else {
-          concentration = Math.max(0, 0.0005 * Math.exp(-Math.abs(depth) / 25))
-        }
-      } else if (selectedGroup === 'microcystis') {
-        // Winter bloom (March-May) - shallow distribution
-        if (monthIndex >= 2 && monthIndex <= 4) {
-          concentration = Math.max(0, 0.05 * Math.exp(-Math.abs(depth) / 10) * (1 + 0.5 * Math.sin((monthIndex - 2) * Math.PI / 3)))
-        } else {
-          concentration = Math.max(0, 0.002 * Math.exp(-Math.abs(depth) / 18))
-        }
-      }
-      
-      return {
-        depth: depth,
-        concentration: concentration,
-        month: months[monthIndex]
-      }
-    }) // Keep all points, even zero concentrations for proper depth profile
-  }
+  // Monthly mean profiles of the selected group from the water-column model
+  const profiles = useMemo(
+    () => (column ? monthlyProfiles(column, column.biomass[selectedGroup]) : []),
+    [column, selectedGroup]
+  )
 
-  const generateHeatmapData = () => {
-    const depths = Array.from({ length: 20 }, (_, i) => -(i + 1) * 2) // 0 to -40m in 2m steps
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
-    
-    // Create a 2D grid for true heatmap
-    const heatmapGrid: number[][] = []
-    
-    depths.forEach((depth) => {
-      const row: number[] = []
-      months.forEach((_, monthIndex) => {
-        let value = 0
-        
-        if (selectedGroup === 'diatoms') {
-          // Spring and autumn blooms
-          if ((monthIndex >= 2 && monthIndex <= 4) || (monthIndex >= 8 && monthIndex <= 10)) {
-            value = Math.max(0, 0.05 * Math.exp(-Math.abs(depth) / 10) * (1 + 0.5 * Math.sin(monthIndex * Math.PI / 6)))
-          }
-        } else if (selectedGroup === 'dinoflagellates') {
-          // Winter/early spring and late summer/autumn
-          if (monthIndex <= 2 || (monthIndex >= 7 && monthIndex <= 10)) {
-            value = Math.max(0, 0.05 * Math.exp(-Math.abs(depth) / 15) * (1 + 0.3 * Math.sin(monthIndex * Math.PI / 6)))
-          }
-        } else if (selectedGroup === 'small_phyto') {
-          // Year-round with peaks in spring and summer
-          value = Math.max(0, 0.01 * Math.exp(-Math.abs(depth) / 8) * (1 + 0.4 * Math.sin(monthIndex * Math.PI / 6)))
-        } else if (selectedGroup === 'n_fixers') {
-          // Summer bloom (July-September)
-          if (monthIndex >= 6 && monthIndex <= 8) {
-            value = Math.max(0, 0.004 * Math.exp(-Math.abs(depth) / 12) * (1 + 0.6 * Math.sin((monthIndex - 6) * Math.PI / 3)))
-          }
-        } else if (selectedGroup === 'microcystis') {
-          // Winter bloom (March-May)
-          if (monthIndex >= 2 && monthIndex <= 4) {
-            value = Math.max(0, 0.05 * Math.exp(-Math.abs(depth) / 10) * (1 + 0.5 * Math.sin((monthIndex - 2) * Math.PI / 3)))
-          }
-        }
-        
-        row.push(value)
-      })
-      heatmapGrid.push(row)
+  // Until a month is picked, show the month with the largest column biomass
+  const peakMonth = useMemo(() => {
+    let peak = 0
+    let peakTotal = -Infinity
+    profiles.forEach((profile, month) => {
+      const total = profile ? profile.reduce((sum, value) => sum + value, 0) : -Infinity
+      if (total > peakTotal) {
+        peak = month
+        peakTotal = total
+      }
     })
-    
-    return { grid: heatmapGrid, depths, months }
-  }
+    return peak
+  }, [profiles])
+  const monthIndex = selectedMonth ?? peakMonth
 
-  const depthProfileData = generateDepthProfileData()
-  const heatmapData = generateHeatmapData()
+  const depthProfileData = useMemo(() => {
+    const profile = profiles[monthIndex]
+    if (!column || !profile) return []
+    return Array.from(column.depths, (depth, i) => ({
+      depth: -depth,
+      concentration: profile[i],
+      month: MONTHS[monthIndex]
+    }))
+  }, [column, profiles, monthIndex])
+
+  const heatmapData = useMemo(() => {
+    const depths = Array.from({ length: BIN_COUNT }, (_, i) => -(i + 1) * BIN_SIZE)
+    const grid = column
+      ? depthTimeMatrix(column, column.biomass[selectedGroup], BIN_SIZE, BIN_COUNT).map(row => row.map(value => (Number.isFinite(value) ? value : 0)))
+      : depths.map(() => MONTHS.map(() => 0))
+    return { grid, depths, months: MONTHS, max: Math.max(...grid.flat()) }
+  }, [column, selectedGroup])
 
   return (
     <div className="space-y-2">
@@ -139,7 +77,10 @@ export function DepthProfileChart() {
               key={group.id}
               variant={selectedGroup === group.id ? 'default' : 'outline'}
               size="sm"
-              onClick={() => setSelectedGroup(group.id)}
+              onClick={() => {
+                setSelectedGroup(group.id)
+                setSelectedMonth(null)
+              }}
               className="flex items-center gap-2"
             >
               <div 
@@ -171,8 +112,27 @@ export function DepthProfileChart() {
             <BarChart3 className="h-4 w-4" />
             Depth Profile
           </Button>
+          {viewMode === 'profile' && (
+            <Select value={String(monthIndex)} onValueChange={(value) => setSelectedMonth(Number(value))}>
+              <SelectTrigger className="w-28 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MONTHS.map((month, index) => (
+                  <SelectItem key={month} value={String(index)}>{month}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {isRunning && (
+            <span className="self-center text-xs text-muted-foreground">
+              Running water-column model… {Math.round(progress * 100)}%
+            </span>
+          )}
         </div>
 
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
         {/* Chart Area */}
         <div className="h-[70vh] border rounded-lg p-4 bg-muted/20">
           {viewMode === 'heatmap' ? (
@@ -185,7 +145,7 @@ export function DepthProfileChart() {
                   Depth: 0 to -40m | Time: January to December
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  Units: mmol P/m³ | Based on research data from Lake Kinneret
+                  Units: mmol P/m³ | 1D water-column model, monthly means
                 </div>
               </div>
               
@@ -210,8 +170,7 @@ export function DepthProfileChart() {
                       
                       {/* Heatmap cells */}
                       {row.map((value, monthIndex) => {
-                        const maxValue = Math.max(...heatmapData.grid.flat())
-                        const intensity = value / maxValue
+                        const intensity = heatmapData.max > 0 ? value / heatmapData.max : 0
                         const opacity = Math.max(0.1, intensity)
                         
                         return (
@@ -222,7 +181,7 @@ export function DepthProfileChart() {
                               backgroundColor: selectedGroupData?.color || '#3B82F6',
                               opacity: opacity,
                             }}
-                            title={`${heatmapData.months[monthIndex]}, ${heatmapData.depths[depthIndex]}m: ${value.toFixed(4)} mmol P/m³`}
+                            title={`${heatmapData.months[monthIndex]}, ${heatmapData.depths[depthIndex]}m: ${value.toPrecision(3)} mmol P/m³`}
                           />
                         )
                       })}
@@ -256,10 +215,10 @@ export function DepthProfileChart() {
                   {selectedGroupData?.name} Depth Profile
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  Concentration vs Depth (0 to -40m) - {depthProfileData[0]?.month || 'Peak Season'}
+                  Concentration vs Depth (0 to -40m) - {MONTHS[monthIndex]}{selectedMonth === null ? ' (peak month)' : ''}
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  Units: mmol P/m³ | Seasonal patterns from research
+                  Units: mmol P/m³ | Monthly mean from the 1D water-column model
                 </div>
               </div>
               <ResponsiveContainer width="100%" height="80%">
@@ -276,7 +235,7 @@ export function DepthProfileChart() {
                   />
                   <Tooltip 
                     formatter={(value: number, name: string) => [
-                      `${value.toFixed(4)} mmol P/m³`, 
+                      `${value.toPrecision(3)} mmol P/m³`, 
                       name === 'concentration' ? 'Concentration' : name
                     ]}
                     labelFormatter={(label) => `Depth: ${label}m`}
@@ -296,9 +255,9 @@ export function DepthProfileChart() {
 
         {/* Research Notes */}
         <div className="text-xs text-muted-foreground space-y-1">
-          <div><strong>Research Pattern:</strong> {selectedGroupData?.name} - Seasonal patterns from research data</div>
-          <div><strong>Depth Range:</strong> Primarily upper 20m of water column</div>
-          <div><strong>Data Source:</strong> Lake Kinneret monitoring program, Station A</div>
+          <div><strong>Model:</strong> {selectedGroupData?.name} - clear-sky PAR reduced by clouds, chlorophyll-derived Kd and per-group P–I curves, seasonal thermocline, wind-driven diffusion and group sinking or buoyancy</div>
+          <div><strong>Depth Range:</strong> 40 m column in 1 m layers, shown in {BIN_SIZE} m bins</div>
+          <div><strong>Forcing:</strong> Climatological temperature, wind and cloud cover for Station A; group parameters from the active dataset</div>
         </div>
     </div>
   )
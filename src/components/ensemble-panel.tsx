@@ -0,0 +1,402 @@
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dices, Plus, Square, Trash2 } from 'lucide-react'
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import dayjs from 'dayjs'
+import { useTimeSeries } from '@/store/kinneret-store'
+import { GroupParams, Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { NpzRunOptions } from '@/lib/model/npz'
+import {
+  DEFAULT_ENSEMBLE_MEMBERS,
+  Distribution,
+  EnsembleResult,
+  ExceedanceThreshold,
+  UncertainTarget,
+  targetKey,
+} from '@/lib/model/ensemble'
+import { useComputeTask } from '@/hooks/use-compute-task'
+import { FigureFrame } from '@/components/figure-frame'
+
+interface EnsemblePanelProps {
+  model: Omit<NpzRunOptions, 'temperature'> // the current scenario
+  labels: Record<PhytoplanktonGroup, string>
+}
+
+// Editable rows keep their numbers as typed
+interface ParameterRow {
+  id: number
+  target: string // targetKey
+  kind: Distribution['kind']
+  a: string // min, mean or median
+  b: string // max, sd or sigma
+}
+
+interface ThresholdRow {
+  id: number
+  group: PhytoplanktonGroup
+  value: string
+  month: string // 0–11, or 'all'
+  statistic: ExceedanceThreshold['statistic']
+}
+
+const PARAM_NAMES: Array<keyof GroupParams> = ['mu', 'KsP', 'KsN', 'KsFe', 'KsSi', 'Rnp', 'Rsip', 'Rfep']
+const NUTRIENT_NAMES: Array<keyof Nutrients> = ['P', 'N', 'Si', 'Fe']
+
+const TARGETS: UncertainTarget[] = [
+  ...PHYTOPLANKTON_GROUPS.flatMap(group => PARAM_NAMES.map(param => ({ kind: 'group' as const, group, param }))),
+  ...NUTRIENT_NAMES.map(nutrient => ({ kind: 'nutrient' as const, nutrient })),
+  { kind: 'temperature' },
+]
+const TARGETS_BY_KEY = new Map(TARGETS.map(target => [targetKey(target), target]))
+
+const DISTRIBUTION_FIELDS: Record<Distribution['kind'], [string, string]> = {
+  uniform: ['Min', 'Max'],
+  normal: ['Mean', 'SD'],
+  lognormal: ['Median', 'σ (ln)'],
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+const inputClassName = 'w-full px-2 py-1 text-xs border border-input rounded-md bg-background font-mono focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent'
+
+const formatValue = (value: number) => (Number.isFinite(value) ? Number(value.toPrecision(3)).toString() : '—')
+
+const currentValue = (target: UncertainTarget, model: EnsemblePanelProps['model']) =>
+  target.kind === 'group' ? model.groups[target.group][target.param] : target.kind === 'nutrient' ? model.nutrients[target.nutrient] : 0
+
+// A distribution centred on the scenario value: ±10% (normal), ±20% (uniform) or σ = 0.2 (lognormal);
+// the temperature offset is centred on zero
+const defaultDistribution = (kind: Distribution['kind'], value: number, temperature: boolean): Pick<ParameterRow, 'a' | 'b'> => {
+  const spread = temperature ? 0.5 : Math.abs(value)
+  const fields: Record<Distribution['kind'], [number, number]> = {
+    uniform: [value - (temperature ? 1 : 0.2 * spread), value + (temperature ? 1 : 0.2 * spread)],
+    normal: [value, temperature ? spread : 0.1 * spread],
+    lognormal: [value, 0.2],
+  }
+  const [a, b] = fields[kind]
+  return { a: formatValue(a), b: formatValue(b) }
+}
+
+const toDistribution = ({ kind, a, b }: ParameterRow): Distribution => {
+  const first = Number(a)
+  const second = Number(b)
+  if (kind === 'uniform') return { kind, min: first, max: second }
+  if (kind === 'normal') return { kind, mean: first, sd: Math.max(0, second) }
+  return { kind, median: first, sigma: Math.max(0, second) }
+}
+
+export function EnsemblePanel({ model, labels }: EnsemblePanelProps) {
+  const timeSeriesData = useTimeSeries()
+  const { run, cancel, isRunning, progress, error } = useComputeTask()
+  const [members, setMembers] = useState(String(DEFAULT_ENSEMBLE_MEMBERS))
+  const [nextId, setNextId] = useState(4)
+  const [rows, setRows] = useState<ParameterRow[]>(() => [
+    { id: 1, target: 'microcystis.mu', kind: 'normal', ...defaultDistribution('normal', model.groups.microcystis.mu, false) },
+    { id: 2, target: 'nutrient.P', kind: 'lognormal', ...defaultDistribution('lognormal', model.nutrients.P, false) },
+    { id: 3, target: 'temperature', kind: 'normal', ...defaultDistribution('normal', 0, true) },
+  ])
+  const [thresholds, setThresholds] = useState<ThresholdRow[]>([
+    { id: 1, group: 'microcystis', value: '0.03', month: '7', statistic: 'peak' },
+  ])
+  const [result, setResult] = useState<EnsembleResult | null>(null)
+  const [chartGroup, setChartGroup] = useState<PhytoplanktonGroup>('microcystis')
+
+  const targetLabel = (target: UncertainTarget) =>
+    target.kind === 'group' ? `${labels[target.group]} · ${target.param}` : target.kind === 'nutrient' ? `Ambient ${target.nutrient} (μM)` : 'Temperature offset (°C)'
+
+  const updateRow = (id: number, patch: Partial<ParameterRow>) => {
+    setRows(prev => prev.map(row => {
+      if (row.id !== id) return row
+      const next = { ...row, ...patch }
+      // A new target or distribution starts from the scenario value
+      if (patch.target || patch.kind) {
+        const target = TARGETS_BY_KEY.get(next.target)
+        if (target) Object.assign(next, defaultDistribution(next.kind, currentValue(target, model), target.kind === 'temperature'))
+      }
+      return next
+    }))
+  }
+
+  const addRow = () => {
+    setRows(prev => [...prev, { id: nextId, target: 'diatom.mu', kind: 'normal', ...defaultDistribution('normal', model.groups.diatom.mu, false) }])
+    setNextId(id => id + 1)
+  }
+
+  const addThreshold = () => {
+    setThresholds(prev => [...prev, { id: nextId, group: 'diatom', value: '0.05', month: 'all', statistic: 'peak' }])
+    setNextId(id => id + 1)
+  }
+
+  const runMembers = async () => {
+    const ensemble = await run({
+      kind: 'ensemble',
+      options: {
+        model,
+        parameters: rows.flatMap(row => {
+          const target = TARGETS_BY_KEY.get(row.target)
+          return target ? [{ target, distribution: toDistribution(row) }] : []
+        }),
+        members: Math.min(1000, Math.max(2, Math.round(Number(members) || DEFAULT_ENSEMBLE_MEMBERS))),
+        thresholds: thresholds.map(({ group, value, month, statistic }) => ({
+          group,
+          value: Number(value) || 0,
+          month: month === 'all' ? null : Number(month),
+          statistic,
+        })),
+        seed: 1,
+      },
+    })
+    if (ensemble) setResult(ensemble)
+  }
+
+  // Median and the 50% and 90% envelopes of the chosen group, with the observations
+  const chartData = useMemo(() => {
+    if (!result) return []
+    const envelope = result.envelopes[chartGroup]
+    const observed = new Map(timeSeriesData.map(point => [point.date, point[chartGroup]]))
+    return result.dates.map((date, i) => ({
+      date: dayjs(date).format('MMM D'),
+      band90: [envelope.p05[i], envelope.p95[i]],
+      band50: [envelope.p25[i], envelope.p75[i]],
+      median: envelope.p50[i],
+      observed: observed.get(date) ?? null,
+    }))
+  }, [result, chartGroup, timeSeriesData])
+
+  return (
+    <Card className="responsive-card mb-8">
+      <CardHeader className="pb-4">
+        <CardTitle className="responsive-heading flex items-center gap-2">
+          <Dices className="h-5 w-5" />
+          Uncertainty Ensemble
+        </CardTitle>
+        <CardDescription className="responsive-text">
+          Draw uncertain parameters and forcing from distributions and run the scenario many times
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Uncertain input</th>
+                <th className="text-left p-2 font-medium">Distribution</th>
+                <th className="text-left p-2 font-medium" colSpan={2}>Parameters</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const [first, second] = DISTRIBUTION_FIELDS[row.kind]
+                return (
+                  <tr key={row.id} className="border-b">
+                    <td className="p-2 min-w-[200px]">
+                      <Select value={row.target} onValueChange={value => updateRow(row.id, { target: value })}>
+                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {TARGETS.map(target => (
+                            <SelectItem key={targetKey(target)} value={targetKey(target)}>{targetLabel(target)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2 min-w-[120px]">
+                      <Select value={row.kind} onValueChange={value => updateRow(row.id, { kind: value as Distribution['kind'] })}>
+                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="uniform">Uniform</SelectItem>
+                          <SelectItem value="normal">Normal</SelectItem>
+                          <SelectItem value="lognormal">Lognormal</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">
+                      <input value={row.a} onChange={e => updateRow(row.id, { a: e.target.value })} className={inputClassName} aria-label={first} placeholder={first} title={first} />
+                    </td>
+                    <td className="p-2">
+                      <input value={row.b} onChange={e => updateRow(row.id, { b: e.target.value })} className={inputClassName} aria-label={second} placeholder={second} title={second} />
+                    </td>
+                    <td className="p-2 text-right">
+                      <Button size="sm" variant="ghost" onClick={() => setRows(prev => prev.filter(other => other.id !== row.id))} aria-label="Remove uncertain input">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <Button size="sm" variant="outline" className="mt-2" onClick={addRow}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add input
+          </Button>
+        </div>
+
+        {/* Exceedance thresholds */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Group</th>
+                <th className="text-left p-2 font-medium">Statistic</th>
+                <th className="text-left p-2 font-medium">Window</th>
+                <th className="text-left p-2 font-medium">Threshold (mmol P/m³)</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {thresholds.map(threshold => {
+                const update = (patch: Partial<ThresholdRow>) =>
+                  setThresholds(prev => prev.map(other => (other.id === threshold.id ? { ...other, ...patch } : other)))
+                return (
+                  <tr key={threshold.id} className="border-b">
+                    <td className="p-2 min-w-[150px]">
+                      <Select value={threshold.group} onValueChange={value => update({ group: value as PhytoplanktonGroup })}>
+                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {PHYTOPLANKTON_GROUPS.map(group => (
+                            <SelectItem key={group} value={group}>{labels[group]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2 min-w-[110px]">
+                      <Select value={threshold.statistic} onValueChange={value => update({ statistic: value as ExceedanceThreshold['statistic'] })}>
+                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="peak">Peak</SelectItem>
+                          <SelectItem value="mean">Mean</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2 min-w-[110px]">
+                      <Select value={threshold.month} onValueChange={value => update({ month: value })}>
+                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Whole run</SelectItem>
+                          {MONTH_LABELS.map((label, month) => (
+                            <SelectItem key={label} value={String(month)}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">
+                      <input value={threshold.value} onChange={e => update({ value: e.target.value })} className={inputClassName} aria-label="Threshold" />
+                    </td>
+                    <td className="p-2 text-right">
+                      <Button size="sm" variant="ghost" onClick={() => setThresholds(prev => prev.filter(other => other.id !== threshold.id))} aria-label="Remove threshold">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <Button size="sm" variant="outline" className="mt-2" onClick={addThreshold}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add threshold
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Members
+            <input
+              type="number"
+              min={2}
+              max={1000}
+              step={50}
+              value={members}
+              onChange={e => setMembers(e.target.value)}
+              className={`${inputClassName} w-20`}
+            />
+          </label>
+          <Button size="sm" onClick={isRunning ? cancel : runMembers} disabled={!isRunning && rows.length === 0}>
+            {isRunning ? <Square className="mr-2 h-4 w-4" /> : <Dices className="mr-2 h-4 w-4" />}
+            {isRunning ? `Running ${Math.round(progress * 100)}% · Cancel` : 'Run ensemble'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+        {result && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <Badge variant="outline">{result.members} members</Badge>
+              {result.failed > 0 && <Badge variant="destructive">{result.failed} failed</Badge>}
+              <Select value={chartGroup} onValueChange={value => setChartGroup(value as PhytoplanktonGroup)}>
+                <SelectTrigger className="h-8 w-44 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PHYTOPLANKTON_GROUPS.map(group => (
+                    <SelectItem key={group} value={group}>{labels[group]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <FigureFrame
+              title={`Ensemble: ${labels[chartGroup]}`}
+              subtitle={`${result.members} members, ${result.dates[0]} to ${result.dates[result.dates.length - 1]}`}
+              caption="Median of the ensemble with the 50% (25th–75th percentile) and 90% (5th–95th percentile) envelopes; dots are the observations."
+              units="mmol P/m³"
+              source="Kinneret NPZ model, Monte Carlo ensemble"
+              pageName="scenarios"
+              figureKey={`ensemble-${chartGroup}`}
+              supportsSVG={true}
+            >
+              <div className="h-[320px] min-w-[360px] w-full" role="img" aria-label="Ensemble median and envelopes">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" minTickGap={24} />
+                    <YAxis domain={[0, 'auto']} />
+                    <Tooltip
+                      formatter={value => (Array.isArray(value)
+                        ? `${formatValue(Number(value[0]))}–${formatValue(Number(value[1]))}`
+                        : typeof value === 'number' ? formatValue(value) : '—')}
+                    />
+                    <Legend />
+                    <Area dataKey="band90" name="90% envelope" stroke="none" fill="#8B5CF6" fillOpacity={0.15} isAnimationActive={false} />
+                    <Area dataKey="band50" name="50% envelope" stroke="none" fill="#8B5CF6" fillOpacity={0.3} isAnimationActive={false} />
+                    <Line dataKey="median" name="Median" stroke="#6D28D9" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line dataKey="observed" name="Observed" stroke="none" dot={{ r: 4, fill: '#EF4444' }} isAnimationActive={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </FigureFrame>
+
+            {result.exceedance.length > 0 && (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 font-medium">Exceedance</th>
+                    <th className="text-right p-2 font-medium">Members</th>
+                    <th className="text-right p-2 font-medium">Probability</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.exceedance.map((entry, i) => (
+                    <tr key={i} className="border-b">
+                      <td className="p-2">
+                        P({entry.statistic === 'peak' ? 'peak' : 'mean'} {labels[entry.group]} &gt; {entry.value} mmol P/m³
+                        {entry.month === null ? ' over the run' : ` in ${MONTH_LABELS[entry.month]}`})
+                      </td>
+                      <td className="p-2 text-right font-mono">{entry.members}</td>
+                      <td className="p-2 text-right font-mono">
+                        {Number.isFinite(entry.probability) ? `${(100 * entry.probability).toFixed(0)}%` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,242 @@
+import { useMemo, useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CloudSun, Download, RotateCcw, Upload } from 'lucide-react'
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { ForcingSeries, Nutrients } from '@/lib/schemas'
+import {
+  BASELINE_FORCING,
+  FORCING_PRESETS,
+  FORCING_VARIABLES,
+  FORCING_VARIABLE_INFO,
+  ForcingVariable,
+  MONTH_NAMES,
+  copyForcing,
+  forcingToCsv,
+  parseForcingCsv,
+} from '@/lib/model/forcing'
+import { forcedConditions, getBiomassUnits } from '@/lib/biomass/response'
+import { downloadFile } from '@/lib/csv-utils'
+import { useResponseGroups } from '@/hooks/use-parameters'
+import { BiomassHeatmap } from '@/components/biomass/BiomassHeatmap'
+import { FigureFrame } from '@/components/figure-frame'
+
+interface ForcingEditorProps {
+  series: ForcingSeries
+  onChange: (series: ForcingSeries) => void
+  nutrients: Nutrients // ambient concentrations the loads multiply
+}
+
+const inputClassName = 'w-full px-2 py-1 text-xs border border-input rounded-md bg-background font-mono focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent'
+
+const sameSeries = (a: ForcingSeries, b: ForcingSeries) =>
+  FORCING_VARIABLES.every(key => a[key].every((value, i) => value === b[key][i]))
+
+const clampTo = (variable: ForcingVariable, value: number) => {
+  const { min, max } = FORCING_VARIABLE_INFO[variable]
+  return Math.min(max, Math.max(min, value))
+}
+
+const formatValue = (value: number) => Number(value.toPrecision(4)).toString()
+
+// Monthly loads, warming, wind, level and inflow of the scenario, with presets, CSV and the month's response-model map
+export function ForcingEditor({ series, onChange, nutrients }: ForcingEditorProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const responseGroups = useResponseGroups()
+  const [variable, setVariable] = useState<ForcingVariable>('temperatureOffset')
+  const [change, setChange] = useState('')
+  const [month, setMonth] = useState(8)
+  const [groupId, setGroupId] = useState('microcystis')
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const info = FORCING_VARIABLE_INFO[variable]
+  const preset = FORCING_PRESETS.find(candidate => sameSeries(candidate.series, series))
+  const curve = MONTH_NAMES.map((name, i) => ({ month: name, value: series[variable][i], baseline: BASELINE_FORCING[variable][i] }))
+  const conditions = useMemo(() => forcedConditions(series, nutrients, month), [series, nutrients, month])
+
+  const setValue = (i: number, value: number) => {
+    if (!Number.isFinite(value) || value === series[variable][i]) return
+    const next = copyForcing(series)
+    next[variable][i] = clampTo(variable, value)
+    onChange(next)
+  }
+
+  // Shift or scale every month of the shown variable
+  const applyToAll = (operation: 'add' | 'multiply') => {
+    const amount = Number(change)
+    if (change.trim() === '' || !Number.isFinite(amount)) return
+    const next = copyForcing(series)
+    next[variable] = next[variable].map(value => clampTo(variable, Number((operation === 'add' ? value + amount : value * amount).toPrecision(6))))
+    onChange(next)
+  }
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    try {
+      const { series: imported, variables } = parseForcingCsv(await file.text(), series)
+      onChange(imported)
+      setMessage(`Read ${variables.map(key => FORCING_VARIABLE_INFO[key].label).join(', ')} from ${file.name}`)
+    } catch (err) {
+      setMessage(null)
+      setError(err instanceof Error ? err.message : 'Failed to read forcing file')
+    }
+  }
+
+  return (
+    <Card className="responsive-card mb-8">
+      <CardHeader className="pb-4">
+        <CardTitle className="responsive-heading flex items-center gap-2">
+          <CloudSun className="h-5 w-5" />
+          External Forcing
+        </CardTitle>
+        <CardDescription className="responsive-text">
+          Monthly nutrient loads, warming, wind, water level and Jordan inflow; every run on this page uses them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={preset?.id ?? 'custom'}
+            onValueChange={id => {
+              const selected = FORCING_PRESETS.find(candidate => candidate.id === id)
+              if (selected) onChange(copyForcing(selected.series))
+            }}
+          >
+            <SelectTrigger className="h-8 w-56 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {FORCING_PRESETS.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+              ))}
+              {!preset && <SelectItem value="custom">Custom</SelectItem>}
+            </SelectContent>
+          </Select>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) handleFile(file)
+              event.target.value = ''
+            }}
+          />
+          <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => downloadFile(forcingToCsv(series), 'kinneret-forcing.csv', 'text/csv')}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onChange(copyForcing(BASELINE_FORCING))} disabled={preset?.id === 'baseline'}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Baseline
+          </Button>
+        </div>
+        {preset && <p className="text-xs text-muted-foreground">{preset.description}</p>}
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Select value={variable} onValueChange={value => setVariable(value as ForcingVariable)}>
+              <SelectTrigger className="h-8 w-48 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {FORCING_VARIABLES.map(key => (
+                  <SelectItem key={key} value={key}>{FORCING_VARIABLE_INFO[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">{info.units}</span>
+            <div className="w-24">
+              <input
+                value={change}
+                onChange={e => setChange(e.target.value)}
+                placeholder="Amount"
+                inputMode="decimal"
+                className={inputClassName}
+                aria-label="Amount for every month"
+              />
+            </div>
+            <Button size="sm" variant="outline" onClick={() => applyToAll('add')}>Add to all</Button>
+            <Button size="sm" variant="outline" onClick={() => applyToAll('multiply')}>Multiply all</Button>
+          </div>
+
+          <div className="h-[220px] w-full" role="img" aria-label={`${info.label} by month`}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={curve} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" />
+                <YAxis domain={['auto', 'auto']} />
+                <Tooltip formatter={value => (typeof value === 'number' ? formatValue(value) : '—')} />
+                <Legend />
+                <Line type="monotone" dataKey="baseline" name="Baseline" stroke="#9CA3AF" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="value" name={info.label} stroke="#2563EB" strokeWidth={2} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-12 gap-2">
+            {MONTH_NAMES.map((name, i) => (
+              <label key={name} className="space-y-1 text-xs text-muted-foreground">
+                {name}
+                <input
+                  // Remounted when the value changes elsewhere (presets, CSV, bulk edits)
+                  key={`${variable}-${series[variable][i]}`}
+                  type="number"
+                  defaultValue={series[variable][i]}
+                  min={info.min}
+                  max={info.max}
+                  step={info.step}
+                  onBlur={e => setValue(i, Number(e.target.value))}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') e.currentTarget.blur()
+                  }}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Response-model map for</span>
+            <Select value={groupId} onValueChange={setGroupId}>
+              <SelectTrigger className="h-8 w-44 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.values(responseGroups).map(group => (
+                  <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">in</span>
+            <Select value={String(month)} onValueChange={value => setMonth(Number(value))}>
+              <SelectTrigger className="h-8 w-24 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {MONTH_NAMES.map((name, i) => (
+                  <SelectItem key={name} value={String(i + 1)}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <FigureFrame
+            title={`${responseGroups[groupId]?.name ?? groupId} in ${MONTH_NAMES[month - 1]} under this forcing`}
+            subtitle={`${formatValue(conditions.temperature)} °C, wind ${formatValue(conditions.windSpeed)} m/s, mean depth ${formatValue(conditions.depth)} m, P ${formatValue(conditions.phosphorus)} μM`}
+            caption="Biomass response model driven by the month's climatology plus the forcing: warming, forced wind, the ambient nutrients scaled by the loads, and the mean depth moved with the water level."
+            units={getBiomassUnits(groupId)}
+            source="Kinneret biomass response model"
+            pageName="scenarios"
+            figureKey={`forcing-map-${groupId}-${month}`}
+            supportsSVG={false}
+          >
+            <BiomassHeatmap groupId={groupId} env={conditions} width={400} height={300} />
+          </FigureFrame>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
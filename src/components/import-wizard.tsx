@@ -0,0 +1,269 @@
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Save, Trash2, Upload, X } from 'lucide-react'
+import { useKinneretStore } from '@/store/kinneret-store'
+import { CsvPreview } from '@/lib/csv-utils'
+import {
+  ColumnMapping,
+  DATE_FORMATS,
+  DateFormat,
+  MAPPING_TARGETS,
+  MAPPING_TARGET_LABELS,
+  MappingTarget,
+  REQUIRED_MAPPING_TARGETS,
+  UNIT_CONVERSIONS,
+  UnitConversion,
+  getMissingTargets,
+  parseDateWithFormat,
+  suggestMapping,
+} from '@/lib/csv/mapping'
+
+const UNMAPPED = '__none__'
+const NO_PRESET = '__none__'
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent'
+
+interface ImportWizardProps {
+  fileName: string
+  preview: CsvPreview
+  onImport: (mapping: ColumnMapping) => void
+  onCancel: () => void
+}
+
+// Map arbitrary CSV columns onto the app's fields before importing
+export function ImportWizard({ fileName, preview, onImport, onCancel }: ImportWizardProps) {
+  const mappingPresets = useKinneretStore(state => state.mappingPresets)
+  const { saveMappingPreset, deleteMappingPreset } = useKinneretStore()
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestMapping(preview.headers))
+  const [presetId, setPresetId] = useState<string>(NO_PRESET)
+  const [presetName, setPresetName] = useState('')
+
+  const missing = getMissingTargets(mapping)
+  const dateColumn = mapping.columns.date
+  const dateIndex = dateColumn !== undefined ? preview.headers.indexOf(dateColumn) : -1
+
+  // Share of preview dates the chosen format can read, to catch a wrong format early
+  const dateCheck = useMemo(() => {
+    if (dateIndex < 0 || preview.rows.length === 0) return null
+    const parsed = preview.rows.filter(row => parseDateWithFormat(row[dateIndex] ?? '', mapping.dateFormat) !== null)
+    return { parsed: parsed.length, total: preview.rows.length }
+  }, [dateIndex, preview.rows, mapping.dateFormat])
+
+  const setColumn = (target: MappingTarget, source: string) => {
+    setMapping(prev => {
+      const columns = { ...prev.columns }
+      if (source === UNMAPPED) delete columns[target]
+      else columns[target] = source
+      return { ...prev, columns }
+    })
+  }
+
+  const loadPreset = (id: string) => {
+    setPresetId(id)
+    const preset = mappingPresets.find(p => p.id === id)
+    if (!preset) return
+    // Columns from the preset that this file lacks are dropped
+    const columns = Object.fromEntries(
+      Object.entries(preset.mapping.columns).filter(([, source]) => source !== undefined && preview.headers.includes(source))
+    ) as ColumnMapping['columns']
+    setMapping({ ...preset.mapping, columns })
+    setPresetName(preset.name)
+  }
+
+  const handleSavePreset = () => {
+    saveMappingPreset(presetName, mapping)
+  }
+
+  const handleDeletePreset = () => {
+    if (presetId === NO_PRESET) return
+    deleteMappingPreset(presetId)
+    setPresetId(NO_PRESET)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Map Columns</CardTitle>
+            <CardDescription>
+              {fileName}: choose which column holds each field · delimiter "{preview.delimiter === '\t' ? 'tab' : preview.delimiter}"
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onCancel} aria-label="Cancel import">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Presets */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Preset
+            <div className="flex gap-1">
+              <Select value={presetId} onValueChange={loadPreset}>
+                <SelectTrigger className="h-9 text-sm">
+                  <SelectValue placeholder="Load preset..." />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PRESET}>No preset</SelectItem>
+                  {mappingPresets.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDeletePreset}
+                disabled={presetId === NO_PRESET}
+                aria-label="Delete preset"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Save current mapping as
+            <div className="flex gap-1">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="e.g. Mekorot lab export"
+                className={inputClassName}
+              />
+              <Button variant="outline" size="sm" onClick={handleSavePreset} disabled={!presetName.trim()} aria-label="Save preset">
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+          </label>
+        </div>
+
+        {/* Field mapping */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {MAPPING_TARGETS.map(target => {
+            const required = REQUIRED_MAPPING_TARGETS.includes(target)
+            return (
+              <label key={target} className="space-y-1 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  {MAPPING_TARGET_LABELS[target]}
+                  {required ? <span className="text-red-500">*</span> : <span>(optional)</span>}
+                </span>
+                <Select value={mapping.columns[target] ?? UNMAPPED} onValueChange={(value) => setColumn(target, value)}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {preview.headers.map((header, index) => (
+                      <SelectItem key={`${header}-${index}`} value={header}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </label>
+            )
+          })}
+        </div>
+
+        {/* Date format and units */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Date format
+            <Select
+              value={mapping.dateFormat}
+              onValueChange={(value) => setMapping(prev => ({ ...prev, dateFormat: value as DateFormat }))}
+            >
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATE_FORMATS.map(format => (
+                  <SelectItem key={format} value={format}>{format}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {dateCheck && (
+              <span className={dateCheck.parsed === dateCheck.total ? 'text-green-600' : 'text-red-500'}>
+                {dateCheck.parsed} of {dateCheck.total} preview dates recognised
+              </span>
+            )}
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Source units
+            <Select
+              value={mapping.unitConversion}
+              onValueChange={(value) => setMapping(prev => ({ ...prev, unitConversion: value as UnitConversion }))}
+            >
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(UNIT_CONVERSIONS) as UnitConversion[]).map(unit => (
+                  <SelectItem key={unit} value={unit}>{UNIT_CONVERSIONS[unit].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+        </div>
+
+        {/* Raw preview */}
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b">
+                {preview.headers.map((header, index) => {
+                  const target = MAPPING_TARGETS.find(t => mapping.columns[t] === header)
+                  return (
+                    <th key={index} className="text-left p-1 sm:p-2 font-medium whitespace-nowrap">
+                      {header}
+                      {target && (
+                        <Badge variant="outline" className="ml-1 text-[10px]">
+                          {MAPPING_TARGET_LABELS[target]}
+                        </Badge>
+                      )}
+                    </th>
+                  )
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b">
+                  {preview.headers.map((_, index) => (
+                    <td key={index} className="p-1 sm:p-2 whitespace-nowrap font-mono">{row[index] ?? ''}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            {missing.length > 0
+              ? `Map required fields: ${missing.map(target => MAPPING_TARGET_LABELS[target]).join(', ')}`
+              : 'Values are converted to mmol P/m³; rows sharing a date are averaged'}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => onImport(mapping)} disabled={missing.length > 0}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
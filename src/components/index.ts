@@ -8,6 +8,7 @@ export { ParamSliders } from './param-sliders'
 export { CsvUploader } from './csv-uploader'
 export { ObservationBox } from './observation-box'
 export { EmptyState } from './empty-state'
+export { DatasetSelector, DatasetCompareSelect } from './dataset-selector'
 
 // Layout Components
 export { Header } from './layout/header'
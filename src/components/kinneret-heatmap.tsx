@@ -1,19 +1,15 @@
-import React, { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import { MapContainer, TileLayer, useMap } from 'react-leaflet'
 import L from 'leaflet'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { HeatLegend } from '@/components/heat-legend'
 import { cn } from '@/lib/utils'
-
-interface HeatmapData {
-  lat: number
-  lng: number
-  value: number
-}
+import { GridField, boundsToTransform, cellCenter, createGridField, fieldStats, maskField, withValues } from '@/lib/rasters/grid-field'
+import { LakeGeometry, PolygonRings } from '@/lib/rasters/lake'
+import { useLakeGeometry } from '@/hooks/use-lake-geometry'
 
 interface KinneretHeatmapProps {
-  data: HeatmapData[]
   title?: string
   description?: string
   season?: 'winter' | 'summer'
@@ -21,86 +17,66 @@ interface KinneretHeatmapProps {
   height?: number
 }
 
-// Kinneret lake bounds and center
-const KINNERET_BOUNDS: [[number, number], [number, number]] = [
-  [32.65, 35.55], // Southwest
-  [32.95, 35.65]  // Northeast
-]
+// Cell size of the seasonal pattern field (degrees)
+const CELL_SIZE = 0.01
 
-const KINNERET_CENTER: [number, number] = [32.8, 35.6]
+// Seasonal biomass pattern as a field over the lake, masked to the shoreline
+const generateHeatmapField = (season: 'winter' | 'summer', lake: LakeGeometry): GridField => {
+  const [[west, south], [east, north]] = lake.bounds
+  const width = Math.max(1, Math.round((east - west) / CELL_SIZE))
+  const height = Math.max(1, Math.round((north - south) / CELL_SIZE))
+  const transform = boundsToTransform(lake.bounds, width, height)
+  const [centerLng, centerLat] = lake.center
+  const values = new Float32Array(width * height)
 
-// Generate heatmap data based on season
-const generateHeatmapData = (season: 'winter' | 'summer'): HeatmapData[] => {
-  const data: HeatmapData[] = []
-  const latStep = 0.01
-  const lngStep = 0.01
-  
-  // Define the lake area more precisely
-  const lakeBounds = {
-    latMin: 32.65,
-    latMax: 32.95,
-    lngMin: 35.55,
-    lngMax: 35.65
-  }
-  
-  for (let lat = lakeBounds.latMin; lat <= lakeBounds.latMax; lat += latStep) {
-    for (let lng = lakeBounds.lngMin; lng <= lakeBounds.lngMax; lng += lngStep) {
-      // Check if point is within lake area (simplified ellipse)
-      const centerLat = 32.8
-      const centerLng = 35.6
+  const field = createGridField(values, width, height, transform, {
+    name: `${season === 'winter' ? 'Winter' : 'Summer'} biomass`,
+    units: 'mmol P/m³',
+  })
+  for (let j = 0; j < height; j++) {
+    for (let i = 0; i < width; i++) {
+      const [lng, lat] = cellCenter(field, i, j)
       const latDist = Math.abs(lat - centerLat)
       const lngDist = Math.abs(lng - centerLng)
-      
-      // Simple lake shape approximation
-      if (latDist < 0.15 && lngDist < 0.05) {
-        let value = 0
-        
-        if (season === 'winter') {
-          // Winter pattern: higher values in center and south
-          const distFromCenter = Math.sqrt(latDist * latDist + lngDist * lngDist)
-          const southFactor = Math.max(0, 1 - (lat - 32.7) / 0.25) // Higher in south
-          value = Math.max(0, (0.045 * Math.exp(-distFromCenter / 0.1) * southFactor) + 
-                             (Math.random() - 0.5) * 0.005)
-        } else {
-          // Summer pattern: higher values along western coast
-          const westFactor = Math.max(0, 1 - Math.abs(lng - 35.55) / 0.1) // Higher on west
-          const centerFactor = Math.max(0, 1 - Math.sqrt(latDist * latDist + lngDist * lngDist) / 0.15)
-          value = Math.max(0, (0.015 * westFactor * centerFactor) + 
-                             (Math.random() - 0.5) * 0.002)
-        }
-        
-        if (value > 0.001) { // Only include meaningful values
-          data.push({ lat, lng, value })
-        }
+      let value = 0
+
+      if (season === 'winter') {
+        // Winter pattern: higher values in center and south
+        const distFromCenter = Math.sqrt(latDist * latDist + lngDist * lngDist)
+        const southFactor = Math.max(0, 1 - (lat - (south + 0.05)) / 0.25) // Higher in south
+        value = Math.max(0, (0.045 * Math.exp(-distFromCenter / 0.1) * southFactor) +
+                           (Math.random() - 0.5) * 0.005)
+      } else {
+        // Summer pattern: higher values along western coast
+        const westFactor = Math.max(0, 1 - Math.abs(lng - west) / 0.1) // Higher on west
+        const centerFactor = Math.max(0, 1 - Math.sqrt(latDist * latDist + lngDist * lngDist) / 0.15)
+        value = Math.max(0, (0.015 * westFactor * centerFactor) +
+                           (Math.random() - 0.5) * 0.002)
       }
+
+      // Only keep meaningful values
+      values[j * width + i] = value > 0.001 ? value : NaN
     }
   }
-  
-  return data
-}
 
-// Lake Kinneret - improved shape with wider north and pointed south
-const LAKE_KINNERET_POLYGON = [
-  [32.65, 35.58], [32.67, 35.57], [32.70, 35.56], [32.73, 35.55], [32.76, 35.55],
-  [32.79, 35.56], [32.82, 35.57], [32.85, 35.59], [32.88, 35.61], [32.91, 35.63],
-  [32.94, 35.65], [32.95, 35.67], [32.95, 35.69], [32.94, 35.71], [32.91, 35.73],
-  [32.88, 35.74], [32.85, 35.75], [32.82, 35.75], [32.79, 35.74], [32.76, 35.73],
-  [32.73, 35.71], [32.70, 35.69], [32.67, 35.67], [32.65, 35.64], [32.65, 35.58]
-]
+  return maskField(withValues(field, values), lake.polygons)
+}
 
 // Custom Leaflet layer with proper canvas masking
 class HeatmapLayer extends L.Layer {
-  private data: HeatmapData[]
+  private field: GridField
   private season: 'winter' | 'summer'
+  private polygons: PolygonRings[]
   private canvas: HTMLCanvasElement
   private ctx: CanvasRenderingContext2D
   private maskCanvas: HTMLCanvasElement
   private maskCtx: CanvasRenderingContext2D
 
-  constructor(data: HeatmapData[], season: 'winter' | 'summer') {
+  constructor(field: GridField, season: 'winter' | 'summer', polygons: PolygonRings[]) {
     super()
-    this.data = data
+    this.field = field
     this.season = season
+    this.polygons = polygons
     this.canvas = document.createElement('canvas')
     this.ctx = this.canvas.getContext('2d')!
     this.maskCanvas = document.createElement('canvas')
@@ -145,25 +121,29 @@ class HeatmapLayer extends L.Layer {
     this.ctx.clearRect(0, 0, size.x, size.y)
     this.maskCtx.clearRect(0, 0, size.x, size.y)
     
-    // Create mask (lake shape)
+    // Create mask (lake shape); even-odd fill leaves holes open
     this.maskCtx.fillStyle = 'white'
     this.maskCtx.beginPath()
-    const firstPoint = map.latLngToContainerPoint([LAKE_KINNERET_POLYGON[0][0], LAKE_KINNERET_POLYGON[0][1]])
-    this.maskCtx.moveTo(firstPoint.x, firstPoint.y)
+    this.polygons.forEach(rings => rings.forEach(ring => {
+      ring.forEach(([lng, lat], i) => {
+        const point = map.latLngToContainerPoint([lat, lng])
+        if (i === 0) this.maskCtx.moveTo(point.x, point.y)
+        else this.maskCtx.lineTo(point.x, point.y)
+      })
+      this.maskCtx.closePath()
+    }))
+    this.maskCtx.fill('evenodd')
     
-    for (let i = 1; i < LAKE_KINNERET_POLYGON.length; i++) {
-      const point = map.latLngToContainerPoint([LAKE_KINNERET_POLYGON[i][0], LAKE_KINNERET_POLYGON[i][1]])
-      this.maskCtx.lineTo(point.x, point.y)
-    }
-    this.maskCtx.closePath()
-    this.maskCtx.fill()
-    
-    // Draw heatmap on main canvas
-    const maxValue = Math.max(...this.data.map(d => d.value))
+    // Draw heatmap on main canvas, one gradient per cell with data
+    const maxValue = this.field.max
+    const { width, height, values } = this.field
     
-    this.data.forEach(point => {
-      const mapPoint = map.latLngToContainerPoint([point.lat, point.lng])
-      const intensity = point.value / maxValue
+    for (let j = 0; j < height; j++) for (let i = 0; i < width; i++) {
+      const value = values[j * width + i]
+      if (!Number.isFinite(value)) continue
+      const [lng, lat] = cellCenter(this.field, i, j)
+      const mapPoint = map.latLngToContainerPoint([lat, lng])
+      const intensity = value / maxValue
       
       // Color based on season and intensity
       let color: string
@@ -196,7 +176,7 @@ class HeatmapLayer extends L.Layer {
       
       this.ctx.fillStyle = gradient
       this.ctx.fillRect(mapPoint.x - 50, mapPoint.y - 50, 100, 100)
-    })
+    }
     
     // Apply mask using composite operation
     this.ctx.globalCompositeOperation = 'source-in'
@@ -206,23 +186,22 @@ class HeatmapLayer extends L.Layer {
 }
 
 // Heatmap overlay component using custom layer
-function HeatmapOverlay({ data, season }: { data: HeatmapData[], season: 'winter' | 'summer' }) {
+function HeatmapOverlay({ field, season, polygons }: { field: GridField, season: 'winter' | 'summer', polygons: PolygonRings[] }) {
   const map = useMap()
   
   useEffect(() => {
-    const heatmapLayer = new HeatmapLayer(data, season)
+    const heatmapLayer = new HeatmapLayer(field, season, polygons)
     heatmapLayer.addTo(map)
     
     return () => {
       map.removeLayer(heatmapLayer)
     }
-  }, [data, season, map])
+  }, [field, season, polygons, map])
   
   return null
 }
 
 export function KinneretHeatmap({
-  data,
   title = 'Lake Kinneret Heatmap',
   description,
   season = 'winter',
@@ -230,13 +209,13 @@ export function KinneretHeatmap({
   height = 500
 }: KinneretHeatmapProps) {
   const [selectedSeason, setSelectedSeason] = useState<'winter' | 'summer'>(season)
+  const { lake } = useLakeGeometry()
   
-  const heatmapData = useMemo(() => {
-    return generateHeatmapData(selectedSeason)
-  }, [selectedSeason])
+  const heatmapField = useMemo(() => {
+    return generateHeatmapField(selectedSeason, lake)
+  }, [selectedSeason, lake])
   
-  const maxValue = Math.max(...heatmapData.map(d => d.value))
-  const minValue = Math.min(...heatmapData.map(d => d.value))
+  const { min: minValue, max: maxValue } = fieldStats(heatmapField)
   
   return (
     <Card className={cn("rounded-2xl shadow-sm", className)}>
@@ -269,7 +248,7 @@ export function KinneretHeatmap({
       <CardContent className="p-0">
         <div className="relative" style={{ height: `${height}px` }}>
           <MapContainer
-            center={KINNERET_CENTER}
+            center={[lake.center[1], lake.center[0]]} // Leaflet takes [lat, lng]
             zoom={11}
             style={{ height: '100%', width: '100%' }}
             className="rounded-b-2xl"
@@ -279,7 +258,7 @@ export function KinneretHeatmap({
               url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
             />
             
-            <HeatmapOverlay data={heatmapData} season={selectedSeason} />
+            <HeatmapOverlay field={heatmapField} season={selectedSeason} polygons={lake.polygons} />
           </MapContainer>
           
           {/* Legend */}
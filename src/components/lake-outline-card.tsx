@@ -0,0 +1,89 @@
+import { useMemo, useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { MapIcon, RotateCcw, Upload } from 'lucide-react'
+import { useKinneretStore } from '@/store/kinneret-store'
+import { useLakeGeometry } from '@/hooks/use-lake-geometry'
+import { parseShorelineGeoJson } from '@/lib/rasters/lake'
+import { fieldStats } from '@/lib/rasters/grid-field'
+import { BATHYMETRY_NOTE } from '@/lib/rasters/bathymetry'
+
+// Shoreline used to clip maps and grids, with upload of a custom GeoJSON outline (Data page)
+export function LakeOutlineCard() {
+  const { lake, bathymetry, isCustom } = useLakeGeometry()
+  const setCustomShoreline = useKinneretStore(state => state.setCustomShoreline)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const depthStats = useMemo(() => fieldStats(bathymetry), [bathymetry])
+  const [[west, south], [east, north]] = lake.bounds
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    try {
+      const polygons = parseShorelineGeoJson(await file.text())
+      setCustomShoreline({ name: file.name.replace(/\.(geo)?json$/i, ''), polygons })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read shoreline file')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Lake Outline</CardTitle>
+            <CardDescription>
+              Shoreline that clips heatmaps, temperature overlays and contours
+            </CardDescription>
+          </div>
+          <MapIcon className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium truncate">{lake.name}</span>
+          <Badge variant="outline" className="text-xs">{isCustom ? 'Loaded GeoJSON' : 'Bundled'}</Badge>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {lake.polygons.length} polygon{lake.polygons.length === 1 ? '' : 's'} ·
+          {' '}{west.toFixed(3)}–{east.toFixed(3)}°E, {south.toFixed(3)}–{north.toFixed(3)}°N
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {depthStats.count > 0
+            ? `Bathymetry: ${depthStats.count} cells with depth, mean ${depthStats.mean.toFixed(1)} m, max ${depthStats.max.toFixed(1)} m`
+            : 'The bundled bathymetry does not cover this outline; depth-dependent maps use the scenario depth'}
+        </p>
+        <p className="text-xs text-muted-foreground">{BATHYMETRY_NOTE}</p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) handleFile(file)
+              event.target.value = ''
+            }}
+          />
+          <Button onClick={() => inputRef.current?.click()} variant="outline" size="sm">
+            <Upload className="mr-2 h-4 w-4" />
+            Load GeoJSON
+          </Button>
+          {isCustom && (
+            <Button onClick={() => setCustomShoreline(null)} variant="ghost" size="sm">
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Use bundled shoreline
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,6 +2,7 @@ import React from 'react'
 import { Button } from '@/components/ui/button'
 import { Moon, Sun, Menu } from 'lucide-react'
 import { useTheme } from '@/contexts/theme-context'
+import { DatasetSelector } from '@/components/dataset-selector'
 
 interface HeaderProps {
   onMenuToggle: () => void
@@ -32,6 +33,7 @@ export function Header({ onMenuToggle }: HeaderProps) {
         </div>
         
         <div className="flex items-center gap-2">
+          <DatasetSelector className="hidden sm:flex" />
           <Button
             variant="ghost"
             size="icon"
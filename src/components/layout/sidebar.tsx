@@ -8,7 +8,8 @@ import {
   PlayCircle,
   Database,
   Info,
-  Microscope
+  Microscope,
+  SlidersHorizontal
 } from 'lucide-react'
 
 interface SidebarProps {
@@ -23,6 +24,7 @@ const navigation = [
   { name: 'Research', href: '/research', icon: Microscope },
   { name: 'Statistics', href: '/statistics', icon: TrendingUp },
   { name: 'Scenarios', href: '/scenarios', icon: PlayCircle },
+  { name: 'Parameters', href: '/parameters', icon: SlidersHorizontal },
   { name: 'Data', href: '/data', icon: Database },
   { name: 'About', href: '/about', icon: Info },
 ]
@@ -44,7 +44,7 @@ export function LazyChart({ data, colors, height = 300 }: LazyChartProps) {
           <LazyCartesianGrid strokeDasharray="3 3" />
           <LazyXAxis dataKey="month" />
           <LazyYAxis 
-            domain={[0, 1]} 
+            domain={[0, 'auto']} 
             label={{ value: 'Biomass (mmol P/m³)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', dy: 10 } }}
           />
           <LazyTooltip />
@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Gauge, Layers } from 'lucide-react'
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import dayjs from 'dayjs'
+import { ForcingSeries, GroupParams, Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { NpzResult } from '@/lib/model/npz'
+import { LIMITING_NUTRIENTS } from '@/lib/model/growth'
+import { analyzeLimitation, monthlyLimitingShare } from '@/lib/model/limitation'
+import { MONTH_NAMES } from '@/lib/model/forcing'
+import { RESPONSE_GROUP_IDS, forcedConditions } from '@/lib/biomass/response'
+import { categoryColor } from '@/lib/rasters/grid-render'
+import { useKinneretStore } from '@/store/kinneret-store'
+import { useComputeTask } from '@/hooks/use-compute-task'
+import { useLakeGeometry } from '@/hooks/use-lake-geometry'
+import { usePiCurves, useResponseGroups } from '@/hooks/use-parameters'
+import { FigureFrame } from '@/components/figure-frame'
+
+interface LimitationPanelProps {
+  simulation: NpzResult | null // null until the current settings have been run
+  groups: Record<PhytoplanktonGroup, GroupParams> // the parameters of that run
+  labels: Record<PhytoplanktonGroup, string>
+  forcing: ForcingSeries // monthly forcing of the limiting-nutrient map
+  nutrients: Nutrients // ambient concentrations the loads multiply
+}
+
+// Days between points of the limitation-term chart
+const CHART_INTERVAL = 3
+
+const formatValue = (value: unknown) => (typeof value === 'number' ? value.toPrecision(3) : '—')
+
+// Which nutrient limits each group through the run, every limitation term over time,
+// and a map of the limiting nutrient under one month of the forcing
+export function LimitationPanel({ simulation, groups, labels, forcing, nutrients }: LimitationPanelProps) {
+  const addGridLayer = useKinneretStore(state => state.addGridLayer)
+  const { lake } = useLakeGeometry()
+  const responseGroups = useResponseGroups()
+  const piCurves = usePiCurves()
+  const { run: runLayer, isRunning: isLayerRunning, error: layerError } = useComputeTask()
+  const [group, setGroup] = useState<PhytoplanktonGroup>('microcystis')
+  const [mapMonth, setMapMonth] = useState(8)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Categorical map of the limiting nutrient in each cell, added to the map layers
+  const addLimitationLayer = async () => {
+    const env = forcedConditions(forcing, nutrients, mapMonth)
+    const field = await runLayer({ kind: 'limitation-field', group: responseGroups[RESPONSE_GROUP_IDS[group]], env, lake })
+    if (!field) return
+    const name = `${field.name} · ${MONTH_NAMES[mapMonth - 1]}`
+    addGridLayer({ ...field, name })
+    setMessage(`Added “${name}” to the map layers of the Live Data page`)
+  }
+
+  const limitation = useMemo(
+    () => (simulation ? analyzeLimitation(simulation, { groups, piCurves }) : null),
+    [simulation, groups, piCurves]
+  )
+
+  // Percentage of the days of each month that each nutrient is limiting
+  const shareData = useMemo(() => (limitation
+    ? monthlyLimitingShare(limitation, group).map(share => ({
+        month: MONTH_NAMES[share.month],
+        ...Object.fromEntries(LIMITING_NUTRIENTS.map(key => [key, 100 * share[key]])),
+      }))
+    : []), [limitation, group])
+
+  const termData = useMemo(() => {
+    if (!limitation) return []
+    const terms = limitation.groups[group]
+    return limitation.dates.flatMap((date, i) => i % CHART_INTERVAL === 0 || i === limitation.dates.length - 1
+      ? [{
+          date,
+          ...Object.fromEntries(LIMITING_NUTRIENTS.map(key => [key, terms.nutrients[key][i]])),
+          light: terms.light[i],
+          temperature: terms.temperature[i],
+        }]
+      : [])
+  }, [limitation, group])
+
+  return (
+    <Card className="responsive-card mb-8">
+      <CardHeader className="pb-4">
+        <CardTitle className="responsive-heading flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Nutrient Limitation
+        </CardTitle>
+        <CardDescription className="responsive-text">
+          The nutrient that sets each group's growth under Liebig's law, with every limitation term alongside temperature and light, and a map layer of it for one month of the forcing
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Group</span>
+            <Select value={group} onValueChange={value => setGroup(value as PhytoplanktonGroup)}>
+              <SelectTrigger className="h-8 w-44 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PHYTOPLANKTON_GROUPS.map(key => (
+                  <SelectItem key={key} value={key}>{labels[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">Map in</span>
+            <Select value={String(mapMonth)} onValueChange={value => setMapMonth(Number(value))}>
+              <SelectTrigger className="h-8 w-24 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {MONTH_NAMES.map((name, i) => (
+                  <SelectItem key={name} value={String(i + 1)}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" onClick={addLimitationLayer} disabled={isLayerRunning}>
+              <Layers className="mr-2 h-4 w-4" />
+              {isLayerRunning ? 'Computing…' : 'Add limiting-nutrient layer'}
+            </Button>
+          </div>
+          {message && <p className="text-sm text-muted-foreground">{message}</p>}
+          {layerError && <p className="text-sm text-destructive" role="alert">{layerError}</p>}
+        </div>
+
+        {!limitation ? (
+          <p className="text-sm text-muted-foreground">Run the scenario to see which resource limits each group.</p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <FigureFrame
+              title={`Limiting nutrient: ${labels[group]}`}
+              subtitle="Share of the days of each month"
+              caption="Percentage of the simulated days in each month on which each nutrient has the lowest Monod factor and so sets growth."
+              units="% of days"
+              source="Kinneret NPZ model"
+              pageName="scenarios"
+              figureKey={`limiting-nutrient-${group}`}
+              supportsSVG={true}
+            >
+              <div className="h-[300px] min-w-[320px] w-full" role="img" aria-label="Limiting nutrient by month">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={shareData} margin={{ top: 20, right: 20, left: 10, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis domain={[0, 100]} />
+                    <Tooltip formatter={value => (typeof value === 'number' ? `${value.toFixed(0)}%` : '—')} />
+                    <Legend />
+                    {LIMITING_NUTRIENTS.map((key, i) => (
+                      <Bar key={key} dataKey={key} name={key} stackId="limiting" fill={categoryColor(i)} isAnimationActive={false} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </FigureFrame>
+
+            <FigureFrame
+              title={`Limitation terms: ${labels[group]}`}
+              subtitle={`${limitation.dates[0]} to ${limitation.dates[limitation.dates.length - 1]}`}
+              caption="Monod factor of each nutrient (1 = unlimited), the P–I response at the mean light of the mixed layer (dashed; diagnostic, the box model has no light) and the Eppley temperature factor (right axis)."
+              units="dimensionless"
+              source="Kinneret NPZ model"
+              pageName="scenarios"
+              figureKey={`limitation-terms-${group}`}
+              supportsSVG={true}
+            >
+              <div className="h-[300px] min-w-[320px] w-full" role="img" aria-label="Limitation terms over time">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={termData} margin={{ top: 20, right: 20, left: 10, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" tickFormatter={date => dayjs(date).format('MMM D')} minTickGap={24} />
+                    <YAxis yAxisId="terms" domain={[0, 1]} />
+                    <YAxis yAxisId="temperature" orientation="right" domain={['auto', 'auto']} />
+                    <Tooltip formatter={formatValue} labelFormatter={date => dayjs(date).format('YYYY-MM-DD')} />
+                    <Legend />
+                    {LIMITING_NUTRIENTS.map((key, i) => (
+                      <Line key={key} yAxisId="terms" type="monotone" dataKey={key} name={key} stroke={categoryColor(i)} strokeWidth={2} dot={false} isAnimationActive={false} />
+                    ))}
+                    <Line yAxisId="terms" type="monotone" dataKey="light" name="Light" stroke="#CA8A04" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                    <Line yAxisId="temperature" type="monotone" dataKey="temperature" name="Temperature" stroke="#DC2626" strokeDasharray="2 3" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </FigureFrame>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,24 +2,37 @@ import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHand
 import maplibregl from 'maplibre-gl'
 import 'maplibre-gl/dist/maplibre-gl.css'
 import tilesData from '@/data/tiles.json'
+import { GridField, describeGridField, getFieldCorners, maskField } from '@/lib/rasters/grid-field'
+import { polygonsToGeoJson } from '@/lib/rasters/lake'
+import { BATHYMETRY_CONTOUR_LEVELS, BATHYMETRY_NOTE, bathymetryContours } from '@/lib/rasters/bathymetry'
+import { useLakeGeometry } from '@/hooks/use-lake-geometry'
+import { categoryColor, getFieldColorMap, gridFieldToCanvas } from '@/lib/rasters/grid-render'
+import { createGradientBackground } from '@/lib/biomass/colormap'
 import './LiveKinneret.css'
 
 interface LiveKinneretProps {
   className?: string
   onMapReady?: (map: maplibregl.Map) => void
+  gridLayer?: GridField | null // gridded model field drawn over the lake
+  gridOpacity?: number // 0-1
 }
 
 export interface LiveKinneretRef {
   addWindSource: (windData: any) => void
   addTemperatureRaster: (rasterUrl: string, opacity?: number) => void
+  addGridLayer: (layer: GridField, opacity?: number) => void
+  removeGridLayer: () => void
   updateLayerOpacity: (layerId: string, opacity: number) => void
   getMap: () => maplibregl.Map | null
 }
 
-export const LiveKinneret = forwardRef<LiveKinneretRef, LiveKinneretProps>(({ className = '', onMapReady }, ref) => {
+export const LiveKinneret = forwardRef<LiveKinneretRef, LiveKinneretProps>(({ className = '', onMapReady, gridLayer, gridOpacity = 0.8 }, ref) => {
   const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<maplibregl.Map | null>(null)
   const [isMapLoaded, setIsMapLoaded] = useState(false)
+  const { lake } = useLakeGeometry()
+  const lakeRef = useRef(lake)
+  lakeRef.current = lake
 
   // Initialize map
   useEffect(() => {
@@ -73,10 +86,10 @@ export const LiveKinneret = forwardRef<LiveKinneretRef, LiveKinneretProps>(({ cl
       if (!map.current) return
 
       try {
-        // Add lake mask source
+        // Add lake mask source from the active shoreline
         map.current.addSource('lake-mask', {
           type: 'geojson',
-          data: tilesData.lakeMaskGeoJSON
+          data: polygonsToGeoJson(lakeRef.current.polygons, { name: lakeRef.current.name })
         })
 
         // Add lake outline
@@ -102,10 +115,10 @@ export const LiveKinneret = forwardRef<LiveKinneretRef, LiveKinneretProps>(({ cl
           }
         })
 
-        // Add bathymetric contours
+        // Add bathymetric contours traced from the bathymetry grid
         map.current.addSource('bathy-contours', {
           type: 'geojson',
-          data: tilesData.bathyContours
+          data: bathymetryContours(lakeRef.current)
         })
 
         map.current.addLayer({
@@ -161,6 +174,15 @@ export const LiveKinneret = forwardRef<LiveKinneretRef, LiveKinneretProps>(({ cl
     }
   }, [onMapReady])
 
+  // Follow shoreline changes (a loaded GeoJSON outline or the bundled one)
+  useEffect(() => {
+    if (!map.current || !isMapLoaded) return
+    const lakeSource = map.current.getSource('lake-mask') as maplibregl.GeoJSONSource | undefined
+    lakeSource?.setData(polygonsToGeoJson(lake.polygons, { name: lake.name }))
+    const contourSource = map.current.getSource('bathy-contours') as maplibregl.GeoJSONSource | undefined
+    contourSource?.setData(bathymetryContours(lake))
+  }, [isMapLoaded, lake])
+
   // Add wind source to map
   const addWindSource = useCallback((windData: any) => {
     if (!map.current || !isMapLoaded) return
@@ -221,6 +243,49 @@ export const LiveKinneret = forwardRef<LiveKinneretRef, LiveKinneretProps>(({ cl
     }
   }, [isMapLoaded])
 
+  // Add a grid field as an image source stretched over its georeferenced corners, clipped to the shoreline
+  const addGridLayer = useCallback((layer: GridField, opacity: number = 0.8) => {
+    if (!map.current || !isMapLoaded) return
+
+    try {
+      const url = gridFieldToCanvas(maskField(layer, lakeRef.current.polygons), undefined, undefined, layer).toDataURL()
+      const coordinates = getFieldCorners(layer)
+      const source = map.current.getSource('model-grid') as maplibregl.ImageSource | undefined
+
+      if (source) {
+        source.updateImage({ url, coordinates })
+        map.current.setPaintProperty('model-grid-layer', 'raster-opacity', opacity)
+        return
+      }
+
+      map.current.addSource('model-grid', { type: 'image', url, coordinates })
+      // Below the lake outline so the shoreline stays visible
+      map.current.addLayer({
+        id: 'model-grid-layer',
+        type: 'raster',
+        source: 'model-grid',
+        paint: {
+          'raster-opacity': opacity,
+          'raster-resampling': 'nearest'
+        }
+      }, map.current.getLayer('lake-outline') ? 'lake-outline' : undefined)
+    } catch (error) {
+      console.error('Error adding model grid layer:', error)
+    }
+  }, [isMapLoaded])
+
+  const removeGridLayer = useCallback(() => {
+    if (!map.current || !map.current.getSource('model-grid')) return
+    map.current.removeLayer('model-grid-layer')
+    map.current.removeSource('model-grid')
+  }, [])
+
+  useEffect(() => {
+    if (!isMapLoaded) return
+    if (gridLayer) addGridLayer(gridLayer, gridOpacity)
+    else removeGridLayer()
+  }, [isMapLoaded, gridLayer, gridOpacity, lake, addGridLayer, removeGridLayer])
+
   // Update layer opacity
   const updateLayerOpacity = useCallback((layerId: string, opacity: number) => {
     if (!map.current) return
@@ -232,6 +297,8 @@ export const LiveKinneret = forwardRef<LiveKinneretRef, LiveKinneretProps>(({ cl
   useImperativeHandle(ref, () => ({
     addWindSource,
     addTemperatureRaster,
+    addGridLayer,
+    removeGridLayer,
     updateLayerOpacity,
     getMap: () => map.current
   }))
@@ -245,16 +312,48 @@ export const LiveKinneret = forwardRef<LiveKinneretRef, LiveKinneretProps>(({ cl
         Scale: 1:50,000
       </div>
 
+      <div className="absolute top-2 left-2 z-10 max-w-[16rem] rounded bg-white/90 px-2 py-1 text-[10px] text-gray-600 shadow">
+        Depth contours {BATHYMETRY_CONTOUR_LEVELS.join(', ')} m · {BATHYMETRY_NOTE}
+      </div>
+
       <div className="north-arrow" />
 
-      <div className="legend">
-        <h4>Temperature</h4>
-        <div className="legend-scale" />
-        <div className="legend-labels">
-          <span>10°C</span>
-          <span>30°C</span>
+      {gridLayer ? (
+        <div className="legend absolute bottom-8 right-2 z-10 w-48 rounded bg-white/90 p-2 text-xs shadow">
+          <h4 className="font-medium truncate" title={describeGridField(gridLayer)}>{describeGridField(gridLayer)}</h4>
+          {gridLayer.categories ? (
+            <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+              {gridLayer.categories.map((category, index) => (
+                <span key={category} className="flex items-center gap-1">
+                  <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: categoryColor(index) }} />
+                  {category}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <>
+              <div
+                className="legend-scale my-1 h-3 rounded"
+                style={{ background: createGradientBackground(0, 0, getFieldColorMap(gridLayer)) }}
+              />
+              <div className="legend-labels flex justify-between">
+                <span>{gridLayer.min.toPrecision(3)}</span>
+                <span>{gridLayer.units}</span>
+                <span>{gridLayer.max.toPrecision(3)}</span>
+              </div>
+            </>
+          )}
         </div>
-      </div>
+      ) : (
+        <div className="legend">
+          <h4>Temperature</h4>
+          <div className="legend-scale" />
+          <div className="legend-labels">
+            <span>10°C</span>
+            <span>30°C</span>
+          </div>
+        </div>
+      )}
     </div>
   )
 })
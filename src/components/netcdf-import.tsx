@@ -0,0 +1,222 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Layers, Plus, Trash2, X } from 'lucide-react'
+import { useGridLayers, useKinneretStore } from '@/store/kinneret-store'
+import { NetcdfReader } from '@/lib/netcdf/reader'
+import { GriddedVariable, readGridField } from '@/lib/netcdf/cf'
+import { describeGridField, fieldStats } from '@/lib/rasters/grid-field'
+import { OBSERVATION_VARIABLES, ObservationVariable } from '@/lib/schemas'
+import { OBSERVATION_LABELS } from '@/lib/observations'
+
+const UNKNOWN_QUANTITY = '__none__'
+
+interface NetcdfImportProps {
+  fileName: string
+  reader: NetcdfReader
+  variables: GriddedVariable[]
+  onClose: () => void
+}
+
+// Pick variables and time/depth slices of a NetCDF model output and add them as map layers
+export function NetcdfImport({ fileName, reader, variables, onClose }: NetcdfImportProps) {
+  const addGridLayer = useKinneretStore(state => state.addGridLayer)
+  const [variableName, setVariableName] = useState(variables[0]?.name ?? '')
+  const [timeIndex, setTimeIndex] = useState(0)
+  const [depthIndex, setDepthIndex] = useState(0)
+  const [quantity, setQuantity] = useState<ObservationVariable | null>(variables[0]?.quantity ?? null)
+  const [isReading, setIsReading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [added, setAdded] = useState(0)
+
+  const variable = variables.find(v => v.name === variableName)
+
+  const selectVariable = (name: string) => {
+    setVariableName(name)
+    setTimeIndex(0)
+    setDepthIndex(0)
+    setQuantity(variables.find(v => v.name === name)?.quantity ?? null)
+  }
+
+  const handleAdd = async () => {
+    if (!variable) return
+    setIsReading(true)
+    setError(null)
+    try {
+      const layer = await readGridField(reader, variable.name, { timeIndex, depthIndex, quantity }, fileName)
+      addGridLayer(layer)
+      setAdded(count => count + 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read variable')
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Import Model Output</CardTitle>
+            <CardDescription>
+              {fileName}: {variables.length} gridded variable{variables.length === 1 ? '' : 's'} · NetCDF {reader.header.version === 2 ? '64-bit offset' : 'classic'}
+            </CardDescription>
+          </div>
+          <Button onClick={onClose} variant="ghost" size="sm" aria-label="Close NetCDF import">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {variables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No variables on a longitude/latitude grid were found in this file.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="space-y-1 text-sm">
+                <span className="font-medium">Variable</span>
+                <Select value={variableName} onValueChange={selectVariable}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {variables.map(v => (
+                      <SelectItem key={v.name} value={v.name}>
+                        {v.name}{v.longName !== v.name ? ` — ${v.longName}` : ''}{v.units ? ` (${v.units})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </label>
+
+              <label className="space-y-1 text-sm">
+                <span className="font-medium">Treat as</span>
+                <Select
+                  value={quantity ?? UNKNOWN_QUANTITY}
+                  onValueChange={(value) => setQuantity(value === UNKNOWN_QUANTITY ? null : value as ObservationVariable)}
+                >
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNKNOWN_QUANTITY}>Other field</SelectItem>
+                    {OBSERVATION_VARIABLES.map(v => (
+                      <SelectItem key={v} value={v}>{OBSERVATION_LABELS[v]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </label>
+
+              {variable && variable.times.length > 0 && (
+                <label className="space-y-1 text-sm">
+                  <span className="font-medium">Time</span>
+                  <Select value={String(timeIndex)} onValueChange={(value) => setTimeIndex(Number(value))}>
+                    <SelectTrigger className="h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {variable.times.map((time, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {time ?? `Step ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+              )}
+
+              {variable && variable.depths.length > 0 && (
+                <label className="space-y-1 text-sm">
+                  <span className="font-medium">Depth</span>
+                  <Select value={String(depthIndex)} onValueChange={(value) => setDepthIndex(Number(value))}>
+                    <SelectTrigger className="h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {variable.depths.map((depth, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {depth} m
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button onClick={handleAdd} size="sm" disabled={isReading || !variable}>
+                <Plus className="mr-2 h-4 w-4" />
+                {isReading ? 'Reading…' : 'Add layer'}
+              </Button>
+              {added > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {added} layer{added === 1 ? '' : 's'} added; they are shown on the Live Data page
+                </span>
+              )}
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Gridded layers loaded this session (Data page)
+export function GridLayerList() {
+  const gridLayers = useGridLayers()
+  const removeGridLayer = useKinneretStore(state => state.removeGridLayer)
+
+  if (gridLayers.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Model Layers</CardTitle>
+            <CardDescription>
+              Gridded fields imported from NetCDF; kept until the page is reloaded
+            </CardDescription>
+          </div>
+          <Layers className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y rounded-lg border">
+          {gridLayers.map(layer => (
+            <li key={layer.id} className="flex items-center justify-between gap-2 p-2 sm:p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="truncate text-sm font-medium">{describeGridField(layer)}</span>
+                  {layer.quantity && (
+                    <Badge variant="outline" className="text-xs">{OBSERVATION_LABELS[layer.quantity]}</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {layer.source} · {layer.width}×{layer.height} cells · {layer.min.toPrecision(3)}–{layer.max.toPrecision(3)} {layer.units}
+                  {' '}· mean {fieldStats(layer).mean.toPrecision(3)}
+                </p>
+              </div>
+              <Button
+                onClick={() => removeGridLayer(layer.id)}
+                variant="ghost"
+                size="sm"
+                aria-label={`Remove ${layer.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
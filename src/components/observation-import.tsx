@@ -0,0 +1,129 @@
+import { useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Rows3, Upload } from 'lucide-react'
+import { useKinneretStore } from '@/store/kinneret-store'
+import { CsvParseProgress, CsvRowError, parseObservationCSVFile } from '@/lib/csv-utils'
+import { OBSERVATION_HEADERS } from '@/lib/csv/parser'
+import { DATE_FORMATS, DateFormat } from '@/lib/csv/mapping'
+import { OBSERVATION_VARIABLES } from '@/lib/schemas'
+
+const MAX_SHOWN_ERRORS = 5
+
+// Import of long-format monitoring files, one measurement per row (Data page)
+export function ObservationImport() {
+  const importObservations = useKinneretStore(state => state.importObservations)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dateFormat, setDateFormat] = useState<DateFormat>('YYYY-MM-DD')
+  const [progress, setProgress] = useState<CsvParseProgress | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [rowErrors, setRowErrors] = useState<CsvRowError[]>([])
+
+  const handleFile = async (file: File) => {
+    setMessage(null)
+    setError(null)
+    setRowErrors([])
+    setIsImporting(true)
+    try {
+      const result = await parseObservationCSVFile(file, setProgress, dateFormat)
+      setRowErrors(result.errors)
+      if (result.observations.length === 0) {
+        setError(result.errors[0]?.message ?? 'The file has no observations')
+        return
+      }
+
+      importObservations(result.observations, {
+        name: file.name.replace(/\.(csv|txt)$/i, ''),
+        metadata: { source: file.name, description: 'Long-format observations' },
+      })
+      // The store reports validation failures in `error` rather than throwing
+      const { error: storeError, datasets, activeDatasetId } = useKinneretStore.getState()
+      if (storeError) {
+        setError(storeError)
+        return
+      }
+
+      const dataset = datasets[datasets.length - 1]
+      const skipped = result.errorCount > 0 ? `; ${result.errorCount} problem${result.errorCount === 1 ? '' : 's'} in skipped rows` : ''
+      const inactive = dataset.id === activeDatasetId
+        ? ''
+        : `. No date has all five phytoplankton groups, so "${dataset.name}" was added without becoming the active dataset`
+      setMessage(`Imported ${result.observations.length} of ${result.totalRows} rows from ${file.name}${skipped}${inactive}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read observation file')
+    } finally {
+      setIsImporting(false)
+      setProgress(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Long-Format Observations</CardTitle>
+            <CardDescription>
+              One measurement per row, any variable, station and depth; used by depth profiles, station views and zooplankton charts
+            </CardDescription>
+          </div>
+          <Rows3 className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Columns: <code className="font-mono">{OBSERVATION_HEADERS.join(', ')}</code>. Station and depth are optional.
+          Variables: <span className="font-mono">{OBSERVATION_VARIABLES.join(', ')}</span>.
+          Individual observations are kept for this session; the per-date series of the five groups is saved with the dataset.
+        </p>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.txt,text/csv"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+            if (file) handleFile(file)
+            event.target.value = ''
+          }}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+            <SelectTrigger className="w-36 h-9 text-sm" aria-label="Date format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMATS.map(format => (
+                <SelectItem key={format} value={format}>{format}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => inputRef.current?.click()} variant="outline" size="sm" disabled={isImporting}>
+            <Upload className="mr-2 h-4 w-4" />
+            {isImporting
+              ? progress
+                ? `Processing... ${Math.round((progress.bytesRead / Math.max(progress.totalBytes, 1)) * 100)}%`
+                : 'Processing...'
+              : 'Import observations CSV'}
+          </Button>
+        </div>
+
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+        {rowErrors.length > 0 && (
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {rowErrors.slice(0, MAX_SHOWN_ERRORS).map((rowError, i) => (
+              <li key={`${rowError.line}-${i}`}>
+                Line {rowError.line}{rowError.field ? ` (${rowError.field})` : ''}: {rowError.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Line, LineChart } from 'recharts'
+import { useObservations } from '@/store/kinneret-store'
+import { ObservationVariable } from '@/lib/schemas'
+import {
+  OBSERVATION_LABELS,
+  OBSERVATION_UNITS,
+  deriveDepthProfile,
+  deriveStationMeans,
+  filterObservations,
+  getDepths,
+  getObservedVariables,
+  getStations,
+} from '@/lib/observations'
+
+const formatValue = (value: number) => (Number.isFinite(value) ? value.toPrecision(3) : '—')
+
+interface ObservedDepthProfileProps {
+  variable: ObservationVariable
+  color?: string
+}
+
+// Measured vertical profile of one variable on one date, with per-station means (long-format observations)
+export function ObservedDepthProfile({ variable, color = '#3B82F6' }: ObservedDepthProfileProps) {
+  const observations = useObservations()
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+
+  const variableObservations = useMemo(() => filterObservations(observations, { variables: [variable] }), [observations, variable])
+
+  // Dates sampled at more than one depth, newest first
+  const profileDates = useMemo(() => {
+    const depthsByDate = new Map<string, Set<number>>()
+    variableObservations.forEach(obs => {
+      const depths = depthsByDate.get(obs.date) ?? new Set<number>()
+      depths.add(obs.depth)
+      depthsByDate.set(obs.date, depths)
+    })
+    return Array.from(depthsByDate.entries())
+      .filter(([, depths]) => depths.size > 1)
+      .map(([date]) => date)
+      .sort()
+      .reverse()
+  }, [variableObservations])
+
+  const date = selectedDate && profileDates.includes(selectedDate) ? selectedDate : profileDates[0]
+  const profile = useMemo(
+    () => (date ? deriveDepthProfile(observations, variable, date).map(point => ({ ...point, depth: -point.depth })) : []),
+    [observations, variable, date]
+  )
+  const stationMeans = useMemo(() => Object.entries(deriveStationMeans(observations, variable)), [observations, variable])
+
+  const units = OBSERVATION_UNITS[variable]
+
+  if (variableObservations.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center">
+        No {OBSERVATION_LABELS[variable].toLowerCase()} observations in the active dataset. Import a long-format CSV with station and
+        depth columns on the Data page to compare measured profiles.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Observed {OBSERVATION_LABELS[variable]} profile</span>
+        {date && (
+          <Select value={date} onValueChange={setSelectedDate}>
+            <SelectTrigger className="w-36 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profileDates.map(profileDate => (
+                <SelectItem key={profileDate} value={profileDate}>{profileDate}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {profile.length > 1 ? (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={profile} layout="vertical" margin={{ top: 10, right: 30, left: 20, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="value"
+                tick={{ fontSize: 12 }}
+                label={{ value: units, position: 'insideBottom', offset: -10 }}
+              />
+              <YAxis
+                type="number"
+                dataKey="depth"
+                domain={['dataMin', 0]}
+                tick={{ fontSize: 12 }}
+                label={{ value: 'Depth (m)', angle: -90, position: 'insideLeft' }}
+              />
+              <Tooltip
+                formatter={(value: number) => [`${formatValue(value)} ${units}`, 'Mean across stations']}
+                labelFormatter={(depth) => `Depth: ${depth}m`}
+              />
+              <Line type="monotone" dataKey="value" stroke={color} strokeWidth={2} dot={{ r: 3 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Every {OBSERVATION_LABELS[variable].toLowerCase()} observation is at {getDepths(variableObservations).join(', ')} m; a profile
+          needs samples from more than one depth on the same date.
+        </p>
+      )}
+
+      {stationMeans.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Station</th>
+                <th className="text-left p-2 font-medium">Mean ({units})</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stationMeans.map(([station, mean]) => (
+                <tr key={station} className="border-b">
+                  <td className="p-2">{station}</td>
+                  <td className="p-2 font-mono">{formatValue(mean)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Mean of every observed variable at one station over the active dataset
+export function StationObservationMeans({ station }: { station: string }) {
+  const observations = useObservations()
+
+  const rows = useMemo(() => {
+    if (!getStations(observations).includes(station)) return []
+    return getObservedVariables(observations).map(variable => ({
+      variable,
+      mean: deriveStationMeans(observations, variable, { stations: [station] })[station],
+    })).filter(row => row.mean !== undefined)
+  }, [observations, station])
+
+  if (rows.length === 0) {
+    return <p className="text-xs text-muted-foreground">No observations for station {station} in the active dataset</p>
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {rows.map(({ variable, mean }) => (
+        <div key={variable} className="flex justify-between gap-2">
+          <span className="text-muted-foreground">{OBSERVATION_LABELS[variable]}</span>
+          <span className="font-mono">{formatValue(mean)} {OBSERVATION_UNITS[variable]}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
 import { PhytoplanktonPredictor, PredictionData, PredictionResult, PREDICTION_MODELS } from '@/lib/predictions/phytoplankton-predictor';
+import { formatSkill } from '@/lib/model/evaluation';
 import { TrendingUp, Brain, Target, Calendar, BarChart3 } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
@@ -40,8 +41,8 @@ export function PredictionChartSimple({ data, className }: PredictionChartProps)
     return predictor.predict(selectedGroup, selectedModel, monthsAhead[0]);
   }, [predictor, selectedGroup, selectedModel, monthsAhead]);
 
-  const modelAccuracy = useMemo(() => {
-    return predictor.getModelAccuracy(selectedGroup);
+  const modelSkill = useMemo(() => {
+    return predictor.getModelSkill(selectedGroup);
   }, [predictor, selectedGroup]);
 
   // Prepare chart data
@@ -65,7 +66,9 @@ export function PredictionChartSimple({ data, className }: PredictionChartProps)
     return [...historical, ...predicted];
   }, [data, selectedGroup, predictions]);
 
-  const accuracyScore = modelAccuracy[selectedModel.name] || 0;
+  // Nash–Sutcliffe efficiency on the held-out last quarter of the record
+  const skill = modelSkill[selectedModel.name];
+  const nse = skill?.nse ?? NaN;
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -111,7 +114,7 @@ export function PredictionChartSimple({ data, className }: PredictionChartProps)
               >
                 {PREDICTION_MODELS.map((model) => (
                   <option key={model.name} value={model.name}>
-                    {model.name} ({modelAccuracy[model.name]?.toFixed(1) || 0}% accuracy)
+                    {model.name} (NSE {formatSkill(modelSkill[model.name]?.nse ?? NaN)})
                   </option>
                 ))}
               </select>
@@ -170,8 +173,8 @@ export function PredictionChartSimple({ data, className }: PredictionChartProps)
                 <BarChart3 className="h-4 w-4" />
                 <span className="text-sm font-medium">Model Performance</span>
               </div>
-              <Badge variant={accuracyScore > 70 ? "default" : accuracyScore > 50 ? "secondary" : "destructive"}>
-                {accuracyScore.toFixed(1)}% Accuracy
+              <Badge variant={nse > 0.5 ? "default" : nse > 0 ? "secondary" : "destructive"}>
+                NSE {formatSkill(nse)} · RMSE {formatSkill(skill?.rmse ?? NaN, 3)}
               </Badge>
             </div>
             <p className="text-xs text-muted-foreground mt-1">
@@ -1,11 +1,14 @@
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
-import { PhytoplanktonPredictor, PredictionData, PREDICTION_MODELS } from '@/lib/predictions/phytoplankton-predictor';
+import { PredictionData, PREDICTION_MODELS } from '@/lib/predictions/phytoplankton-predictor';
+import { PredictionJobResult } from '@/lib/compute/service';
+import { useComputeTask } from '@/hooks/use-compute-task';
+import { formatSkill } from '@/lib/model/evaluation';
 import { TrendingUp, Brain, Target, Calendar, BarChart3 } from 'lucide-react';
 import { FigureExportControls } from '@/components/figure-export-controls';
 
@@ -37,15 +40,18 @@ export function PredictionChart({ data, className }: PredictionChartProps) {
   const [showConfidence, setShowConfidence] = useState(true);
 
   const cardRef = useRef<HTMLDivElement>(null);
-  const predictor = useMemo(() => new PhytoplanktonPredictor(data), [data]);
+  const { run } = useComputeTask();
+  const [forecast, setForecast] = useState<PredictionJobResult>({ predictions: [], skill: {} });
 
-  const predictions = useMemo(() => {
-    return predictor.predict(selectedGroup, selectedModel, monthsAhead[0]);
-  }, [predictor, selectedGroup, selectedModel, monthsAhead]);
+  // Forecast and hold-out skill of the models are computed in the worker
+  useEffect(() => {
+    run({ kind: 'prediction', data, group: selectedGroup, model: selectedModel, monthsAhead: monthsAhead[0] })
+      .then(result => {
+        if (result) setForecast(result);
+      });
+  }, [run, data, selectedGroup, selectedModel, monthsAhead]);
 
-  const modelAccuracy = useMemo(() => {
-    return predictor.getModelAccuracy(selectedGroup);
-  }, [predictor, selectedGroup]);
+  const { predictions, skill: modelSkill } = forecast;
 
   // Prepare chart data
   const chartData = useMemo(() => {
@@ -68,7 +74,9 @@ export function PredictionChart({ data, className }: PredictionChartProps) {
     return [...historical, ...predicted];
   }, [data, selectedGroup, predictions]);
 
-  const accuracyScore = modelAccuracy[selectedModel.name] || 0;
+  // Nash–Sutcliffe efficiency on the held-out last quarter of the record
+  const skill = modelSkill[selectedModel.name];
+  const nse = skill?.nse ?? NaN;
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -124,7 +132,7 @@ export function PredictionChart({ data, className }: PredictionChartProps) {
                       <div>
                         <div className="font-medium">{model.name}</div>
                         <div className="text-xs text-muted-foreground">
-                          Accuracy: {modelAccuracy[model.name]?.toFixed(1) || 0}%
+                          NSE {formatSkill(modelSkill[model.name]?.nse ?? NaN)}, RMSE {formatSkill(modelSkill[model.name]?.rmse ?? NaN, 3)}
                         </div>
                       </div>
                     </SelectItem>
@@ -185,7 +193,7 @@ export function PredictionChart({ data, className }: PredictionChartProps) {
               metadata={{
                 title: `${groupLabels[selectedGroup]} Prediction`,
                 subtitle: `${selectedModel.name} Model - ${monthsAhead[0]} months ahead`,
-                caption: `Prediction accuracy: ${accuracyScore.toFixed(1)}%. Generated using ${selectedModel.description.toLowerCase()}.`,
+                caption: `Hold-out skill: NSE ${formatSkill(nse)}, RMSE ${formatSkill(skill?.rmse ?? NaN, 3)}. Generated using ${selectedModel.description.toLowerCase()}.`,
                 units: 'Biomass (μg/L)',
                 source: 'Lake Kinneret 3D Biogeochemical Model',
                 timestamp: new Date().toISOString(),
@@ -213,8 +221,8 @@ export function PredictionChart({ data, className }: PredictionChartProps) {
                 <BarChart3 className="h-4 w-4" />
                 <span className="text-sm font-medium">Model Performance</span>
               </div>
-              <Badge variant={accuracyScore > 70 ? "default" : accuracyScore > 50 ? "secondary" : "destructive"}>
-                {accuracyScore.toFixed(1)}% Accuracy
+              <Badge variant={nse > 0.5 ? "default" : nse > 0 ? "secondary" : "destructive"}>
+                NSE {formatSkill(nse)} · RMSE {formatSkill(skill?.rmse ?? NaN, 3)}
               </Badge>
             </div>
             <p className="text-xs text-muted-foreground mt-1">
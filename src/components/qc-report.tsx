@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RefreshCw, ShieldCheck } from 'lucide-react'
+import { useActiveDataset, useKinneretStore } from '@/store/kinneret-store'
+import { QC_CHECKS, QcReport } from '@/lib/schemas'
+import { QC_CHECK_LABELS, QcDisplayMode, SpikeMethod, countFlaggedValues, countFlags } from '@/lib/qc'
+import { OBSERVATION_LABELS } from '@/lib/observations'
+
+// Rows shown in the flag table; the counts above cover all flags
+const MAX_FLAG_ROWS = 200
+
+// QC report of the active dataset with a re-run control (Data page)
+export function QcReportCard() {
+  const activeDataset = useActiveDataset()
+  const runDatasetQc = useKinneretStore(state => state.runDatasetQc)
+  const [spikeMethod, setSpikeMethod] = useState<SpikeMethod>(activeDataset?.qc?.spikeMethod ?? 'mad')
+
+  if (!activeDataset) return null
+  const report = activeDataset.qc
+
+  const handleRun = () => runDatasetQc(activeDataset.id, { spikeMethod })
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Quality Control</CardTitle>
+            <CardDescription>
+              Range, spike, duplicate-date, ordering and gap checks for {activeDataset.name}
+            </CardDescription>
+          </div>
+          <ShieldCheck className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={spikeMethod} onValueChange={(value) => setSpikeMethod(value as SpikeMethod)}>
+            <SelectTrigger className="h-9 w-48 text-sm" aria-label="Spike detection method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mad">Spikes: MAD (robust z)</SelectItem>
+              <SelectItem value="iqr">Spikes: IQR fences</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleRun} variant="outline" size="sm">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {report ? 'Re-run QC' : 'Run QC'}
+          </Button>
+        </div>
+
+        {!report ? (
+          <p className="text-sm text-muted-foreground">
+            This dataset has not been checked yet. Uploads are checked automatically on import.
+          </p>
+        ) : (
+          <QcReportDetails report={report} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function QcReportDetails({ report }: { report: QcReport }) {
+  const counts = countFlags(report)
+  const flaggedValues = countFlaggedValues(report)
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+        <div>
+          <p className="text-muted-foreground">Values checked</p>
+          <p className="font-medium">{report.checkedValues.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Values flagged</p>
+          <p className="font-medium">
+            {flaggedValues.toLocaleString()}
+            {report.checkedValues > 0 && ` (${((flaggedValues / report.checkedValues) * 100).toFixed(1)}%)`}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Sampling gaps</p>
+          <p className="font-medium">{report.gaps.length}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {QC_CHECKS.map(check => (
+          <Badge key={check} variant={counts[check] > 0 ? 'default' : 'outline'} className="text-xs">
+            {QC_CHECK_LABELS[check]}: {counts[check]}
+          </Badge>
+        ))}
+      </div>
+
+      {report.flags.length > 0 && (
+        <div className="max-h-64 overflow-y-auto rounded-lg border">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-background">
+              <tr className="border-b">
+                <th className="text-left p-1 sm:p-2 font-medium">Date</th>
+                <th className="text-left p-1 sm:p-2 font-medium">Station / depth</th>
+                <th className="text-left p-1 sm:p-2 font-medium">Variable</th>
+                <th className="text-left p-1 sm:p-2 font-medium">Value</th>
+                <th className="text-left p-1 sm:p-2 font-medium">Check</th>
+                <th className="text-left p-1 sm:p-2 font-medium">Message</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.flags.slice(0, MAX_FLAG_ROWS).map((flag, index) => (
+                <tr key={index} className="border-b">
+                  <td className="p-1 sm:p-2 font-mono whitespace-nowrap">{flag.date}</td>
+                  <td className="p-1 sm:p-2 whitespace-nowrap">{flag.station} / {flag.depth} m</td>
+                  <td className="p-1 sm:p-2 whitespace-nowrap">{OBSERVATION_LABELS[flag.variable]}</td>
+                  <td className="p-1 sm:p-2 font-mono">{flag.value.toPrecision(3)}</td>
+                  <td className="p-1 sm:p-2">
+                    <Badge variant={flag.level === 'bad' ? 'destructive' : 'secondary'} className="text-[10px]">
+                      {QC_CHECK_LABELS[flag.check]}
+                    </Badge>
+                  </td>
+                  <td className="p-1 sm:p-2">{flag.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {report.flags.length > MAX_FLAG_ROWS && (
+        <p className="text-xs text-muted-foreground text-center">
+          Showing first {MAX_FLAG_ROWS} of {report.flags.length} flags
+        </p>
+      )}
+
+      {report.gaps.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-sm font-medium">Sampling gaps</span>
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {report.gaps.map((gap, index) => (
+              <li key={index}>
+                Station {gap.station}, {gap.depth} m: {gap.from} → {gap.to} ({gap.days} days)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface QcDisplaySelectProps {
+  mode: QcDisplayMode
+  onChange: (mode: QcDisplayMode) => void
+  flaggedCount: number
+  className?: string
+}
+
+// Show, highlight or hide QC-flagged values in charts (Statistics, Dashboard)
+export function QcDisplaySelect({ mode, onChange, flaggedCount, className = '' }: QcDisplaySelectProps) {
+  return (
+    <Select value={mode} onValueChange={(value) => onChange(value as QcDisplayMode)}>
+      <SelectTrigger className={`h-9 w-56 text-sm ${className}`} aria-label="QC flag display">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="show">QC flags: show all ({flaggedCount} flagged)</SelectItem>
+        <SelectItem value="highlight">QC flags: highlight</SelectItem>
+        <SelectItem value="hide">QC flags: hide flagged</SelectItem>
+      </SelectContent>
+    </Select>
+  )
+}
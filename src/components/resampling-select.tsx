@@ -0,0 +1,54 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useKinneretStore } from '@/store/kinneret-store'
+import {
+  FREQUENCY_LABELS,
+  INTERPOLATION_LABELS,
+  INTERPOLATION_METHODS,
+  InterpolationMethod,
+  RESAMPLE_FREQUENCIES,
+  ResampleFrequency,
+} from '@/lib/resampling'
+
+interface ResamplingSelectProps {
+  showFrequency?: boolean
+  className?: string
+}
+
+// Grid frequency and gap-filling method shared by Statistics and Dashboard
+export function ResamplingSelect({ showFrequency = true, className = '' }: ResamplingSelectProps) {
+  const resampling = useKinneretStore(state => state.resampling)
+  const setResampling = useKinneretStore(state => state.setResampling)
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {showFrequency && (
+        <Select
+          value={resampling.frequency}
+          onValueChange={(value) => setResampling({ frequency: value as ResampleFrequency })}
+        >
+          <SelectTrigger className="h-9 w-32 text-sm" aria-label="Resampling frequency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RESAMPLE_FREQUENCIES.map(frequency => (
+              <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Select
+        value={resampling.method}
+        onValueChange={(value) => setResampling({ method: value as InterpolationMethod })}
+      >
+        <SelectTrigger className="h-9 w-52 text-sm" aria-label="Gap filling method">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {INTERPOLATION_METHODS.map(method => (
+            <SelectItem key={method} value={method}>Gaps: {INTERPOLATION_LABELS[method]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { useMemo, useState } from 'react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import dayjs from 'dayjs'
+import { PHYTOPLANKTON_GROUPS, PhytoplanktonGroup, Scenario } from '@/lib/schemas'
+import { biomassDifference, diffScenarios } from '@/lib/scenarios'
+import { FigureFrame } from '@/components/figure-frame'
+
+interface ScenarioComparisonProps {
+  scenarios: Scenario[] // the first is the baseline
+  labels: Record<PhytoplanktonGroup, string>
+}
+
+const SCENARIO_COLORS = ['#2563EB', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#14B8A6']
+
+const formatValue = (value: number | string) =>
+  typeof value === 'number' ? (Number.isFinite(value) ? Number(value.toPrecision(4)).toString() : '—') : value
+
+export function ScenarioComparison({ scenarios, labels }: ScenarioComparisonProps) {
+  const [group, setGroup] = useState<PhytoplanktonGroup>('microcystis')
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [baseline, ...others] = scenarios
+
+  const differenceData = useMemo(() => biomassDifference(scenarios, group), [scenarios, group])
+  const diff = useMemo(() => diffScenarios(scenarios), [scenarios])
+  const rows = showUnchanged ? diff : diff.filter(row => row.changed)
+  const withResults = others.filter(scenario => scenario.results)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-muted-foreground">Difference from <span className="font-medium text-foreground">{baseline.name}</span> for</span>
+        <Select value={group} onValueChange={value => setGroup(value as PhytoplanktonGroup)}>
+          <SelectTrigger className="h-8 w-44 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {PHYTOPLANKTON_GROUPS.map(key => (
+              <SelectItem key={key} value={key}>{labels[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {baseline.results && withResults.length > 0 ? (
+        <FigureFrame
+          title={`${labels[group]}: difference from ${baseline.name}`}
+          subtitle={`${withResults.map(scenario => scenario.name).join(', ')} minus the baseline`}
+          caption="Simulated biomass of each scenario minus the baseline scenario on the dates they share; above zero the scenario has more biomass."
+          units="mmol P/m³"
+          source="Scenario library, Kinneret NPZ model"
+          pageName="scenarios"
+          figureKey={`scenario-difference-${group}`}
+          supportsSVG={true}
+        >
+          <div className="h-[300px] min-w-[360px] w-full" role="img" aria-label="Biomass difference between scenarios">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={differenceData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tickFormatter={date => dayjs(date).format('MMM D')} minTickGap={24} />
+                <YAxis />
+                <Tooltip formatter={value => (typeof value === 'number' ? value.toPrecision(3) : '—')} />
+                <Legend />
+                <ReferenceLine y={0} stroke="#6B7280" />
+                {withResults.map((scenario, i) => (
+                  <Line
+                    key={scenario.id}
+                    type="monotone"
+                    dataKey={scenario.id}
+                    name={scenario.name}
+                    stroke={SCENARIO_COLORS[i % SCENARIO_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </FigureFrame>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Difference charts need saved results for the baseline and at least one other scenario; run a scenario before saving it.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Checkbox checked={showUnchanged} onCheckedChange={checked => setShowUnchanged(checked === true)} />
+          Show unchanged settings
+        </label>
+        {rows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Setting</th>
+                  {scenarios.map(scenario => (
+                    <th key={scenario.id} className="text-right p-2 font-medium">{scenario.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-b">
+                    <td className="p-2">{row.group ? `${labels[row.group]} · ${row.name}` : row.name}</td>
+                    {row.values.map((value, i) => (
+                      <td
+                        key={scenarios[i].id}
+                        className={`p-2 text-right font-mono ${i > 0 && value !== row.values[0] ? 'font-semibold text-amber-600' : ''}`}
+                      >
+                        {formatValue(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">The scenarios share every parameter, nutrient and forcing setting.</p>
+        )}
+      </div>
+    </div>
+  )
+}
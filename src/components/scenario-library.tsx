@@ -0,0 +1,235 @@
+import { useMemo, useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Download, FolderOpen, Library, Save, Trash2, Upload } from 'lucide-react'
+import dayjs from 'dayjs'
+import { useKinneretStore, useScenarios } from '@/store/kinneret-store'
+import { PhytoplanktonGroup, Scenario } from '@/lib/schemas'
+import { exportScenarioFile, parseScenarioFile, parseTags } from '@/lib/scenarios'
+import { downloadFile } from '@/lib/csv-utils'
+import { ScenarioComparison } from '@/components/scenario-comparison'
+
+interface ScenarioLibraryProps {
+  createCurrent: (name: string, tags: string[]) => Scenario // snapshot of the page's scenario and its last run
+  onLoad: (scenario: Scenario) => void
+  labels: Record<PhytoplanktonGroup, string>
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent'
+
+const fileName = (name: string) => `kinneret-scenario-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export'}.json`
+
+// Saved scenarios: save the current one, reload, import and export JSON, and compare
+export function ScenarioLibrary({ createCurrent, onLoad, labels }: ScenarioLibraryProps) {
+  const scenarios = useScenarios()
+  const saveScenario = useKinneretStore(state => state.saveScenario)
+  const updateScenario = useKinneretStore(state => state.updateScenario)
+  const deleteScenario = useKinneretStore(state => state.deleteScenario)
+  const importScenarios = useKinneretStore(state => state.importScenarios)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const [name, setName] = useState('')
+  const [tags, setTags] = useState('')
+  const [tagFilter, setTagFilter] = useState('all')
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const allTags = useMemo(() => [...new Set(scenarios.flatMap(scenario => scenario.tags))].sort(), [scenarios])
+  const visible = tagFilter === 'all' ? scenarios : scenarios.filter(scenario => scenario.tags.includes(tagFilter))
+  // Compared in the order they were ticked; the first is the baseline
+  const compared = useMemo(
+    () => compareIds.flatMap(id => scenarios.filter(scenario => scenario.id === id)),
+    [compareIds, scenarios]
+  )
+
+  const save = () => {
+    const scenario = createCurrent(name, parseTags(tags))
+    saveScenario(scenario)
+    setName('')
+    setMessage(`Saved “${scenario.name}”${scenario.results ? '' : ' without results; run the scenario to keep its output'}`)
+    setError(null)
+  }
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    try {
+      const imported = parseScenarioFile(await file.text())
+      importScenarios(imported)
+      setMessage(`Imported ${imported.length} scenario${imported.length === 1 ? '' : 's'} from ${file.name}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read scenario file')
+    }
+  }
+
+  const toggleCompare = (id: string, enabled: boolean) => {
+    setCompareIds(prev => (enabled ? [...prev, id] : prev.filter(other => other !== id)))
+  }
+
+  const exportSelection = () => {
+    const selection = compared.length > 0 ? compared : visible
+    downloadFile(exportScenarioFile(selection), `kinneret-scenarios-${dayjs().format('YYYY-MM-DD')}.json`, 'application/json')
+  }
+
+  return (
+    <Card className="responsive-card mb-8">
+      <CardHeader className="pb-4">
+        <CardTitle className="responsive-heading flex items-center gap-2">
+          <Library className="h-5 w-5" />
+          Scenario Library
+        </CardTitle>
+        <CardDescription className="responsive-text">
+          Save the current parameters, nutrients, forcing and results under a name, reload them later, and compare scenarios
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-[2fr_2fr_auto] gap-3 items-end">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Name
+            <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Reduced P loading" className={inputClassName} />
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Tags (comma-separated)
+            <input value={tags} onChange={e => setTags(e.target.value)} placeholder="e.g. nutrients, 2019" className={inputClassName} />
+          </label>
+          <Button size="sm" onClick={save}>
+            <Save className="mr-2 h-4 w-4" />
+            Save current
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) handleFile(file)
+              event.target.value = ''
+            }}
+          />
+          <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import JSON
+          </Button>
+          <Button size="sm" variant="outline" onClick={exportSelection} disabled={visible.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            {compared.length > 0 ? `Export ${compared.length} selected` : 'Export library'}
+          </Button>
+          {allTags.length > 0 && (
+            <Select value={tagFilter} onValueChange={setTagFilter}>
+              <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tags</SelectItem>
+                {allTags.map(tag => (
+                  <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved scenarios yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Compare</th>
+                  <th className="text-left p-2 font-medium">Name</th>
+                  <th className="text-left p-2 font-medium">Tags</th>
+                  <th className="text-left p-2 font-medium">Saved</th>
+                  <th className="text-left p-2 font-medium">Results</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(scenario => {
+                  const order = compareIds.indexOf(scenario.id)
+                  return (
+                    <tr key={scenario.id} className="border-b align-middle">
+                      <td className="p-2">
+                        <div className="flex items-center gap-1">
+                          <Checkbox
+                            checked={order >= 0}
+                            onCheckedChange={checked => toggleCompare(scenario.id, checked === true)}
+                            aria-label={`Compare ${scenario.name}`}
+                          />
+                          {order === 0 && <span className="text-muted-foreground">baseline</span>}
+                        </div>
+                      </td>
+                      <td className="p-2 min-w-[160px]">
+                        <input
+                          defaultValue={scenario.name}
+                          onBlur={e => updateScenario(scenario.id, { name: e.target.value })}
+                          className="w-full bg-transparent border-b border-transparent focus:border-input focus:outline-none"
+                          aria-label="Scenario name"
+                        />
+                      </td>
+                      <td className="p-2 min-w-[160px]">
+                        <input
+                          defaultValue={scenario.tags.join(', ')}
+                          onBlur={e => updateScenario(scenario.id, { tags: parseTags(e.target.value) })}
+                          placeholder="Add tags"
+                          className="w-full bg-transparent border-b border-transparent focus:border-input focus:outline-none"
+                          aria-label="Scenario tags"
+                        />
+                      </td>
+                      <td className="p-2 whitespace-nowrap">{dayjs(scenario.createdAt).format('YYYY-MM-DD HH:mm')}</td>
+                      <td className="p-2">
+                        {scenario.results
+                          ? <Badge variant="outline">{scenario.results.dates.length} days</Badge>
+                          : <Badge variant="secondary">Parameters only</Badge>}
+                      </td>
+                      <td className="p-2">
+                        <div className="flex justify-end gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => onLoad(scenario)} aria-label={`Load ${scenario.name}`}>
+                            <FolderOpen className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => downloadFile(exportScenarioFile([scenario]), fileName(scenario.name), 'application/json')}
+                            aria-label={`Export ${scenario.name}`}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              deleteScenario(scenario.id)
+                              toggleCompare(scenario.id, false)
+                            }}
+                            aria-label={`Delete ${scenario.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {compared.length >= 2 ? (
+          <ScenarioComparison scenarios={compared} labels={labels} />
+        ) : scenarios.length >= 2 && (
+          <p className="text-sm text-muted-foreground">Tick two or more scenarios to compare them; the first ticked is the baseline.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
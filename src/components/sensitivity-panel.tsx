@@ -0,0 +1,333 @@
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Activity, Square } from 'lucide-react'
+import { Bar, BarChart, CartesianGrid, Cell, ErrorBar, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { GroupParams, Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { NpzRunOptions, fixesNitrogen } from '@/lib/model/npz'
+import { parameterBounds } from '@/lib/model/calibration'
+import {
+  DEFAULT_SENSITIVITY_SAMPLES,
+  SENSITIVITY_METRICS,
+  SensitivityFactor,
+  SensitivityMethod,
+  SensitivityMetric,
+  SensitivityResult,
+  factorKey,
+  groupFactor,
+  nutrientFactor,
+} from '@/lib/model/sensitivity'
+import { useComputeTask } from '@/hooks/use-compute-task'
+import { FigureFrame } from '@/components/figure-frame'
+
+interface SensitivityPanelProps {
+  model: Omit<NpzRunOptions, 'temperature'> // the current scenario
+  labels: Record<PhytoplanktonGroup, string>
+}
+
+const PARAM_NAMES: Array<keyof GroupParams> = ['mu', 'KsP', 'KsN', 'KsFe', 'KsSi', 'Rnp', 'Rsip', 'Rfep']
+const NUTRIENT_NAMES: Array<keyof Nutrients> = ['P', 'N', 'Si', 'Fe']
+
+const METRIC_LABELS: Record<SensitivityMetric, { label: string; units: string }> = {
+  peak: { label: 'Peak biomass', units: 'mmol P/m³' },
+  'bloom-day': { label: 'Bloom timing', units: 'day of year' },
+  'annual-mean': { label: 'Mean biomass', units: 'mmol P/m³' },
+}
+
+const inputClassName = 'w-full px-2 py-1 text-xs border border-input rounded-md bg-background font-mono focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent'
+
+const factorLabel = (factor: SensitivityFactor, labels: Record<PhytoplanktonGroup, string>) =>
+  factor.kind === 'group' ? `${labels[factor.group]} · ${factor.param}` : `Ambient ${factor.nutrient}`
+
+const formatValue = (value: number) => (Number.isFinite(value) ? Number(value.toPrecision(3)).toString() : '—')
+
+export function SensitivityPanel({ model, labels }: SensitivityPanelProps) {
+  const { run, cancel, isRunning, progress, error } = useComputeTask()
+  const [method, setMethod] = useState<SensitivityMethod>('morris')
+  const [samples, setSamples] = useState(String(DEFAULT_SENSITIVITY_SAMPLES.morris))
+  const [selected, setSelected] = useState<Set<string>>(() => new Set([
+    ...PHYTOPLANKTON_GROUPS.map(group => factorKey(groupFactor(group, 'mu'))),
+    factorKey(nutrientFactor('P')),
+    factorKey(nutrientFactor('N')),
+  ]))
+  const [result, setResult] = useState<SensitivityResult | null>(null)
+  const [outputGroup, setOutputGroup] = useState<PhytoplanktonGroup>('microcystis')
+  const [outputMetric, setOutputMetric] = useState<SensitivityMetric>('peak')
+
+  // Every factor that can vary, over its schema range; KsN of an N-fixer is structural
+  const candidates = useMemo<SensitivityFactor[]>(() => [
+    ...PHYTOPLANKTON_GROUPS.flatMap(group => PARAM_NAMES
+      .filter(param => !(param === 'KsN' && fixesNitrogen(model.groups[group])))
+      .map(param => groupFactor(group, param))),
+    ...NUTRIENT_NAMES.map(nutrientFactor),
+  ], [model.groups])
+
+  const factors = useMemo(() => candidates.filter(factor => selected.has(factorKey(factor))), [candidates, selected])
+  const sampleCount = Math.max(2, Math.round(Number(samples) || DEFAULT_SENSITIVITY_SAMPLES[method]))
+  const runCount = sampleCount * (factors.length + (method === 'morris' ? 1 : 2))
+
+  const toggle = (key: string, enabled: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (enabled) next.add(key)
+      else next.delete(key)
+      return next
+    })
+  }
+
+  const changeMethod = (value: SensitivityMethod) => {
+    setMethod(value)
+    setSamples(String(DEFAULT_SENSITIVITY_SAMPLES[value]))
+  }
+
+  const runAnalysis = async () => {
+    const analysis = await run({
+      kind: 'sensitivity',
+      options: { model, factors, method, samples: sampleCount, seed: 1 },
+    })
+    if (analysis) setResult(analysis)
+  }
+
+  const output = result?.outputs.find(entry => entry.group === outputGroup && entry.metric === outputMetric)
+  const metric = METRIC_LABELS[outputMetric]
+
+  // Factors ranked by their influence on the chosen output
+  const chartData = useMemo(() => {
+    if (!result || !output) return []
+    return result.factors.map((factor, i) => {
+      const label = factorLabel(factor, labels)
+      return output.morris
+        ? { factor: label, rank: output.morris[i].muStar, ...output.morris[i] }
+        : {
+            factor: label,
+            rank: output.sobol?.[i].total ?? 0,
+            first: output.sobol?.[i].first ?? NaN,
+            total: output.sobol?.[i].total ?? NaN,
+            firstError: output.sobol?.[i].firstConfidence ?? 0,
+            totalError: output.sobol?.[i].totalConfidence ?? 0,
+          }
+    }).sort((a, b) => (Number.isFinite(b.rank) ? b.rank : -1) - (Number.isFinite(a.rank) ? a.rank : -1))
+  }, [result, output, labels])
+
+  const chartHeight = Math.max(240, 36 * chartData.length + 80)
+
+  return (
+    <Card className="responsive-card mb-8">
+      <CardHeader className="pb-4">
+        <CardTitle className="responsive-heading flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Sensitivity Analysis
+        </CardTitle>
+        <CardDescription className="responsive-text">
+          Vary the chosen parameters and nutrients over their full admissible ranges around the current scenario
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Method
+            <Select value={method} onValueChange={value => changeMethod(value as SensitivityMethod)}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="morris">Morris elementary effects (screening)</SelectItem>
+                <SelectItem value="sobol">Sobol indices (variance)</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            {method === 'morris' ? 'Trajectories' : 'Base samples'}
+            <input
+              type="number"
+              min={2}
+              step={method === 'morris' ? 1 : 16}
+              value={samples}
+              onChange={e => setSamples(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <div className="space-y-1 text-xs text-muted-foreground">
+            Model runs
+            <p className="py-1 font-mono text-foreground">{factors.length > 0 ? runCount : '—'}</p>
+          </div>
+        </div>
+
+        {/* Factors, each over its schema range */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 font-medium">Group</th>
+                {PARAM_NAMES.map(param => {
+                  const [min, max] = parameterBounds(param)
+                  return <th key={param} className="text-left p-2 font-medium">{param} <span className="text-muted-foreground font-normal">{min}–{max}</span></th>
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {PHYTOPLANKTON_GROUPS.map(group => (
+                <tr key={group} className="border-b">
+                  <td className="p-2">{labels[group]}</td>
+                  {PARAM_NAMES.map(param => {
+                    if (param === 'KsN' && fixesNitrogen(model.groups[group])) {
+                      return <td key={param} className="p-2 text-muted-foreground">N-fixer</td>
+                    }
+                    const key = factorKey(groupFactor(group, param))
+                    return (
+                      <td key={param} className="p-2">
+                        <Checkbox
+                          checked={selected.has(key)}
+                          onCheckedChange={checked => toggle(key, checked === true)}
+                          aria-label={`Vary ${param} of ${labels[group]}`}
+                        />
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap items-center gap-4 p-2 text-xs">
+            <span>Ambient nutrients</span>
+            {NUTRIENT_NAMES.map(nutrient => {
+              const factor = nutrientFactor(nutrient)
+              const key = factorKey(factor)
+              return (
+                <label key={nutrient} className="flex items-center gap-1">
+                  <Checkbox checked={selected.has(key)} onCheckedChange={checked => toggle(key, checked === true)} />
+                  {nutrient} <span className="text-muted-foreground">{factor.min}–{factor.max} μM</span>
+                </label>
+              )
+            })}
+          </div>
+        </div>
+
+        <Button size="sm" onClick={isRunning ? cancel : runAnalysis} disabled={!isRunning && factors.length === 0}>
+          {isRunning ? <Square className="mr-2 h-4 w-4" /> : <Activity className="mr-2 h-4 w-4" />}
+          {isRunning ? `Sampling ${Math.round(progress * 100)}% · Cancel` : `Analyse ${factors.length} factor${factors.length === 1 ? '' : 's'}`}
+        </Button>
+
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+        {result && output && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <Badge variant="outline">{result.runs} runs</Badge>
+              {result.failed > 0 && <Badge variant="destructive">{result.failed} failed</Badge>}
+              <Select value={outputGroup} onValueChange={value => setOutputGroup(value as PhytoplanktonGroup)}>
+                <SelectTrigger className="h-8 w-44 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PHYTOPLANKTON_GROUPS.map(group => (
+                    <SelectItem key={group} value={group}>{labels[group]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={outputMetric} onValueChange={value => setOutputMetric(value as SensitivityMetric)}>
+                <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SENSITIVITY_METRICS.map(key => (
+                    <SelectItem key={key} value={key}>{METRIC_LABELS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">
+                mean {formatValue(output.mean)} ± {formatValue(output.standardDeviation)} {metric.units}
+              </span>
+            </div>
+
+            <FigureFrame
+              title={result.method === 'morris'
+                ? `Tornado: ${metric.label.toLowerCase()} of ${labels[outputGroup]}`
+                : `Sobol indices: ${metric.label.toLowerCase()} of ${labels[outputGroup]}`}
+              subtitle={result.method === 'morris'
+                ? 'Mean elementary effect of each factor across its range, ranked by μ*'
+                : 'First-order and total indices with bootstrap 95% intervals'}
+              caption={result.method === 'morris'
+                ? `Morris screening over ${result.runs} runs. Bars show μ, the mean change of the output when the factor moves across its full range; σ measures non-linearity and interactions.`
+                : `Sobol variance decomposition over ${result.runs} runs. S1 is the share of output variance due to a factor alone, ST includes its interactions.`}
+              units={result.method === 'morris' ? `${metric.units} per factor range` : 'fraction of variance'}
+              source="Kinneret NPZ model"
+              pageName="scenarios"
+              figureKey={`sensitivity-${result.method}-${outputGroup}-${outputMetric}`}
+              supportsSVG={true}
+            >
+              <div className="min-w-[360px] w-full" style={{ height: chartHeight }} role="img" aria-label="Sensitivity of the output to each factor">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData} layout="vertical" margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" domain={result.method === 'sobol' ? [0, 'auto'] : ['auto', 'auto']} />
+                    <YAxis type="category" dataKey="factor" width={150} tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={value => (typeof value === 'number' ? formatValue(value) : '—')} />
+                    {result.method === 'morris' ? (
+                      <>
+                        <ReferenceLine x={0} stroke="#6B7280" />
+                        <Bar dataKey="mu" name="μ" isAnimationActive={false}>
+                          {chartData.map(entry => (
+                            <Cell key={entry.factor} fill={'mu' in entry && entry.mu < 0 ? '#2563EB' : '#EF4444'} />
+                          ))}
+                        </Bar>
+                      </>
+                    ) : (
+                      <>
+                        <Legend />
+                        <Bar dataKey="first" name="S1" fill="#2563EB" isAnimationActive={false}>
+                          <ErrorBar dataKey="firstError" direction="x" width={4} stroke="#1E3A8A" />
+                        </Bar>
+                        <Bar dataKey="total" name="ST" fill="#F59E0B" isAnimationActive={false}>
+                          <ErrorBar dataKey="totalError" direction="x" width={4} stroke="#92400E" />
+                        </Bar>
+                      </>
+                    )}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </FigureFrame>
+
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Factor</th>
+                  <th className="text-right p-2 font-medium">Range</th>
+                  {result.method === 'morris' ? (
+                    <>
+                      <th className="text-right p-2 font-medium">μ*</th>
+                      <th className="text-right p-2 font-medium">μ</th>
+                      <th className="text-right p-2 font-medium">σ</th>
+                    </>
+                  ) : (
+                    <>
+                      <th className="text-right p-2 font-medium">S1</th>
+                      <th className="text-right p-2 font-medium">ST</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {result.factors.map((factor, i) => (
+                  <tr key={factorKey(factor)} className="border-b">
+                    <td className="p-2">{factorLabel(factor, labels)}</td>
+                    <td className="p-2 text-right font-mono">{factor.min}–{factor.max}</td>
+                    {output.morris ? (
+                      <>
+                        <td className="p-2 text-right font-mono">{formatValue(output.morris[i].muStar)}</td>
+                        <td className="p-2 text-right font-mono">{formatValue(output.morris[i].mu)}</td>
+                        <td className="p-2 text-right font-mono">{formatValue(output.morris[i].sigma)}</td>
+                      </>
+                    ) : output.sobol && (
+                      <>
+                        <td className="p-2 text-right font-mono">{formatValue(output.sobol[i].first)} ± {formatValue(output.sobol[i].firstConfidence)}</td>
+                        <td className="p-2 text-right font-mono">{formatValue(output.sobol[i].total)} ± {formatValue(output.sobol[i].totalConfidence)}</td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,380 @@
+import { useId, useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Download, Target } from 'lucide-react'
+import { useObservations, useTimeSeries } from '@/store/kinneret-store'
+import { OBSERVATION_LABELS, OBSERVATION_UNITS, timeSeriesToObservations } from '@/lib/observations'
+import {
+  EVALUATED_VARIABLES,
+  EvaluatedVariable,
+  SEASONS,
+  Season,
+  SkillRow,
+  TargetPoint,
+  TaylorPoint,
+  assessSkill,
+  formatSkill,
+  npzSampler,
+  pairModelObservations,
+  targetPoint,
+  taylorPoint,
+} from '@/lib/model/evaluation'
+import { categoryColor } from '@/lib/rasters/grid-render'
+import { downloadFile } from '@/lib/csv-utils'
+import { useBaselineSimulation } from '@/hooks/use-baseline-simulation'
+import { FigureFrame } from '@/components/figure-frame'
+
+const SEASON_LABELS: Record<Season | 'all', string> = {
+  all: 'All seasons',
+  winter: 'Winter (DJF)',
+  spring: 'Spring (MAM)',
+  summer: 'Summer (JJA)',
+  autumn: 'Autumn (SON)',
+}
+
+const variableColor = (variable: EvaluatedVariable) => categoryColor(EVALUATED_VARIABLES.indexOf(variable))
+
+const formatValue = (value: number) => (Number.isFinite(value) ? value.toPrecision(3) : 'n/a')
+
+const skillToCsv = (rows: SkillRow[]): string =>
+  [
+    'variable,season,n,observed_mean,modelled_mean,observed_std,modelled_std,bias,rmse,urmse,r,nse,willmott',
+    ...rows.map(row => [
+      row.variable, row.season, row.n, row.observedMean, row.modelledMean, row.observedStd, row.modelledStd,
+      row.bias, row.rmse, row.urmse, row.r, row.nse, row.willmott,
+    ].map(value => (typeof value === 'number' && !Number.isFinite(value) ? '' : value)).join(',')),
+  ].join('\n')
+
+interface DiagramPoint<T> {
+  variable: EvaluatedVariable
+  value: T
+}
+
+// Drawing constants shared by the two diagrams, in SVG user units
+const MARGIN = 44
+const LEGEND_WIDTH = 150
+const GRID_STROKE = '#D1D5DB'
+const AXIS_STROKE = '#6B7280'
+const LABEL_FILL = '#6B7280'
+
+// Spacing of grid lines on a normalised axis: halves near 1, coarser for poor fits
+const tickStep = (limit: number) => (limit <= 3 ? 0.5 : limit <= 6 ? 1 : Math.ceil(limit / 6))
+
+// Upper end of a normalised axis: at least 1.5, rounded up to a grid line
+const axisLimit = (values: number[]) => {
+  const limit = Math.max(1.5, Math.max(0, ...values) * 1.1)
+  const step = tickStep(limit)
+  return Math.ceil(limit / step) * step
+}
+
+const axisTicks = (limit: number) => {
+  const step = tickStep(limit)
+  return Array.from({ length: Math.floor(limit / step + 1e-9) }, (_, i) => (i + 1) * step)
+}
+
+function DiagramLegend({ points, x, y }: { points: Array<DiagramPoint<unknown>>; x: number; y: number }) {
+  return (
+    <g transform={`translate(${x}, ${y})`} fontSize={11}>
+      <circle cx={6} cy={0} r={5} fill="#111827" />
+      <text x={16} y={4} fill={LABEL_FILL}>Observations</text>
+      {points.map(({ variable }, i) => (
+        <g key={variable} transform={`translate(0, ${(i + 1) * 18})`}>
+          <circle cx={6} cy={0} r={5} fill={variableColor(variable)} />
+          <text x={16} y={4} fill={LABEL_FILL}>{OBSERVATION_LABELS[variable]}</text>
+        </g>
+      ))}
+    </g>
+  )
+}
+
+/**
+ * Taylor diagram: normalised standard deviation as the radius, correlation
+ * as the angle, and the centred RMS difference as the distance from the
+ * observations at (1, 0). Negative correlations open the left quadrant.
+ */
+function TaylorDiagram({ points }: { points: Array<DiagramPoint<TaylorPoint>> }) {
+  const clipId = `taylor-${useId().replace(/[^a-zA-Z0-9-]/g, '')}`
+  const limit = axisLimit(points.map(point => point.value.std))
+  const signed = points.some(point => point.value.r < 0)
+  const radius = 240
+  const scale = radius / limit
+  const ox = MARGIN + (signed ? radius : 0)
+  const oy = MARGIN + radius
+  const width = ox + radius + MARGIN + LEGEND_WIDTH
+  const height = oy + MARGIN
+  const position = (std: number, r: number): [number, number] =>
+    [ox + std * r * scale, oy - std * Math.sqrt(Math.max(0, 1 - r * r)) * scale]
+  const arc = (r: number) => (signed
+    ? `M ${ox - r} ${oy} A ${r} ${r} 0 0 1 ${ox + r} ${oy}`
+    : `M ${ox + r} ${oy} A ${r} ${r} 0 0 0 ${ox} ${oy - r}`)
+  const correlations = [0.2, 0.4, 0.6, 0.8, 0.9, 0.95, 0.99].flatMap(r => (signed ? [-r, r] : [r]))
+  const [refX, refY] = position(1, 1)
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" role="img" aria-label="Taylor diagram" fontFamily="sans-serif">
+      <defs>
+        <clipPath id={clipId}>
+          <path d={`${arc(radius)} ${signed ? '' : `L ${ox} ${oy}`} Z`} />
+        </clipPath>
+      </defs>
+
+      {/* Standard deviation arcs and the axes */}
+      {axisTicks(limit).map(std => (
+        <g key={std}>
+          <path d={arc(std * scale)} fill="none" stroke={std === 1 ? AXIS_STROKE : GRID_STROKE} strokeDasharray={std === 1 ? '4 3' : undefined} />
+          <text x={ox + std * scale} y={oy + 14} textAnchor="middle" fontSize={10} fill={LABEL_FILL}>{std.toFixed(1)}</text>
+          {signed && <text x={ox - std * scale} y={oy + 14} textAnchor="middle" fontSize={10} fill={LABEL_FILL}>{std.toFixed(1)}</text>}
+        </g>
+      ))}
+      <path d={arc(radius)} fill="none" stroke={AXIS_STROKE} />
+      <line x1={signed ? ox - radius : ox} y1={oy} x2={ox + radius} y2={oy} stroke={AXIS_STROKE} />
+      <line x1={ox} y1={oy} x2={ox} y2={oy - radius} stroke={signed ? GRID_STROKE : AXIS_STROKE} />
+      <text x={ox + (signed ? 0 : radius / 2)} y={oy + 32} textAnchor="middle" fontSize={11} fill={LABEL_FILL}>
+        Standard deviation (normalised)
+      </text>
+
+      {/* Correlation rays, labelled outside the outer arc */}
+      {correlations.map(r => {
+        const [x, y] = position(limit, r)
+        const [lx, ly] = position(limit * 1.06, r)
+        return (
+          <g key={r}>
+            <line x1={ox} y1={oy} x2={x} y2={y} stroke={GRID_STROKE} strokeDasharray="2 3" />
+            <text x={lx} y={ly + 3} textAnchor="middle" fontSize={10} fill={LABEL_FILL}>{r}</text>
+          </g>
+        )
+      })}
+      {(() => {
+        const [x, y] = position(limit * 1.14, Math.SQRT1_2)
+        return <text x={x} y={y} textAnchor="middle" fontSize={11} fill={LABEL_FILL} transform={`rotate(45 ${x} ${y})`}>Correlation</text>
+      })()}
+
+      {/* Centred RMS difference around the observations */}
+      <g clipPath={`url(#${clipId})`}>
+        {axisTicks(limit + 1).map(rms => (
+          <circle key={rms} cx={refX} cy={refY} r={rms * scale} fill="none" stroke="#10B981" strokeOpacity={0.6} strokeDasharray="5 4" />
+        ))}
+      </g>
+      {axisTicks(limit + 1).map(rms => {
+        const x = refX - rms * scale * Math.SQRT1_2
+        const y = refY - rms * scale * Math.SQRT1_2
+        return Math.hypot(x - ox, y - oy) < radius - 8 && x > (signed ? ox - radius : ox) + 8
+          ? <text key={rms} x={x} y={y} fontSize={9} fill="#059669">{rms.toFixed(1)}</text>
+          : null
+      })}
+
+      <circle cx={refX} cy={refY} r={5} fill="#111827" />
+      {points.map(({ variable, value }) => {
+        const [x, y] = position(value.std, value.r)
+        return (
+          <circle key={variable} cx={x} cy={y} r={6} fill={variableColor(variable)} stroke="#FFFFFF" strokeWidth={1.5}>
+            <title>{`${OBSERVATION_LABELS[variable]}: σ ${value.std.toFixed(2)}, r ${value.r.toFixed(2)}, centred RMSD ${value.crmsd.toFixed(2)}`}</title>
+          </circle>
+        )
+      })}
+
+      <DiagramLegend points={points} x={width - LEGEND_WIDTH + 10} y={MARGIN} />
+    </svg>
+  )
+}
+
+/**
+ * Target diagram: normalised bias against the signed centred RMS difference.
+ * The distance from the origin is RMSE / σo, so the unit circle is NSE = 0
+ * and the inner circle NSE = 0.5.
+ */
+function TargetDiagram({ points }: { points: Array<DiagramPoint<TargetPoint>> }) {
+  const limit = axisLimit(points.flatMap(point => [Math.abs(point.value.x), Math.abs(point.value.y)]))
+  const half = 170
+  const scale = half / limit
+  const cx = MARGIN + half
+  const cy = MARGIN / 2 + half
+  const width = cx + half + MARGIN / 2 + LEGEND_WIDTH
+  const height = cy + half + MARGIN
+  const ticks = axisTicks(limit).flatMap(tick => [-tick, tick])
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" role="img" aria-label="Target diagram" fontFamily="sans-serif">
+      <rect x={cx - half} y={cy - half} width={2 * half} height={2 * half} fill="none" stroke={AXIS_STROKE} />
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={cx + tick * scale} y1={cy - half} x2={cx + tick * scale} y2={cy + half} stroke={GRID_STROKE} strokeDasharray="2 3" />
+          <line x1={cx - half} y1={cy - tick * scale} x2={cx + half} y2={cy - tick * scale} stroke={GRID_STROKE} strokeDasharray="2 3" />
+          <text x={cx + tick * scale} y={cy + half + 14} textAnchor="middle" fontSize={10} fill={LABEL_FILL}>{tick.toFixed(1)}</text>
+          <text x={cx - half - 6} y={cy - tick * scale + 3} textAnchor="end" fontSize={10} fill={LABEL_FILL}>{tick.toFixed(1)}</text>
+        </g>
+      ))}
+      <line x1={cx - half} y1={cy} x2={cx + half} y2={cy} stroke={AXIS_STROKE} />
+      <line x1={cx} y1={cy - half} x2={cx} y2={cy + half} stroke={AXIS_STROKE} />
+
+      <circle cx={cx} cy={cy} r={scale} fill="none" stroke={AXIS_STROKE} />
+      <circle cx={cx} cy={cy} r={Math.SQRT1_2 * scale} fill="none" stroke="#10B981" strokeDasharray="5 4" />
+      <text x={cx + scale * Math.SQRT1_2 + 3} y={cy - scale * Math.SQRT1_2 - 3} fontSize={9} fill={LABEL_FILL}>NSE = 0</text>
+      <text x={cx + 0.5 * scale + 3} y={cy - 0.5 * scale - 3} fontSize={9} fill="#059669">NSE = 0.5</text>
+
+      <text x={cx} y={cy + half + 32} textAnchor="middle" fontSize={11} fill={LABEL_FILL}>
+        Centred RMS difference × sign(σm − σo), normalised
+      </text>
+      <text x={14} y={cy} textAnchor="middle" fontSize={11} fill={LABEL_FILL} transform={`rotate(-90 14 ${cy})`}>
+        Bias, normalised
+      </text>
+
+      <circle cx={cx} cy={cy} r={5} fill="#111827" />
+      {points.map(({ variable, value }) => (
+        <circle key={variable} cx={cx + value.x * scale} cy={cy - value.y * scale} r={6} fill={variableColor(variable)} stroke="#FFFFFF" strokeWidth={1.5}>
+          <title>{`${OBSERVATION_LABELS[variable]}: bias ${value.y.toFixed(2)}, signed centred RMSD ${value.x.toFixed(2)}`}</title>
+        </circle>
+      ))}
+
+      <DiagramLegend points={points} x={width - LEGEND_WIDTH + 10} y={MARGIN / 2} />
+    </svg>
+  )
+}
+
+// Skill of the baseline NPZ run against the active dataset, per group and season, with Taylor and target diagrams
+export function SkillAssessment() {
+  const [season, setSeason] = useState<Season | 'all'>('all')
+  const longObservations = useObservations()
+  const timeSeries = useTimeSeries()
+  const { result, isRunning, progress, error } = useBaselineSimulation()
+
+  // Wide-only datasets are taken as surface samples at the default station
+  const observations = useMemo(
+    () => (longObservations.length > 0 ? longObservations : timeSeriesToObservations(timeSeries)),
+    [longObservations, timeSeries]
+  )
+  const pairs = useMemo(() => (result ? pairModelObservations(observations, npzSampler(result)) : []), [result, observations])
+  const rows = useMemo(() => assessSkill(pairs), [pairs])
+  const selected = rows.filter(row => row.season === season)
+
+  const taylorPoints = selected.flatMap(row => {
+    const value = taylorPoint(row)
+    return value ? [{ variable: row.variable, value }] : []
+  })
+  const targetPoints = selected.flatMap(row => {
+    const value = targetPoint(row)
+    return value ? [{ variable: row.variable, value }] : []
+  })
+  const period = result ? `${result.dates[0]} to ${result.dates[result.dates.length - 1]}` : ''
+  const stations = new Set(pairs.map(pair => pair.station)).size
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Model Skill
+        </CardTitle>
+        <CardDescription>
+          The NPZ model with the active parameters against the observations, paired on date, station and depth
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isRunning && <p className="text-xs text-muted-foreground">Running NPZ model… {Math.round(progress * 100)}%</p>}
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+        {result && pairs.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No observations of the simulated groups fall within the run ({period}) above the thermocline.
+          </p>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-muted-foreground">
+                {pairs.length} pairs from {stations} station{stations === 1 ? '' : 's'}, {period}
+              </span>
+              <div className="ml-auto flex items-center gap-2">
+                <Select value={season} onValueChange={value => setSeason(value as Season | 'all')}>
+                  <SelectTrigger className="h-8 w-36 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(['all', ...SEASONS] as const).map(key => (
+                      <SelectItem key={key} value={key}>{SEASON_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" variant="outline" onClick={() => downloadFile(skillToCsv(rows), 'kinneret-model-skill.csv', 'text/csv')}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 font-medium">Group</th>
+                    <th className="text-left p-2 font-medium">Season</th>
+                    <th className="text-right p-2 font-medium">n</th>
+                    <th className="text-right p-2 font-medium">Bias</th>
+                    <th className="text-right p-2 font-medium">RMSE</th>
+                    <th className="text-right p-2 font-medium">uRMSE</th>
+                    <th className="text-right p-2 font-medium">r</th>
+                    <th className="text-right p-2 font-medium">NSE</th>
+                    <th className="text-right p-2 font-medium">Willmott d</th>
+                    <th className="text-left p-2 font-medium">Units</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={`${row.variable}-${row.season}`} className={`border-b ${row.season === season ? 'bg-muted/50' : ''}`}>
+                      <td className="p-2">
+                        <span className="inline-flex items-center gap-2">
+                          <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: variableColor(row.variable) }} />
+                          {OBSERVATION_LABELS[row.variable]}
+                        </span>
+                      </td>
+                      <td className="p-2">{SEASON_LABELS[row.season]}</td>
+                      <td className="p-2 text-right font-mono">{row.n}</td>
+                      <td className="p-2 text-right font-mono">{formatValue(row.bias)}</td>
+                      <td className="p-2 text-right font-mono">{formatValue(row.rmse)}</td>
+                      <td className="p-2 text-right font-mono">{formatValue(row.urmse)}</td>
+                      <td className="p-2 text-right font-mono">{formatSkill(row.r)}</td>
+                      <td className="p-2 text-right font-mono">{formatSkill(row.nse)}</td>
+                      <td className="p-2 text-right font-mono">{formatSkill(row.willmott)}</td>
+                      <td className="p-2 text-muted-foreground">{OBSERVATION_UNITS[row.variable]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <FigureFrame
+                title="Taylor diagram"
+                subtitle={SEASON_LABELS[season]}
+                caption="Standard deviation of each group's modelled series over the observed one (radius), their correlation (angle) and the centred RMS difference (green arcs, distance from the observations)."
+                units="normalised by the observed standard deviation"
+                source="Kinneret NPZ model; Lake Kinneret monitoring program"
+                pageName="statistics"
+                figureKey={`taylor-diagram-${season}`}
+                supportsSVG={true}
+              >
+                {taylorPoints.length > 0
+                  ? <TaylorDiagram points={taylorPoints} />
+                  : <p className="text-sm text-muted-foreground">Needs at least two pairs with spread in both series.</p>}
+              </FigureFrame>
+
+              <FigureFrame
+                title="Target diagram"
+                subtitle={SEASON_LABELS[season]}
+                caption="Bias (y) against the centred RMS difference, signed by whether the model over- or underestimates the variability (x). Points inside the unit circle beat the observed mean (NSE > 0)."
+                units="normalised by the observed standard deviation"
+                source="Kinneret NPZ model; Lake Kinneret monitoring program"
+                pageName="statistics"
+                figureKey={`target-diagram-${season}`}
+                supportsSVG={true}
+              >
+                {targetPoints.length > 0
+                  ? <TargetDiagram points={targetPoints} />
+                  : <p className="text-sm text-muted-foreground">Needs observations with spread.</p>}
+              </FigureFrame>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,16 +1,22 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts'
-import { Fish, TrendingUp, Activity } from 'lucide-react'
+import { Fish, TrendingUp } from 'lucide-react'
+import dayjs from 'dayjs'
+import { useObservations } from '@/store/kinneret-store'
+import { deriveVariableSeries } from '@/lib/observations'
+import { monthlyMeanZooplankton } from '@/lib/model/npz'
+import { formatSkill, skillMetrics } from '@/lib/model/evaluation'
+import { ZOOPLANKTON_GROUPS, ZooplanktonGroup } from '@/lib/model/zooplankton'
+import { useBaselineSimulation } from '@/hooks/use-baseline-simulation'
 
 interface ZooplanktonData {
   month: string
-  herbivores: number
-  predatory: number
-  herbivoresObs: number
-  predatoryObs: number
+  herbivores?: number
+  predatory?: number
+  herbivoresObs?: number
+  predatoryObs?: number
 }
 
 interface ZooplanktonChartProps {
@@ -18,43 +24,63 @@ interface ZooplanktonChartProps {
   description: string
 }
 
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+const OBSERVED_VARIABLES = { herbivores: 'zoo_herbivores', predatory: 'zoo_predatory' } as const
+
 export function ZooplanktonChart({ title, description }: ZooplanktonChartProps) {
   const [viewMode, setViewMode] = useState<'model' | 'observed' | 'comparison'>('comparison')
+  const observations = useObservations()
+
+  // Observed series per grazer group, averaged over stations and depths
+  const observedSeries = useMemo(
+    () => Object.fromEntries(ZOOPLANKTON_GROUPS.map(group => [group, deriveVariableSeries(observations, OBSERVED_VARIABLES[group])])) as
+      Record<ZooplanktonGroup, ReturnType<typeof deriveVariableSeries>>,
+    [observations]
+  )
+  const hasObservations = ZOOPLANKTON_GROUPS.some(group => observedSeries[group].length > 0)
+
+  // The run starts from the first observed grazer biomass when there is one
+  const initialZooplankton = useMemo(() => {
+    if (!ZOOPLANKTON_GROUPS.every(group => observedSeries[group].length > 0)) return undefined
+    return Object.fromEntries(ZOOPLANKTON_GROUPS.map(group => [group, observedSeries[group][0].value])) as Record<ZooplanktonGroup, number>
+  }, [observedSeries])
+
+  const { result, isRunning, progress, error } = useBaselineSimulation(initialZooplankton)
 
-  // Generate realistic zooplankton data based on research patterns
-  const generateZooplanktonData = (): ZooplanktonData[] => {
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
-    
-    return months.map((month, index) => {
-      const monthIndex = index + 1
-      
-      // Herbivores: Peak in spring-summer (May-October)
-      const herbivoresModel = Math.max(0, 
-        2 * Math.exp(-Math.pow((monthIndex - 7.5) / 3, 2)) + 
-        1.5 * Math.exp(-Math.pow((monthIndex - 2.5) / 2, 2))
-      )
-      
-      // Predatory: Peak in winter-early spring (January-April)
-      const predatoryModel = Math.max(0, 
-        3 * Math.exp(-Math.pow((monthIndex - 2.5) / 2, 2)) + 
-        1 * Math.exp(-Math.pow((monthIndex - 11.5) / 2, 2))
-      )
-      
-      // Observed data (normalized to similar scale)
-      const herbivoresObs = herbivoresModel * (0.8 + 0.4 * Math.random())
-      const predatoryObs = predatoryModel * (0.7 + 0.6 * Math.random())
-      
-      return {
-        month,
-        herbivores: herbivoresModel,
-        predatory: predatoryModel,
-        herbivoresObs: herbivoresObs,
-        predatoryObs: predatoryObs
-      }
+  // Monthly means of the model run and of the observations (all years pooled)
+  const chartData = useMemo((): ZooplanktonData[] => {
+    const rows: ZooplanktonData[] = MONTHS.map(month => ({ month }))
+    if (result) {
+      monthlyMeanZooplankton(result).forEach(({ month, herbivores, predatory }) => {
+        rows[month].herbivores = herbivores
+        rows[month].predatory = predatory
+      })
+    }
+    ZOOPLANKTON_GROUPS.forEach(group => {
+      const sums = new Array<number>(12).fill(0)
+      const counts = new Array<number>(12).fill(0)
+      observedSeries[group].forEach(({ date, value }) => {
+        const month = dayjs(date).month()
+        sums[month] += value
+        counts[month]++
+      })
+      counts.forEach((count, month) => {
+        if (count > 0) rows[month][`${group}Obs`] = sums[month] / count
+      })
     })
-  }
+    return rows
+  }, [result, observedSeries])
 
-  const chartData = generateZooplanktonData()
+  // Agreement of the monthly means where both exist
+  const agreement = useMemo(
+    () => ZOOPLANKTON_GROUPS.map(group => {
+      const rows = chartData.filter(row => row[group] !== undefined && row[`${group}Obs`] !== undefined)
+      const { n, r, rmse } = skillMetrics(rows.map(row => row[`${group}Obs`] as number), rows.map(row => row[group] as number))
+      return { group, months: n, r: n >= 3 ? r : NaN, rmse }
+    }),
+    [chartData]
+  )
 
   return (
     <Card>
@@ -66,6 +92,11 @@ export function ZooplanktonChart({ title, description }: ZooplanktonChartProps)
         <CardDescription>{description}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {isRunning && (
+          <p className="text-xs text-muted-foreground">Running NPZ model… {Math.round(progress * 100)}%</p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
         {/* View Mode Tabs */}
         <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as any)}>
           <TabsList className="grid w-full grid-cols-3">
@@ -121,13 +152,13 @@ export function ZooplanktonChart({ title, description }: ZooplanktonChartProps)
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="month" />
                   <YAxis 
-                    label={{ value: '#/L (counts per liter)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
-                    domain={[0, 'dataMax + 50']}
+                    label={{ value: 'mmol C/m³', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
+                    domain={[0, 'auto']}
                     width={80}
                   />
                   <Tooltip 
                     formatter={(value: number, name: string) => [
-                      `${value.toFixed(0)} #/L`, 
+                      `${value.toFixed(2)} mmol C/m³`, 
                       name === 'herbivoresObs' ? 'Herbivorous Zooplankton (Observed)' : 'Predatory Zooplankton (Observed)'
                     ]}
                   />
@@ -138,6 +169,7 @@ export function ZooplanktonChart({ title, description }: ZooplanktonChartProps)
                     strokeWidth={3}
                     dot={{ fill: '#3B82F6', strokeWidth: 2, r: 4 }}
                     name="herbivoresObs"
+                    connectNulls
                   />
                   <Line
                     type="monotone"
@@ -146,6 +178,7 @@ export function ZooplanktonChart({ title, description }: ZooplanktonChartProps)
                     strokeWidth={3}
                     dot={{ fill: '#EF4444', strokeWidth: 2, r: 4 }}
                     name="predatoryObs"
+                    connectNulls
                   />
                 </LineChart>
               </ResponsiveContainer>
@@ -159,8 +192,8 @@ export function ZooplanktonChart({ title, description }: ZooplanktonChartProps)
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="month" />
                   <YAxis 
-                    label={{ value: 'Normalized Concentration', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
-                    domain={[0, 5]}
+                    label={{ value: 'mmol C/m³', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
+                    domain={[0, 'auto']}
                     width={80}
                   />
                   <Tooltip 
@@ -188,6 +221,7 @@ export function ZooplanktonChart({ title, description }: ZooplanktonChartProps)
                     stroke="#3B82F6"
                     strokeWidth={3}
                     name="herbivoresObs"
+                    connectNulls
                   />
                   <Line
                     type="monotone"
@@ -203,6 +237,7 @@ export function ZooplanktonChart({ title, description }: ZooplanktonChartProps)
                     stroke="#EF4444"
                     strokeWidth={3}
                     name="predatoryObs"
+                    connectNulls
                   />
                 </LineChart>
               </ResponsiveContainer>
@@ -214,13 +249,24 @@ export function ZooplanktonChart({ title, description }: ZooplanktonChartProps)
         <div className="bg-blue-50 dark:bg-blue-950 p-4 rounded-lg space-y-2">
           <div className="flex items-center gap-2 text-blue-800 dark:text-blue-200">
             <TrendingUp className="h-4 w-4" />
-            <span className="font-medium">Research Insights</span>
+            <span className="font-medium">Model and Observations</span>
           </div>
           <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
-            <div>• <strong>Predator-Prey Dynamics:</strong> Decrease in predatory zooplankton leads to increase in herbivorous zooplankton</div>
-            <div>• <strong>Seasonal Patterns:</strong> Predatory peak in winter-early spring, herbivorous peak in spring-summer</div>
-            <div>• <strong>Model Agreement:</strong> Good correlation between model predictions and observed counts</div>
-            <div>• <strong>Units:</strong> Model uses mmol C/m³, observations use #/L (counts per liter)</div>
+            <div>• <strong>Grazing:</strong> Herbivores graze the phytoplankton groups by preference with a Holling type II/III response; predatory zooplankton eat herbivores</div>
+            <div>• <strong>Model Run:</strong> One year of the NPZ model with the active dataset's group parameters, shown as monthly means</div>
+            {hasObservations ? (
+              agreement.map(({ group, months, r, rmse }) => (
+                <div key={group}>
+                  • <strong>{group === 'herbivores' ? 'Herbivores' : 'Predatory'}:</strong>{' '}
+                  {months > 0
+                    ? `${months} month${months === 1 ? '' : 's'} with observations, r = ${formatSkill(r)}, RMSE = ${rmse.toFixed(2)} mmol C/m³`
+                    : 'no observations'}
+                </div>
+              ))
+            ) : (
+              <div>• <strong>Observations:</strong> The active dataset has no zooplankton data; import a long-format observations CSV on the Data page with zoo_herbivores or zoo_predatory rows to compare</div>
+            )}
+            <div>• <strong>Units:</strong> Model and observations in mmol C/m³</div>
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useState } from 'react'
+import dayjs from 'dayjs'
+import { useKinneretStore, useTimeSeries } from '@/store/kinneret-store'
+import { NpzResult, initialBiomassFrom } from '@/lib/model/npz'
+import { ZooplanktonGroup } from '@/lib/model/zooplankton'
+import { useComputeTask } from './use-compute-task'
+import { useModelGroups } from './use-parameters'
+
+// NPZ run for the registry's group parameters from the first observation of the active dataset to the end of its last year
+export function useBaselineSimulation(initialZooplankton?: Record<ZooplanktonGroup, number>) {
+  const groups = useModelGroups()
+  const nutrients = useKinneretStore(state => state.data.nutrients)
+  const timeSeries = useTimeSeries()
+  const first = timeSeries[0]
+  const last = timeSeries[timeSeries.length - 1]
+  const initialBiomass = useMemo(() => initialBiomassFrom(timeSeries), [timeSeries])
+  const { run, isRunning, progress, error } = useComputeTask()
+  const [result, setResult] = useState<NpzResult | null>(null)
+
+  useEffect(() => {
+    // Started on the date the initial biomass was observed, so the seed matches the season
+    const start = dayjs(first?.date)
+    run({
+      kind: 'scenario',
+      options: {
+        groups,
+        nutrients,
+        initialBiomass,
+        ...(initialZooplankton && { initialZooplankton }),
+        ...(first && {
+          startDate: start.format('YYYY-MM-DD'),
+          days: Math.max(365, dayjs(last.date).endOf('year').startOf('day').diff(start, 'day') + 1),
+        }),
+      },
+    }).then(simulation => {
+      if (simulation) setResult(simulation)
+    })
+  }, [run, groups, nutrients, initialBiomass, first, last, initialZooplankton])
+
+  return { result, isRunning, progress, error }
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useId, useRef, useState } from 'react'
+import { ComputeJob, ComputeResult, ComputeTask, isComputeCancelled, releaseComputeChannel, startCompute } from '@/lib/compute/service'
+
+// One worker-backed computation per component: a new run supersedes the previous one
+export function useComputeTask() {
+  const channel = useId()
+  const taskRef = useRef<ComputeTask<unknown> | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  // Resolves to null when the run is cancelled, superseded or fails (see `error`)
+  const run = useCallback(<J extends ComputeJob>(job: J): Promise<ComputeResult<J> | null> => {
+    setIsRunning(true)
+    setProgress(0)
+    setError(null)
+    const task = startCompute(job, {
+      channel,
+      onProgress: fraction => {
+        if (taskRef.current === task) setProgress(fraction)
+      },
+    })
+    taskRef.current = task
+
+    return task.promise.then(
+      result => {
+        if (taskRef.current !== task) return null
+        taskRef.current = null
+        setIsRunning(false)
+        return result
+      },
+      (err: unknown) => {
+        if (taskRef.current === task) {
+          taskRef.current = null
+          setIsRunning(false)
+          if (!isComputeCancelled(err)) setError(err instanceof Error ? err.message : 'Computation failed')
+        }
+        return null
+      }
+    )
+  }, [channel])
+
+  const cancel = useCallback(() => {
+    const task = taskRef.current
+    if (!task) return
+    taskRef.current = null
+    task.cancel()
+    setIsRunning(false)
+  }, [])
+
+  // The worker goes with the component
+  useEffect(() => () => releaseComputeChannel(channel), [channel])
+
+  return { run, cancel, isRunning, progress, error }
+}
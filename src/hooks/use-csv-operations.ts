@@ -1,18 +1,46 @@
 import { useCallback } from 'react'
 import { useKinneretStore } from '@/store/kinneret-store'
-import { parseCSV, generateCSVTemplate, downloadFile, readFileAsText } from '@/lib/csv-utils'
+import {
+  CsvParseProgress,
+  CsvParseResult,
+  parseCSVFile,
+  generateCSVTemplate,
+  downloadFile,
+} from '@/lib/csv-utils'
+import { ColumnMapping } from '@/lib/csv/mapping'
+import { datasetNameFromFile } from '@/lib/datasets'
+
+export interface CSVUploadOutcome {
+  imported: boolean
+  result: CsvParseResult | null
+}
 
 export function useCSVOperations() {
   const { importCSV, exportJSON, exportCSV, setError } = useKinneretStore()
 
-  const handleFileUpload = useCallback(async (file: File) => {
+  // Valid rows are imported even when others fail; the per-row errors are returned for display
+  const handleFileUpload = useCallback(async (
+    file: File,
+    onProgress?: (progress: CsvParseProgress) => void,
+    mapping?: ColumnMapping
+  ): Promise<CSVUploadOutcome> => {
     try {
       setError(null)
-      const fileContent = await readFileAsText(file)
-      const csvData = parseCSV(fileContent)
-      importCSV(csvData)
+      const result = await parseCSVFile(file, onProgress, mapping)
+
+      if (result.rows.length === 0) {
+        const firstError = result.errors[0]
+        setError(firstError
+          ? `No valid rows found. Line ${firstError.line}: ${firstError.message}`
+          : 'No data rows found in CSV file')
+        return { imported: false, result }
+      }
+
+      importCSV(result.rows, { name: datasetNameFromFile(file.name) })
+      return { imported: useKinneretStore.getState().error === null, result }
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Failed to process CSV file')
+      return { imported: false, result: null }
     }
   }, [importCSV, setError])
 
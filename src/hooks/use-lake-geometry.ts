@@ -0,0 +1,17 @@
+import { useMemo } from 'react'
+import { useCustomShoreline } from '@/store/kinneret-store'
+import { KINNERET_LAKE, LakeGeometry, createLakeGeometry } from '@/lib/rasters/lake'
+import { getLakeBathymetry } from '@/lib/rasters/bathymetry'
+
+// Active shoreline (a loaded GeoJSON outline or the bundled one) and its bathymetry
+export function useLakeGeometry() {
+  const customShoreline = useCustomShoreline()
+
+  const lake: LakeGeometry = useMemo(
+    () => (customShoreline ? createLakeGeometry(customShoreline.polygons, customShoreline.name) : KINNERET_LAKE),
+    [customShoreline]
+  )
+  const bathymetry = useMemo(() => getLakeBathymetry(lake), [lake])
+
+  return { lake, bathymetry, isCustom: customShoreline !== null }
+}
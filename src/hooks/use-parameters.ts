@@ -0,0 +1,32 @@
+import { useMemo } from 'react'
+import { GroupParams, PhytoplanktonGroup } from '@/lib/schemas'
+import { modelGroupsOf, piCurvesOf, sinkingOf } from '@/lib/parameters'
+import { PiCurve } from '@/lib/model/light'
+import { PhytoplanktonGroup as ResponseGroup, responseGroups } from '@/lib/biomass/response'
+import { useParameterRegistry } from '@/store/kinneret-store'
+
+// The objects change only when a value the model reads changes, not on other registry edits, so runs are not repeated
+
+// NPZ parameters of every group, from the registry
+export function useModelGroups(): Record<PhytoplanktonGroup, GroupParams> {
+  const key = JSON.stringify(modelGroupsOf(useParameterRegistry()))
+  return useMemo(() => JSON.parse(key) as Record<PhytoplanktonGroup, GroupParams>, [key])
+}
+
+// Biomass response model groups by response-model id, from the registry
+export function useResponseGroups(): Record<string, ResponseGroup> {
+  const key = JSON.stringify(responseGroups(useParameterRegistry()))
+  return useMemo(() => JSON.parse(key) as Record<string, ResponseGroup>, [key])
+}
+
+// P–I curve of every group, from the registry
+export function usePiCurves(): Record<PhytoplanktonGroup, PiCurve> {
+  const key = JSON.stringify(piCurvesOf(useParameterRegistry()))
+  return useMemo(() => JSON.parse(key) as Record<PhytoplanktonGroup, PiCurve>, [key])
+}
+
+// Water-column sinking velocity of every group, from the registry
+export function useSinkingVelocities(): Record<PhytoplanktonGroup, number> {
+  const key = JSON.stringify(sinkingOf(useParameterRegistry()))
+  return useMemo(() => JSON.parse(key) as Record<PhytoplanktonGroup, number>, [key])
+}
@@ -0,0 +1,28 @@
+import { useCallback, useMemo } from 'react'
+import { useActiveDataset, useKinneretStore, useTimeSeries } from '@/store/kinneret-store'
+import { PhytoplanktonGroup } from '@/lib/schemas'
+import { flagKey, getFlagLevels, maskFlaggedValues } from '@/lib/qc'
+
+// QC flags of the active dataset applied to its wide series according to the display mode
+export function useQcView() {
+  const timeseries = useTimeSeries()
+  const activeDataset = useActiveDataset()
+  const mode = useKinneretStore(state => state.qcDisplayMode)
+  const setMode = useKinneretStore(state => state.setQcDisplayMode)
+
+  const report = activeDataset?.qc
+  const levels = useMemo(() => getFlagLevels(report), [report])
+
+  // Series used for charts and statistics: flagged values are NaN when hidden
+  const visibleSeries = useMemo(
+    () => (mode === 'hide' ? maskFlaggedValues(timeseries, levels) : timeseries),
+    [mode, timeseries, levels]
+  )
+
+  const isFlagged = useCallback(
+    (date: string, group: PhytoplanktonGroup) => mode === 'highlight' && levels.has(flagKey(date, group)),
+    [mode, levels]
+  )
+
+  return { report, levels, mode, setMode, visibleSeries, isFlagged }
+}
@@ -0,0 +1,79 @@
+import { useCallback, useMemo } from 'react'
+import { useKinneretStore } from '@/store/kinneret-store'
+import { Dataset, PhytoplanktonGroup, QcLevel } from '@/lib/schemas'
+import { getFlagLevels, maskFlaggedValues } from '@/lib/qc'
+import { ResampleFrequency, ResampledPoint, binStart, countInterpolated, resampleTimeSeries } from '@/lib/resampling'
+import { useQcView } from './use-qc-view'
+
+// QC flags mapped onto the grid cells that contain the flagged dates
+const flaggedGridCells = (levels: Map<string, QcLevel>, frequency: ResampleFrequency): Set<string> => {
+  const cells = new Set<string>()
+  levels.forEach((_, key) => {
+    const [date, variable] = key.split('|')
+    cells.add(`${binStart(date, frequency)}|${variable}`)
+  })
+  return cells
+}
+
+// Cells whose only values were hidden by QC stay gaps rather than being interpolated over
+const keepHiddenGaps = (series: ResampledPoint[], hiddenCells: Set<string>): ResampledPoint[] => {
+  if (hiddenCells.size === 0) return series
+  return series.map(point => {
+    const hidden = point.interpolated.filter(group => hiddenCells.has(`${point.date}|${group}`))
+    if (hidden.length === 0) return point
+    const masked = { ...point, interpolated: point.interpolated.filter(group => !hidden.includes(group)) }
+    hidden.forEach(group => {
+      masked[group] = NaN
+    })
+    return masked
+  })
+}
+
+/**
+ * Active dataset on a regular grid: QC-hidden values are dropped first, then
+ * the series is resampled with the method chosen in the store. Pass a
+ * frequency to override the stored one (e.g. monthly for predictions).
+ * Cells left empty by hidden values stay NaN unless `fillHidden` is set
+ * for consumers that need a gap-free series.
+ */
+export function useRegularSeries(frequency?: ResampleFrequency, fillHidden: boolean = false) {
+  const { visibleSeries, levels, mode } = useQcView()
+  const resampling = useKinneretStore(state => state.resampling)
+  const options = useMemo(
+    () => ({ ...resampling, frequency: frequency ?? resampling.frequency }),
+    [resampling, frequency]
+  )
+
+  const flaggedCells = useMemo(() => flaggedGridCells(levels, options.frequency), [levels, options.frequency])
+
+  const series = useMemo(() => {
+    const resampled = resampleTimeSeries(visibleSeries, options)
+    return mode === 'hide' && !fillHidden ? keepHiddenGaps(resampled, flaggedCells) : resampled
+  }, [visibleSeries, options, mode, flaggedCells, fillHidden])
+
+  const isFlagged = useCallback(
+    (date: string, group: PhytoplanktonGroup) => mode === 'highlight' && flaggedCells.has(`${date}|${group}`),
+    [mode, flaggedCells]
+  )
+
+  const isInterpolated = useCallback(
+    (index: number, group: PhytoplanktonGroup) => series[index]?.interpolated.includes(group) ?? false,
+    [series]
+  )
+
+  return { series, options, isFlagged, isInterpolated, interpolatedCount: countInterpolated(series) }
+}
+
+// Resample another dataset (e.g. the comparison) the same way as the active one, hiding its own QC flags
+export function useResampled(dataset: Dataset | undefined) {
+  const resampling = useKinneretStore(state => state.resampling)
+  const mode = useKinneretStore(state => state.qcDisplayMode)
+
+  return useMemo(() => {
+    if (!dataset) return undefined
+    if (mode !== 'hide') return resampleTimeSeries(dataset.timeseries, resampling)
+    const levels = getFlagLevels(dataset.qc)
+    const resampled = resampleTimeSeries(maskFlaggedValues(dataset.timeseries, levels), resampling)
+    return keepHiddenGaps(resampled, flaggedGridCells(levels, resampling.frequency))
+  }, [dataset, mode, resampling])
+}
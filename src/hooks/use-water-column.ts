@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react'
+import dayjs from 'dayjs'
+import { useKinneretStore, useTimeSeries } from '@/store/kinneret-store'
+import { PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { WaterColumnResult } from '@/lib/model/water-column'
+import { useComputeTask } from './use-compute-task'
+import { useModelGroups, usePiCurves, useSinkingVelocities } from './use-parameters'
+
+// One-year water-column run for the registry's group parameters, started from the first observation
+export function useWaterColumn() {
+  const groups = useModelGroups()
+  const piCurves = usePiCurves()
+  const sinking = useSinkingVelocities()
+  const nutrients = useKinneretStore(state => state.data.nutrients)
+  const timeSeries = useTimeSeries()
+  const first = timeSeries[0]
+  const { run, isRunning, progress, error } = useComputeTask()
+  const [result, setResult] = useState<WaterColumnResult | null>(null)
+
+  useEffect(() => {
+    run({
+      kind: 'water-column',
+      options: {
+        groups,
+        nutrients,
+        piCurves,
+        sinking,
+        initialBiomass: Object.fromEntries(
+          PHYTOPLANKTON_GROUPS.map(group => [group, first?.[group] ?? 0.01])
+        ) as Record<PhytoplanktonGroup, number>,
+        startDate: first ? dayjs(first.date).startOf('year').format('YYYY-MM-DD') : undefined,
+      },
+    }).then(column => {
+      if (column) setResult(column)
+    })
+  }, [run, groups, nutrients, piCurves, sinking, first])
+
+  return { result, isRunning, progress, error }
+}
@@ -1,5 +1,9 @@
 // API structure for future server-side biomass model
 
+import { GridField, fieldFromRows, fieldToRows, getFieldBounds } from '@/lib/rasters/grid-field'
+import { compute } from '@/lib/compute/service'
+import { PHYTOPLANKTON_GROUPS } from '@/lib/biomass/response'
+
 export interface BiomassPredictionRequest {
   month: number // 1-12
   depth: number // meters
@@ -7,16 +11,19 @@ export interface BiomassPredictionRequest {
     temperature: number // °C
     windSpeed: number // m/s
     windDirection: number // degrees
-    light: number // 0-1
+    cloudCover: number // 0-1
+    kd?: number // PAR attenuation, m⁻¹; derived from chlorophyll when not set
+    chlorophyll?: number // mg Chl/m³
     phosphorus: number // mmol P/m³
     nitrogen: number // mmol N/m³
     silicon: number // mmol Si/m³
+    seed?: number // of the spatial noise, for repeatable maps
   }
   group: string // phytoplankton group ID
 }
 
 export interface BiomassPredictionResponse {
-  grid: number[][] // 2D array of biomass values
+  grid: Array<Array<number | null>> // 2D array of biomass values, north row first; null outside the lake
   units: string // e.g., "mmol P/m³"
   metadata: {
     group: string
@@ -78,51 +85,63 @@ async function predictBiomassServer(
   }
 }
 
-// Client-side prediction (current implementation)
+// Client-side prediction, computed off the main thread by the compute service
 async function predictBiomassClient(
   request: BiomassPredictionRequest
 ): Promise<BiomassPredictionResponse> {
   
-  // Simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 100))
-  
   const { env, group, month, depth } = request
   
-  // Import the client-side model
-  const { generateBiomassHeatmap } = await import('@/lib/biomass/response')
-  
   // Create environmental conditions object
   const environmentalConditions = {
     temperature: env.temperature,
     windSpeed: env.windSpeed,
     windDirection: env.windDirection,
-    light: env.light,
+    cloudCover: env.cloudCover,
+    kd: env.kd,
+    chlorophyll: env.chlorophyll,
     phosphorus: env.phosphorus,
     nitrogen: env.nitrogen,
     silicon: env.silicon,
+    seed: env.seed,
     depth,
     month
   }
   
-  // Generate biomass heatmap
-  const grid = generateBiomassHeatmap(group, environmentalConditions, 50, 40)
+  // Generate biomass field over the lake, with the bundled group parameters
+  const groupParams = PHYTOPLANKTON_GROUPS[group]
+  if (!groupParams) {
+    throw new Error(`Unknown phytoplankton group: ${group}`)
+  }
+  const field = await compute({ kind: 'biomass-field', group: groupParams, env: environmentalConditions })
+  const [[minLng, minLat], [maxLng, maxLat]] = getFieldBounds(field)
   
   return {
-    grid,
-    units: 'mmol P/m³',
+    grid: fieldToRows(field),
+    units: field.units,
     metadata: {
       group,
       month,
       depth,
       env,
-      gridSize: { width: 50, height: 40 },
-      bounds: { minLng: 35.55, maxLng: 35.65, minLat: 32.65, maxLat: 32.95 },
+      gridSize: { width: field.width, height: field.height },
+      bounds: { minLng, maxLng, minLat, maxLat },
       timestamp: new Date().toISOString(),
       modelVersion: 'client-v1.0'
     }
   }
 }
 
+// Georeferenced field of a prediction; masked cells arrive as null in JSON and become nodata
+export function predictionToField(response: BiomassPredictionResponse): GridField {
+  const { bounds, group, depth, timestamp, modelVersion } = response.metadata
+  return fieldFromRows(
+    response.grid.map(row => row.map(value => (value === null ? NaN : value))),
+    [[bounds.minLng, bounds.minLat], [bounds.maxLng, bounds.maxLat]],
+    { name: `${group} biomass`, source: modelVersion, variable: group, units: response.units, depth, createdAt: timestamp }
+  )
+}
+
 // Batch prediction for multiple groups
 export async function predictBiomassBatch(
   requests: BiomassPredictionRequest[]
@@ -1,15 +1,31 @@
 // Biomass response model for phytoplankton groups
 
+import { GridField, boundsToTransform, cellCenter, createGridField, maskField } from '@/lib/rasters/grid-field'
+import { KINNERET_LAKE, LakeGeometry } from '@/lib/rasters/lake'
+import { depthAt, getLakeBathymetry } from '@/lib/rasters/bathymetry'
+import { PiCurve, dailyPiResponse, hourlySurfacePar, kinneretCloudCover, meanTransmission, midMonthDayOfYear, resolveAttenuation } from '@/lib/model/light'
+import { KINNERET_HYPSOGRAPHY, Stratification, analyzeStratification } from '@/lib/model/stratification'
+import { temperatureAt } from '@/lib/model/water-column'
+import { kinneretSurfaceTemperature } from '@/lib/model/npz'
+import { LOADING_KEYS, REFERENCE_LEVEL, REFERENCE_VOLUME } from '@/lib/model/forcing'
+import { LIMITING_NUTRIENTS } from '@/lib/model/growth'
+import { ForcingSeries, PHYTOPLANKTON_GROUPS as GROUP_KEYS, Nutrients, ParameterRegistry, PhytoplanktonGroup as GroupKey } from '@/lib/schemas'
+import { DEFAULT_PARAMETER_REGISTRY, piCurveOf } from '@/lib/parameters'
+import { SpatialGradients, applySpatialGradients, createSpatialGradients, downwindAccumulation } from './spatial'
+
 export interface EnvironmentalConditions {
   temperature: number // °C
   windSpeed: number // m/s
   windDirection: number // degrees
-  light: number // 0-1 (0 = overcast, 1 = clear)
+  cloudCover: number // 0-1 fraction of the sky, reduces clear-sky PAR
+  kd?: number // PAR attenuation, m⁻¹; derived from chlorophyll when not set
+  chlorophyll?: number // mg Chl/m³, sets Kd; the lake mean when not set
   phosphorus: number // mmol P/m³
   nitrogen: number // mmol N/m³
   silicon: number // mmol Si/m³ (for diatoms)
-  depth: number // m
+  depth: number // m, water column depth; per-cell maps use the bathymetry instead
   month: number // 1-12
+  seed?: number // of the spatial noise; maps with the same seed are identical
 }
 
 export interface PhytoplanktonGroup {
@@ -23,88 +39,59 @@ export interface PhytoplanktonGroup {
   ksSi: number // Half-saturation constant for Si (mmol Si/m³)
   q10: number // Temperature coefficient
   mixingSensitivity: number // 0-1, how much mixing affects growth
-  lightSensitivity: number // 0-1, how much light affects growth
-  seasonalPattern: number[] // Monthly growth factors (1-12)
-}
-
-export const PHYTOPLANKTON_GROUPS: Record<string, PhytoplanktonGroup> = {
-  diatoms: {
-    id: 'diatoms',
-    name: 'Diatoms',
-    description: 'Silicate-dependent phytoplankton, thrive in mixing conditions',
-    optimalTemp: 18,
-    tempRange: [5, 25],
-    ksP: 0.1,
-    ksN: 0.5,
-    ksSi: 2.0,
-    q10: 2.0,
-    mixingSensitivity: 0.8,
-    lightSensitivity: 0.7,
-    seasonalPattern: [0.3, 0.4, 0.8, 1.0, 0.9, 0.6, 0.4, 0.3, 0.4, 0.6, 0.8, 0.5]
-  },
-  dinoflagellates: {
-    id: 'dinoflagellates',
-    name: 'Dinoflagellates',
-    description: 'Flagellated phytoplankton, prefer stratified conditions',
-    optimalTemp: 22,
-    tempRange: [10, 30],
-    ksP: 0.05,
-    ksN: 0.3,
-    ksSi: 0, // Not silicate dependent
-    q10: 1.8,
-    mixingSensitivity: -0.5, // Negative = harmed by mixing
-    lightSensitivity: 0.9,
-    seasonalPattern: [0.2, 0.3, 0.5, 0.7, 0.8, 0.9, 1.0, 0.9, 0.7, 0.5, 0.4, 0.3]
-  },
-  small_phyto: {
-    id: 'small_phyto',
-    name: 'Small Phytoplankton',
-    description: 'Picoplankton and small nanoplankton, fast growing',
-    optimalTemp: 24,
-    tempRange: [8, 32],
-    ksP: 0.02,
-    ksN: 0.1,
-    ksSi: 0,
-    q10: 2.2,
-    mixingSensitivity: 0.3,
-    lightSensitivity: 0.8,
-    seasonalPattern: [0.4, 0.5, 0.7, 0.8, 0.9, 1.0, 1.0, 0.9, 0.8, 0.7, 0.6, 0.5]
-  },
-  n_fixers: {
-    id: 'n_fixers',
-    name: 'N-fixing Cyanobacteria',
-    description: 'Nitrogen-fixing cyanobacteria, high temperature optima',
-    optimalTemp: 26,
-    tempRange: [15, 35],
-    ksP: 0.08,
-    ksN: 0, // Can fix N2
-    ksSi: 0,
-    q10: 2.5,
-    mixingSensitivity: -0.7,
-    lightSensitivity: 0.6,
-    seasonalPattern: [0.1, 0.2, 0.3, 0.5, 0.7, 0.9, 1.0, 1.0, 0.8, 0.5, 0.3, 0.2]
-  },
-  microcystis: {
-    id: 'microcystis',
-    name: 'Microcystis',
-    description: 'Toxic cyanobacteria, forms blooms in warm, stratified water',
-    optimalTemp: 28,
-    tempRange: [18, 35],
-    ksP: 0.06,
-    ksN: 0.2,
-    ksSi: 0,
-    q10: 2.8,
-    mixingSensitivity: -0.9,
-    lightSensitivity: 0.5,
-    seasonalPattern: [0.05, 0.1, 0.2, 0.4, 0.6, 0.8, 1.0, 1.0, 0.7, 0.4, 0.2, 0.1]
-  }
+  piCurve: PiCurve // photosynthesis–irradiance response
+  buoyancy: number // 0-1, accumulation of colonies at the downwind shore
 }
 
-// Calculate biomass response for a phytoplankton group
-export function calculateBiomassResponse(
+// Response-model ids of the registry groups
+export const RESPONSE_GROUP_IDS: Record<GroupKey, string> = {
+  diatom: 'diatoms',
+  dinoflagellates: 'dinoflagellates',
+  small_phyto: 'small_phyto',
+  n_fixers: 'n_fixers',
+  microcystis: 'microcystis',
+}
+
+// The response model's view of the registry; nutrient half-saturations are shared with the NPZ model, P–I curves with the water column
+export function responseGroups(registry: ParameterRegistry): Record<string, PhytoplanktonGroup> {
+  return Object.fromEntries(GROUP_KEYS.map(key => {
+    const { name, description, values } = registry.groups[key]
+    const group: PhytoplanktonGroup = {
+      id: RESPONSE_GROUP_IDS[key],
+      name,
+      description,
+      optimalTemp: values.optimalTemp.value,
+      tempRange: [values.tempMin.value, values.tempMax.value],
+      ksP: values.KsP.value,
+      ksN: values.KsN.value,
+      ksSi: values.KsSi.value,
+      q10: values.q10.value,
+      mixingSensitivity: values.mixingSensitivity.value,
+      piCurve: piCurveOf(registry, key),
+      buoyancy: values.buoyancy.value,
+    }
+    return [group.id, group]
+  }))
+}
+
+// Groups with the bundled parameter values
+export const PHYTOPLANKTON_GROUPS: Record<string, PhytoplanktonGroup> = responseGroups(DEFAULT_PARAMETER_REGISTRY)
+
+// Factors the response model multiplies; nutrient and light terms are 0–1, mixing may exceed 1
+export interface ResponseFactors {
+  temperature: number
+  phosphorus: number
+  nitrogen: number
+  silicon: number
+  light: number
+  mixing: number
+}
+
+// Calculate the response factors of a phytoplankton group
+export function calculateResponseFactors(
   group: PhytoplanktonGroup,
   env: EnvironmentalConditions
-): number {
+): ResponseFactors {
   // Temperature response (Q10 function)
   const tempResponse = q10Response(env.temperature, group.optimalTemp, group.q10, group.tempRange)
   
@@ -113,25 +100,51 @@ export function calculateBiomassResponse(
   const nResponse = group.id === 'n_fixers' ? 1.0 : saturatingResponse(env.nitrogen, group.ksN)
   const siResponse = group.ksSi > 0 ? saturatingResponse(env.silicon, group.ksSi) : 1.0
   
-  // Light response
-  const lightResponse = env.light * group.lightSensitivity + (1 - group.lightSensitivity)
+  // Stratification of the column under the wind
+  const dayOfYear = midMonthDayOfYear(env.month)
+  const stratification = columnStratification(env, dayOfYear)
+
+  // Light response: P–I curve over the day, at the mean light of the mixed layer
+  const hourly = hourlySurfacePar(dayOfYear, env.cloudCover)
+  const transmission = meanTransmission(resolveAttenuation(env.kd, env.chlorophyll), stratification.mixedLayerDepth)
+  const lightResponse = dailyPiResponse(hourly, transmission, group.piCurve)
   
   // Mixing response
-  const mixingIndex = calculateMixingIndex(env.windSpeed, env.depth)
+  const mixingIndex = stratification.mixingIndex
   const mixingResponse = group.mixingSensitivity > 0 
     ? 1 + group.mixingSensitivity * mixingIndex
     : 1 + group.mixingSensitivity * mixingIndex // Negative sensitivity reduces growth
   
-  // Seasonal response
-  const seasonalResponse = group.seasonalPattern[env.month - 1] || 1.0
-  
+  return {
+    temperature: tempResponse,
+    phosphorus: pResponse,
+    nitrogen: nResponse,
+    silicon: siResponse,
+    light: lightResponse,
+    mixing: mixingResponse,
+  }
+}
+
+// Calculate biomass response for a phytoplankton group
+export function calculateBiomassResponse(
+  group: PhytoplanktonGroup,
+  env: EnvironmentalConditions
+): number {
+  const factors = calculateResponseFactors(group, env)
+
   // Combine all factors
-  const response = tempResponse * pResponse * nResponse * siResponse * lightResponse * mixingResponse * seasonalResponse
+  const response = factors.temperature * factors.phosphorus * factors.nitrogen * factors.silicon * factors.light * factors.mixing
   
   // Ensure non-negative response
   return Math.max(0, response)
 }
 
+// Nutrient with the lowest response factor; ties go to the first of LIMITING_NUTRIENTS
+export function limitingNutrient(factors: ResponseFactors): keyof Nutrients {
+  const terms: Nutrients = { P: factors.phosphorus, N: factors.nitrogen, Si: factors.silicon, Fe: 1 }
+  return LIMITING_NUTRIENTS.reduce((lowest, key) => (terms[key] < terms[lowest] ? key : lowest))
+}
+
 // Q10 temperature response function
 function q10Response(temp: number, optimal: number, q10: number, range: [number, number]): number {
   const [minTemp, maxTemp] = range
@@ -156,63 +169,139 @@ function saturatingResponse(concentration: number, ks: number): number {
   return concentration / (concentration + ks)
 }
 
-// Calculate mixing index from wind speed and depth
-function calculateMixingIndex(windSpeed: number, depth: number): number {
-  // Simple mixing model based on wind speed and depth
-  // Higher wind speed and shallower depth = more mixing
-  const mixingPotential = (windSpeed ** 2) / depth
-  return Math.min(1, mixingPotential / 10) // Normalize to 0-1
+// Stratification of a column of `env.depth` m: the seasonal thermocline under the given surface temperature
+export function columnStratification(env: EnvironmentalConditions, dayOfYear: number = midMonthDayOfYear(env.month)): Stratification {
+  const layers = Math.max(1, Math.round(env.depth))
+  const depths = Array.from({ length: layers }, (_, i) => ((i + 0.5) * env.depth) / layers)
+  const temperature = depths.map(depth => temperatureAt(dayOfYear, depth, env.temperature))
+  return analyzeStratification(depths, temperature, env.windSpeed)
+}
+
+/**
+ * Conditions in a month (1–12) under a scenario's forcing: the climatology
+ * plus the warming, the forced wind, the ambient nutrients scaled by the
+ * loads, and the mean depth moved with the water level.
+ */
+export function forcedConditions(forcing: ForcingSeries, nutrients: Nutrients, month: number): EnvironmentalConditions {
+  const dayOfYear = midMonthDayOfYear(month)
+  const i = month - 1
+  const meanDepth = REFERENCE_VOLUME / KINNERET_HYPSOGRAPHY.areas[0]
+  const loaded = (key: keyof Nutrients) => nutrients[key] * Math.max(0, forcing[LOADING_KEYS[key]][i])
+  return {
+    temperature: kinneretSurfaceTemperature(dayOfYear) + forcing.temperatureOffset[i],
+    windSpeed: Math.max(0, forcing.windSpeed[i]),
+    windDirection: 270, // afternoon westerlies
+    cloudCover: kinneretCloudCover(dayOfYear),
+    phosphorus: loaded('P'),
+    nitrogen: loaded('N'),
+    silicon: loaded('Si'),
+    depth: Math.max(1, meanDepth + forcing.waterLevel[i] - REFERENCE_LEVEL),
+    month,
+  }
 }
 
 // Generate biomass heatmap data
 export function generateBiomassHeatmap(
-  groupId: string,
+  group: PhytoplanktonGroup,
   env: EnvironmentalConditions,
   width: number = 500,
-  height: number = 300
+  height: number = 300,
+  cellGradients?: (column: number, row: number) => SpatialGradients, // physical setting of a cell; uniform without it
+  onProgress?: (fraction: number) => void // called after each row
 ): number[][] {
-  console.log('generateBiomassHeatmap called with:', { groupId, env, width, height })
-  
-  const group = PHYTOPLANKTON_GROUPS[groupId]
-  if (!group) {
-    console.error(`Unknown phytoplankton group: ${groupId}`)
-    throw new Error(`Unknown phytoplankton group: ${groupId}`)
-  }
-  
-  console.log('Using phytoplankton group:', group)
-  
-  // Test simple calculation first
-  const testResponse = calculateBiomassResponse(group, env)
-  console.log('Test biomass response:', testResponse)
-  
   const heatmap: number[][] = []
   
   // Create spatial grid
   for (let j = 0; j < height; j++) {
     const row: number[] = []
     for (let i = 0; i < width; i++) {
-      // Add spatial variation to environmental conditions
-      const spatialEnv = {
-        ...env,
-        temperature: env.temperature + (Math.random() - 0.5) * 2,
-        phosphorus: env.phosphorus + (Math.random() - 0.5) * 0.1,
-        nitrogen: env.nitrogen + (Math.random() - 0.5) * 0.2,
-        silicon: env.silicon + (Math.random() - 0.5) * 0.5,
-        light: env.light + (Math.random() - 0.5) * 0.2
-      }
-      
-      const response = calculateBiomassResponse(group, spatialEnv)
-      if (isNaN(response) || !isFinite(response)) {
-        console.warn('Invalid biomass response:', response, 'for env:', spatialEnv)
+      // Spatial variation of the environmental conditions, and wind-driven accumulation
+      const gradients = cellGradients?.(i, j)
+      if (!gradients) {
+        row.push(calculateBiomassResponse(group, env))
+        continue
       }
-      row.push(response)
+      const spatialEnv = applySpatialGradients(env, gradients)
+      row.push(calculateBiomassResponse(group, spatialEnv) * downwindAccumulation(gradients, env.windSpeed, group.buoyancy))
     }
     heatmap.push(row)
+    onProgress?.((j + 1) / height)
   }
   
   return heatmap
 }
 
+// Resolution of the response-model grid over the lake
+export const BIOMASS_GRID_WIDTH = 50
+export const BIOMASS_GRID_HEIGHT = 40
+
+/**
+ * Response-model biomass as a georeferenced field over the lake, masked to
+ * the shoreline. Each cell follows the bathymetric depth at its centre
+ * (`env.depth` only applies where the bathymetry has no value), its distance
+ * to shore and to the Jordan mouth, its position along the wind and the
+ * noise of `env.seed`, so equal inputs always give the same field.
+ */
+export function generateBiomassField(
+  group: PhytoplanktonGroup,
+  env: EnvironmentalConditions,
+  width: number = BIOMASS_GRID_WIDTH,
+  height: number = BIOMASS_GRID_HEIGHT,
+  lake: LakeGeometry = KINNERET_LAKE,
+  onProgress?: (fraction: number) => void
+): GridField {
+  const transform = boundsToTransform(lake.bounds, width, height)
+  const cells = createGridField(new Float32Array(width * height), width, height, transform)
+  const bathymetry = getLakeBathymetry(lake)
+  const gradientsAt = createSpatialGradients(lake, env, (lon, lat) => depthAt(lon, lat, bathymetry))
+  const cellGradients = (column: number, row: number) => gradientsAt(...cellCenter(cells, column, row))
+
+  const rows = generateBiomassHeatmap(group, env, width, height, cellGradients, onProgress)
+  return maskField(createGridField(rows.flat(), width, height, transform, {
+    name: `${group.name} biomass`,
+    source: 'Biomass response model',
+    variable: group.id,
+    units: getBiomassUnits(group.id),
+  }), lake.polygons)
+}
+
+/**
+ * Categorical field of the nutrient that limits a group in each cell, with
+ * the same per-cell conditions as generateBiomassField. Cell values index
+ * LIMITING_NUTRIENTS; the response model has no iron term, so Fe never
+ * appears.
+ */
+export function generateLimitationField(
+  group: PhytoplanktonGroup,
+  env: EnvironmentalConditions,
+  width: number = BIOMASS_GRID_WIDTH,
+  height: number = BIOMASS_GRID_HEIGHT,
+  lake: LakeGeometry = KINNERET_LAKE,
+  onProgress?: (fraction: number) => void
+): GridField {
+  const transform = boundsToTransform(lake.bounds, width, height)
+  const values = new Float32Array(width * height)
+  const cells = createGridField(values, width, height, transform)
+  const bathymetry = getLakeBathymetry(lake)
+  const gradientsAt = createSpatialGradients(lake, env, (lon, lat) => depthAt(lon, lat, bathymetry))
+
+  for (let j = 0; j < height; j++) {
+    for (let i = 0; i < width; i++) {
+      const cellEnv = applySpatialGradients(env, gradientsAt(...cellCenter(cells, i, j)))
+      values[j * width + i] = LIMITING_NUTRIENTS.indexOf(limitingNutrient(calculateResponseFactors(group, cellEnv)))
+    }
+    onProgress?.((j + 1) / height)
+  }
+
+  return maskField(createGridField(values, width, height, transform, {
+    name: `Limiting nutrient of ${group.name}`,
+    source: 'Biomass response model',
+    variable: `${group.id}-limitation`,
+    units: '',
+    categories: [...LIMITING_NUTRIENTS],
+  }), lake.polygons)
+}
+
 // Get biomass units for a group
 export function getBiomassUnits(groupId: string): string {
   return 'mmol P/m³' // Standardized to phosphorus units
@@ -0,0 +1,122 @@
+// Spatial structure of the response-model maps: physical gradients across the lake and
+// seeded, spatially coherent noise, so the same seed always gives the same map
+
+import type { EnvironmentalConditions } from './response'
+import { LakeGeometry, LonLat, distanceToShore, offsetKm, pointInPolygons } from '@/lib/rasters/lake'
+import { createRandom } from '@/lib/random'
+
+export const DEFAULT_SPATIAL_SEED = 1
+
+// Jordan River mouth at the north shore
+export const JORDAN_INFLOW: LonLat = [35.626, 32.887]
+
+const INFLOW_SCALE = 3 // km over which the Jordan plume decays
+const SHALLOW_SCALE = 10 // m, depth over which the littoral signal fades
+const SHORE_SCALE = 1 // km from the shore over which runoff and scums fade
+const NOISE_SCALES = [4, 1.5] // km, wavelengths of the noise octaves
+
+// Physical setting of one cell
+export interface SpatialGradients {
+  shoreDistance: number // km
+  depth: number // m
+  inflow: number // 0-1, strength of the Jordan plume
+  downwind: number // -1 (upwind shore) – 1 (downwind shore)
+  noise: number // -1 – 1, coherent over a few km
+}
+
+// Value in [-1, 1] of a lattice node, fixed by the seed
+const latticeValue = (seed: number, i: number, j: number): number => {
+  const hash = Math.imul(i, 374761393) ^ Math.imul(j, 668265263) ^ Math.imul(seed, 1274126177)
+  return createRandom(hash)() * 2 - 1
+}
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t)
+
+/**
+ * Smooth value noise over positions in km: lattice values interpolated
+ * within cells of `scale` km, summed over octaves. The same seed always
+ * yields the same field.
+ */
+export const createCoherentNoise = (seed: number, scales: number[] = NOISE_SCALES) => (x: number, y: number): number => {
+  let total = 0
+  let weight = 0
+  scales.forEach((scale, octave) => {
+    const amplitude = 1 / (octave + 1)
+    const u = x / scale
+    const v = y / scale
+    const i = Math.floor(u)
+    const j = Math.floor(v)
+    const fu = smoothstep(u - i)
+    const fv = smoothstep(v - j)
+    const octaveSeed = seed + octave * 7919
+    const top = latticeValue(octaveSeed, i, j) * (1 - fu) + latticeValue(octaveSeed, i + 1, j) * fu
+    const bottom = latticeValue(octaveSeed, i, j + 1) * (1 - fu) + latticeValue(octaveSeed, i + 1, j + 1) * fu
+    total += amplitude * (top * (1 - fv) + bottom * fv)
+    weight += amplitude
+  })
+  return total / weight
+}
+
+/**
+ * Gradients of every point of a lake for a wind from `env.windDirection`
+ * (degrees, meteorological). `depthOf` gives the bathymetric depth, which
+ * falls back to `env.depth` where it is missing.
+ */
+export function createSpatialGradients(
+  lake: LakeGeometry,
+  env: EnvironmentalConditions,
+  depthOf: (lon: number, lat: number) => number
+): (lon: number, lat: number) => SpatialGradients {
+  const noise = createCoherentNoise(env.seed ?? DEFAULT_SPATIAL_SEED)
+  const [[west, south], [east, north]] = lake.bounds
+  const [halfWidth, halfHeight] = offsetKm([east, north], lake.center).map(Math.abs)
+  const extent = Math.max(halfWidth, halfHeight, 1e-6)
+  // Wind blows towards the opposite of the direction it comes from
+  const heading = (env.windDirection * Math.PI) / 180
+  const towards: [number, number] = [-Math.sin(heading), -Math.cos(heading)]
+  const origin: LonLat = [west, south]
+
+  return (lon, lat) => {
+    const inside = pointInPolygons(lon, lat, lake.polygons)
+    const bathymetric = depthOf(lon, lat)
+    const [x, y] = offsetKm([lon, lat], origin)
+    const [cx, cy] = offsetKm([lon, lat], lake.center)
+    const [ix, iy] = offsetKm([lon, lat], JORDAN_INFLOW)
+    return {
+      shoreDistance: inside ? distanceToShore(lon, lat, lake.polygons) : 0,
+      depth: bathymetric > 0 ? bathymetric : env.depth,
+      inflow: Math.exp(-Math.hypot(ix, iy) / INFLOW_SCALE),
+      downwind: Math.min(1, Math.max(-1, (cx * towards[0] + cy * towards[1]) / extent)),
+      noise: noise(x, y),
+    }
+  }
+}
+
+// Littoral warming in spring and summer, cooling in winter; +1 in July, -1 in January
+const seasonalSign = (month: number) => -Math.cos((2 * Math.PI * (month - 1)) / 12)
+
+/**
+ * Conditions in a cell: shallow water follows the air temperature and
+ * resuspends phosphorus, the shore adds runoff, the Jordan plume is cooler
+ * and rich in nutrients, and the noise adds small coherent patches.
+ */
+export function applySpatialGradients(env: EnvironmentalConditions, gradients: SpatialGradients): EnvironmentalConditions {
+  const shallowness = Math.exp(-gradients.depth / SHALLOW_SCALE)
+  const nearShore = Math.exp(-gradients.shoreDistance / SHORE_SCALE)
+  const { inflow, noise } = gradients
+  return {
+    ...env,
+    depth: gradients.depth,
+    temperature: env.temperature + 1.5 * shallowness * seasonalSign(env.month) - 2 * inflow + 0.3 * noise,
+    phosphorus: Math.max(0, env.phosphorus * (1 + 0.2 * shallowness + 0.1 * nearShore + 0.8 * inflow + 0.1 * noise)),
+    nitrogen: Math.max(0, env.nitrogen * (1 + 1.5 * inflow + 0.1 * noise)),
+    silicon: Math.max(0, env.silicon * (1 + inflow + 0.1 * noise)),
+  }
+}
+
+// Wind drives buoyant colonies towards the downwind shore, where they pile up against it;
+// `buoyancy` is 0 (none) – 1 (surface scums)
+export const downwindAccumulation = (gradients: SpatialGradients, windSpeed: number, buoyancy: number): number => {
+  const nearShore = Math.exp(-gradients.shoreDistance / SHORE_SCALE)
+  return Math.max(0, 1 + 0.6 * buoyancy * Math.min(1, windSpeed / 8) * gradients.downwind * (1 + nearShore) / 2)
+}
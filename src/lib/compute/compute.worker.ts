@@ -0,0 +1,35 @@
+// Web Worker that runs model computations off the main thread
+
+import { ComputeJob, ComputeResults, resultTransferables, runComputeJob } from './jobs'
+
+export type ComputeWorkerRequest = { id: number; job: ComputeJob }
+
+export type ComputeWorkerResponse =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'done'; result: ComputeResults[ComputeJob['kind']] }
+  | { id: number; type: 'error'; message: string }
+
+// Post progress at most this often, and at most once per percent
+const PROGRESS_INTERVAL_MS = 50
+
+const post = (message: ComputeWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer })
+
+// A job runs to completion once started; the service cancels by terminating the worker
+self.onmessage = (event: MessageEvent<ComputeWorkerRequest>) => {
+  const { id, job } = event.data
+  let lastPosted = 0
+  let lastFraction = 0
+
+  try {
+    const result = runComputeJob(job, fraction => {
+      const now = performance.now()
+      if (now - lastPosted < PROGRESS_INTERVAL_MS || fraction - lastFraction < 0.01) return
+      lastPosted = now
+      lastFraction = fraction
+      post({ id, type: 'progress', fraction })
+    })
+    post({ id, type: 'done', result }, resultTransferables(result))
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : 'Computation failed' })
+  }
+}
@@ -0,0 +1,105 @@
+// Model runs that the compute service executes, in the worker or on the main thread
+
+import { NpzResult, NpzRunOptions, runNpzSimulation } from '@/lib/model/npz'
+import { WaterColumnResult, WaterColumnRunOptions, runWaterColumn } from '@/lib/model/water-column'
+import { CalibrationOptions, CalibrationResult, calibrateModel } from '@/lib/model/calibration'
+import { SensitivityOptions, SensitivityResult, analyzeSensitivity } from '@/lib/model/sensitivity'
+import { EnsembleOptions, EnsembleResult, runEnsemble } from '@/lib/model/ensemble'
+import { SkillMetrics } from '@/lib/model/evaluation'
+import { EnvironmentalConditions, PhytoplanktonGroup as ResponseGroup, generateBiomassField, generateLimitationField } from '@/lib/biomass/response'
+import { GridField } from '@/lib/rasters/grid-field'
+import { LakeGeometry } from '@/lib/rasters/lake'
+import {
+  PhytoplanktonPredictor,
+  PredictionData,
+  PredictionModel,
+  PredictionResult,
+} from '@/lib/predictions/phytoplankton-predictor'
+
+export type PredictionGroup = keyof Omit<PredictionData, 'date'>
+
+// Jobs are posted to a worker, so they hold plain data only (no temperature function for scenarios)
+export type ComputeJob =
+  | { kind: 'scenario'; options: Omit<NpzRunOptions, 'temperature'> }
+  | { kind: 'water-column'; options: WaterColumnRunOptions }
+  | { kind: 'calibration'; options: CalibrationOptions }
+  | { kind: 'sensitivity'; options: SensitivityOptions }
+  | { kind: 'ensemble'; options: EnsembleOptions }
+  | {
+      kind: 'biomass-field'
+      group: ResponseGroup // with the registry's current parameters
+      env: EnvironmentalConditions
+      width?: number
+      height?: number
+      lake?: LakeGeometry
+    }
+  | {
+      kind: 'limitation-field'
+      group: ResponseGroup
+      env: EnvironmentalConditions
+      width?: number
+      height?: number
+      lake?: LakeGeometry
+    }
+  | {
+      kind: 'prediction'
+      data: PredictionData[]
+      group: PredictionGroup
+      model: PredictionModel
+      monthsAhead: number
+    }
+
+export interface PredictionJobResult {
+  predictions: PredictionResult[]
+  skill: Record<string, SkillMetrics> // hold-out skill of every model
+}
+
+export interface ComputeResults {
+  scenario: NpzResult
+  'water-column': WaterColumnResult
+  calibration: CalibrationResult
+  sensitivity: SensitivityResult
+  ensemble: EnsembleResult
+  'biomass-field': GridField
+  'limitation-field': GridField
+  prediction: PredictionJobResult
+}
+
+export type ComputeResult<J extends ComputeJob> = ComputeResults[J['kind']]
+
+export function runComputeJob<J extends ComputeJob>(
+  job: J,
+  onProgress?: (fraction: number) => void
+): ComputeResult<J>
+export function runComputeJob(job: ComputeJob, onProgress?: (fraction: number) => void): ComputeResults[ComputeJob['kind']] {
+  switch (job.kind) {
+    case 'scenario':
+      return runNpzSimulation(job.options, onProgress)
+    case 'water-column':
+      return runWaterColumn(job.options, onProgress)
+    case 'calibration':
+      return calibrateModel(job.options, onProgress)
+    case 'sensitivity':
+      return analyzeSensitivity(job.options, onProgress)
+    case 'ensemble':
+      return runEnsemble(job.options, onProgress)
+    case 'biomass-field':
+      return generateBiomassField(job.group, job.env, job.width, job.height, job.lake, onProgress)
+    case 'limitation-field':
+      return generateLimitationField(job.group, job.env, job.width, job.height, job.lake, onProgress)
+    case 'prediction': {
+      const predictor = new PhytoplanktonPredictor(job.data)
+      const predictions = predictor.predict(job.group, job.model, job.monthsAhead)
+      onProgress?.(0.5)
+      return { predictions, skill: predictor.getModelSkill(job.group) }
+    }
+  }
+}
+
+// Buffers of a result's typed arrays, handed over to the main thread instead of copied
+export const resultTransferables = (result: object): Transferable[] =>
+  Object.values(result).flatMap((value): Transferable[] => {
+    if (ArrayBuffer.isView(value)) return [value.buffer as ArrayBuffer]
+    if (value && typeof value === 'object' && !Array.isArray(value)) return resultTransferables(value)
+    return []
+  })
@@ -0,0 +1,129 @@
+import type { ComputeJob, ComputeResult, ComputeResults } from './jobs'
+import type { ComputeWorkerRequest, ComputeWorkerResponse } from './compute.worker'
+
+export type { ComputeJob, ComputeResult, PredictionGroup, PredictionJobResult } from './jobs'
+
+export interface ComputeTask<T> {
+  promise: Promise<T> // rejects with an AbortError when cancelled
+  cancel: () => void
+}
+
+export interface ComputeOptions {
+  // Jobs on a channel share a worker and a new job supersedes the running one.
+  // Without a channel the job gets its own worker, released when it finishes.
+  channel?: string
+  onProgress?: (fraction: number) => void
+}
+
+type AnyResult = ComputeResults[ComputeJob['kind']]
+
+interface PendingJob {
+  id: number
+  resolve: (result: AnyResult) => void
+  reject: (error: Error) => void
+  onProgress?: (fraction: number) => void
+}
+
+interface Lane {
+  worker: Worker
+  pending: PendingJob | null
+}
+
+const lanes = new Map<string, Lane>()
+let nextId = 1
+
+const cancelledError = () => Object.assign(new Error('Computation cancelled'), { name: 'AbortError' })
+
+// True for the rejection of a cancelled or superseded job
+export const isComputeCancelled = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError'
+
+// Stop the running job of a channel, if any, and terminate its worker
+export const releaseComputeChannel = (channel: string) => {
+  const lane = lanes.get(channel)
+  if (!lane) return
+  lanes.delete(channel)
+  lane.worker.terminate()
+  lane.pending?.reject(cancelledError())
+}
+
+const createLane = (channel: string): Lane => {
+  const worker = new Worker(new URL('./compute.worker.ts', import.meta.url), { type: 'module' })
+  const lane: Lane = { worker, pending: null }
+
+  worker.onmessage = (event: MessageEvent<ComputeWorkerResponse>) => {
+    const message = event.data
+    const pending = lane.pending
+    if (!pending || pending.id !== message.id) return
+    if (message.type === 'progress') {
+      pending.onProgress?.(message.fraction)
+      return
+    }
+    lane.pending = null
+    if (message.type === 'done') {
+      pending.onProgress?.(1)
+      pending.resolve(message.result)
+    } else {
+      pending.reject(new Error(message.message))
+    }
+  }
+
+  worker.onerror = (event) => {
+    const pending = lane.pending
+    lane.pending = null
+    releaseComputeChannel(channel)
+    pending?.reject(new Error(event.message || 'Compute worker failed'))
+  }
+
+  lanes.set(channel, lane)
+  return lane
+}
+
+// Runs the job on this thread where workers are unavailable; cancelling discards the result
+const runOnMainThread = <J extends ComputeJob>(job: J, onProgress?: (fraction: number) => void): ComputeTask<ComputeResult<J>> => {
+  let cancelled = false
+  const promise = import('./jobs').then(({ runComputeJob }) => {
+    if (cancelled) throw cancelledError()
+    const result = runComputeJob(job, onProgress)
+    if (cancelled) throw cancelledError()
+    return result
+  })
+  return { promise, cancel: () => { cancelled = true } }
+}
+
+/**
+ * Run a scenario, calibration, sensitivity analysis, ensemble, biomass or
+ * limitation grid, or prediction in a Web Worker. Progress is reported as a fraction of the job,
+ * typed arrays in the result are transferred rather than copied, and
+ * cancelling terminates the worker.
+ */
+export function startCompute<J extends ComputeJob>(job: J, options: ComputeOptions = {}): ComputeTask<ComputeResult<J>> {
+  const { onProgress } = options
+  if (typeof Worker === 'undefined') return runOnMainThread(job, onProgress)
+
+  const channel = options.channel ?? `job-${nextId}`
+  if (lanes.get(channel)?.pending) releaseComputeChannel(channel)
+  const lane = lanes.get(channel) ?? createLane(channel)
+  const id = nextId++
+
+  const promise = new Promise<ComputeResult<J>>((resolve, reject) => {
+    lane.pending = { id, resolve: resolve as (result: AnyResult) => void, reject, onProgress }
+  })
+  if (!options.channel) {
+    const release = () => releaseComputeChannel(channel)
+    promise.then(release, release)
+  }
+
+  const request: ComputeWorkerRequest = { id, job }
+  lane.worker.postMessage(request)
+
+  return {
+    promise,
+    cancel: () => {
+      if (lanes.get(channel) === lane && lane.pending?.id === id) releaseComputeChannel(channel)
+    },
+  }
+}
+
+// Promise form of startCompute for callers that never cancel
+export const compute = <J extends ComputeJob>(job: J, options: ComputeOptions = {}): Promise<ComputeResult<J>> =>
+  startCompute(job, options).promise
@@ -1,54 +1,112 @@
-import { CSVUpload, CSVUploadSchema } from './schemas'
+import {
+  CsvParseProgress,
+  CsvParseResult,
+  CsvPreview,
+  ObservationParseResult,
+  parseCSVText,
+  parseObservationCSVText,
+  previewCSVText,
+} from './csv/parser'
+import type { ColumnMapping, DateFormat } from './csv/mapping'
+import type { CsvWorkerRequest, CsvWorkerResponse } from './csv/csv.worker'
 
-export const parseCSV = (csvText: string): CSVUpload[] => {
-  const lines = csvText.trim().split('\n')
-  if (lines.length < 2) {
-    throw new Error('CSV must have at least a header row and one data row')
-  }
-  
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase())
-  const requiredHeaders = ['date', 'diatom', 'dinoflagellates', 'small_phyto', 'n_fixers', 'microcystis']
-  
-  // Validate headers
-  const missingHeaders = requiredHeaders.filter(h => !headers.includes(h))
-  if (missingHeaders.length > 0) {
-    throw new Error(`Missing required columns: ${missingHeaders.join(', ')}`)
-  }
-  
-  const data: CSVUpload[] = []
-  
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim())
-    
-    if (values.length !== headers.length) {
-      throw new Error(`Row ${i + 1} has ${values.length} columns, expected ${headers.length}`)
-    }
-    
-    const row: Record<string, string> = {}
-    headers.forEach((header, index) => {
-      row[header] = values[index]
-    })
-    
-    // Convert to proper types
-    const csvRow: CSVUpload = {
-      date: row.date,
-      diatom: parseFloat(row.diatom),
-      dinoflagellates: parseFloat(row.dinoflagellates),
-      small_phyto: parseFloat(row.small_phyto),
-      n_fixers: parseFloat(row.n_fixers),
-      microcystis: parseFloat(row.microcystis),
+export type { CsvParseProgress, CsvParseResult, CsvPreview, CsvRowError, ObservationParseResult } from './csv/parser'
+
+// Bytes read from the start of a file for the import preview
+const PREVIEW_BYTES = 64 * 1024
+
+// Parse CSV text on the current thread; invalid rows are reported, not thrown
+export const parseCSV = (csvText: string): CsvParseResult => parseCSVText(csvText)
+
+type CsvWorkerResult = Exclude<CsvWorkerResponse, { type: 'progress' } | { type: 'error' }>
+
+// Run one request on a fresh CSV worker and settle with its result
+const runCsvWorker = (
+  request: CsvWorkerRequest,
+  onProgress?: (progress: CsvParseProgress) => void
+): Promise<CsvWorkerResult> => {
+  const { file } = request
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./csv/csv.worker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (event: MessageEvent<CsvWorkerResponse>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress?.(message.progress)
+        return
+      }
+      worker.terminate()
+      if (message.type === 'error') {
+        reject(new Error(message.message))
+        return
+      }
+      onProgress?.({ bytesRead: file.size, totalBytes: file.size, rowsParsed: message.result.totalRows })
+      resolve(message)
     }
-    
-    // Validate the row
-    try {
-      CSVUploadSchema.parse(csvRow)
-      data.push(csvRow)
-    } catch (error) {
-      throw new Error(`Row ${i + 1} validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'CSV worker failed'))
     }
+
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * Parse a CSV file in a Web Worker, streaming it so large monitoring files
+ * do not block the UI. Falls back to the main thread where workers are unavailable.
+ */
+export const parseCSVFile = (
+  file: File,
+  onProgress?: (progress: CsvParseProgress) => void,
+  mapping?: ColumnMapping
+): Promise<CsvParseResult> => {
+  if (typeof Worker === 'undefined') {
+    return readFileAsText(file).then(text => parseCSVText(text, mapping))
   }
-  
-  return data
+
+  return runCsvWorker({ file, mapping }, onProgress).then(message => {
+    if (message.type !== 'done') throw new Error('Unexpected CSV worker response')
+    return message.result
+  })
+}
+
+// Parse a long-format observation file (one measurement per row) the same way
+export const parseObservationCSVFile = (
+  file: File,
+  onProgress?: (progress: CsvParseProgress) => void,
+  dateFormat?: DateFormat
+): Promise<ObservationParseResult> => {
+  if (typeof Worker === 'undefined') {
+    return readFileAsText(file).then(text => parseObservationCSVText(text, dateFormat))
+  }
+
+  return runCsvWorker({ file, layout: 'long', dateFormat }, onProgress).then(message => {
+    if (message.type !== 'observations') throw new Error('Unexpected CSV worker response')
+    return message.result
+  })
+}
+
+// Headers and first rows of a file for the column-mapping wizard
+export const readCSVPreview = async (file: File, maxRows: number = 10): Promise<CsvPreview> => {
+  let text = await file.slice(0, PREVIEW_BYTES).text()
+  // Drop a partial last line when the file was cut short
+  if (file.size > PREVIEW_BYTES) {
+    const lastNewline = text.lastIndexOf('\n')
+    if (lastNewline > 0) text = text.slice(0, lastNewline)
+  }
+  return previewCSVText(text, maxRows)
+}
+
+// Human-readable one-line summary of a parse result
+export const summarizeParseResult = (result: CsvParseResult): string => {
+  const skipped = result.totalRows - result.rows.length
+  const parts = [`${result.rows.length} of ${result.totalRows} rows imported`]
+  if (skipped > 0) parts.push(`${skipped} skipped`)
+  if (result.errorCount > result.errors.length) parts.push(`showing first ${result.errors.length} of ${result.errorCount} errors`)
+  return parts.join(', ')
 }
 
 export const generateCSVTemplate = (): string => {
@@ -0,0 +1,101 @@
+// Web Worker that streams a CSV file through the shared parser off the main thread
+
+import {
+  CsvParseProgress,
+  CsvParseResult,
+  CsvRecordCollector,
+  CsvStreamParser,
+  ObservationParseResult,
+  ObservationRecordCollector,
+} from './parser'
+import { ColumnMapping, DateFormat } from './mapping'
+
+// Wide files (one row per date) are parsed with an optional column mapping;
+// long-format files (one measurement per row) with the date format of their dates
+export type CsvWorkerRequest =
+  | { file: File; layout?: 'wide'; mapping?: ColumnMapping }
+  | { file: File; layout: 'long'; dateFormat?: DateFormat }
+
+export type CsvWorkerResponse =
+  | { type: 'progress'; progress: CsvParseProgress }
+  | { type: 'done'; result: CsvParseResult }
+  | { type: 'observations'; result: ObservationParseResult }
+  | { type: 'error'; message: string }
+
+// Post progress at most every this many bytes
+const PROGRESS_INTERVAL_BYTES = 256 * 1024
+
+const post = (message: CsvWorkerResponse) => self.postMessage(message)
+
+// Feed the file to the parser chunk by chunk, reporting progress along the way
+const streamFile = async (file: File, parser: CsvStreamParser, rowsParsed: () => number) => {
+  const reader = file.stream().getReader()
+  const decoder = new TextDecoder('utf-8')
+  let bytesRead = 0
+  let lastReported = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    bytesRead += value.byteLength
+    parser.push(decoder.decode(value, { stream: true }))
+
+    if (bytesRead - lastReported >= PROGRESS_INTERVAL_BYTES) {
+      lastReported = bytesRead
+      post({ type: 'progress', progress: { bytesRead, totalBytes: file.size, rowsParsed: rowsParsed() } })
+    }
+  }
+
+  parser.push(decoder.decode())
+  parser.end()
+}
+
+self.onmessage = async (event: MessageEvent<CsvWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    if (request.layout === 'long') {
+      const collector = new ObservationRecordCollector(request.dateFormat)
+      const parser = new CsvStreamParser(
+        (fields, line) => collector.addRecord(fields, line),
+        error => collector.addError(error)
+      )
+      await streamFile(request.file, parser, () => collector.totalRows)
+
+      post({
+        type: 'observations',
+        result: {
+          observations: collector.observations,
+          errors: collector.errors,
+          errorCount: collector.errorCount,
+          totalRows: collector.totalRows,
+          delimiter: parser.getDelimiter(),
+          headers: collector.getHeaders(),
+        },
+      })
+      return
+    }
+
+    const collector = new CsvRecordCollector(request.mapping)
+    const parser = new CsvStreamParser(
+      (fields, line) => collector.addRecord(fields, line),
+      error => collector.addError(error)
+    )
+    await streamFile(request.file, parser, () => collector.totalRows)
+
+    post({
+      type: 'done',
+      result: {
+        rows: collector.rows,
+        errors: collector.errors,
+        errorCount: collector.errorCount,
+        totalRows: collector.totalRows,
+        delimiter: parser.getDelimiter(),
+        headers: collector.getHeaders(),
+      },
+    })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse CSV file' })
+  }
+}
@@ -0,0 +1,119 @@
+// Column mapping for importing CSV files with arbitrary headers
+
+import dayjs from 'dayjs'
+import customParseFormat from 'dayjs/plugin/customParseFormat'
+import { z } from 'zod'
+import { PHYTOPLANKTON_GROUPS } from '../schemas'
+
+dayjs.extend(customParseFormat)
+
+export const MAPPING_TARGETS = ['date', ...PHYTOPLANKTON_GROUPS, 'station', 'depth'] as const
+
+export type MappingTarget = typeof MAPPING_TARGETS[number]
+
+// Targets that must be mapped before a file can be imported
+export const REQUIRED_MAPPING_TARGETS: MappingTarget[] = ['date', ...PHYTOPLANKTON_GROUPS]
+
+export const MAPPING_TARGET_LABELS: Record<MappingTarget, string> = {
+  date: 'Date',
+  diatom: 'Diatoms',
+  dinoflagellates: 'Dinoflagellates',
+  small_phyto: 'Small phytoplankton',
+  n_fixers: 'N-fixers',
+  microcystis: 'Microcystis',
+  station: 'Station',
+  depth: 'Depth (m)',
+}
+
+export const DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'DD.MM.YYYY',
+  'DD-MM-YYYY',
+  'YYYY/MM/DD',
+  'YYYYMMDD',
+] as const
+
+export type DateFormat = typeof DATE_FORMATS[number]
+
+// Conversions of group biomass into the app's mmol P/m³
+export const UNIT_CONVERSIONS = {
+  mmolP_m3: { label: 'mmol P/m³ (no conversion)', factor: 1 },
+  umolP_L: { label: 'µmol P/L', factor: 1 },
+  mgP_m3: { label: 'mg P/m³ (= µg P/L)', factor: 1 / 30.974 },
+  mmolC_m3: { label: 'mmol C/m³ (Redfield C:P 106)', factor: 1 / 106 },
+  mgC_m3: { label: 'mg C/m³ (Redfield C:P 106)', factor: 1 / (12.011 * 106) },
+} as const
+
+export type UnitConversion = keyof typeof UNIT_CONVERSIONS
+
+export const ColumnMappingSchema = z.object({
+  columns: z.partialRecord(z.enum(MAPPING_TARGETS), z.string()), // target → source header
+  dateFormat: z.enum(DATE_FORMATS),
+  unitConversion: z.enum(Object.keys(UNIT_CONVERSIONS) as [UnitConversion, ...UnitConversion[]]),
+})
+
+export type ColumnMapping = z.infer<typeof ColumnMappingSchema>
+
+// Named mapping saved from the wizard and persisted with the store
+export const MappingPresetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  mapping: ColumnMappingSchema,
+  createdAt: z.string(), // ISO timestamp
+})
+
+export type MappingPreset = z.infer<typeof MappingPresetSchema>
+
+// Header patterns used to pre-fill the mapping, including Hebrew lab headers
+const TARGET_PATTERNS: Record<MappingTarget, RegExp> = {
+  date: /^(date|datum|day|sampling[_ ]?date|תאריך)/i,
+  diatom: /(diatom|bacillario|דיאטום)/i,
+  dinoflagellates: /(dino|peridin|דינופלגל)/i,
+  small_phyto: /(small|pico|nano|קטן)/i,
+  n_fixers: /(n[_ -]?fix|fixer|aphanizomenon|cylindrospermopsis|nostocal|מקבע)/i,
+  microcystis: /(microcyst|מיקרוציסט)/i,
+  station: /(station|site|תחנה)/i,
+  depth: /(depth|עומק)/i,
+}
+
+// Suggest a mapping from the file's headers; each source column is used once
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const columns: Partial<Record<MappingTarget, string>> = {}
+  const used = new Set<string>()
+
+  MAPPING_TARGETS.forEach(target => {
+    const match = headers.find(header => !used.has(header) && TARGET_PATTERNS[target].test(header.trim()))
+    if (match !== undefined) {
+      columns[target] = match
+      used.add(match)
+    }
+  })
+
+  return {
+    columns,
+    dateFormat: 'YYYY-MM-DD',
+    unitConversion: suggestUnitConversion(headers),
+  }
+}
+
+// Guess units from header suffixes such as "Diatomea_mgP_m3"
+const suggestUnitConversion = (headers: string[]): UnitConversion => {
+  const joined = headers.join(' ').toLowerCase()
+  if (/mg_?p|µg_?p|ug_?p/.test(joined)) return 'mgP_m3'
+  if (/mg_?c/.test(joined)) return 'mgC_m3'
+  if (/mmol_?c/.test(joined)) return 'mmolC_m3'
+  return 'mmolP_m3'
+}
+
+export const getMissingTargets = (mapping: ColumnMapping): MappingTarget[] =>
+  REQUIRED_MAPPING_TARGETS.filter(target => !mapping.columns[target])
+
+// Parse a date string with the chosen format into ISO YYYY-MM-DD, or null
+export const parseDateWithFormat = (value: string, format: DateFormat): string | null => {
+  // Ignore a trailing time component ("2019-01-01T08:00", "01/02/2019 08:00")
+  const datePart = value.trim().split(/[T\s]/)[0]
+  const parsed = dayjs(datePart, format, true)
+  return parsed.isValid() ? parsed.format('YYYY-MM-DD') : null
+}
@@ -0,0 +1,515 @@
+// Streaming RFC 4180 CSV parser shared by the Data page and the CSV worker
+
+import { CSVUpload, CSVUploadSchema, OBSERVATION_VARIABLES, Observation, ObservationSchema, ObservationVariable } from '../schemas'
+import { DEFAULT_DEPTH, DEFAULT_STATION } from '../observations'
+import { ColumnMapping, DateFormat, MAPPING_TARGETS, UNIT_CONVERSIONS, getMissingTargets, parseDateWithFormat } from './mapping'
+
+export type CsvDelimiter = ',' | ';' | '\t'
+
+export interface CsvRowError {
+  line: number // 1-based physical line where the record starts
+  column?: number // 1-based field index
+  field?: string // header name of the offending column
+  message: string
+}
+
+export interface CsvParseResult {
+  rows: CSVUpload[]
+  errors: CsvRowError[]
+  errorCount: number // may exceed errors.length when errors are truncated
+  totalRows: number // data records seen, excluding blank lines
+  delimiter: CsvDelimiter
+  headers: string[]
+}
+
+export interface CsvParseProgress {
+  bytesRead: number
+  totalBytes: number
+  rowsParsed: number
+}
+
+// Keep at most this many detailed errors; the rest are only counted
+export const MAX_REPORTED_ERRORS = 500
+
+export const REQUIRED_HEADERS = ['date', 'diatom', 'dinoflagellates', 'small_phyto', 'n_fixers', 'microcystis'] as const
+
+// Header spellings accepted for backwards compatibility with older exports
+const HEADER_ALIASES: Record<string, string> = {
+  diatoms: 'diatom',
+}
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t']
+
+const normalizeHeader = (header: string): string => {
+  const key = header.trim().toLowerCase()
+  return HEADER_ALIASES[key] ?? key
+}
+
+// Pick the delimiter that occurs most often outside quotes in the header line
+export const detectDelimiter = (headerLine: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]))
+  let inQuotes = false
+  for (const char of headerLine) {
+    if (char === '"') inQuotes = !inQuotes
+    else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, (counts.get(char as CsvDelimiter) ?? 0) + 1)
+    }
+  }
+  let best: CsvDelimiter = ','
+  counts.forEach((count, delimiter) => {
+    if (count > (counts.get(best) ?? 0)) best = delimiter
+  })
+  return best
+}
+
+/**
+ * Incremental tokenizer: feed text chunks with push(), then call end().
+ * Handles quoted fields with embedded delimiters, newlines and doubled quotes,
+ * CRLF/CR/LF line endings and a leading byte-order mark.
+ */
+export class CsvStreamParser {
+  private delimiter: CsvDelimiter | null
+  private pending = '' // text held back until the delimiter is known
+  private field = ''
+  private fields: string[] = []
+  private inQuotes = false
+  private afterQuote = false
+  private lastWasCR = false
+  private started = false
+  private line = 1
+  private recordLine = 1
+
+  constructor(
+    private onRecord: (fields: string[], line: number) => void,
+    private onError: (error: CsvRowError) => void,
+    delimiter?: CsvDelimiter
+  ) {
+    this.delimiter = delimiter ?? null
+  }
+
+  getDelimiter(): CsvDelimiter {
+    return this.delimiter ?? ','
+  }
+
+  push(chunk: string): void {
+    if (!this.started) {
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1)
+      this.started = chunk.length > 0
+    }
+
+    if (this.delimiter === null) {
+      this.pending += chunk
+      const newline = this.pending.search(/[\r\n]/)
+      if (newline < 0) return
+      this.delimiter = detectDelimiter(this.pending.slice(0, newline))
+      chunk = this.pending
+      this.pending = ''
+    }
+
+    this.consume(chunk)
+  }
+
+  end(): void {
+    if (this.delimiter === null) {
+      this.delimiter = detectDelimiter(this.pending)
+      this.consume(this.pending)
+      this.pending = ''
+    }
+    if (this.inQuotes) {
+      this.onError({ line: this.recordLine, column: this.fields.length + 1, message: 'Unterminated quoted field' })
+      this.inQuotes = false
+    }
+    if (this.field.length > 0 || this.fields.length > 0) {
+      this.emitRecord()
+    }
+  }
+
+  private consume(text: string): void {
+    const delimiter = this.delimiter ?? ','
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      // Swallow the LF of a CRLF pair split across iterations or chunks
+      if (this.lastWasCR) {
+        this.lastWasCR = false
+        if (char === '\n') continue
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            this.field += '"'
+            i++
+          } else {
+            // At a chunk boundary this may be the first half of an escaped quote;
+            // the afterQuote branch below reopens the field in that case
+            this.inQuotes = false
+            this.afterQuote = true
+          }
+        } else {
+          if (char === '\n' || char === '\r') {
+            this.line++
+            if (char === '\r') this.lastWasCR = true
+          }
+          this.field += char === '\r' ? '\n' : char
+        }
+        continue
+      }
+
+      if (this.afterQuote && char === '"') {
+        // Escaped quote split across a chunk boundary
+        this.field += '"'
+        this.inQuotes = true
+        this.afterQuote = false
+        continue
+      }
+
+      if (char === delimiter) {
+        this.fields.push(this.field)
+        this.field = ''
+        this.afterQuote = false
+      } else if (char === '\n' || char === '\r') {
+        this.emitRecord()
+        this.line++
+        this.recordLine = this.line
+        if (char === '\r') this.lastWasCR = true
+      } else if (char === '"' && this.field.length === 0 && !this.afterQuote) {
+        this.inQuotes = true
+      } else {
+        // Text after a closing quote or a stray quote inside an unquoted field is kept literally
+        this.field += char
+      }
+    }
+  }
+
+  private emitRecord(): void {
+    this.fields.push(this.field)
+    const fields = this.fields
+    this.fields = []
+    this.field = ''
+    this.afterQuote = false
+
+    // Blank lines carry no data
+    if (fields.length === 1 && fields[0].trim() === '') return
+    this.onRecord(fields, this.recordLine)
+  }
+}
+
+// Accept both "0.045" and the European "0,045"
+export const parseNumber = (value: string): number => {
+  const trimmed = value.trim()
+  if (trimmed === '') return NaN
+  const normalized = /^[+-]?\d+,\d+$/.test(trimmed) ? trimmed.replace(',', '.') : trimmed
+  return Number(normalized)
+}
+
+/**
+ * Turns tokenized records into validated CSVUpload rows.
+ * Invalid rows are reported with line and column and skipped.
+ * Without a mapping the file must use the canonical headers (REQUIRED_HEADERS).
+ */
+export class CsvRecordCollector {
+  private headers: string[] = []
+  private columnIndex = new Map<string, number>()
+  readonly rows: CSVUpload[] = []
+  readonly errors: CsvRowError[] = []
+  errorCount = 0
+  totalRows = 0
+  private headerValid = false
+
+  constructor(private mapping?: ColumnMapping) {}
+
+  addError(error: CsvRowError): void {
+    this.errorCount++
+    if (this.errors.length < MAX_REPORTED_ERRORS) {
+      this.errors.push(error)
+    }
+  }
+
+  getHeaders(): string[] {
+    return this.headers
+  }
+
+  // Resolve target columns either from the mapping or from canonical header names
+  private readHeader(fields: string[], line: number): void {
+    this.headers = fields.map(field => field.trim())
+
+    if (this.mapping) {
+      const { columns } = this.mapping
+      MAPPING_TARGETS.forEach(target => {
+        const source = columns[target]
+        const index = source !== undefined ? this.headers.indexOf(source.trim()) : -1
+        if (index >= 0) this.columnIndex.set(target, index)
+      })
+      const unmapped = getMissingTargets(this.mapping)
+      const notFound = MAPPING_TARGETS.filter(target => columns[target] && !this.columnIndex.has(target))
+      if (unmapped.length > 0) {
+        this.addError({ line, message: `Unmapped required fields: ${unmapped.join(', ')}` })
+      } else if (notFound.length > 0) {
+        this.addError({ line, message: `Mapped columns not found in file: ${notFound.map(target => columns[target]).join(', ')}` })
+      } else {
+        this.headerValid = true
+      }
+      return
+    }
+
+    this.headers.map(normalizeHeader).forEach((header, index) => {
+      if (!this.columnIndex.has(header)) this.columnIndex.set(header, index)
+    })
+    const missing = REQUIRED_HEADERS.filter(header => !this.columnIndex.has(header))
+    if (missing.length > 0) {
+      this.addError({ line, message: `Missing required columns: ${missing.join(', ')}` })
+    } else {
+      this.headerValid = true
+    }
+  }
+
+  addRecord(fields: string[], line: number): void {
+    if (this.headers.length === 0) {
+      this.readHeader(fields, line)
+      return
+    }
+
+    this.totalRows++
+    if (!this.headerValid) return
+
+    if (fields.length !== this.headers.length) {
+      this.addError({ line, message: `Row has ${fields.length} columns, expected ${this.headers.length}` })
+      return
+    }
+
+    const value = (target: string) => fields[this.columnIndex.get(target) ?? -1] ?? ''
+    const factor = this.mapping ? UNIT_CONVERSIONS[this.mapping.unitConversion].factor : 1
+    const rawDate = value('date').trim()
+    const station = value('station').trim()
+    const depth = value('depth').trim()
+
+    const candidate = {
+      date: this.mapping ? parseDateWithFormat(rawDate, this.mapping.dateFormat) ?? rawDate : rawDate,
+      diatom: parseNumber(value('diatom')) * factor,
+      dinoflagellates: parseNumber(value('dinoflagellates')) * factor,
+      small_phyto: parseNumber(value('small_phyto')) * factor,
+      n_fixers: parseNumber(value('n_fixers')) * factor,
+      microcystis: parseNumber(value('microcystis')) * factor,
+      ...(station ? { station } : {}),
+      ...(depth ? { depth: parseNumber(depth) } : {}),
+    }
+
+    const result = CSVUploadSchema.safeParse(candidate)
+    if (result.success) {
+      this.rows.push(result.data)
+      return
+    }
+
+    result.error.issues.forEach(issue => {
+      const field = String(issue.path[0] ?? '')
+      const index = this.columnIndex.get(field)
+      const raw = index !== undefined ? fields[index] : undefined
+      this.addError({
+        line,
+        column: index !== undefined ? index + 1 : undefined,
+        field,
+        message: raw !== undefined ? `${issue.message} (value "${raw}")` : issue.message,
+      })
+    })
+  }
+}
+
+// Parse a complete CSV string on the current thread
+export const parseCSVText = (text: string, mapping?: ColumnMapping): CsvParseResult => {
+  const collector = new CsvRecordCollector(mapping)
+  const parser = new CsvStreamParser(
+    (fields, line) => collector.addRecord(fields, line),
+    error => collector.addError(error)
+  )
+  parser.push(text)
+  parser.end()
+
+  return {
+    rows: collector.rows,
+    errors: collector.errors,
+    errorCount: collector.errorCount,
+    totalRows: collector.totalRows,
+    delimiter: parser.getDelimiter(),
+    headers: collector.getHeaders(),
+  }
+}
+
+// Columns of a long-format observation file; station and depth are optional
+export const OBSERVATION_HEADERS = ['date', 'station', 'depth', 'variable', 'value'] as const
+
+const REQUIRED_OBSERVATION_HEADERS = ['date', 'variable', 'value'] as const
+
+// Variable spellings accepted besides the canonical names
+const VARIABLE_ALIASES: Record<string, ObservationVariable> = {
+  diatoms: 'diatom',
+  chl: 'chlorophyll',
+  chla: 'chlorophyll',
+  chl_a: 'chlorophyll',
+  do: 'dissolved_oxygen',
+  oxygen: 'dissolved_oxygen',
+  tp: 'total_phosphorus',
+  po4: 'phosphate',
+  tn: 'total_nitrogen',
+  no3: 'nitrate',
+  nh4: 'ammonium',
+  si: 'silica',
+  fe: 'iron',
+  herbivores: 'zoo_herbivores',
+  herbivorous_zooplankton: 'zoo_herbivores',
+  predatory: 'zoo_predatory',
+  predatory_zooplankton: 'zoo_predatory',
+}
+
+const normalizeVariable = (value: string): string => {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+  return VARIABLE_ALIASES[key] ?? key
+}
+
+export interface ObservationParseResult {
+  observations: Observation[]
+  errors: CsvRowError[]
+  errorCount: number
+  totalRows: number
+  delimiter: CsvDelimiter
+  headers: string[]
+}
+
+/**
+ * Turns tokenized records of a long-format file (one measurement per row:
+ * date, station, depth, variable and value) into validated observations.
+ * Rows without a station or depth get DEFAULT_STATION and DEFAULT_DEPTH;
+ * invalid rows are reported with line and column and skipped.
+ */
+export class ObservationRecordCollector {
+  private headers: string[] = []
+  private columnIndex = new Map<string, number>()
+  private variables = new Set<string>(OBSERVATION_VARIABLES)
+  readonly observations: Observation[] = []
+  readonly errors: CsvRowError[] = []
+  errorCount = 0
+  totalRows = 0
+  private headerValid = false
+
+  constructor(private dateFormat: DateFormat = 'YYYY-MM-DD') {}
+
+  addError(error: CsvRowError): void {
+    this.errorCount++
+    if (this.errors.length < MAX_REPORTED_ERRORS) {
+      this.errors.push(error)
+    }
+  }
+
+  getHeaders(): string[] {
+    return this.headers
+  }
+
+  private readHeader(fields: string[], line: number): void {
+    this.headers = fields.map(field => field.trim())
+    this.headers.forEach((header, index) => {
+      const key = header.toLowerCase()
+      if (!this.columnIndex.has(key)) this.columnIndex.set(key, index)
+    })
+    const missing = REQUIRED_OBSERVATION_HEADERS.filter(header => !this.columnIndex.has(header))
+    if (missing.length > 0) {
+      this.addError({ line, message: `Missing required columns: ${missing.join(', ')}` })
+    } else {
+      this.headerValid = true
+    }
+  }
+
+  addRecord(fields: string[], line: number): void {
+    if (this.headers.length === 0) {
+      this.readHeader(fields, line)
+      return
+    }
+
+    this.totalRows++
+    if (!this.headerValid) return
+
+    if (fields.length !== this.headers.length) {
+      this.addError({ line, message: `Row has ${fields.length} columns, expected ${this.headers.length}` })
+      return
+    }
+
+    const value = (column: string) => fields[this.columnIndex.get(column) ?? -1]?.trim() ?? ''
+    const variable = normalizeVariable(value('variable'))
+    if (!this.variables.has(variable)) {
+      this.addError({
+        line,
+        column: (this.columnIndex.get('variable') ?? 0) + 1,
+        field: 'variable',
+        message: `Unknown variable "${value('variable')}"`,
+      })
+      return
+    }
+
+    const rawDate = value('date')
+    const depth = value('depth')
+    const result = ObservationSchema.safeParse({
+      date: parseDateWithFormat(rawDate, this.dateFormat) ?? rawDate,
+      station: value('station') || DEFAULT_STATION,
+      depth: depth ? parseNumber(depth) : DEFAULT_DEPTH,
+      variable,
+      value: parseNumber(value('value')),
+    })
+    if (result.success) {
+      this.observations.push(result.data)
+      return
+    }
+
+    result.error.issues.forEach(issue => {
+      const field = String(issue.path[0] ?? '')
+      const index = this.columnIndex.get(field)
+      this.addError({
+        line,
+        column: index !== undefined ? index + 1 : undefined,
+        field,
+        message: index !== undefined ? `${issue.message} (value "${fields[index]}")` : issue.message,
+      })
+    })
+  }
+}
+
+// Parse a complete long-format CSV string on the current thread
+export const parseObservationCSVText = (text: string, dateFormat?: DateFormat): ObservationParseResult => {
+  const collector = new ObservationRecordCollector(dateFormat)
+  const parser = new CsvStreamParser(
+    (fields, line) => collector.addRecord(fields, line),
+    error => collector.addError(error)
+  )
+  parser.push(text)
+  parser.end()
+
+  return {
+    observations: collector.observations,
+    errors: collector.errors,
+    errorCount: collector.errorCount,
+    totalRows: collector.totalRows,
+    delimiter: parser.getDelimiter(),
+    headers: collector.getHeaders(),
+  }
+}
+
+export interface CsvPreview {
+  headers: string[]
+  rows: string[][]
+  delimiter: CsvDelimiter
+}
+
+// Tokenize only the first records of a CSV text, without validation
+export const previewCSVText = (text: string, maxRows: number = 10): CsvPreview => {
+  const records: string[][] = []
+  const parser = new CsvStreamParser(
+    fields => {
+      if (records.length <= maxRows) records.push(fields)
+    },
+    () => {}
+  )
+  parser.push(text)
+  parser.end()
+
+  const [headers = [], ...rows] = records
+  return { headers: headers.map(header => header.trim()), rows, delimiter: parser.getDelimiter() }
+}
@@ -0,0 +1,79 @@
+import { Dataset, DatasetMetadata, Observation, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup, TimeSeriesPoint } from './schemas'
+
+// Identifier of the bundled 2019 monitoring series; it cannot be deleted
+export const DEFAULT_DATASET_ID = 'kinneret-2019'
+
+export const DEFAULT_UNITS = 'mmol P/m³'
+
+export const createDatasetId = (): string => {
+  return `ds-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export const createDefaultDataset = (timeseries: TimeSeriesPoint[]): Dataset => ({
+  id: DEFAULT_DATASET_ID,
+  name: 'Kinneret 2019 monitoring',
+  origin: 'default',
+  metadata: {
+    source: 'Lake Kinneret monitoring program',
+    units: DEFAULT_UNITS,
+    createdAt: '2024-12-19T18:30:00Z',
+    description: 'Bundled monthly series for the five functional groups',
+  },
+  timeseries: [...timeseries],
+})
+
+export const createUploadedDataset = (
+  name: string,
+  timeseries: TimeSeriesPoint[],
+  metadata: Partial<DatasetMetadata> = {},
+  observations?: Observation[]
+): Dataset => ({
+  id: createDatasetId(),
+  name,
+  origin: 'uploaded',
+  metadata: {
+    source: metadata.source ?? 'CSV upload',
+    units: metadata.units ?? DEFAULT_UNITS,
+    createdAt: metadata.createdAt ?? new Date().toISOString(),
+    description: metadata.description,
+  },
+  timeseries: [...timeseries].sort((a, b) => a.date.localeCompare(b.date)),
+  ...(observations ? { observations } : {}),
+})
+
+// Strip the extension from an uploaded file name to use as a dataset name
+export const datasetNameFromFile = (fileName: string): string => {
+  const name = fileName.replace(/\.[^.]+$/, '').trim()
+  return name || 'Uploaded data'
+}
+
+export interface GroupStats {
+  mean: number
+  stdDev: number
+  min: number
+  max: number
+}
+
+// Per-group summary statistics of a wide time series
+export const computeGroupStats = (timeseries: TimeSeriesPoint[]): Record<PhytoplanktonGroup, GroupStats> => {
+  const stats = {} as Record<PhytoplanktonGroup, GroupStats>
+
+  PHYTOPLANKTON_GROUPS.forEach(group => {
+    // Values masked by QC are NaN and left out
+    const values = timeseries.map(point => point[group]).filter(Number.isFinite)
+    if (values.length === 0) {
+      stats[group] = { mean: 0, stdDev: 0, min: 0, max: 0 }
+      return
+    }
+    const mean = values.reduce((sum, val) => sum + val, 0) / values.length
+    const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length
+    stats[group] = {
+      mean,
+      stdDev: Math.sqrt(variance),
+      min: Math.min(...values),
+      max: Math.max(...values),
+    }
+  })
+
+  return stats
+}
@@ -0,0 +1,187 @@
+// Fit free group parameters of the NPZ model to an observed biomass time series
+
+import dayjs from 'dayjs'
+import { GroupParams, GroupParamsSchema, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup, TimeSeriesPoint } from '@/lib/schemas'
+import { NpzResult, NpzRunOptions, SAMPLING_SOLVER, initialBiomassFrom, runNpzSimulation } from './npz'
+import { OptimizationResult, differentialEvolution, nelderMead } from './optimize'
+
+export type CalibrationMethod = 'nelder-mead' | 'differential-evolution'
+
+// Weighted RMSE of biomass, or RMSE of log biomass (every magnitude counts alike)
+export type CalibrationObjective = 'rmse' | 'log'
+
+export interface FreeParameter {
+  group: PhytoplanktonGroup
+  param: keyof GroupParams
+  min: number
+  max: number
+}
+
+export interface CalibrationOptions {
+  model: Omit<NpzRunOptions, 'temperature' | 'startDate' | 'days' | 'initialBiomass'> // runs span the observed dates
+  observations: TimeSeriesPoint[]
+  free: FreeParameter[]
+  method: CalibrationMethod
+  objective: CalibrationObjective
+  weights: Record<PhytoplanktonGroup, number>
+  maxEvaluations: number
+  seed: number // of the differential-evolution population
+}
+
+export interface GroupFit {
+  rmse: number // mmol P/m³
+  bias: number // mean model − observed, mmol P/m³
+  n: number
+}
+
+export interface FitStatistics {
+  objective: number
+  groups: Record<PhytoplanktonGroup, GroupFit>
+}
+
+export interface CalibrationResult {
+  method: CalibrationMethod
+  objective: CalibrationObjective
+  free: FreeParameter[]
+  initialValues: number[] // of each free parameter, in the order of `free`
+  fittedValues: number[]
+  groups: Record<PhytoplanktonGroup, GroupParams> // every group with the fitted values applied
+  before: FitStatistics
+  after: FitStatistics
+  evaluations: number
+  converged: boolean
+  history: number[] // best objective per iteration
+  dates: string[] // daily, for the before/after overlay
+  initial: Record<PhytoplanktonGroup, Float64Array>
+  fitted: Record<PhytoplanktonGroup, Float64Array>
+}
+
+export const DEFAULT_CALIBRATION_WEIGHTS: Record<PhytoplanktonGroup, number> = {
+  diatom: 1,
+  dinoflagellates: 1,
+  small_phyto: 1,
+  n_fixers: 1,
+  microcystis: 1,
+}
+
+// Admissible range of a parameter, from GroupParamsSchema
+export const parameterBounds = (param: keyof GroupParams): [number, number] => {
+  const schema = GroupParamsSchema.shape[param]
+  return [schema.minValue ?? 0, schema.maxValue ?? Number.MAX_VALUE]
+}
+
+// Floor added before taking logs, mmol P/m³, so absent groups do not dominate the log error
+const LOG_FLOOR = 1e-3
+
+const applyValues = (
+  groups: Record<PhytoplanktonGroup, GroupParams>,
+  free: FreeParameter[],
+  values: number[]
+): Record<PhytoplanktonGroup, GroupParams> => {
+  const next = Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [group, { ...groups[group] }])) as Record<PhytoplanktonGroup, GroupParams>
+  free.forEach(({ group, param }, i) => {
+    next[group][param] = values[i]
+  })
+  return next
+}
+
+/**
+ * Goodness of fit of a run against the observations. Model values are read
+ * on each observed date; the objective pools the squared errors of every
+ * group with its weight.
+ */
+export function fitStatistics(
+  result: NpzResult,
+  observations: TimeSeriesPoint[],
+  objective: CalibrationObjective,
+  weights: Record<PhytoplanktonGroup, number> = DEFAULT_CALIBRATION_WEIGHTS
+): FitStatistics {
+  const index = new Map(result.dates.map((date, i) => [date, i]))
+  let weighted = 0
+  let weightedCount = 0
+  const groups = Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => {
+    let squared = 0
+    let difference = 0
+    let objectiveSquared = 0
+    let n = 0
+    observations.forEach(point => {
+      const i = index.get(point.date)
+      const observed = point[group]
+      if (i === undefined || !Number.isFinite(observed)) return
+      const modelled = result.biomass[group][i]
+      squared += (modelled - observed) ** 2
+      difference += modelled - observed
+      objectiveSquared += objective === 'log'
+        ? (Math.log(modelled + LOG_FLOOR) - Math.log(observed + LOG_FLOOR)) ** 2
+        : (modelled - observed) ** 2
+      n++
+    })
+    const weight = Math.max(0, weights[group] ?? 1)
+    weighted += weight * objectiveSquared
+    weightedCount += weight * n
+    return [group, { rmse: n > 0 ? Math.sqrt(squared / n) : NaN, bias: n > 0 ? difference / n : NaN, n }]
+  })) as Record<PhytoplanktonGroup, GroupFit>
+
+  return { objective: weightedCount > 0 ? Math.sqrt(weighted / weightedCount) : NaN, groups }
+}
+
+/**
+ * Calibrate the free parameters. Each evaluation runs the model from the
+ * first observed date to the last one, seeded with the first finite observed
+ * biomass of each group. Runs that fail count as infinitely bad.
+ * `onProgress` receives the fraction of the evaluation budget used.
+ */
+export function calibrateModel(
+  options: CalibrationOptions,
+  onProgress?: (fraction: number) => void
+): CalibrationResult {
+  const { model, free, method, objective, weights } = options
+  if (free.length === 0) throw new Error('Choose at least one parameter to calibrate')
+  if (free.some(({ min, max }) => !(max > min))) throw new Error('Every free parameter needs an upper bound above its lower bound')
+
+  const observations = [...options.observations].sort((a, b) => a.date.localeCompare(b.date))
+  if (observations.length < 2) throw new Error('Calibration needs at least two observed dates')
+  const startDate = observations[0].date
+  const days = Math.max(1, dayjs(observations[observations.length - 1].date).diff(startDate, 'day'))
+  const initialBiomass = initialBiomassFrom(observations)
+
+  const simulate = (groups: Record<PhytoplanktonGroup, GroupParams>, solver = model.solver) =>
+    runNpzSimulation({ ...model, groups, initialBiomass, startDate, days, outputInterval: 1, solver })
+
+  const initialValues = free.map(({ group, param, min, max }) => Math.min(max, Math.max(min, model.groups[group][param])))
+  // Searches use the looser tolerances; the reported before/after runs use the model's own
+  const cost = (values: number[]) => {
+    try {
+      return fitStatistics(simulate(applyValues(model.groups, free, values), SAMPLING_SOLVER), observations, objective, weights).objective
+    } catch {
+      return Infinity
+    }
+  }
+
+  const lower = free.map(({ min }) => min)
+  const upper = free.map(({ max }) => max)
+  const search: OptimizationResult = method === 'differential-evolution'
+    ? differentialEvolution(cost, initialValues, lower, upper, { maxEvaluations: options.maxEvaluations, seed: options.seed, onProgress })
+    : nelderMead(cost, initialValues, lower, upper, { maxEvaluations: options.maxEvaluations, onProgress })
+
+  const fittedGroups = applyValues(model.groups, free, search.x)
+  const initialRun = simulate(applyValues(model.groups, free, initialValues))
+  const fittedRun = simulate(fittedGroups)
+
+  return {
+    method,
+    objective,
+    free,
+    initialValues,
+    fittedValues: search.x,
+    groups: fittedGroups,
+    before: fitStatistics(initialRun, observations, objective, weights),
+    after: fitStatistics(fittedRun, observations, objective, weights),
+    evaluations: search.evaluations,
+    converged: search.converged,
+    history: search.history,
+    dates: fittedRun.dates,
+    initial: initialRun.biomass,
+    fitted: fittedRun.biomass,
+  }
+}
@@ -0,0 +1,195 @@
+// Monte Carlo ensembles: uncertain parameters and forcing are drawn from distributions,
+// and the spread of the runs is summarised as quantile envelopes and exceedance probabilities
+
+import dayjs from 'dayjs'
+import { GroupParams, Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { createRandom } from '@/lib/random'
+import { DEFAULT_NPZ_OPTIONS, NpzResult, NpzRunOptions, SAMPLING_SOLVER, kinneretSurfaceTemperature, runNpzSimulation } from './npz'
+import { parameterBounds } from './calibration'
+import { nutrientBounds } from './sensitivity'
+
+export type Distribution =
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'normal'; mean: number; sd: number }
+  | { kind: 'lognormal'; median: number; sigma: number } // sigma of the natural log
+
+export type UncertainTarget =
+  | { kind: 'group'; group: PhytoplanktonGroup; param: keyof GroupParams }
+  | { kind: 'nutrient'; nutrient: keyof Nutrients }
+  | { kind: 'temperature' } // offset added to the surface temperature, °C
+
+export interface UncertainParameter {
+  target: UncertainTarget
+  distribution: Distribution
+}
+
+// P(statistic of a group's biomass over a month, or the whole run, > value)
+export interface ExceedanceThreshold {
+  group: PhytoplanktonGroup
+  value: number // mmol P/m³
+  month: number | null // 0–11; null for the whole run
+  statistic: 'peak' | 'mean'
+}
+
+export interface ExceedanceProbability extends ExceedanceThreshold {
+  probability: number
+  members: number // members with model days in the window
+}
+
+export interface EnsembleOptions {
+  model: Omit<NpzRunOptions, 'temperature'>
+  parameters: UncertainParameter[]
+  members: number
+  thresholds: ExceedanceThreshold[]
+  seed: number
+}
+
+// Daily quantiles of a group's biomass across the members
+export interface EnsembleEnvelope {
+  p05: Float64Array
+  p25: Float64Array
+  p50: Float64Array
+  p75: Float64Array
+  p95: Float64Array
+}
+
+export interface EnsembleResult {
+  dates: string[]
+  members: number // that finished
+  failed: number
+  samples: number[][] // drawn values of each member, in the order of `parameters`
+  envelopes: Record<PhytoplanktonGroup, EnsembleEnvelope>
+  exceedance: ExceedanceProbability[]
+}
+
+export const DEFAULT_ENSEMBLE_MEMBERS = 100
+
+export const targetKey = (target: UncertainTarget) =>
+  target.kind === 'group' ? `${target.group}.${target.param}` : target.kind === 'nutrient' ? `nutrient.${target.nutrient}` : 'temperature'
+
+// Standard normal deviate (Box–Muller)
+const gaussian = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+
+export const sampleDistribution = (distribution: Distribution, random: () => number): number => {
+  switch (distribution.kind) {
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min)
+    case 'normal':
+      return distribution.mean + distribution.sd * gaussian(random)
+    case 'lognormal':
+      return distribution.median * Math.exp(distribution.sigma * gaussian(random))
+  }
+}
+
+// Draws outside a parameter's admissible range are clamped to it
+const targetBounds = (target: UncertainTarget): [number, number] =>
+  target.kind === 'group' ? parameterBounds(target.param) : target.kind === 'nutrient' ? nutrientBounds(target.nutrient) : [-Infinity, Infinity]
+
+// Linear interpolation between order statistics of sorted values
+export const quantile = (sorted: ArrayLike<number>, q: number): number => {
+  if (sorted.length === 0) return NaN
+  const position = q * (sorted.length - 1)
+  const lower = Math.floor(position)
+  const upper = Math.min(sorted.length - 1, lower + 1)
+  return sorted[lower] + (position - lower) * (sorted[upper] - sorted[lower])
+}
+
+const windowStatistic = (result: NpzResult, threshold: ExceedanceThreshold): number | null => {
+  const biomass = result.biomass[threshold.group]
+  let peak = -Infinity
+  let total = 0
+  let n = 0
+  result.dates.forEach((date, i) => {
+    if (threshold.month !== null && dayjs(date).month() !== threshold.month) return
+    peak = Math.max(peak, biomass[i])
+    total += biomass[i]
+    n++
+  })
+  if (n === 0) return null
+  return threshold.statistic === 'peak' ? peak : total / n
+}
+
+/**
+ * Run `members` model runs, each with its own draw of every uncertain
+ * parameter, and summarise them. Members share the dates of the scenario;
+ * a member the solver cannot finish is dropped. `onProgress` receives the
+ * fraction of members run.
+ */
+export function runEnsemble(
+  options: EnsembleOptions,
+  onProgress?: (fraction: number) => void
+): EnsembleResult {
+  const { model, parameters, thresholds } = options
+  const count = Math.max(1, Math.round(options.members))
+  const random = createRandom(options.seed)
+  const start = dayjs(model.startDate ?? DEFAULT_NPZ_OPTIONS.startDate)
+  const startDayOfYear = start.diff(start.startOf('year'), 'day') + 1
+
+  const samples: number[][] = []
+  const runs: NpzResult[] = []
+  let failed = 0
+  for (let m = 0; m < count; m++) {
+    const values = parameters.map(({ target, distribution }) => {
+      const [min, max] = targetBounds(target)
+      return Math.min(max, Math.max(min, sampleDistribution(distribution, random)))
+    })
+    const groups = Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [group, { ...model.groups[group] }])) as Record<PhytoplanktonGroup, GroupParams>
+    const nutrients = { ...model.nutrients }
+    let offset = 0
+    parameters.forEach(({ target }, i) => {
+      if (target.kind === 'group') groups[target.group][target.param] = values[i]
+      else if (target.kind === 'nutrient') nutrients[target.nutrient] = values[i]
+      else offset += values[i]
+    })
+    try {
+      runs.push(runNpzSimulation({
+        ...model,
+        groups,
+        nutrients,
+        temperature: day => kinneretSurfaceTemperature(startDayOfYear + day) + offset,
+        solver: { ...model.solver, ...SAMPLING_SOLVER },
+      }))
+      samples.push(values)
+    } catch {
+      failed++
+    }
+    onProgress?.((m + 1) / count)
+  }
+  if (runs.length === 0) throw new Error('No ensemble member could be run')
+
+  const dates = runs[0].dates
+  const column = new Float64Array(runs.length)
+  const envelopes = Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => {
+    const envelope: EnsembleEnvelope = {
+      p05: new Float64Array(dates.length),
+      p25: new Float64Array(dates.length),
+      p50: new Float64Array(dates.length),
+      p75: new Float64Array(dates.length),
+      p95: new Float64Array(dates.length),
+    }
+    for (let i = 0; i < dates.length; i++) {
+      runs.forEach((run, m) => {
+        column[m] = run.biomass[group][i]
+      })
+      column.sort()
+      envelope.p05[i] = quantile(column, 0.05)
+      envelope.p25[i] = quantile(column, 0.25)
+      envelope.p50[i] = quantile(column, 0.5)
+      envelope.p75[i] = quantile(column, 0.75)
+      envelope.p95[i] = quantile(column, 0.95)
+    }
+    return [group, envelope]
+  })) as Record<PhytoplanktonGroup, EnsembleEnvelope>
+
+  const exceedance = thresholds.map(threshold => {
+    const statistics = runs.map(run => windowStatistic(run, threshold)).filter((value): value is number => value !== null)
+    return {
+      ...threshold,
+      probability: statistics.length > 0 ? statistics.filter(value => value > threshold.value).length / statistics.length : NaN,
+      members: statistics.length,
+    }
+  })
+
+  return { dates, members: runs.length, failed, samples, envelopes, exceedance }
+}
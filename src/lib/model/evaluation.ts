@@ -0,0 +1,221 @@
+// Skill of a model run against monitoring observations: pairs on matching date, station and depth,
+// the usual goodness-of-fit statistics per group and season, and the coordinates of Taylor and
+// target diagrams.
+
+import dayjs from 'dayjs'
+import { Observation, PHYTOPLANKTON_GROUPS } from '@/lib/schemas'
+import { NpzResult } from './npz'
+import { ZooplanktonGroup } from './zooplankton'
+import { thermoclineDepth } from './water-column'
+
+// Observation variables the NPZ model simulates
+export const EVALUATED_VARIABLES = [...PHYTOPLANKTON_GROUPS, 'zoo_herbivores', 'zoo_predatory'] as const
+
+export type EvaluatedVariable = typeof EVALUATED_VARIABLES[number]
+
+const ZOOPLANKTON_VARIABLES: Record<ZooplanktonGroup, EvaluatedVariable> = {
+  herbivores: 'zoo_herbivores',
+  predatory: 'zoo_predatory',
+}
+
+// Meteorological seasons: DJF, MAM, JJA, SON
+export const SEASONS = ['winter', 'spring', 'summer', 'autumn'] as const
+
+export type Season = typeof SEASONS[number]
+
+export const seasonOf = (date: string): Season => SEASONS[Math.floor(((dayjs(date).month() + 1) % 12) / 3)]
+
+// Modelled value of a variable at an observation's date, station and depth; null where the model has none
+export type ModelSampler = (variable: EvaluatedVariable, date: string, station: string, depth: number) => number | null
+
+/**
+ * Sampler of an NPZ run. The model is one well-mixed surface box, so every
+ * station shares its value and samples below the seasonal thermocline have
+ * no counterpart. Dates between stored states take the nearest earlier one.
+ */
+export const npzSampler = (result: NpzResult): ModelSampler => {
+  const index = new Map(result.dates.map((date, i) => [date, i]))
+  const series: Record<EvaluatedVariable, Float64Array> = {
+    ...result.biomass,
+    ...Object.fromEntries(Object.entries(ZOOPLANKTON_VARIABLES).map(([group, variable]) => [variable, result.zooplankton[group as ZooplanktonGroup]])),
+  } as Record<EvaluatedVariable, Float64Array>
+  const first = result.dates[0]
+  const last = result.dates[result.dates.length - 1]
+
+  return (variable, date, _station, depth) => {
+    if (!first || date < first || date > last) return null
+    const dayOfYear = dayjs(date).diff(dayjs(date).startOf('year'), 'day') + 1
+    if (depth > thermoclineDepth(dayOfYear)) return null
+    let i = index.get(date)
+    if (i === undefined) {
+      i = result.dates.findIndex(candidate => candidate > date) - 1
+      if (i < 0) i = result.dates.length - 1
+    }
+    const value = series[variable][i]
+    return Number.isFinite(value) ? value : null
+  }
+}
+
+export interface ModelObservationPair {
+  variable: EvaluatedVariable
+  date: string
+  station: string
+  depth: number
+  season: Season
+  observed: number
+  modelled: number
+}
+
+/**
+ * One pair per variable, date, station and depth. Repeated observations of
+ * the same sample are averaged first; samples the model does not cover are
+ * left out.
+ */
+export const pairModelObservations = (observations: Observation[], sample: ModelSampler): ModelObservationPair[] => {
+  const evaluated = new Set<string>(EVALUATED_VARIABLES)
+  const samples = new Map<string, { obs: Observation; sum: number; count: number }>()
+  for (const obs of observations) {
+    if (!evaluated.has(obs.variable) || !Number.isFinite(obs.value)) continue
+    const key = `${obs.variable}|${obs.date}|${obs.station}|${obs.depth}`
+    const entry = samples.get(key)
+    if (entry) {
+      entry.sum += obs.value
+      entry.count++
+    } else {
+      samples.set(key, { obs, sum: obs.value, count: 1 })
+    }
+  }
+
+  return [...samples.values()].flatMap(({ obs, sum, count }) => {
+    const variable = obs.variable as EvaluatedVariable
+    const modelled = sample(variable, obs.date, obs.station, obs.depth)
+    if (modelled === null) return []
+    return [{
+      variable,
+      date: obs.date,
+      station: obs.station,
+      depth: obs.depth,
+      season: seasonOf(obs.date),
+      observed: sum / count,
+      modelled,
+    }]
+  })
+}
+
+/**
+ * Goodness of fit of paired values. Standard deviations are population
+ * ones, as in the Taylor diagram; statistics that need spread in the
+ * observations (r, NSE, Willmott's d) are NaN without it.
+ */
+export interface SkillMetrics {
+  n: number
+  observedMean: number
+  modelledMean: number
+  observedStd: number
+  modelledStd: number
+  bias: number // mean of modelled − observed
+  rmse: number
+  urmse: number // centred (bias-removed) RMSE
+  r: number // Pearson correlation
+  nse: number // Nash–Sutcliffe efficiency, −∞ to 1
+  willmott: number // Willmott's index of agreement d, 0 to 1
+}
+
+export const skillMetrics = (observed: ArrayLike<number>, modelled: ArrayLike<number>): SkillMetrics => {
+  const n = Math.min(observed.length, modelled.length)
+  let sumO = 0
+  let sumM = 0
+  for (let i = 0; i < n; i++) {
+    sumO += observed[i]
+    sumM += modelled[i]
+  }
+  const meanO = n > 0 ? sumO / n : NaN
+  const meanM = n > 0 ? sumM / n : NaN
+
+  let squaredError = 0
+  let varO = 0
+  let varM = 0
+  let covariance = 0
+  let potential = 0
+  for (let i = 0; i < n; i++) {
+    const o = observed[i] - meanO
+    const m = modelled[i] - meanM
+    squaredError += (modelled[i] - observed[i]) ** 2
+    varO += o * o
+    varM += m * m
+    covariance += o * m
+    potential += (Math.abs(modelled[i] - meanO) + Math.abs(o)) ** 2
+  }
+
+  const bias = meanM - meanO
+  const rmse = n > 0 ? Math.sqrt(squaredError / n) : NaN
+  return {
+    n,
+    observedMean: meanO,
+    modelledMean: meanM,
+    observedStd: n > 0 ? Math.sqrt(varO / n) : NaN,
+    modelledStd: n > 0 ? Math.sqrt(varM / n) : NaN,
+    bias,
+    rmse,
+    urmse: Math.sqrt(Math.max(0, rmse ** 2 - bias ** 2)),
+    r: n > 1 && varO > 0 && varM > 0 ? covariance / Math.sqrt(varO * varM) : NaN,
+    nse: n > 1 && varO > 0 ? 1 - squaredError / varO : NaN,
+    willmott: n > 1 && potential > 0 ? 1 - squaredError / potential : NaN,
+  }
+}
+
+export interface SkillRow extends SkillMetrics {
+  variable: EvaluatedVariable
+  season: Season | 'all'
+}
+
+// Metrics of every variable with pairs, over the whole record and in each season that has pairs
+export const assessSkill = (pairs: ModelObservationPair[]): SkillRow[] =>
+  EVALUATED_VARIABLES.flatMap(variable => {
+    const own = pairs.filter(pair => pair.variable === variable)
+    if (own.length === 0) return []
+    return (['all', ...SEASONS] as const).flatMap(season => {
+      const selected = season === 'all' ? own : own.filter(pair => pair.season === season)
+      if (selected.length === 0) return []
+      const metrics = skillMetrics(selected.map(pair => pair.observed), selected.map(pair => pair.modelled))
+      return [{ variable, season, ...metrics }]
+    })
+  })
+
+// Position on a Taylor diagram, normalised by the observed standard deviation
+export interface TaylorPoint {
+  std: number // σm / σo, the radius
+  r: number // cos of the angle from the horizontal axis
+  crmsd: number // uRMSE / σo, the distance from the reference point (1, 0)
+}
+
+export const taylorPoint = (metrics: SkillMetrics): TaylorPoint | null => {
+  if (!(metrics.observedStd > 0) || !Number.isFinite(metrics.r)) return null
+  return {
+    std: metrics.modelledStd / metrics.observedStd,
+    r: metrics.r,
+    crmsd: metrics.urmse / metrics.observedStd,
+  }
+}
+
+/**
+ * Position on a target diagram, normalised by the observed standard
+ * deviation: bias on y, uRMSE on x signed by whether the model over- or
+ * under-estimates the spread. The distance from the origin is RMSE / σo,
+ * and points inside the unit circle beat the observed mean (NSE > 0).
+ */
+export interface TargetPoint {
+  x: number
+  y: number
+}
+
+export const targetPoint = (metrics: SkillMetrics): TargetPoint | null => {
+  if (!(metrics.observedStd > 0)) return null
+  return {
+    x: (Math.sign(metrics.modelledStd - metrics.observedStd) || 1) * (metrics.urmse / metrics.observedStd),
+    y: metrics.bias / metrics.observedStd,
+  }
+}
+
+// Metric for display; NaN (too few pairs or no spread) as n/a
+export const formatSkill = (value: number, digits = 2): string => (Number.isFinite(value) ? value.toFixed(digits) : 'n/a')
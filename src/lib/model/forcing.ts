@@ -0,0 +1,258 @@
+// Time-varying external forcing of a scenario: nutrient loads, warming, wind, water level and
+// Jordan inflow as monthly series. The NPZ model interpolates them to days; the response-model
+// maps take one month at a time.
+
+import { ForcingSeries, Nutrients } from '@/lib/schemas'
+import { CsvStreamParser, parseNumber } from '@/lib/csv/parser'
+import { KINNERET_HYPSOGRAPHY } from './stratification'
+
+export type ForcingVariable = keyof ForcingSeries
+
+export const FORCING_VARIABLES: ForcingVariable[] = [
+  'loadingP',
+  'loadingN',
+  'loadingSi',
+  'loadingFe',
+  'temperatureOffset',
+  'windSpeed',
+  'waterLevel',
+  'inflow',
+]
+
+export interface ForcingVariableInfo {
+  label: string
+  units: string
+  min: number
+  max: number
+  step: number
+}
+
+export const FORCING_VARIABLE_INFO: Record<ForcingVariable, ForcingVariableInfo> = {
+  loadingP: { label: 'P loading', units: '× baseline', min: 0, max: 10, step: 0.05 },
+  loadingN: { label: 'N loading', units: '× baseline', min: 0, max: 10, step: 0.05 },
+  loadingSi: { label: 'Si loading', units: '× baseline', min: 0, max: 10, step: 0.05 },
+  loadingFe: { label: 'Fe loading', units: '× baseline', min: 0, max: 10, step: 0.05 },
+  temperatureOffset: { label: 'Temperature offset', units: '°C', min: -5, max: 8, step: 0.1 },
+  windSpeed: { label: 'Wind speed', units: 'm/s', min: 0, max: 20, step: 0.1 },
+  waterLevel: { label: 'Water level', units: 'm a.s.l.', min: -216, max: -208, step: 0.05 },
+  inflow: { label: 'Jordan inflow', units: '10⁶ m³/month', min: 0, max: 300, step: 1 },
+}
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Level the hypsography refers to, m a.s.l.
+export const REFERENCE_LEVEL = -210
+
+export const LOADING_KEYS: Record<keyof Nutrients, ForcingVariable> = {
+  P: 'loadingP',
+  N: 'loadingN',
+  Si: 'loadingSi',
+  Fe: 'loadingFe',
+}
+
+const months = (value: (month: number) => number) => Array.from({ length: 12 }, (_, i) => value(i + 1))
+const round = (value: number, digits = 2) => Number(value.toFixed(digits))
+
+/**
+ * Present-day forcing: unit loads, no warming, the wind climatology, and the
+ * seasonal cycle of the level (winter rise, summer drawdown) and of the
+ * Jordan inflow. Runs with it match runs without forcing.
+ */
+export const BASELINE_FORCING: ForcingSeries = {
+  loadingP: months(() => 1),
+  loadingN: months(() => 1),
+  loadingSi: months(() => 1),
+  loadingFe: months(() => 1),
+  temperatureOffset: months(() => 0),
+  windSpeed: [3, 3.2, 3.9, 4.9, 5.9, 6.7, 7, 6.8, 6.1, 5.1, 4.1, 3.3], // kinneretWindSpeed at mid-month
+  waterLevel: [-211.0, -210.6, -210.2, -210.0, -210.2, -210.5, -210.8, -211.1, -211.4, -211.6, -211.7, -211.5],
+  inflow: [60, 75, 70, 45, 30, 20, 15, 14, 14, 16, 25, 45],
+}
+
+export const copyForcing = (series: ForcingSeries): ForcingSeries =>
+  Object.fromEntries(FORCING_VARIABLES.map(key => [key, [...series[key]]])) as ForcingSeries
+
+export const isBaselineForcing = (series: ForcingSeries) =>
+  FORCING_VARIABLES.every(key => series[key].every((value, i) => value === BASELINE_FORCING[key][i]))
+
+export interface ForcingPreset {
+  id: string
+  name: string
+  description: string
+  series: ForcingSeries
+}
+
+const modify = (changes: Partial<Record<ForcingVariable, (value: number, month: number) => number>>): ForcingSeries => {
+  const series = copyForcing(BASELINE_FORCING)
+  for (const key of FORCING_VARIABLES) {
+    const change = changes[key]
+    if (change) series[key] = series[key].map((value, i) => round(change(value, i + 1)))
+  }
+  return series
+}
+
+const SUMMER_WARMING = [1, 1, 1, 1.5, 2, 2, 2, 2, 2, 1.5, 1, 1]
+const MID_CENTURY_WARMING = [1.5, 1.5, 1.5, 2, 2.5, 2.5, 2.5, 2.5, 2.5, 2, 1.5, 1.5]
+const isWinter = (month: number) => month === 12 || month <= 3
+
+export const FORCING_PRESETS: ForcingPreset[] = [
+  {
+    id: 'baseline',
+    name: 'Present-day baseline',
+    description: 'Unit loads, no warming, climatological wind, level and inflow',
+    series: copyForcing(BASELINE_FORCING),
+  },
+  {
+    id: 'summer-warming',
+    name: 'Summer warming +2 °C',
+    description: '+2 °C from May to September, +1 °C in winter',
+    series: modify({ temperatureOffset: (_, month) => SUMMER_WARMING[month - 1] }),
+  },
+  {
+    id: 'winter-loading',
+    name: 'Winter P loading ×2',
+    description: 'Flood-season phosphorus loads doubled from December to March',
+    series: modify({ loadingP: (value, month) => (isWinter(month) ? value * 2 : value) }),
+  },
+  {
+    id: 'drought',
+    name: 'Drought',
+    description: 'Half the inflow, the level 1.5 m lower and +0.5 °C',
+    series: modify({
+      inflow: value => value * 0.5,
+      waterLevel: value => value - 1.5,
+      temperatureOffset: value => value + 0.5,
+    }),
+  },
+  {
+    id: 'windy',
+    name: 'Stronger winds ×1.3',
+    description: 'Wind speeds 30% above the climatology all year',
+    series: modify({ windSpeed: value => value * 1.3 }),
+  },
+  {
+    id: 'mid-century',
+    name: 'Mid-century climate',
+    description: '+1.5 °C (+2.5 °C in summer), 20% less inflow, the level 1 m lower, slightly weaker winds',
+    series: modify({
+      temperatureOffset: (_, month) => MID_CENTURY_WARMING[month - 1],
+      inflow: value => value * 0.8,
+      waterLevel: value => value - 1,
+      windSpeed: value => value * 0.95,
+    }),
+  },
+]
+
+/**
+ * Value of a monthly series on a day of the year: the values sit at
+ * mid-month and are interpolated linearly, wrapping from December to
+ * January. Days past the end of the year continue into the next.
+ */
+export const forcingAt = (series: ArrayLike<number>, dayOfYear: number): number => {
+  const position = (dayOfYear * 12) / 365 - 0.5
+  const lower = Math.floor(position)
+  const fraction = position - lower
+  const i = ((lower % 12) + 12) % 12
+  return series[i] + fraction * (series[(i + 1) % 12] - series[i])
+}
+
+// Lake volume at the reference level, m³
+export const REFERENCE_VOLUME = (() => {
+  const { depths, areas } = KINNERET_HYPSOGRAPHY
+  let volume = 0
+  for (let i = 1; i < depths.length; i++) volume += ((areas[i - 1] + areas[i]) / 2) * (depths[i] - depths[i - 1])
+  return volume
+})()
+
+// Lake volume at a water level, m³; the surface area is taken as constant over the range of levels
+export const lakeVolume = (level: number): number =>
+  Math.max(0.1 * REFERENCE_VOLUME, REFERENCE_VOLUME + KINNERET_HYPSOGRAPHY.areas[0] * (level - REFERENCE_LEVEL))
+
+// Forcing of the NPZ model on a day of the year, relative to the baseline
+export interface DailyForcing {
+  loading: Record<keyof Nutrients, number> // multipliers of the ambient concentrations
+  temperatureOffset: number // °C
+  flushing: number // multiplier of the exchange rate: inflow over volume, relative to the baseline
+  calm: number // baseline over forced wind speed; scales net detritus sinking
+}
+
+/**
+ * Daily forcing for the NPZ model. Exchange with the inflow scales with the
+ * inflow per unit volume, so a lower level concentrates the loads; wind
+ * resuspends detritus, so net sinking scales with the calm relative to the
+ * climatology. The baseline gives unit factors.
+ */
+export const dailyForcing = (series: ForcingSeries, dayOfYear: number): DailyForcing => {
+  const at = (key: ForcingVariable) => forcingAt(series[key], dayOfYear)
+  const baseline = (key: ForcingVariable) => forcingAt(BASELINE_FORCING[key], dayOfYear)
+  const inflowRatio = baseline('inflow') > 0 ? Math.max(0, at('inflow')) / baseline('inflow') : 1
+  const wind = Math.max(0.1, at('windSpeed'))
+  return {
+    loading: {
+      P: Math.max(0, at('loadingP')),
+      N: Math.max(0, at('loadingN')),
+      Si: Math.max(0, at('loadingSi')),
+      Fe: Math.max(0, at('loadingFe')),
+    },
+    temperatureOffset: at('temperatureOffset'),
+    flushing: (inflowRatio * lakeVolume(baseline('waterLevel'))) / lakeVolume(at('waterLevel')),
+    calm: Math.min(4, Math.max(0.25, baseline('windSpeed') / wind)),
+  }
+}
+
+export const forcingToCsv = (series: ForcingSeries): string =>
+  [
+    ['month', ...FORCING_VARIABLES].join(','),
+    ...MONTH_NAMES.map((_, i) => [i + 1, ...FORCING_VARIABLES.map(key => series[key][i])].join(',')),
+  ].join('\n')
+
+const parseMonth = (value: string): number | null => {
+  const number = Number(value)
+  if (Number.isInteger(number) && number >= 1 && number <= 12) return number
+  const index = MONTH_NAMES.findIndex(name => value.toLowerCase().startsWith(name.toLowerCase()))
+  return index >= 0 ? index + 1 : null
+}
+
+/**
+ * Read monthly forcing from CSV: a `month` column (1–12 or month names) and
+ * any of the forcing variables as columns. Variables the file lacks keep
+ * their values in `base`. Throws with the first problem found.
+ */
+export const parseForcingCsv = (text: string, base: ForcingSeries = BASELINE_FORCING): { series: ForcingSeries; variables: ForcingVariable[] } => {
+  const records: Array<{ cells: string[]; line: number }> = []
+  const parser = new CsvStreamParser(
+    (fields, line) => records.push({ cells: fields.map(field => field.trim()), line }),
+    error => {
+      throw new Error(`Line ${error.line}: ${error.message}`)
+    }
+  )
+  parser.push(text)
+  parser.end()
+  if (records.length < 2) throw new Error('The file has no data rows')
+  const [{ cells: headers }, ...rows] = records
+  const monthColumn = headers.findIndex(header => header.toLowerCase() === 'month')
+  if (monthColumn < 0) throw new Error('The file needs a "month" column')
+  const columns = headers.flatMap((header, column) => {
+    const key = FORCING_VARIABLES.find(variable => variable.toLowerCase() === header.toLowerCase())
+    return key ? [{ key, column }] : []
+  })
+  if (columns.length === 0) throw new Error(`No forcing columns found; expected any of ${FORCING_VARIABLES.join(', ')}`)
+
+  const series = copyForcing(base)
+  const seen = new Set<number>()
+  rows.forEach(({ cells, line }) => {
+    const month = parseMonth(cells[monthColumn] ?? '')
+    if (month === null) throw new Error(`Line ${line}: "${cells[monthColumn] ?? ''}" is not a month`)
+    seen.add(month)
+    for (const { key, column } of columns) {
+      const value = parseNumber(cells[column] ?? '')
+      if (!Number.isFinite(value)) throw new Error(`Line ${line}: ${key} is not a number`)
+      series[key][month - 1] = value
+    }
+  })
+  if (seen.size < 12) {
+    const missing = MONTH_NAMES.filter((_, i) => !seen.has(i + 1))
+    throw new Error(`Missing months: ${missing.join(', ')}`)
+  }
+  return { series, variables: columns.map(({ key }) => key) }
+}
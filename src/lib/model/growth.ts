@@ -0,0 +1,42 @@
+// Nutrient-limited growth of phytoplankton groups
+
+import { GroupParams, Nutrients, PhytoplanktonGroup } from '@/lib/schemas'
+
+// Monod factor; a zero half-saturation means the resource does not limit
+const monod = (concentration: number, ks: number): number =>
+  ks > 0 ? Math.max(0, concentration) / (ks + Math.max(0, concentration)) : 1
+
+// Resources in the order ties are reported; the first with the lowest factor is limiting
+export const LIMITING_NUTRIENTS: Array<keyof Nutrients> = ['P', 'N', 'Si', 'Fe']
+
+// Monod factor of each nutrient, 0–1, and the one that sets growth under Liebig's law
+export interface NutrientLimitation extends Nutrients {
+  limiting: keyof Nutrients
+  factor: number // the lowest factor; growth is mu × factor
+}
+
+export const nutrientLimitation = (params: GroupParams, nutrients: Nutrients): NutrientLimitation => {
+  const factors: Nutrients = {
+    P: monod(nutrients.P, params.KsP),
+    N: monod(nutrients.N, params.KsN),
+    Si: monod(nutrients.Si, params.KsSi),
+    Fe: monod(nutrients.Fe, params.KsFe),
+  }
+  const limiting = LIMITING_NUTRIENTS.reduce((lowest, key) => (factors[key] < factors[lowest] ? key : lowest))
+  return { ...factors, limiting, factor: factors[limiting] }
+}
+
+// Growth rate limited by the scarcest nutrient (Liebig's law)
+export const calculateGrowth = (
+  _group: PhytoplanktonGroup,
+  params: GroupParams,
+  nutrients: Nutrients
+): number => params.mu * nutrientLimitation(params, nutrients).factor
+
+export const calculateBiomass = (
+  currentBiomass: number,
+  growth: number,
+  mortality: number = 0.02
+): number => {
+  return currentBiomass * (1 + growth - mortality)
+}
@@ -0,0 +1,117 @@
+// Light forcing: clear-sky surface PAR from solar geometry, cloud reduction, attenuation
+// through the water (Kd) and photosynthesis–irradiance (P–I) curves; the groups' curves are in the parameter registry
+
+// Station A, Lake Kinneret
+export const KINNERET_LATITUDE = 32.82 // °N
+
+const SOLAR_CONSTANT = 1361 // W/m²
+const CLEAR_SKY_TRANSMITTANCE = 0.7 // per air mass (Meinel & Meinel)
+const PAR_FRACTION = 0.45 // of global shortwave
+const PAR_QUANTA = 4.57 // μmol photons per J of PAR
+const SURFACE_REFLECTANCE = 0.06
+
+const DEG = Math.PI / 180
+
+// Solar declination, radians
+export const solarDeclination = (dayOfYear: number): number =>
+  23.44 * DEG * Math.sin((2 * Math.PI * (284 + dayOfYear)) / 365)
+
+// Sine of the solar elevation at local solar time `hour` (0–24); negative at night
+export const solarElevationSine = (dayOfYear: number, hour: number, latitude = KINNERET_LATITUDE): number => {
+  const declination = solarDeclination(dayOfYear)
+  const hourAngle = (hour - 12) * 15 * DEG
+  return Math.sin(latitude * DEG) * Math.sin(declination) + Math.cos(latitude * DEG) * Math.cos(declination) * Math.cos(hourAngle)
+}
+
+/**
+ * Clear-sky PAR just below the surface, μmol photons m⁻² s⁻¹. Global
+ * irradiance follows the Meinel air-mass model; the PAR share of it is
+ * converted to quanta and reduced by surface reflection.
+ */
+export const clearSkyPar = (dayOfYear: number, hour: number, latitude = KINNERET_LATITUDE): number => {
+  const elevation = solarElevationSine(dayOfYear, hour, latitude)
+  if (elevation <= 0) return 0
+  const extraterrestrial = SOLAR_CONSTANT * (1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365))
+  const global = extraterrestrial * elevation * CLEAR_SKY_TRANSMITTANCE ** ((1 / elevation) ** 0.678)
+  return global * PAR_FRACTION * PAR_QUANTA * (1 - SURFACE_REFLECTANCE)
+}
+
+// Fraction of clear-sky irradiance left under a cloud cover of 0–1 (Kasten & Czeplak)
+export const cloudTransmission = (cloudCover: number): number =>
+  1 - 0.75 * Math.min(1, Math.max(0, cloudCover)) ** 3.4
+
+// Climatological cloud cover: ~35% in January, nearly clear from June to September
+export const kinneretCloudCover = (dayOfYear: number): number =>
+  Math.max(0, 0.17 + 0.18 * Math.cos((2 * Math.PI * (dayOfYear - 15)) / 365))
+
+/** Surface PAR at the middle of each hour of the day, μmol photons m⁻² s⁻¹. */
+export const hourlySurfacePar = (
+  dayOfYear: number,
+  cloudCover = kinneretCloudCover(dayOfYear),
+  latitude = KINNERET_LATITUDE,
+  out?: Float64Array
+): Float64Array => {
+  const hourly = out ?? new Float64Array(24)
+  const clouds = cloudTransmission(cloudCover)
+  for (let hour = 0; hour < 24; hour++) hourly[hour] = clearSkyPar(dayOfYear, hour + 0.5, latitude) * clouds
+  return hourly
+}
+
+// 24-hour mean surface PAR, μmol photons m⁻² s⁻¹
+export const dailyMeanPar = (dayOfYear: number, cloudCover = kinneretCloudCover(dayOfYear), latitude = KINNERET_LATITUDE): number =>
+  hourlySurfacePar(dayOfYear, cloudCover, latitude).reduce((sum, value) => sum + value, 0) / 24
+
+// Day of year at the middle of a month (1–12)
+export const midMonthDayOfYear = (month: number): number => Math.round(((month - 0.5) * 365) / 12)
+
+// Attenuation of PAR by water and dissolved matter, and per unit chlorophyll (Kinneret)
+export const BACKGROUND_ATTENUATION = 0.25 // m⁻¹
+export const CHLOROPHYLL_SPECIFIC_ATTENUATION = 0.016 // m² per mg Chl
+export const KINNERET_MEAN_CHLOROPHYLL = 8 // mg Chl/m³
+// Chlorophyll in phytoplankton phosphorus: Redfield C:P and a C:Chl of 50 g/g
+export const CHLOROPHYLL_PER_PHOSPHORUS = 25 // mg Chl per mmol P
+
+// Diffuse attenuation coefficient of PAR from chlorophyll, m⁻¹
+export const attenuationFromChlorophyll = (
+  chlorophyll: number,
+  background = BACKGROUND_ATTENUATION,
+  specific = CHLOROPHYLL_SPECIFIC_ATTENUATION
+): number => background + specific * Math.max(0, chlorophyll)
+
+// A user-set Kd wins; otherwise it follows the chlorophyll (the lake mean when unknown)
+export const resolveAttenuation = (kd?: number, chlorophyll?: number): number =>
+  kd !== undefined && kd > 0 ? kd : attenuationFromChlorophyll(chlorophyll ?? KINNERET_MEAN_CHLOROPHYLL)
+
+// Mean fraction of surface PAR over a layer from `top` to `bottom` m under a uniform Kd
+export const meanTransmission = (kd: number, bottom: number, top = 0): number => {
+  const thickness = bottom - top
+  if (!(thickness > 0)) return Math.exp(-kd * top)
+  const opticalDepth = kd * thickness
+  return opticalDepth > 0 ? (Math.exp(-kd * top) * (1 - Math.exp(-opticalDepth))) / opticalDepth : 1
+}
+
+// Depth receiving 1% of surface PAR, m
+export const euphoticDepth = (kd: number): number => Math.log(100) / kd
+
+export interface PiCurve {
+  saturation: number // Ik, μmol photons m⁻² s⁻¹
+  inhibition?: number // photoinhibition scale, μmol photons m⁻² s⁻¹; none when unset
+}
+
+// Relative photosynthesis at an irradiance, 0–1 (Platt et al. 1980)
+export const piResponse = (irradiance: number, curve: PiCurve): number => {
+  if (!(irradiance > 0)) return 0
+  const saturating = 1 - Math.exp(-irradiance / curve.saturation)
+  return curve.inhibition ? saturating * Math.exp(-irradiance / curve.inhibition) : saturating
+}
+
+/**
+ * Daily mean P–I response at a fraction of the surface light. The curve is
+ * applied hour by hour, since averaging the light first would overstate
+ * growth under midday saturation.
+ */
+export const dailyPiResponse = (hourlySurface: ArrayLike<number>, transmission: number, curve: PiCurve): number => {
+  let sum = 0
+  for (let hour = 0; hour < hourlySurface.length; hour++) sum += piResponse(hourlySurface[hour] * transmission, curve)
+  return sum / hourlySurface.length
+}
@@ -0,0 +1,80 @@
+// Which resource limits each group's growth along a model run, and by how much
+
+import dayjs from 'dayjs'
+import { Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { LIMITING_NUTRIENTS, nutrientLimitation } from './growth'
+import { CHLOROPHYLL_PER_PHOSPHORUS, PiCurve, attenuationFromChlorophyll, dailyPiResponse, hourlySurfacePar, meanTransmission } from './light'
+import { DEFAULT_NPZ_OPTIONS, NpzResult, NpzRunOptions } from './npz'
+import { thermoclineDepth } from './water-column'
+
+/**
+ * Limitation terms of one group on every stored day. Nutrient terms are the
+ * Monod factors growth takes the minimum of; the temperature term is the
+ * Eppley factor that multiplies growth. The box model has no light, so the
+ * light term is diagnostic: the daily P–I response at the mean light of the
+ * seasonal mixed layer, with Kd from the simulated chlorophyll.
+ */
+export interface GroupLimitation {
+  nutrients: Record<keyof Nutrients, Float64Array> // 0–1
+  limiting: Array<keyof Nutrients>
+  temperature: Float64Array // theta^(T − 20)
+  light: Float64Array // 0–1
+}
+
+export interface LimitationResult {
+  dates: string[]
+  groups: Record<PhytoplanktonGroup, GroupLimitation>
+}
+
+// Share of the days in a month that each nutrient limits a group
+export interface MonthlyLimitingShare extends Nutrients {
+  month: number // 0–11
+  days: number
+}
+
+// Parameters of the run, and the groups' P–I curves from the registry for the light term
+export type LimitationOptions = Pick<NpzRunOptions, 'groups' | 'theta'> & { piCurves: Record<PhytoplanktonGroup, PiCurve> }
+
+export function analyzeLimitation(result: NpzResult, options: LimitationOptions): LimitationResult {
+  const theta = options.theta ?? DEFAULT_NPZ_OPTIONS.theta
+  const length = result.dates.length
+  const daysOfYear = result.dates.map(date => dayjs(date).diff(dayjs(date).startOf('year'), 'day') + 1)
+  const transmission = daysOfYear.map((dayOfYear, i) => {
+    const biomass = PHYTOPLANKTON_GROUPS.reduce((sum, group) => sum + result.biomass[group][i], 0)
+    return meanTransmission(attenuationFromChlorophyll(CHLOROPHYLL_PER_PHOSPHORUS * biomass), thermoclineDepth(dayOfYear))
+  })
+  const hourly = daysOfYear.map(dayOfYear => hourlySurfacePar(dayOfYear))
+  const available: Nutrients = { P: 0, N: 0, Si: 0, Fe: 0 }
+
+  const groups = Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => {
+    const limitation: GroupLimitation = {
+      nutrients: Object.fromEntries(LIMITING_NUTRIENTS.map(key => [key, new Float64Array(length)])) as Record<keyof Nutrients, Float64Array>,
+      limiting: [],
+      temperature: Float64Array.from(result.temperature, temperature => theta ** (temperature - 20)),
+      light: Float64Array.from(daysOfYear, (_, i) => dailyPiResponse(hourly[i], transmission[i], options.piCurves[group])),
+    }
+    for (let i = 0; i < length; i++) {
+      for (const key of LIMITING_NUTRIENTS) available[key] = result.nutrients[key][i]
+      const terms = nutrientLimitation(options.groups[group], available)
+      for (const key of LIMITING_NUTRIENTS) limitation.nutrients[key][i] = terms[key]
+      limitation.limiting.push(terms.limiting)
+    }
+    return [group, limitation]
+  })) as Record<PhytoplanktonGroup, GroupLimitation>
+
+  return { dates: result.dates, groups }
+}
+
+export const monthlyLimitingShare = (result: LimitationResult, group: PhytoplanktonGroup): MonthlyLimitingShare[] => {
+  const months = new Map<number, MonthlyLimitingShare>()
+  result.groups[group].limiting.forEach((nutrient, i) => {
+    const month = dayjs(result.dates[i]).month()
+    const share = months.get(month) ?? { month, days: 0, P: 0, N: 0, Si: 0, Fe: 0 }
+    share.days++
+    share[nutrient]++
+    months.set(month, share)
+  })
+  return [...months.values()]
+    .sort((a, b) => a.month - b.month)
+    .map(share => ({ ...share, P: share.P / share.days, N: share.N / share.days, Si: share.Si / share.days, Fe: share.Fe / share.days }))
+}
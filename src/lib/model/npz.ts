@@ -0,0 +1,302 @@
+// Nutrient–phytoplankton–detritus model of the Kinneret epilimnion, integrated with RK45
+
+import dayjs from 'dayjs'
+import { ForcingSeries, GroupParams, Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup, TimeSeriesPoint } from '@/lib/schemas'
+import { calculateGrowth } from './growth'
+import { dailyForcing } from './forcing'
+import { Rk45Options, integrateRk45 } from './rk45'
+import {
+  DEFAULT_INITIAL_ZOOPLANKTON,
+  DEFAULT_ZOOPLANKTON_OPTIONS,
+  ZOOPLANKTON_GROUPS,
+  ZooplanktonGroup,
+  ZooplanktonOptions,
+  hollingResponse,
+} from './zooplankton'
+
+export const NUTRIENT_KEYS = ['P', 'N', 'Si', 'Fe'] as const
+
+export type NutrientKey = typeof NUTRIENT_KEYS[number]
+
+/**
+ * Everything a run needs. Phytoplankton biomass is in P units (mmol P/m³),
+ * zooplankton in carbon (mmol C/m³); dissolved and detrital pools are in μM
+ * of each element. Rates are per day.
+ */
+export interface NpzOptions {
+  groups: Record<PhytoplanktonGroup, GroupParams>
+  nutrients: Nutrients // initial dissolved pools and the ambient (inflow) concentrations they relax to
+  initialBiomass: Record<PhytoplanktonGroup, number>
+  initialZooplankton: Record<ZooplanktonGroup, number>
+  zooplankton: ZooplanktonOptions
+  startDate: string // ISO date of day 0
+  days: number
+  outputInterval: number // days between stored states
+  mortality: number // linear mortality of every group
+  remineralisation: Record<NutrientKey, number> // detritus → dissolved
+  detritusSinking: number // export of detritus out of the surface layer
+  nutrientSupply: number // exchange rate with the ambient concentrations
+  theta: number // Eppley-type temperature coefficient, growth × theta^(T − 20)
+  temperature: (day: number) => number // °C on day `day` after startDate; defaults to the climatology
+  forcing?: ForcingSeries // monthly loads, warming, wind, level and inflow; none keeps every rate constant
+  solver: Partial<Rk45Options>
+}
+
+// Series are typed arrays so results can be transferred from a worker without copying
+export interface NpzResult {
+  days: Float64Array
+  dates: string[]
+  biomass: Record<PhytoplanktonGroup, Float64Array>
+  zooplankton: Record<ZooplanktonGroup, Float64Array>
+  nutrients: Record<NutrientKey, Float64Array>
+  detritus: Record<NutrientKey, Float64Array>
+  temperature: Float64Array
+  solver: { steps: number; rejected: number; evaluations: number }
+}
+
+// Required inputs plus any overrides of DEFAULT_NPZ_OPTIONS
+export type NpzRunOptions = Pick<NpzOptions, 'groups' | 'nutrients' | 'initialBiomass'> & Partial<NpzOptions>
+
+// Surface temperature climatology: ~14 °C in late January, ~29 °C in late July
+export const kinneretSurfaceTemperature = (dayOfYear: number): number =>
+  21.5 - 7.5 * Math.cos((2 * Math.PI * (dayOfYear - 20)) / 365)
+
+const dayOfYearOf = (date: string) => {
+  const day = dayjs(date)
+  return day.diff(day.startOf('year'), 'day') + 1
+}
+
+// Temperature of the run: `temperature` plus the warming of the forcing
+const forcedTemperature = (options: NpzOptions) => {
+  const { forcing, temperature } = options
+  if (!forcing) return temperature
+  const startDayOfYear = dayOfYearOf(options.startDate)
+  return (day: number) => temperature(day) + dailyForcing(forcing, startDayOfYear + day).temperatureOffset
+}
+
+export const DEFAULT_NPZ_OPTIONS: Omit<NpzOptions, 'groups' | 'nutrients' | 'initialBiomass' | 'temperature'> = {
+  initialZooplankton: DEFAULT_INITIAL_ZOOPLANKTON,
+  zooplankton: DEFAULT_ZOOPLANKTON_OPTIONS,
+  startDate: '2019-01-01',
+  days: 365,
+  outputInterval: 1,
+  mortality: 0.1,
+  remineralisation: { P: 0.05, N: 0.05, Si: 0.02, Fe: 0.05 },
+  detritusSinking: 0.02,
+  nutrientSupply: 0.01,
+  theta: 1.066,
+  solver: { rtol: 1e-6, atol: 1e-10, maxStep: 1, nonNegative: true },
+}
+
+// Biomass a group starts from when the observations never give one, mmol P/m³
+export const DEFAULT_INITIAL_BIOMASS = 0.01
+
+// First finite observed biomass of each group; gaps and missing values do not reach the model
+export const initialBiomassFrom = (
+  points: TimeSeriesPoint[],
+  fallback: number = DEFAULT_INITIAL_BIOMASS
+): Record<PhytoplanktonGroup, number> =>
+  Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => {
+    const point = points.find(candidate => Number.isFinite(candidate[group]))
+    return [group, point ? point[group] : fallback]
+  })) as Record<PhytoplanktonGroup, number>
+
+// Looser tolerances for calibration, sensitivity and ensembles, which run the model many times
+export const SAMPLING_SOLVER: Partial<Rk45Options> = { rtol: 1e-4, atol: 1e-8 }
+
+// State layout: one biomass per phytoplankton group, herbivores, predatory zooplankton,
+// then dissolved P, N, Si, Fe, then detrital P, N, Si, Fe
+const GROUP_COUNT = PHYTOPLANKTON_GROUPS.length
+const ZOOPLANKTON = GROUP_COUNT
+const DISSOLVED = ZOOPLANKTON + ZOOPLANKTON_GROUPS.length
+const DETRITUS = DISSOLVED + NUTRIENT_KEYS.length
+export const NPZ_STATE_SIZE = DETRITUS + NUTRIENT_KEYS.length
+
+// N-fixers (KsN = 0) take their nitrogen from N₂ rather than the dissolved pool
+export const fixesNitrogen = (params: GroupParams) => params.KsN === 0
+
+// Element : P ratio of a group's biomass
+export const elementRatio = (params: GroupParams, element: NutrientKey): number => {
+  switch (element) {
+    case 'P': return 1
+    case 'N': return params.Rnp
+    case 'Si': return params.Rsip
+    case 'Fe': return params.Rfep
+  }
+}
+
+/**
+ * Right-hand side of the model. Growth follows Liebig's law via
+ * calculateGrowth and draws each element in proportion to the group's
+ * Rnp/Rsip/Rfep; dead biomass enters the detrital pools with the same
+ * stoichiometry and is remineralised back to the dissolved pools.
+ * Herbivores graze the groups by grazingPreference with a Holling type II or III
+ * response and are eaten by predatory zooplankton. Grazers keep only the
+ * assimilated carbon (and its P); the other elements of their food, egestion
+ * and dead grazers go to detritus, so every element is conserved.
+ */
+export const createNpzSystem = (options: NpzOptions) => {
+  const params = PHYTOPLANKTON_GROUPS.map(group => options.groups[group])
+  const ambient = NUTRIENT_KEYS.map(key => options.nutrients[key])
+  const remineralisation = NUTRIENT_KEYS.map(key => options.remineralisation[key])
+  const { mortality, theta, temperature, zooplankton, forcing } = options
+  const startDayOfYear = dayOfYearOf(options.startDate)
+  const { herbivores: herbivoreParams, predatory: predatorParams, functionalResponse, carbonToPhosphorus: cp } = zooplankton
+  const preferences = params.map(groupParams => groupParams.grazingPreference)
+  const available: Nutrients = { P: 0, N: 0, Si: 0, Fe: 0 }
+
+  return (t: number, y: Float64Array, dydt: Float64Array) => {
+    dydt.fill(0)
+    // Loads scale the ambient concentrations, inflow and level the exchange, wind the net sinking
+    const daily = forcing && dailyForcing(forcing, startDayOfYear + t)
+    const nutrientSupply = daily ? options.nutrientSupply * daily.flushing : options.nutrientSupply
+    const detritusSinking = daily ? options.detritusSinking * daily.calm : options.detritusSinking
+    available.P = y[DISSOLVED]
+    available.N = y[DISSOLVED + 1]
+    available.Si = y[DISSOLVED + 2]
+    available.Fe = y[DISSOLVED + 3]
+    const temperatureFactor = theta ** (temperature(t) + (daily ? daily.temperatureOffset : 0) - 20)
+    const herbivores = y[ZOOPLANKTON]
+    const predators = y[ZOOPLANKTON + 1]
+
+    // Herbivore food in carbon, weighted by preference
+    let food = 0
+    for (let g = 0; g < GROUP_COUNT; g++) food += preferences[g] * y[g] * cp
+    const ingestion = hollingResponse(food, herbivoreParams, functionalResponse) * temperatureFactor * herbivores
+
+    for (let g = 0; g < GROUP_COUNT; g++) {
+      const biomass = y[g]
+      const production = calculateGrowth(PHYTOPLANKTON_GROUPS[g], params[g], available) * temperatureFactor * biomass
+      const losses = mortality * biomass
+      const grazed = food > 0 ? (ingestion * preferences[g] * biomass) / food : 0 // mmol P/m³/day
+      dydt[g] = production - losses - grazed
+
+      NUTRIENT_KEYS.forEach((element, e) => {
+        const ratio = elementRatio(params[g], element)
+        if (!(element === 'N' && fixesNitrogen(params[g]))) dydt[DISSOLVED + e] -= ratio * production
+        const egested = element === 'P' ? (1 - herbivoreParams.assimilation) * grazed : ratio * grazed
+        dydt[DETRITUS + e] += ratio * losses + egested
+      })
+    }
+
+    const predation = hollingResponse(herbivores, predatorParams, functionalResponse) * temperatureFactor * predators
+    const herbivoreLosses = herbivoreParams.mortality * herbivores
+    const predatorLosses = predatorParams.mortality * predators
+    dydt[ZOOPLANKTON] = herbivoreParams.assimilation * ingestion - predation - herbivoreLosses
+    dydt[ZOOPLANKTON + 1] = predatorParams.assimilation * predation - predatorLosses
+    dydt[DETRITUS] += ((1 - predatorParams.assimilation) * predation + herbivoreLosses + predatorLosses) / cp
+
+    for (let e = 0; e < NUTRIENT_KEYS.length; e++) {
+      const detritus = y[DETRITUS + e]
+      const released = remineralisation[e] * detritus
+      const inflowing = daily ? ambient[e] * daily.loading[NUTRIENT_KEYS[e]] : ambient[e]
+      dydt[DISSOLVED + e] += released + nutrientSupply * (inflowing - y[DISSOLVED + e])
+      dydt[DETRITUS + e] -= released + detritusSinking * detritus
+    }
+  }
+}
+
+export const initialNpzState = (options: NpzOptions): Float64Array => {
+  const state = new Float64Array(NPZ_STATE_SIZE)
+  PHYTOPLANKTON_GROUPS.forEach((group, g) => {
+    state[g] = Math.max(0, options.initialBiomass[group] ?? 0)
+  })
+  ZOOPLANKTON_GROUPS.forEach((group, z) => {
+    state[ZOOPLANKTON + z] = Math.max(0, options.initialZooplankton[group] ?? 0)
+  })
+  NUTRIENT_KEYS.forEach((key, e) => {
+    state[DISSOLVED + e] = Math.max(0, options.nutrients[key])
+  })
+  return state
+}
+
+const seriesRecord = <K extends string>(keys: readonly K[], length: number): Record<K, Float64Array> =>
+  Object.fromEntries(keys.map(key => [key, new Float64Array(length)])) as Record<K, Float64Array>
+
+// Run the model; `onProgress` receives the fraction of simulated days completed
+export function runNpzSimulation(
+  options: NpzRunOptions,
+  onProgress?: (fraction: number) => void
+): NpzResult {
+  const start = dayjs(options.startDate ?? DEFAULT_NPZ_OPTIONS.startDate)
+  const startDayOfYear = start.diff(start.startOf('year'), 'day') + 1
+  const resolved: NpzOptions = {
+    ...DEFAULT_NPZ_OPTIONS,
+    temperature: day => kinneretSurfaceTemperature(startDayOfYear + day),
+    ...options,
+    solver: { ...DEFAULT_NPZ_OPTIONS.solver, ...options.solver },
+  }
+  if (!(resolved.days > 0) || !(resolved.outputInterval > 0)) {
+    throw new Error('Simulation length and output interval must be positive')
+  }
+
+  const outputTimes: number[] = []
+  for (let day = 0; day < resolved.days; day += resolved.outputInterval) outputTimes.push(day)
+  outputTimes.push(resolved.days)
+
+  const run = integrateRk45(
+    createNpzSystem(resolved),
+    initialNpzState(resolved),
+    outputTimes,
+    resolved.solver,
+    onProgress && (t => onProgress(t / resolved.days))
+  )
+
+  const length = run.times.length
+  const result: NpzResult = {
+    days: Float64Array.from(run.times),
+    dates: run.times.map(day => start.add(Math.round(day), 'day').format('YYYY-MM-DD')),
+    biomass: seriesRecord(PHYTOPLANKTON_GROUPS, length),
+    zooplankton: seriesRecord(ZOOPLANKTON_GROUPS, length),
+    nutrients: seriesRecord(NUTRIENT_KEYS, length),
+    detritus: seriesRecord(NUTRIENT_KEYS, length),
+    temperature: Float64Array.from(run.times, forcedTemperature(resolved)),
+    solver: { steps: run.steps, rejected: run.rejected, evaluations: run.evaluations },
+  }
+  run.states.forEach((state, index) => {
+    PHYTOPLANKTON_GROUPS.forEach((group, g) => {
+      result.biomass[group][index] = state[g]
+    })
+    ZOOPLANKTON_GROUPS.forEach((group, z) => {
+      result.zooplankton[group][index] = state[ZOOPLANKTON + z]
+    })
+    NUTRIENT_KEYS.forEach((key, e) => {
+      result.nutrients[key][index] = state[DISSOLVED + e]
+      result.detritus[key][index] = state[DETRITUS + e]
+    })
+  })
+  return result
+}
+
+// Mean of each series per calendar month of the run
+const monthlyMeans = <K extends string>(
+  dates: string[],
+  series: Record<K, Float64Array>,
+  keys: readonly K[]
+): Array<{ month: number } & Record<K, number>> => {
+  const months = new Map<number, { count: number; sums: number[] }>()
+  dates.forEach((date, index) => {
+    const month = dayjs(date).month()
+    const entry = months.get(month) ?? { count: 0, sums: keys.map(() => 0) }
+    keys.forEach((key, k) => {
+      entry.sums[k] += series[key][index]
+    })
+    entry.count++
+    months.set(month, entry)
+  })
+
+  return Array.from(months.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([month, { count, sums }]) => ({
+      month,
+      ...(Object.fromEntries(keys.map((key, k) => [key, sums[k] / count])) as Record<K, number>),
+    }))
+}
+
+// Mean biomass of each group per calendar month of the run
+export const monthlyMeanBiomass = (result: NpzResult) =>
+  monthlyMeans(result.dates, result.biomass, PHYTOPLANKTON_GROUPS)
+
+// Mean zooplankton biomass per calendar month of the run, mmol C/m³
+export const monthlyMeanZooplankton = (result: NpzResult) =>
+  monthlyMeans(result.dates, result.zooplankton, ZOOPLANKTON_GROUPS)
@@ -0,0 +1,186 @@
+// Bounded minimisers for model calibration: Nelder–Mead for local refinement,
+// differential evolution for a global search
+
+import { createRandom } from '@/lib/random'
+
+export interface OptimizerOptions {
+  maxEvaluations: number
+  tolerance: number // relative spread of the objective at which the search stops
+  onProgress?: (fraction: number) => void // fraction of the evaluation budget used
+}
+
+export interface DifferentialEvolutionOptions extends OptimizerOptions {
+  populationSize: number // 0 picks 10 × the number of parameters
+  mutation: number // F
+  crossover: number // CR
+  seed: number
+}
+
+export interface OptimizationResult {
+  x: number[]
+  value: number
+  evaluations: number
+  converged: boolean
+  history: number[] // best objective after each iteration
+}
+
+export const DEFAULT_OPTIMIZER_OPTIONS: OptimizerOptions = {
+  maxEvaluations: 300,
+  tolerance: 1e-6,
+}
+
+export const DEFAULT_DIFFERENTIAL_EVOLUTION_OPTIONS: DifferentialEvolutionOptions = {
+  ...DEFAULT_OPTIMIZER_OPTIONS,
+  maxEvaluations: 1500,
+  populationSize: 0,
+  mutation: 0.7,
+  crossover: 0.9,
+  seed: 1,
+}
+
+// Both searches work in the unit box; the objective sees the parameters in their own bounds
+const boxObjective = (f: (x: number[]) => number, lower: number[], upper: number[], budget: number, onProgress?: (fraction: number) => void) => {
+  let evaluations = 0
+  const toBounds = (u: number[]) => u.map((value, i) => lower[i] + Math.min(1, Math.max(0, value)) * (upper[i] - lower[i]))
+  const evaluate = (u: number[]) => {
+    evaluations++
+    onProgress?.(Math.min(1, evaluations / budget))
+    const value = f(toBounds(u))
+    return Number.isFinite(value) ? value : Infinity
+  }
+  return { evaluate, toBounds, count: () => evaluations }
+}
+
+const clampUnit = (u: number[]) => u.map(value => Math.min(1, Math.max(0, value)))
+
+const converged = (values: number[], tolerance: number) => {
+  const best = Math.min(...values)
+  const worst = Math.max(...values)
+  return Number.isFinite(worst) && worst - best <= tolerance * (Math.abs(best) + 1e-12)
+}
+
+/**
+ * Nelder–Mead simplex search from `x0` within [lower, upper]. Vertices are
+ * clamped to the bounds, so it refines a starting point rather than exploring.
+ */
+export function nelderMead(
+  f: (x: number[]) => number,
+  x0: number[],
+  lower: number[],
+  upper: number[],
+  options: Partial<OptimizerOptions> = {}
+): OptimizationResult {
+  const { maxEvaluations, tolerance, onProgress } = { ...DEFAULT_OPTIMIZER_OPTIONS, ...options }
+  const { evaluate, toBounds, count } = boxObjective(f, lower, upper, maxEvaluations, onProgress)
+  const n = x0.length
+  const start = x0.map((value, i) => (upper[i] > lower[i] ? (value - lower[i]) / (upper[i] - lower[i]) : 0))
+
+  // Initial simplex: a step of a tenth of each range, away from the nearer bound
+  let simplex = [clampUnit(start)]
+  for (let i = 0; i < n; i++) {
+    const vertex = [...simplex[0]]
+    vertex[i] += vertex[i] > 0.9 ? -0.1 : 0.1
+    simplex.push(vertex)
+  }
+  let values = simplex.map(evaluate)
+  const history: number[] = []
+  let done = false
+
+  while (count() < maxEvaluations && !done) {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b])
+    simplex = order.map(i => simplex[i])
+    values = order.map(i => values[i])
+    history.push(values[0])
+    if (converged(values, tolerance)) {
+      done = true
+      break
+    }
+
+    const centroid = Array.from({ length: n }, (_, d) => simplex.slice(0, n).reduce((sum, vertex) => sum + vertex[d], 0) / n)
+    const towards = (coefficient: number) => clampUnit(centroid.map((c, d) => c + coefficient * (simplex[n][d] - c)))
+
+    const reflected = towards(-1)
+    const reflectedValue = evaluate(reflected)
+    if (reflectedValue < values[0]) {
+      const expanded = towards(-2)
+      const expandedValue = evaluate(expanded)
+      ;[simplex[n], values[n]] = expandedValue < reflectedValue ? [expanded, expandedValue] : [reflected, reflectedValue]
+    } else if (reflectedValue < values[n - 1]) {
+      simplex[n] = reflected
+      values[n] = reflectedValue
+    } else {
+      const contracted = reflectedValue < values[n] ? towards(-0.5) : towards(0.5)
+      const contractedValue = evaluate(contracted)
+      if (contractedValue < Math.min(values[n], reflectedValue)) {
+        simplex[n] = contracted
+        values[n] = contractedValue
+      } else {
+        // Shrink towards the best vertex
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = simplex[i].map((value, d) => simplex[0][d] + 0.5 * (value - simplex[0][d]))
+          values[i] = evaluate(simplex[i])
+        }
+      }
+    }
+  }
+
+  const best = values.indexOf(Math.min(...values))
+  return { x: toBounds(simplex[best]), value: values[best], evaluations: count(), converged: done, history }
+}
+
+/**
+ * Differential evolution (DE/rand/1/bin) over [lower, upper]. The population
+ * is seeded, so a search can be repeated, and includes `x0`, so the result is
+ * never worse than the starting point.
+ */
+export function differentialEvolution(
+  f: (x: number[]) => number,
+  x0: number[],
+  lower: number[],
+  upper: number[],
+  options: Partial<DifferentialEvolutionOptions> = {}
+): OptimizationResult {
+  const { maxEvaluations, tolerance, onProgress, populationSize, mutation, crossover, seed } = {
+    ...DEFAULT_DIFFERENTIAL_EVOLUTION_OPTIONS,
+    ...options,
+  }
+  const { evaluate, toBounds, count } = boxObjective(f, lower, upper, maxEvaluations, onProgress)
+  const random = createRandom(seed)
+  const n = x0.length
+  const size = Math.max(4, populationSize || 10 * n)
+
+  const population = Array.from({ length: size }, (_, i) =>
+    i === 0
+      ? clampUnit(x0.map((value, d) => (upper[d] > lower[d] ? (value - lower[d]) / (upper[d] - lower[d]) : 0)))
+      : Array.from({ length: n }, random)
+  )
+  const values = population.map(evaluate)
+  const history: number[] = []
+  let done = false
+
+  while (count() + size <= maxEvaluations && !done) {
+    for (let i = 0; i < size; i++) {
+      // Three distinct members other than i
+      const picks: number[] = []
+      while (picks.length < 3) {
+        const candidate = Math.floor(random() * size)
+        if (candidate !== i && !picks.includes(candidate)) picks.push(candidate)
+      }
+      const [a, b, c] = picks.map(index => population[index])
+      const forced = Math.floor(random() * n)
+      const trial = clampUnit(population[i].map((value, d) =>
+        d === forced || random() < crossover ? a[d] + mutation * (b[d] - c[d]) : value
+      ))
+      const trialValue = evaluate(trial)
+      if (trialValue <= values[i]) {
+        population[i] = trial
+        values[i] = trialValue
+      }
+    }
+    history.push(Math.min(...values))
+    done = converged(values, tolerance)
+  }
+
+  const best = values.indexOf(Math.min(...values))
+  return { x: toBounds(population[best]), value: values[best], evaluations: count(), converged: done, history }
+}
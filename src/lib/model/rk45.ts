@@ -0,0 +1,159 @@
+// Adaptive RK45 integrator using the Dormand–Prince 5(4) embedded pair
+
+// Writes dy/dt at time t into `dydt`
+export type OdeSystem = (t: number, y: Float64Array, dydt: Float64Array) => void
+
+export interface Rk45Options {
+  rtol: number // relative tolerance per component
+  atol: number // absolute tolerance per component
+  initialStep: number
+  minStep: number
+  maxStep: number
+  maxSteps: number // accepted plus rejected steps before giving up
+  nonNegative: boolean // clip components at zero after each step (concentrations)
+}
+
+export interface Rk45Result {
+  times: number[]
+  states: Float64Array[] // state at each output time
+  steps: number // accepted steps
+  rejected: number
+  evaluations: number // calls of the system function
+}
+
+export const DEFAULT_RK45_OPTIONS: Rk45Options = {
+  rtol: 1e-6,
+  atol: 1e-9,
+  initialStep: 0.1,
+  minStep: 1e-10,
+  maxStep: Infinity,
+  maxSteps: 1_000_000,
+  nonNegative: false,
+}
+
+// Dormand–Prince tableau
+const C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1]
+const A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+]
+// Difference between the 5th and embedded 4th order weights
+const E = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40]
+
+const SAFETY = 0.9
+const MIN_FACTOR = 0.2
+const MAX_FACTOR = 5
+
+/**
+ * Integrate y' = f(t, y) from outputTimes[0], returning the state at every
+ * output time. Steps are shortened to land on output times, so no
+ * interpolation is involved. Throws when the step size collapses.
+ * `onStep` is called with the time reached after each accepted step.
+ */
+export function integrateRk45(
+  f: OdeSystem,
+  y0: ArrayLike<number>,
+  outputTimes: number[],
+  options: Partial<Rk45Options> = {},
+  onStep?: (t: number) => void
+): Rk45Result {
+  const { rtol, atol, initialStep, minStep, maxStep, maxSteps, nonNegative } = { ...DEFAULT_RK45_OPTIONS, ...options }
+  const n = y0.length
+  const k = Array.from({ length: 7 }, () => new Float64Array(n))
+  const stage = new Float64Array(n)
+  const next = new Float64Array(n)
+  let y = Float64Array.from(y0)
+
+  if (outputTimes.length === 0) {
+    return { times: [], states: [], steps: 0, rejected: 0, evaluations: 0 }
+  }
+
+  let t = outputTimes[0]
+  let h = Math.min(initialStep, maxStep)
+  let steps = 0
+  let rejected = 0
+  let evaluations = 1
+  f(t, y, k[0])
+
+  const times = [t]
+  const states = [Float64Array.from(y)]
+
+  for (let out = 1; out < outputTimes.length; out++) {
+    const target = outputTimes[out]
+    if (!(target > t)) throw new Error('Output times must be strictly increasing')
+
+    while (t < target) {
+      if (steps + rejected >= maxSteps) throw new Error(`Integration stopped after ${maxSteps} steps at t = ${t}`)
+      const remaining = target - t
+      const last = h >= remaining
+      const step = last ? remaining : h
+
+      // Stages 2–7; stage 7 is evaluated at the 5th order solution (FSAL)
+      for (let s = 1; s < 7; s++) {
+        for (let i = 0; i < n; i++) {
+          let sum = 0
+          for (let j = 0; j < s; j++) sum += A[s][j] * k[j][i]
+          stage[i] = y[i] + step * sum
+        }
+        f(t + C[s] * step, stage, k[s])
+        if (s === 6) next.set(stage)
+      }
+      evaluations += 6
+
+      // Weighted RMS of the local error estimate
+      let norm = 0
+      for (let i = 0; i < n; i++) {
+        let err = 0
+        for (let j = 0; j < 7; j++) err += E[j] * k[j][i]
+        const scale = atol + rtol * Math.max(Math.abs(y[i]), Math.abs(next[i]))
+        norm += ((step * err) / scale) ** 2
+      }
+      norm = Math.sqrt(norm / n)
+
+      if (!Number.isFinite(norm)) {
+        rejected++
+        h = step * MIN_FACTOR
+      } else if (norm <= 1) {
+        t = last ? target : t + step
+        steps++
+        let clipped = false
+        if (nonNegative) {
+          for (let i = 0; i < n; i++) {
+            if (next[i] < 0) {
+              next[i] = 0
+              clipped = true
+            }
+          }
+        }
+        // The last stage is the derivative at the new point (first same as last)
+        const fsal = k[6]
+        k[6] = k[0]
+        k[0] = fsal
+        y = Float64Array.from(next)
+        if (clipped) {
+          f(t, y, k[0])
+          evaluations++
+        }
+        onStep?.(t)
+        const factor = norm === 0 ? MAX_FACTOR : Math.min(MAX_FACTOR, SAFETY * norm ** -0.2)
+        // A step shortened to hit the output time says little about the next one
+        h = Math.min(maxStep, last ? Math.max(h, step * factor) : step * factor)
+      } else {
+        rejected++
+        h = step * Math.max(MIN_FACTOR, SAFETY * norm ** -0.2)
+      }
+
+      if (h < minStep) throw new Error(`Step size fell below ${minStep} at t = ${t}`)
+    }
+
+    times.push(t)
+    states.push(Float64Array.from(y))
+  }
+
+  return { times, states, steps, rejected, evaluations }
+}
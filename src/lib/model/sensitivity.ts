@@ -0,0 +1,280 @@
+// Global sensitivity of the NPZ model to group parameters and nutrients:
+// Morris elementary effects for screening, Sobol indices for variance decomposition
+
+import dayjs from 'dayjs'
+import { GroupParams, Nutrients, NutrientsSchema, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { createRandom } from '@/lib/random'
+import { NpzResult, NpzRunOptions, SAMPLING_SOLVER, runNpzSimulation } from './npz'
+import { parameterBounds } from './calibration'
+
+export type SensitivityMethod = 'morris' | 'sobol'
+
+export const SENSITIVITY_METRICS = ['peak', 'bloom-day', 'annual-mean'] as const
+
+// Peak biomass, day of year of the peak, and mean biomass over the run
+export type SensitivityMetric = typeof SENSITIVITY_METRICS[number]
+
+export type SensitivityFactor =
+  | { kind: 'group'; group: PhytoplanktonGroup; param: keyof GroupParams; min: number; max: number }
+  | { kind: 'nutrient'; nutrient: keyof Nutrients; min: number; max: number }
+
+export interface SensitivityOptions {
+  model: Omit<NpzRunOptions, 'temperature'> // the scenario the factors vary around
+  factors: SensitivityFactor[]
+  method: SensitivityMethod
+  samples: number // Morris trajectories, or the Sobol base sample size
+  levels?: number // of the Morris grid, even; 4 by default
+  seed: number
+}
+
+export interface MorrisEffect {
+  muStar: number // mean absolute elementary effect
+  mu: number // mean elementary effect; its sign is the direction of the effect
+  sigma: number // spread of the effects: interactions or non-linearity
+}
+
+export interface SobolIndex {
+  first: number // share of the output variance due to the factor alone
+  total: number // share including all its interactions
+  firstConfidence: number // bootstrap 95% half-width
+  totalConfidence: number
+}
+
+// Indices of one output, with one entry per factor in the order of `factors`
+export interface OutputSensitivity {
+  group: PhytoplanktonGroup
+  metric: SensitivityMetric
+  mean: number
+  standardDeviation: number
+  morris: MorrisEffect[] | null
+  sobol: SobolIndex[] | null
+}
+
+export interface SensitivityResult {
+  method: SensitivityMethod
+  factors: SensitivityFactor[]
+  outputs: OutputSensitivity[]
+  runs: number
+  failed: number // runs the solver could not finish
+}
+
+export const DEFAULT_SENSITIVITY_SAMPLES: Record<SensitivityMethod, number> = {
+  morris: 10,
+  sobol: 32,
+}
+
+// Effects are measured in output units per full range of the factor
+const MORRIS_LEVELS = 4
+const BOOTSTRAP_RESAMPLES = 100
+
+export const factorKey = (factor: SensitivityFactor) =>
+  factor.kind === 'group' ? `${factor.group}.${factor.param}` : `nutrient.${factor.nutrient}`
+
+// Admissible range of a nutrient concentration, from NutrientsSchema
+export const nutrientBounds = (nutrient: keyof Nutrients): [number, number] => {
+  const schema = NutrientsSchema.shape[nutrient]
+  return [schema.minValue ?? 0, schema.maxValue ?? Number.MAX_VALUE]
+}
+
+export const groupFactor = (group: PhytoplanktonGroup, param: keyof GroupParams): SensitivityFactor => {
+  const [min, max] = parameterBounds(param)
+  return { kind: 'group', group, param, min, max }
+}
+
+export const nutrientFactor = (nutrient: keyof Nutrients): SensitivityFactor => {
+  const [min, max] = nutrientBounds(nutrient)
+  return { kind: 'nutrient', nutrient, min, max }
+}
+
+const OUTPUTS = PHYTOPLANKTON_GROUPS.flatMap(group => SENSITIVITY_METRICS.map(metric => ({ group, metric })))
+
+const dayOfYear = (date: string) => {
+  const day = dayjs(date)
+  return day.diff(day.startOf('year'), 'day') + 1
+}
+
+// Every output of a run, in the order of OUTPUTS
+const outputValues = (result: NpzResult): number[] =>
+  OUTPUTS.map(({ group, metric }) => {
+    const biomass = result.biomass[group]
+    let peak = 0
+    let total = 0
+    for (let i = 0; i < biomass.length; i++) {
+      if (biomass[i] > biomass[peak]) peak = i
+      total += biomass[i]
+    }
+    if (metric === 'peak') return biomass[peak]
+    if (metric === 'bloom-day') return dayOfYear(result.dates[peak])
+    return total / biomass.length
+  })
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+const variance = (values: number[]) => {
+  const m = mean(values)
+  return values.reduce((sum, value) => sum + (value - m) ** 2, 0) / Math.max(1, values.length - 1)
+}
+
+/**
+ * Morris screening. Each trajectory starts on a random point of a grid of
+ * `levels` levels and moves one factor at a time by half the grid, in random
+ * order, so it costs factors + 1 runs.
+ */
+const morrisIndices = (
+  evaluate: (u: number[]) => number[],
+  k: number,
+  trajectories: number,
+  levels: number,
+  random: () => number
+): MorrisEffect[][] => {
+  const p = Math.max(2, 2 * Math.round(levels / 2))
+  const delta = p / (2 * (p - 1))
+  const effects = OUTPUTS.map(() => Array.from({ length: k }, (): number[] => []))
+
+  for (let t = 0; t < trajectories; t++) {
+    const x = Array.from({ length: k }, () => Math.floor(random() * p) / (p - 1))
+    let previous = evaluate(x)
+    const order = Array.from({ length: k }, (_, i) => i)
+    for (let i = k - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[order[i], order[j]] = [order[j], order[i]]
+    }
+    order.forEach(factor => {
+      const step = x[factor] + delta <= 1 + 1e-9 ? delta : -delta
+      x[factor] += step
+      const next = evaluate(x)
+      next.forEach((value, o) => {
+        const effect = (value - previous[o]) / step
+        if (Number.isFinite(effect)) effects[o][factor].push(effect)
+      })
+      previous = next
+    })
+  }
+
+  return effects.map(byFactor => byFactor.map(values => values.length === 0
+    ? { muStar: NaN, mu: NaN, sigma: NaN }
+    : {
+        muStar: mean(values.map(Math.abs)),
+        mu: mean(values),
+        sigma: values.length > 1 ? Math.sqrt(variance(values)) : 0,
+      }
+  ))
+}
+
+/**
+ * Sobol indices from two random samples A and B and the k hybrids that take
+ * one column from B (Saltelli 2010 for the first-order, Jansen for the total
+ * index), N (k + 2) runs in all. Confidence comes from bootstrapping the rows.
+ */
+const sobolIndices = (
+  evaluate: (u: number[]) => number[],
+  k: number,
+  n: number,
+  random: () => number
+): SobolIndex[][] => {
+  const a = Array.from({ length: n }, () => Array.from({ length: k }, random))
+  const b = Array.from({ length: n }, () => Array.from({ length: k }, random))
+  const fa = a.map(evaluate)
+  const fb = b.map(evaluate)
+  const fab = Array.from({ length: k }, (_, i) => a.map((row, r) => evaluate(row.map((value, d) => (d === i ? b[r][i] : value)))))
+
+  const estimate = (rows: number[], o: number, i: number) => {
+    const pooled = rows.flatMap(r => [fa[r][o], fb[r][o]])
+    const v = variance(pooled)
+    // Spread within the solver tolerance is noise, not sensitivity
+    if (!(Math.sqrt(v) > (SAMPLING_SOLVER.rtol ?? 0) * Math.abs(mean(pooled)))) return { first: 0, total: 0 }
+    let first = 0
+    let total = 0
+    rows.forEach(r => {
+      first += fb[r][o] * (fab[i][r][o] - fa[r][o])
+      total += (fa[r][o] - fab[i][r][o]) ** 2
+    })
+    return { first: first / rows.length / v, total: total / (2 * rows.length) / v }
+  }
+
+  return OUTPUTS.map((_, o) => Array.from({ length: k }, (_, i) => {
+    const rows = fa.map((_, r) => r).filter(r =>
+      Number.isFinite(fa[r][o]) && Number.isFinite(fb[r][o]) && Number.isFinite(fab[i][r][o])
+    )
+    if (rows.length < 2) return { first: NaN, total: NaN, firstConfidence: NaN, totalConfidence: NaN }
+    const { first, total } = estimate(rows, o, i)
+    const resamples = Array.from({ length: BOOTSTRAP_RESAMPLES }, () =>
+      estimate(rows.map(() => rows[Math.floor(random() * rows.length)]), o, i)
+    )
+    return {
+      first,
+      total,
+      firstConfidence: 1.96 * Math.sqrt(variance(resamples.map(s => s.first))),
+      totalConfidence: 1.96 * Math.sqrt(variance(resamples.map(s => s.total))),
+    }
+  }))
+}
+
+/**
+ * Sensitivity of peak biomass, bloom day and mean biomass of every group to
+ * the factors, each sampled uniformly over [min, max]. `onProgress` receives
+ * the fraction of the runs done.
+ */
+export function analyzeSensitivity(
+  options: SensitivityOptions,
+  onProgress?: (fraction: number) => void
+): SensitivityResult {
+  const { model, factors, method } = options
+  const k = factors.length
+  if (k === 0) throw new Error('Choose at least one factor to vary')
+  if (factors.some(({ min, max }) => !(max > min))) throw new Error('Every factor needs an upper bound above its lower bound')
+  const samples = Math.max(2, Math.round(options.samples))
+  const total = method === 'morris' ? samples * (k + 1) : samples * (k + 2)
+
+  let runs = 0
+  let failed = 0
+  const values: number[][] = []
+  const evaluate = (u: number[]): number[] => {
+    const groups = Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [group, { ...model.groups[group] }])) as Record<PhytoplanktonGroup, GroupParams>
+    const nutrients = { ...model.nutrients }
+    factors.forEach((factor, i) => {
+      const value = factor.min + u[i] * (factor.max - factor.min)
+      if (factor.kind === 'group') groups[factor.group][factor.param] = value
+      else nutrients[factor.nutrient] = value
+    })
+    let output: number[]
+    try {
+      output = outputValues(runNpzSimulation({
+        ...model,
+        groups,
+        nutrients,
+        outputInterval: 1,
+        solver: { ...model.solver, ...SAMPLING_SOLVER },
+      }))
+      values.push(output)
+    } catch {
+      output = OUTPUTS.map(() => NaN)
+      failed++
+    }
+    runs++
+    onProgress?.(Math.min(1, runs / total))
+    return output
+  }
+
+  const random = createRandom(options.seed)
+  const morris = method === 'morris' ? morrisIndices(evaluate, k, samples, options.levels ?? MORRIS_LEVELS, random) : null
+  const sobol = method === 'sobol' ? sobolIndices(evaluate, k, samples, random) : null
+
+  return {
+    method,
+    factors,
+    outputs: OUTPUTS.map(({ group, metric }, o) => {
+      const column = values.map(row => row[o])
+      return {
+        group,
+        metric,
+        mean: column.length > 0 ? mean(column) : NaN,
+        standardDeviation: column.length > 1 ? Math.sqrt(variance(column)) : 0,
+        morris: morris?.[o] ?? null,
+        sobol: sobol?.[o] ?? null,
+      }
+    }),
+    runs,
+    failed,
+  }
+}
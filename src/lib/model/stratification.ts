@@ -0,0 +1,178 @@
+// Stratification of a temperature profile under wind: density, mixed layer, Schmidt stability,
+// Wedderburn and Lake numbers, and the mixing index that the growth models respond to
+
+const GRAVITY = 9.81 // m/s²
+const AIR_DENSITY = 1.2 // kg/m³
+const DRAG_COEFFICIENT = 1.3e-3
+// Density excess over the surface that ends the mixed layer, kg/m³
+const MIXED_LAYER_THRESHOLD = 0.1
+
+// Area of the lake at depth
+export interface Hypsography {
+  depths: number[] // m, increasing
+  areas: number[] // m²
+}
+
+// Kinneret at −210 m: volume ≈ 3.8 km³, mean depth ≈ 23 m
+export const KINNERET_HYPSOGRAPHY: Hypsography = {
+  depths: [0, 10, 20, 30, 40, 43],
+  areas: [166e6, 120e6, 95e6, 65e6, 20e6, 0],
+}
+
+// Effective wind fetch along the lake, m
+export const KINNERET_FETCH = 15000
+
+export interface StratificationOptions {
+  hypsography: Hypsography
+  fetch: number // m
+}
+
+export interface Stratification {
+  density: Float64Array // kg/m³ at each depth of the profile
+  mixedLayerDepth: number // m; the full depth when the column is mixed
+  thermoclineDepth: number | null // m, depth of the steepest density gradient; null when mixed
+  densityDifference: number // hypolimnion − epilimnion mean density, kg/m³
+  schmidtStability: number // J/m²
+  wedderburn: number // W = g′h² / (u*² L)
+  lakeNumber: number
+  mixingIndex: number // 0 (stable) – 1 (fully mixed)
+}
+
+// Density of fresh water (UNESCO polynomial), kg/m³
+export const waterDensity = (temperature: number): number =>
+  999.842594 +
+  temperature * (6.793952e-2 + temperature * (-9.09529e-3 + temperature * (1.001685e-4 + temperature * (-1.120083e-6 + temperature * 6.536332e-9))))
+
+export const densityProfile = (temperature: ArrayLike<number>): Float64Array => Float64Array.from(temperature, waterDensity)
+
+// Water-side friction velocity squared under a 10 m wind, m²/s²
+export const shearVelocitySquared = (windSpeed: number): number =>
+  (AIR_DENSITY * DRAG_COEFFICIENT * windSpeed * windSpeed) / waterDensity(20)
+
+// Lake area at a depth, interpolated linearly; zero below the deepest point
+export const areaAtDepth = (depth: number, hypsography: Hypsography = KINNERET_HYPSOGRAPHY): number => {
+  const { depths, areas } = hypsography
+  if (depth <= depths[0]) return areas[0]
+  for (let i = 1; i < depths.length; i++) {
+    if (depth <= depths[i]) {
+      const fraction = (depth - depths[i - 1]) / (depths[i] - depths[i - 1])
+      return areas[i - 1] + fraction * (areas[i] - areas[i - 1])
+    }
+  }
+  return 0
+}
+
+// Thickness of each layer of a profile sampled at layer centres
+const layerThickness = (depths: ArrayLike<number>): Float64Array => {
+  const n = depths.length
+  const thickness = new Float64Array(n)
+  let top = 0
+  for (let i = 0; i < n; i++) {
+    const bottom = i < n - 1 ? (depths[i] + depths[i + 1]) / 2 : depths[i] + (depths[i] - top)
+    thickness[i] = bottom - top
+    top = bottom
+  }
+  return thickness
+}
+
+/**
+ * Analyse a temperature profile (depths in m, increasing) under a wind speed
+ * in m/s. The mixing index is 1 / (1 + W): a mixed column or a Wedderburn
+ * number below one means the wind mixes or tilts the whole epilimnion.
+ */
+export function analyzeStratification(
+  depths: ArrayLike<number>,
+  temperature: ArrayLike<number>,
+  windSpeed: number,
+  options: Partial<StratificationOptions> = {}
+): Stratification {
+  const hypsography = options.hypsography ?? KINNERET_HYPSOGRAPHY
+  const fetch = options.fetch ?? KINNERET_FETCH
+  const n = depths.length
+  const density = densityProfile(temperature)
+  const thickness = layerThickness(depths)
+  const bottom = n > 0 ? depths[n - 1] + thickness[n - 1] / 2 : 0
+
+  // Mixed layer: down to where density first exceeds the surface value by the threshold
+  let mixedLayerDepth = bottom
+  for (let i = 1; i < n; i++) {
+    if (density[i] - density[0] > MIXED_LAYER_THRESHOLD) {
+      const fraction = (density[0] + MIXED_LAYER_THRESHOLD - density[i - 1]) / (density[i] - density[i - 1])
+      mixedLayerDepth = depths[i - 1] + fraction * (depths[i] - depths[i - 1])
+      break
+    }
+  }
+  const stratified = mixedLayerDepth < bottom
+
+  let thermoclineDepth: number | null = null
+  if (stratified) {
+    let steepest = 0
+    for (let i = 0; i < n - 1; i++) {
+      const gradient = (density[i + 1] - density[i]) / (depths[i + 1] - depths[i])
+      if (gradient > steepest) {
+        steepest = gradient
+        thermoclineDepth = (depths[i] + depths[i + 1]) / 2
+      }
+    }
+  }
+
+  // Mean densities above and below the mixed-layer depth
+  let upper = 0
+  let upperThickness = 0
+  let lower = 0
+  let lowerThickness = 0
+  for (let i = 0; i < n; i++) {
+    if (depths[i] < mixedLayerDepth) {
+      upper += density[i] * thickness[i]
+      upperThickness += thickness[i]
+    } else {
+      lower += density[i] * thickness[i]
+      lowerThickness += thickness[i]
+    }
+  }
+  const densityDifference = stratified && upperThickness > 0 && lowerThickness > 0
+    ? Math.max(0, lower / lowerThickness - upper / upperThickness)
+    : 0
+  const hypolimnionDensity = lowerThickness > 0 ? lower / lowerThickness : n > 0 ? density[n - 1] : waterDensity(20)
+
+  // Schmidt stability: work to mix the column, per unit surface area (Idso 1973)
+  const surfaceArea = areaAtDepth(0, hypsography)
+  let volume = 0
+  let moment = 0
+  for (let i = 0; i < n; i++) {
+    const layerVolume = areaAtDepth(depths[i], hypsography) * thickness[i]
+    volume += layerVolume
+    moment += depths[i] * layerVolume
+  }
+  const volumeCentre = volume > 0 ? moment / volume : 0
+  let schmidtStability = 0
+  for (let i = 0; i < n; i++) {
+    schmidtStability += (depths[i] - volumeCentre) * density[i] * areaAtDepth(depths[i], hypsography) * thickness[i]
+  }
+  schmidtStability = Math.max(0, (GRAVITY * schmidtStability) / surfaceArea)
+
+  const ustar2 = shearVelocitySquared(windSpeed)
+  const reducedGravity = (GRAVITY * densityDifference) / hypolimnionDensity
+  const calm = !(ustar2 > 0)
+  const wedderburn = !stratified ? 0 : calm ? Infinity : (reducedGravity * mixedLayerDepth * mixedLayerDepth) / (ustar2 * fetch)
+
+  // Lake number (Imberger & Patterson 1990): basin-scale stability against wind-driven upwelling
+  const maxDepth = Math.max(bottom, hypsography.depths[hypsography.depths.length - 1])
+  const lakeNumber = thermoclineDepth === null
+    ? 0
+    : calm
+      ? Infinity
+      : (schmidtStability * surfaceArea * (1 - thermoclineDepth / maxDepth)) /
+        (hypolimnionDensity * ustar2 * surfaceArea ** 1.5 * (1 - volumeCentre / maxDepth))
+
+  return {
+    density,
+    mixedLayerDepth,
+    thermoclineDepth,
+    densityDifference,
+    schmidtStability,
+    wedderburn,
+    lakeNumber,
+    mixingIndex: 1 / (1 + wedderburn),
+  }
+}
@@ -0,0 +1,369 @@
+// One-dimensional vertical model of the Kinneret water column (Station A): light, temperature,
+// turbulent diffusion and sinking/floating phytoplankton over layers of equal thickness
+
+import dayjs from 'dayjs'
+import { GroupParams, Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { calculateGrowth } from './growth'
+import {
+  BACKGROUND_ATTENUATION,
+  CHLOROPHYLL_PER_PHOSPHORUS,
+  CHLOROPHYLL_SPECIFIC_ATTENUATION,
+  PiCurve,
+  dailyPiResponse,
+  hourlySurfacePar,
+  kinneretCloudCover,
+} from './light'
+import { analyzeStratification } from './stratification'
+import { DEFAULT_NPZ_OPTIONS, NUTRIENT_KEYS, NutrientKey, elementRatio, fixesNitrogen, kinneretSurfaceTemperature } from './npz'
+
+export interface WaterColumnOptions {
+  groups: Record<PhytoplanktonGroup, GroupParams>
+  nutrients: Nutrients // initial dissolved pools, uniform with depth; the sediment boundary relaxes to them
+  initialBiomass: Record<PhytoplanktonGroup, number> // uniform with depth, mmol P/m³
+  startDate: string // ISO date of the first stored day
+  days: number
+  spinUpDays: number // run before the stored period so profiles forget the uniform initial state
+  depth: number // m
+  layerThickness: number // m
+  timeStep: number // days
+  outputInterval: number // days between stored profiles
+  mortality: number // per day
+  minimumBiomass: number // mmol P/m³ not subject to mortality: resting stages and inocula keep every group present
+  recycling: number // fraction of dead biomass remineralised within the layer
+  sedimentExchange: number // per day, bottom layer ↔ ambient concentrations
+  theta: number // growth × theta^(T − 20)
+  backgroundAttenuation: number // m⁻¹, water and dissolved matter
+  specificAttenuation: number // m² per mg Chl (self-shading)
+  kd?: number // fixed PAR attenuation, m⁻¹; derived from the modelled chlorophyll when unset
+  sinking: Record<PhytoplanktonGroup, number> // m/day, negative floats; from the parameter registry
+  piCurves: Record<PhytoplanktonGroup, PiCurve> // from the parameter registry
+  windSpeed?: number // m/s; defaults to the seasonal climatology
+  cloudCover?: number // 0–1; defaults to the seasonal climatology
+}
+
+/**
+ * Stored profiles, time-major: value of layer `k` at output `t` is at
+ * index `t * depths.length + k`. Depths are layer centres in m below the surface.
+ */
+export interface WaterColumnResult {
+  depths: Float64Array
+  days: Float64Array
+  dates: string[]
+  biomass: Record<PhytoplanktonGroup, Float64Array>
+  nutrients: Record<NutrientKey, Float64Array>
+  temperature: Float64Array
+  light: Float64Array // layer-mean PAR, 24-hour mean, μmol photons m⁻² s⁻¹
+  diffusivity: Float64Array // per layer (upper interface, surface layer repeats the first), m²/day
+}
+
+// Options without defaults: the initial state and the groups' parameters from the registry
+type WaterColumnRequiredOptions = 'groups' | 'nutrients' | 'initialBiomass' | 'sinking' | 'piCurves'
+
+export type WaterColumnRunOptions = Pick<WaterColumnOptions, WaterColumnRequiredOptions> & Partial<WaterColumnOptions>
+
+export const DEFAULT_WATER_COLUMN_OPTIONS: Omit<WaterColumnOptions, WaterColumnRequiredOptions> = {
+  startDate: '2019-01-01',
+  days: 365,
+  spinUpDays: 365,
+  depth: 40,
+  layerThickness: 1,
+  timeStep: 0.25,
+  outputInterval: 1,
+  mortality: 0.1,
+  minimumBiomass: 1e-4,
+  recycling: 0.7,
+  sedimentExchange: 0.05,
+  theta: DEFAULT_NPZ_OPTIONS.theta,
+  backgroundAttenuation: BACKGROUND_ATTENUATION,
+  specificAttenuation: CHLOROPHYLL_SPECIFIC_ATTENUATION,
+}
+
+// Hypolimnion temperature; the surface climatology meets it during the winter overturn
+export const HYPOLIMNION_TEMPERATURE = 15
+
+// Depth of the thermocline: forms at ~8 m in April and deepens to ~20 m before the December overturn
+export const thermoclineDepth = (dayOfYear: number): number =>
+  8 + 12 * Math.min(1, Math.max(0, (dayOfYear - 100) / 240))
+
+const THERMOCLINE_THICKNESS = 2.5 // m
+
+// Temperature at a depth: the surface temperature (climatology by default) above the thermocline, hypolimnion below
+export const temperatureAt = (dayOfYear: number, depth: number, surface = kinneretSurfaceTemperature(dayOfYear)): number => {
+  const bottom = Math.min(surface, HYPOLIMNION_TEMPERATURE)
+  return bottom + (surface - bottom) * 0.5 * (1 - Math.tanh((depth - thermoclineDepth(dayOfYear)) / THERMOCLINE_THICKNESS))
+}
+
+// Daily mean wind speed: afternoon westerlies are strongest in summer
+export const kinneretWindSpeed = (dayOfYear: number): number =>
+  5 + 2 * Math.cos((2 * Math.PI * (dayOfYear - 200)) / 365)
+
+// Diffusivity in a wind-mixed layer and below it, m²/day
+const MIXED_DIFFUSIVITY = 50
+const WIND_DIFFUSIVITY = 400
+const BACKGROUND_DIFFUSIVITY = 0.1
+// Temperature gradient (°C/m) at which stratification halves the mixed-layer diffusivity
+const GRADIENT_SCALE = 0.1
+
+/**
+ * Diffusivity at the n − 1 interior interfaces. The wind-driven value scales
+ * with the mixing index of the mixed layer and is damped where the
+ * temperature gradient is strong.
+ */
+export const diffusivityProfile = (temperature: ArrayLike<number>, dz: number, mixingIndex: number): Float64Array => {
+  const mixed = MIXED_DIFFUSIVITY + WIND_DIFFUSIVITY * mixingIndex
+  const kz = new Float64Array(Math.max(0, temperature.length - 1))
+  for (let i = 0; i < kz.length; i++) {
+    const gradient = Math.max(0, (temperature[i] - temperature[i + 1]) / dz)
+    kz[i] = BACKGROUND_DIFFUSIVITY + mixed / (1 + (gradient / GRADIENT_SCALE) ** 2)
+  }
+  return kz
+}
+
+// Layer-mean light under Beer–Lambert attenuation; `attenuation` is per layer, m⁻¹
+export const lightProfile = (surface: number, attenuation: ArrayLike<number>, dz: number, out?: Float64Array): Float64Array => {
+  const light = out ?? new Float64Array(attenuation.length)
+  let top = surface
+  for (let i = 0; i < attenuation.length; i++) {
+    const opticalDepth = attenuation[i] * dz
+    light[i] = opticalDepth > 0 ? (top * (1 - Math.exp(-opticalDepth))) / opticalDepth : top
+    top *= Math.exp(-opticalDepth)
+  }
+  return light
+}
+
+// Implicit (backward Euler) diffusion with no-flux boundaries, solved with the Thomas algorithm
+const diffuse = (c: Float64Array, kz: Float64Array, dt: number, dz: number, scratch: Float64Array[]) => {
+  const n = c.length
+  const [lower, diag, upper, rhs] = scratch
+  const r = dt / (dz * dz)
+  for (let i = 0; i < n; i++) {
+    const above = i > 0 ? r * kz[i - 1] : 0
+    const below = i < n - 1 ? r * kz[i] : 0
+    lower[i] = -above
+    upper[i] = -below
+    diag[i] = 1 + above + below
+    rhs[i] = c[i]
+  }
+  for (let i = 1; i < n; i++) {
+    const m = lower[i] / diag[i - 1]
+    diag[i] -= m * upper[i - 1]
+    rhs[i] -= m * rhs[i - 1]
+  }
+  c[n - 1] = rhs[n - 1] / diag[n - 1]
+  for (let i = n - 2; i >= 0; i--) c[i] = (rhs[i] - upper[i] * c[i + 1]) / diag[i]
+}
+
+// First-order upwind sinking (w > 0) or floating (w < 0); sinking biomass leaves through the bottom,
+// floating biomass collects in the surface layer
+const settle = (c: Float64Array, w: number, dt: number, dz: number) => {
+  if (w === 0) return
+  const n = c.length
+  const substeps = Math.max(1, Math.ceil((Math.abs(w) * dt) / dz))
+  const courant = (Math.abs(w) * dt) / (dz * substeps)
+  for (let s = 0; s < substeps; s++) {
+    if (w > 0) {
+      for (let i = n - 1; i >= 0; i--) {
+        const outflow = courant * c[i]
+        c[i] -= outflow
+        if (i < n - 1) c[i + 1] += outflow
+      }
+    } else {
+      for (let i = 0; i < n; i++) {
+        const outflow = i > 0 ? courant * c[i] : 0
+        c[i] -= outflow
+        if (i > 0) c[i - 1] += outflow
+      }
+    }
+  }
+}
+
+/**
+ * Run the column model. Temperature, wind and cloud cover are prescribed
+ * from the seasonal climatology and surface PAR from the sun's position;
+ * biomass and dissolved nutrients are integrated with operator splitting:
+ * growth and losses, sinking, sediment exchange, then implicit diffusion. `onProgress` receives the fraction of days completed.
+ */
+export function runWaterColumn(
+  options: WaterColumnRunOptions,
+  onProgress?: (fraction: number) => void
+): WaterColumnResult {
+  const resolved: WaterColumnOptions = { ...DEFAULT_WATER_COLUMN_OPTIONS, ...options }
+  const { depth, layerThickness: dz, timeStep: dt, days, spinUpDays, outputInterval } = resolved
+  if (!(depth > 0) || !(dz > 0) || !(dt > 0) || !(days > 0) || !(outputInterval > 0) || !(spinUpDays >= 0)) {
+    throw new Error('Column depth, layer thickness, time step and run length must be positive')
+  }
+
+  const n = Math.max(1, Math.round(depth / dz))
+  const depths = Float64Array.from({ length: n }, (_, i) => (i + 0.5) * dz)
+  const params = PHYTOPLANKTON_GROUPS.map(group => resolved.groups[group])
+  const ambient = NUTRIENT_KEYS.map(key => resolved.nutrients[key])
+  const biomass = PHYTOPLANKTON_GROUPS.map(group => new Float64Array(n).fill(Math.max(0, resolved.initialBiomass[group] ?? 0)))
+  const dissolved = ambient.map(value => new Float64Array(n).fill(Math.max(0, value)))
+
+  const temperature = new Float64Array(n)
+  const attenuation = new Float64Array(n)
+  const light = new Float64Array(n)
+  const transmission = new Float64Array(n)
+  const hourly = new Float64Array(24)
+  const lightFactors = PHYTOPLANKTON_GROUPS.map(() => new Float64Array(n))
+  let kz: Float64Array = new Float64Array(n - 1)
+  const scratch = Array.from({ length: 4 }, () => new Float64Array(n))
+  const production = new Float64Array(PHYTOPLANKTON_GROUPS.length)
+  const available: Nutrients = { P: 0, N: 0, Si: 0, Fe: 0 }
+
+  const start = dayjs(options.startDate ?? DEFAULT_WATER_COLUMN_OPTIONS.startDate)
+  const startDayOfYear = start.diff(start.startOf('year'), 'day') + 1
+  const dayOfYear = (day: number) => ((((startDayOfYear - 1 + day) % 365) + 365) % 365) + 1
+
+  // Physics of the day: temperature, mixing, and light through water and the current chlorophyll
+  const updateEnvironment = (day: number) => {
+    const doy = dayOfYear(day)
+    for (let i = 0; i < n; i++) temperature[i] = temperatureAt(doy, depths[i])
+    const { mixingIndex } = analyzeStratification(depths, temperature, resolved.windSpeed ?? kinneretWindSpeed(doy))
+    kz = diffusivityProfile(temperature, dz, mixingIndex)
+    for (let i = 0; i < n; i++) {
+      let total = 0
+      for (let g = 0; g < biomass.length; g++) total += biomass[g][i]
+      attenuation[i] = resolved.kd ?? resolved.backgroundAttenuation + resolved.specificAttenuation * CHLOROPHYLL_PER_PHOSPHORUS * total
+    }
+    hourlySurfacePar(doy, resolved.cloudCover ?? kinneretCloudCover(doy), undefined, hourly)
+    lightProfile(1, attenuation, dz, transmission)
+    const surfaceMean = hourly.reduce((sum, value) => sum + value, 0) / 24
+    for (let i = 0; i < n; i++) light[i] = surfaceMean * transmission[i]
+    PHYTOPLANKTON_GROUPS.forEach((group, g) => {
+      for (let i = 0; i < n; i++) lightFactors[g][i] = dailyPiResponse(hourly, transmission[i], resolved.piCurves[group])
+    })
+  }
+
+  const step = (day: number, h: number) => {
+    updateEnvironment(day)
+
+    for (let i = 0; i < n; i++) {
+      available.P = dissolved[0][i]
+      available.N = dissolved[1][i]
+      available.Si = dissolved[2][i]
+      available.Fe = dissolved[3][i]
+      const temperatureFactor = resolved.theta ** (temperature[i] - 20)
+
+      // Potential production, scaled back where it would draw a pool below zero in this step
+      let scale = 1
+      PHYTOPLANKTON_GROUPS.forEach((group, g) => {
+        production[g] = calculateGrowth(group, params[g], available) * lightFactors[g][i] * temperatureFactor * biomass[g][i]
+      })
+      NUTRIENT_KEYS.forEach((element, e) => {
+        let demand = 0
+        for (let g = 0; g < params.length; g++) {
+          if (!(element === 'N' && fixesNitrogen(params[g]))) demand += elementRatio(params[g], element) * production[g]
+        }
+        if (demand * h > dissolved[e][i]) scale = Math.min(scale, dissolved[e][i] / (demand * h))
+      })
+
+      for (let g = 0; g < params.length; g++) {
+        const grown = production[g] * scale
+        const losses = resolved.mortality * Math.max(0, biomass[g][i] - resolved.minimumBiomass)
+        biomass[g][i] = Math.max(0, biomass[g][i] + h * (grown - losses))
+        NUTRIENT_KEYS.forEach((element, e) => {
+          const ratio = elementRatio(params[g], element)
+          const uptake = element === 'N' && fixesNitrogen(params[g]) ? 0 : ratio * grown
+          dissolved[e][i] = Math.max(0, dissolved[e][i] + h * (resolved.recycling * ratio * losses - uptake))
+        })
+      }
+    }
+
+    PHYTOPLANKTON_GROUPS.forEach((group, g) => settle(biomass[g], resolved.sinking[group], h, dz))
+    dissolved.forEach((pool, e) => {
+      pool[n - 1] += h * resolved.sedimentExchange * (ambient[e] - pool[n - 1])
+    })
+    if (n > 1) {
+      biomass.forEach(c => diffuse(c, kz, h, dz, scratch))
+      dissolved.forEach(c => diffuse(c, kz, h, dz, scratch))
+    }
+  }
+
+  const outputTimes: number[] = []
+  for (let day = 0; day < days; day += outputInterval) outputTimes.push(day)
+  outputTimes.push(days)
+
+  const size = outputTimes.length * n
+  const result: WaterColumnResult = {
+    depths,
+    days: Float64Array.from(outputTimes),
+    dates: outputTimes.map(day => start.add(Math.round(day), 'day').format('YYYY-MM-DD')),
+    biomass: Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [group, new Float64Array(size)])) as Record<PhytoplanktonGroup, Float64Array>,
+    nutrients: Object.fromEntries(NUTRIENT_KEYS.map(key => [key, new Float64Array(size)])) as Record<NutrientKey, Float64Array>,
+    temperature: new Float64Array(size),
+    light: new Float64Array(size),
+    diffusivity: new Float64Array(size),
+  }
+
+  const store = (index: number) => {
+    const offset = index * n
+    PHYTOPLANKTON_GROUPS.forEach((group, g) => result.biomass[group].set(biomass[g], offset))
+    NUTRIENT_KEYS.forEach((key, e) => result.nutrients[key].set(dissolved[e], offset))
+    result.temperature.set(temperature, offset)
+    result.light.set(light, offset)
+    for (let i = 0; i < n; i++) result.diffusivity[offset + i] = kz.length > 0 ? kz[Math.max(0, i - 1)] : 0
+  }
+
+  // Spin-up ends on the start date, so it begins spinUpDays earlier in the seasonal cycle
+  const total = spinUpDays + days
+  let t = -spinUpDays
+  let next = 0
+  let lastReported = t
+  while (next < outputTimes.length) {
+    if (t >= outputTimes[next] - 1e-9) {
+      updateEnvironment(t)
+      store(next++)
+      continue
+    }
+    const h = Math.min(dt, outputTimes[next] - t)
+    step(t, h)
+    t += h
+    if (onProgress && t - lastReported >= 1) {
+      lastReported = t
+      onProgress((t + spinUpDays) / total)
+    }
+  }
+  return result
+}
+
+// Profile of a stored series at output index `index`
+export const profileAt = (result: WaterColumnResult, series: Float64Array, index: number): Float64Array => {
+  const n = result.depths.length
+  return series.slice(index * n, (index + 1) * n)
+}
+
+// Mean profile of a stored series for each calendar month of the run (index 0 = January)
+export const monthlyProfiles = (result: WaterColumnResult, series: Float64Array): Array<Float64Array | null> => {
+  const n = result.depths.length
+  const sums = Array.from({ length: 12 }, () => new Float64Array(n))
+  const counts = new Array<number>(12).fill(0)
+  result.dates.forEach((date, index) => {
+    const month = dayjs(date).month()
+    counts[month]++
+    for (let i = 0; i < n; i++) sums[month][i] += series[index * n + i]
+  })
+  return sums.map((sum, month) => (counts[month] > 0 ? sum.map(value => value / counts[month]) : null))
+}
+
+// Average a profile into depth bins of `binSize` m from the surface; bins past the column are NaN
+export const binProfile = (result: WaterColumnResult, profile: ArrayLike<number>, binSize: number, binCount: number): number[] =>
+  Array.from({ length: binCount }, (_, b) => {
+    let sum = 0
+    let count = 0
+    result.depths.forEach((depth, i) => {
+      if (depth >= b * binSize && depth < (b + 1) * binSize) {
+        sum += profile[i]
+        count++
+      }
+    })
+    return count > 0 ? sum / count : NaN
+  })
+
+// Depth × month matrix of a series (rows are depth bins from the surface, columns January–December)
+export const depthTimeMatrix = (result: WaterColumnResult, series: Float64Array, binSize: number, binCount: number): number[][] => {
+  const columns = monthlyProfiles(result, series).map(profile =>
+    profile ? binProfile(result, profile, binSize, binCount) : new Array<number>(binCount).fill(NaN)
+  )
+  return Array.from({ length: binCount }, (_, bin) => columns.map(column => column[bin]))
+}
@@ -0,0 +1,49 @@
+// Zooplankton grazers of the NPZ model: herbivores graze phytoplankton, predatory zooplankton eat herbivores
+
+import researchParameters from '@/data/research-parameters.json'
+
+export const ZOOPLANKTON_GROUPS = ['herbivores', 'predatory'] as const
+
+export type ZooplanktonGroup = typeof ZOOPLANKTON_GROUPS[number]
+
+export const ZOOPLANKTON_NAMES: Record<ZooplanktonGroup, string> = {
+  herbivores: researchParameters.zooplanktonGroups.herbivores.name,
+  predatory: researchParameters.zooplanktonGroups.predatory.name,
+}
+
+// Type II saturates with food; type III adds a refuge at low food density
+export type FunctionalResponse = 'II' | 'III'
+
+export interface GrazerParams {
+  maxGrazing: number // maximum ingestion, mmol C per mmol C of grazer per day
+  halfSaturation: number // food concentration at half the maximum ingestion, mmol C/m³
+  assimilation: number // fraction of ingested food turned into grazer biomass
+  mortality: number // per day
+}
+
+export interface ZooplanktonOptions {
+  herbivores: GrazerParams
+  predatory: GrazerParams
+  functionalResponse: FunctionalResponse
+  carbonToPhosphorus: number // mol C per mol P of phytoplankton biomass
+}
+
+export const DEFAULT_ZOOPLANKTON_OPTIONS: ZooplanktonOptions = {
+  herbivores: { maxGrazing: 1, halfSaturation: 2, assimilation: 0.3, mortality: 0.02 },
+  predatory: { maxGrazing: 0.4, halfSaturation: 1, assimilation: 0.3, mortality: 0.02 },
+  functionalResponse: 'III',
+  carbonToPhosphorus: 106,
+}
+
+// Ingestion per unit grazer biomass for a food concentration, per day
+export const hollingResponse = (food: number, params: GrazerParams, type: FunctionalResponse): number => {
+  const f = Math.max(0, food)
+  if (type === 'II') return (params.maxGrazing * f) / (params.halfSaturation + f)
+  return (params.maxGrazing * f * f) / (params.halfSaturation * params.halfSaturation + f * f)
+}
+
+// Initial grazer biomass when no observations are available, mmol C/m³
+export const DEFAULT_INITIAL_ZOOPLANKTON: Record<ZooplanktonGroup, number> = {
+  herbivores: 1,
+  predatory: 0.5,
+}
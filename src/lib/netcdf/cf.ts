@@ -0,0 +1,294 @@
+// CF-convention interpretation of NetCDF model output: axes, time decoding, packing and 2D slices
+
+import dayjs from 'dayjs'
+import { ObservationVariable } from '@/lib/schemas'
+import { GridField, boundsToTransform, createGridField } from '@/lib/rasters/grid-field'
+import { NetcdfAttributeValue, NetcdfReader, NetcdfVariable } from './reader'
+
+export type CfAxis = 'X' | 'Y' | 'Z' | 'T'
+
+export interface GriddedVariable {
+  name: string
+  longName: string
+  units: string
+  dimensions: string[]
+  times: Array<string | null> // decoded dates per time index; null when units are not "<unit> since <date>"
+  depths: number[] // m below the surface per depth index
+  quantity: ObservationVariable | null // best guess from the name and attributes
+}
+
+export interface GridSlice {
+  timeIndex?: number
+  depthIndex?: number
+  quantity?: ObservationVariable | null
+}
+
+const text = (value: NetcdfAttributeValue | undefined): string =>
+  typeof value === 'string' ? value.trim() : ''
+
+const numbers = (value: NetcdfAttributeValue | undefined): number[] =>
+  Array.isArray(value) ? value : []
+
+const DEGREES_EAST = /^degrees?_?e(ast)?$/i
+const DEGREES_NORTH = /^degrees?_?n(orth)?$/i
+const TIME_UNITS = /^\s*(\w+)\s+since\s+(.+)$/i
+
+const AXIS_NAMES: Record<CfAxis, RegExp> = {
+  X: /^(lon|longitude|x|xc|nav_lon)$/i,
+  Y: /^(lat|latitude|y|yc|nav_lat)$/i,
+  Z: /^(depth|z|zc|lev|level|deptht|depthu|depthv)$/i,
+  T: /^(time|t|time_counter)$/i,
+}
+
+// Axis of a dimension from its coordinate variable (axis, standard_name, units) or its name
+export const detectAxis = (reader: NetcdfReader, dimension: string): CfAxis | null => {
+  const coordinate = reader.header.variables.find(v => v.name === dimension && v.dimensions.length === 1)
+  if (coordinate) {
+    const axis = text(coordinate.attributes.axis).toUpperCase()
+    if (axis === 'X' || axis === 'Y' || axis === 'Z' || axis === 'T') return axis
+    const standardName = text(coordinate.attributes.standard_name)
+    const units = text(coordinate.attributes.units)
+    if (standardName === 'longitude' || DEGREES_EAST.test(units)) return 'X'
+    if (standardName === 'latitude' || DEGREES_NORTH.test(units)) return 'Y'
+    if (standardName === 'time' || TIME_UNITS.test(units)) return 'T'
+    if (standardName === 'depth' || text(coordinate.attributes.positive)) return 'Z'
+  }
+  for (const axis of ['X', 'Y', 'Z', 'T'] as const) {
+    if (AXIS_NAMES[axis].test(dimension)) return axis
+  }
+  return reader.getDimension(dimension)?.isRecord ? 'T' : null
+}
+
+const MS_PER_UNIT: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+}
+
+const normalizeUnit = (unit: string): string | null => {
+  const u = unit.toLowerCase()
+  if (/^(s|sec|secs|seconds?)$/.test(u)) return 'second'
+  if (/^(min|mins|minutes?)$/.test(u)) return 'minute'
+  if (/^(h|hr|hrs|hours?)$/.test(u)) return 'hour'
+  if (/^(d|days?)$/.test(u)) return 'day'
+  return null
+}
+
+// Month lengths of the fixed-length calendars
+const NOLEAP_MONTHS = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+/**
+ * Decode CF time values ("days since 2015-01-01 00:00:00") into YYYY-MM-DD dates.
+ * The standard, gregorian and proleptic_gregorian calendars are exact;
+ * noleap/365_day and 360_day are counted in whole days from the origin.
+ */
+export const decodeTimes = (values: ArrayLike<number>, units: string, calendar: string = 'standard'): Array<string | null> => {
+  const match = TIME_UNITS.exec(units)
+  const unit = match && normalizeUnit(match[1])
+  const origin = match && dayjs(match[2].trim().replace(/\s*(UTC|Z)$/i, '').replace(' ', 'T'))
+  if (!unit || !origin || !origin.isValid()) return Array.from(values, () => null)
+
+  const cal = calendar.toLowerCase()
+  return Array.from(values, value => {
+    if (!Number.isFinite(value)) return null
+    if (cal === '360_day') {
+      const days = Math.floor((value * MS_PER_UNIT[unit]) / MS_PER_UNIT.day)
+      return origin.add(Math.floor(days / 360), 'year').add(Math.floor((days % 360) / 30), 'month').add(days % 30, 'day').format('YYYY-MM-DD')
+    }
+    if (cal === 'noleap' || cal === '365_day') {
+      let days = Math.floor((value * MS_PER_UNIT[unit]) / MS_PER_UNIT.day)
+      let date = origin.add(Math.floor(days / 365), 'year')
+      days %= 365
+      let month = date.month()
+      while (days >= NOLEAP_MONTHS[month] - (date.date() - 1)) {
+        days -= NOLEAP_MONTHS[month] - (date.date() - 1)
+        date = date.add(1, 'month').date(1)
+        month = date.month()
+      }
+      return date.add(days, 'day').format('YYYY-MM-DD')
+    }
+    return origin.add(value * MS_PER_UNIT[unit], 'millisecond').format('YYYY-MM-DD')
+  })
+}
+
+// Depths in metres below the surface, whichever way the file counts them
+const toDepths = (values: Float64Array, coordinate: NetcdfVariable | undefined): number[] => {
+  const positiveUp = text(coordinate?.attributes.positive).toLowerCase() === 'up'
+  const allNonPositive = Array.from(values).every(value => value <= 0)
+  return Array.from(values, value => (positiveUp || allNonPositive ? Math.abs(value) : value))
+}
+
+// Raw values to physical values: fill/missing/out-of-range become NaN, then scale_factor/add_offset apply
+export const unpackValues = (raw: Float64Array, variable: NetcdfVariable): Float32Array => {
+  const { attributes } = variable
+  const missing = new Set([...numbers(attributes._FillValue), ...numbers(attributes.missing_value)])
+  const validRange = numbers(attributes.valid_range)
+  const validMin = numbers(attributes.valid_min)[0] ?? validRange[0] ?? -Infinity
+  const validMax = numbers(attributes.valid_max)[0] ?? validRange[1] ?? Infinity
+  const scale = numbers(attributes.scale_factor)[0] ?? 1
+  const offset = numbers(attributes.add_offset)[0] ?? 0
+  // Default fill of float and double variables written without _FillValue
+  const defaultFill = variable.type === 'float' || variable.type === 'double' ? 9.9e36 : Infinity
+
+  const values = new Float32Array(raw.length)
+  for (let i = 0; i < raw.length; i++) {
+    const value = raw[i]
+    values[i] = missing.has(value) || value < validMin || value > validMax || Math.abs(value) >= defaultFill
+      ? NaN
+      : value * scale + offset
+  }
+  return values
+}
+
+// Phytoplankton tracers, temperature and nutrients recognised by name or standard_name
+const QUANTITY_PATTERNS: Array<[ObservationVariable, RegExp]> = [
+  ['temperature', /(^|[\s_])(temp|theta|thetao|temperature|t)($|[\s_])/i],
+  ['diatom', /diatom/i],
+  ['dinoflagellates', /dino/i],
+  ['small_phyto', /small|pico|nano/i],
+  ['n_fixers', /n_?fix|diazo|trich/i],
+  ['microcystis', /microcyst|cyano/i],
+  ['chlorophyll', /chl/i],
+  ['dissolved_oxygen', /(^|[\s_])(o2|oxygen|doxy)($|[\s_])/i],
+  ['phosphate', /po4|phosphate/i],
+  ['nitrate', /no3|nitrate/i],
+  ['ammonium', /nh4|ammonium/i],
+  ['silica', /sio|silic/i],
+  ['iron', /(^|[\s_])fe($|[\s_])|iron/i],
+]
+
+export const guessQuantity = (variable: NetcdfVariable): ObservationVariable | null => {
+  const candidates = [variable.name, text(variable.attributes.standard_name), text(variable.attributes.long_name)]
+  for (const [quantity, pattern] of QUANTITY_PATTERNS) {
+    if (candidates.some(candidate => pattern.test(candidate))) return quantity
+  }
+  return null
+}
+
+const axesOf = (reader: NetcdfReader, variable: NetcdfVariable) =>
+  variable.dimensions.map(dimension => detectAxis(reader, dimension))
+
+const isGridded = (axes: Array<CfAxis | null>): boolean => {
+  const n = axes.length
+  return n >= 2 && axes[n - 2] === 'Y' && axes[n - 1] === 'X' && axes.slice(0, n - 2).every(axis => axis === 'T' || axis === 'Z')
+}
+
+// Decoded time and depth coordinates of one gridded variable
+const describeVariable = async (reader: NetcdfReader, variable: NetcdfVariable): Promise<GriddedVariable> => {
+  const axes = axesOf(reader, variable)
+  const timeDim = variable.dimensions[axes.indexOf('T')]
+  const depthDim = variable.dimensions[axes.indexOf('Z')]
+  const timeCoordinate = timeDim ? reader.header.variables.find(v => v.name === timeDim) : undefined
+  const depthCoordinate = depthDim ? reader.header.variables.find(v => v.name === depthDim) : undefined
+
+  const times = !timeDim
+    ? []
+    : timeCoordinate
+    ? decodeTimes(await reader.readVariable(timeDim), text(timeCoordinate.attributes.units), text(timeCoordinate.attributes.calendar) || undefined)
+    : Array.from({ length: reader.getDimension(timeDim)?.size ?? 0 }, () => null)
+  const depths = !depthDim
+    ? []
+    : depthCoordinate
+    ? toDepths(await reader.readVariable(depthDim), depthCoordinate)
+    : Array.from({ length: reader.getDimension(depthDim)?.size ?? 0 }, (_, i) => i)
+
+  return {
+    name: variable.name,
+    longName: text(variable.attributes.long_name) || variable.name,
+    units: text(variable.attributes.units),
+    dimensions: variable.dimensions,
+    times,
+    depths,
+    quantity: guessQuantity(variable),
+  }
+}
+
+/**
+ * Variables that can be shown as map layers: numeric fields whose last two
+ * dimensions are latitude and longitude, with optional leading time and depth.
+ */
+export const listGriddedVariables = async (reader: NetcdfReader): Promise<GriddedVariable[]> => {
+  const coordinateNames = new Set(reader.header.dimensions.map(dim => dim.name))
+  const gridded = reader.header.variables.filter(variable =>
+    variable.type !== 'char' && !coordinateNames.has(variable.name) && isGridded(axesOf(reader, variable))
+  )
+  const result: GriddedVariable[] = []
+  for (const variable of gridded) result.push(await describeVariable(reader, variable))
+  return result
+}
+
+// Cell-edge extent of a regular coordinate axis
+const axisExtent = (centres: Float64Array): [number, number] => {
+  const first = centres[0]
+  const last = centres[centres.length - 1]
+  const half = centres.length > 1 ? Math.abs(last - first) / (centres.length - 1) / 2 : 0
+  return [Math.min(first, last) - half, Math.max(first, last) + half]
+}
+
+/**
+ * Read one 2D time/depth slice of a gridded variable as a grid field.
+ * Rows are reordered north to south and columns west to east, so the
+ * field is north-up.
+ */
+export const readGridField = async (
+  reader: NetcdfReader,
+  name: string,
+  slice: GridSlice = {},
+  source: string = ''
+): Promise<GridField> => {
+  const variable = reader.getVariable(name)
+  const axes = axesOf(reader, variable)
+  if (!isGridded(axes)) throw new Error(`${name} is not a latitude/longitude grid`)
+  const n = axes.length
+
+  const yName = variable.dimensions[n - 2]
+  const xName = variable.dimensions[n - 1]
+  const lonCoordinate = reader.header.variables.find(v => v.name === xName)
+  const latCoordinate = reader.header.variables.find(v => v.name === yName)
+  if (!lonCoordinate || !latCoordinate) {
+    throw new Error(`${name} has no longitude/latitude coordinate variables`)
+  }
+  if (!DEGREES_EAST.test(text(lonCoordinate.attributes.units)) && text(lonCoordinate.attributes.standard_name) !== 'longitude') {
+    throw new Error(`${name} is on a projected grid; only longitude/latitude grids are supported`)
+  }
+
+  const leading = axes.slice(0, n - 2).map(axis => (axis === 'T' ? slice.timeIndex ?? 0 : slice.depthIndex ?? 0))
+  const raw = await reader.readBlock(name, leading)
+  const lon = await reader.readVariable(xName)
+  const lat = await reader.readVariable(yName)
+  const width = lon.length
+  const height = lat.length
+  const unpacked = unpackValues(raw, variable)
+
+  // Reorder so the first row is the northernmost and the first column the westernmost
+  const flipRows = lat.length > 1 && lat[0] < lat[lat.length - 1]
+  const flipColumns = lon.length > 1 && lon[0] > lon[lon.length - 1]
+  const values = new Float32Array(width * height)
+  for (let j = 0; j < height; j++) {
+    const sourceRow = flipRows ? height - 1 - j : j
+    for (let i = 0; i < width; i++) {
+      const sourceColumn = flipColumns ? width - 1 - i : i
+      values[j * width + i] = unpacked[sourceRow * width + sourceColumn]
+    }
+  }
+
+  const [west, east] = axisExtent(lon)
+  const [south, north] = axisExtent(lat)
+  const { times, depths } = await describeVariable(reader, variable)
+  const time = times.length > 0 ? times[slice.timeIndex ?? 0] ?? null : null
+  const depth = depths.length > 0 ? depths[slice.depthIndex ?? 0] : null
+
+  return createGridField(values, width, height, boundsToTransform([[west, south], [east, north]], width, height), {
+    name: text(variable.attributes.long_name) || name,
+    source,
+    variable: name,
+    quantity: slice.quantity !== undefined ? slice.quantity : guessQuantity(variable),
+    units: text(variable.attributes.units),
+    nodata: numbers(variable.attributes._FillValue)[0] ?? null,
+    time,
+    depth,
+    timeIndex: times.length > 0 ? slice.timeIndex ?? 0 : null,
+    depthIndex: depths.length > 0 ? slice.depthIndex ?? 0 : null,
+  })
+}
@@ -0,0 +1,307 @@
+// Client-side reader for NetCDF classic (CDF-1) and 64-bit offset (CDF-2) files
+
+export const NETCDF_TYPES = ['byte', 'char', 'short', 'int', 'float', 'double'] as const
+
+export type NetcdfType = typeof NETCDF_TYPES[number]
+
+const TYPE_SIZES: Record<NetcdfType, number> = { byte: 1, char: 1, short: 2, int: 4, float: 4, double: 8 }
+
+// Header tags from the format specification
+const NC_DIMENSION = 0x0a
+const NC_VARIABLE = 0x0b
+const NC_ATTRIBUTE = 0x0c
+
+// numrecs value written by streaming writers that never updated the header
+const STREAMING_NUMRECS = 0xffffffff
+
+export type NetcdfAttributeValue = string | number[]
+
+export interface NetcdfDimension {
+  name: string
+  size: number // current number of records for the record dimension
+  isRecord: boolean
+}
+
+export interface NetcdfVariable {
+  name: string
+  dimensions: string[]
+  shape: number[]
+  attributes: Record<string, NetcdfAttributeValue>
+  type: NetcdfType
+  isRecord: boolean
+  vsize: number // bytes per record for record variables, total bytes otherwise
+  begin: number // byte offset of the data (of the first record for record variables)
+}
+
+export interface NetcdfHeader {
+  version: 1 | 2
+  numRecords: number
+  recordSize: number // bytes between consecutive records
+  dimensions: NetcdfDimension[]
+  attributes: Record<string, NetcdfAttributeValue>
+  variables: NetcdfVariable[]
+}
+
+// Thrown while parsing a header that extends past the bytes read so far
+class TruncatedHeader extends Error {}
+
+// Big-endian cursor over the header bytes
+class HeaderCursor {
+  private offset = 0
+
+  constructor(private view: DataView) {}
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes > this.view.byteLength) throw new TruncatedHeader()
+  }
+
+  uint32(): number {
+    this.ensure(4)
+    const value = this.view.getUint32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  // Offsets are 32-bit in CDF-1 and 64-bit in CDF-2
+  offsetValue(version: 1 | 2): number {
+    if (version === 1) return this.uint32()
+    const high = this.uint32()
+    const low = this.uint32()
+    return high * 2 ** 32 + low
+  }
+
+  bytes(length: number): Uint8Array {
+    this.ensure(length)
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length)
+    this.offset += length
+    return bytes
+  }
+
+  skipPadding(length: number) {
+    const padding = (4 - (length % 4)) % 4
+    this.ensure(padding)
+    this.offset += padding
+  }
+
+  name(): string {
+    const length = this.uint32()
+    const text = new TextDecoder().decode(this.bytes(length))
+    this.skipPadding(length)
+    return text
+  }
+
+  type(): NetcdfType {
+    const code = this.uint32()
+    const type = NETCDF_TYPES[code - 1]
+    if (!type) throw new Error(`Unsupported NetCDF data type ${code}; only classic types are supported`)
+    return type
+  }
+
+  values(type: NetcdfType, count: number): NetcdfAttributeValue {
+    const size = TYPE_SIZES[type] * count
+    const bytes = this.bytes(size)
+    this.skipPadding(size)
+    if (type === 'char') return new TextDecoder().decode(bytes).replace(/\0+$/, '')
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    return Array.from({ length: count }, (_, i) => readValue(view, type, i * TYPE_SIZES[type]))
+  }
+}
+
+const readValue = (view: DataView, type: NetcdfType, offset: number): number => {
+  switch (type) {
+    case 'byte':
+      return view.getInt8(offset)
+    case 'char':
+      return view.getUint8(offset)
+    case 'short':
+      return view.getInt16(offset)
+    case 'int':
+      return view.getInt32(offset)
+    case 'float':
+      return view.getFloat32(offset)
+    default:
+      return view.getFloat64(offset)
+  }
+}
+
+const readList = <T>(cursor: HeaderCursor, tag: number, readItem: () => T): T[] => {
+  const found = cursor.uint32()
+  const count = cursor.uint32()
+  if (found === 0 && count === 0) return [] // ABSENT
+  if (found !== tag) throw new Error('Malformed NetCDF header')
+  return Array.from({ length: count }, readItem)
+}
+
+const readAttributes = (cursor: HeaderCursor): Record<string, NetcdfAttributeValue> => {
+  const entries = readList(cursor, NC_ATTRIBUTE, () => {
+    const name = cursor.name()
+    const type = cursor.type()
+    const count = cursor.uint32()
+    return [name, cursor.values(type, count)] as const
+  })
+  return Object.fromEntries(entries)
+}
+
+/**
+ * Parse a classic-format header. Throws `TruncatedHeader` when `buffer`
+ * holds only the start of a header, so callers can retry with more bytes.
+ */
+const parseHeader = (buffer: ArrayBuffer): NetcdfHeader => {
+  const cursor = new HeaderCursor(new DataView(buffer))
+  const magic = new TextDecoder().decode(cursor.bytes(3))
+  const versionByte = cursor.bytes(1)[0]
+  if (magic !== 'CDF') {
+    throw new Error('Not a NetCDF classic file; NetCDF-4/HDF5 files must be converted with `nccopy -k classic`')
+  }
+  if (versionByte !== 1 && versionByte !== 2) {
+    throw new Error(`Unsupported NetCDF format version ${versionByte}; only classic and 64-bit offset files are supported`)
+  }
+  const version = versionByte as 1 | 2
+
+  const rawNumRecords = cursor.uint32()
+
+  const dimensions = readList(cursor, NC_DIMENSION, () => {
+    const name = cursor.name()
+    const size = cursor.uint32()
+    return { name, size, isRecord: size === 0 }
+  })
+  const attributes = readAttributes(cursor)
+
+  const variables = readList(cursor, NC_VARIABLE, (): NetcdfVariable => {
+    const name = cursor.name()
+    const dimCount = cursor.uint32()
+    const dimIds = Array.from({ length: dimCount }, () => cursor.uint32())
+    const varAttributes = readAttributes(cursor)
+    const type = cursor.type()
+    const vsize = cursor.uint32()
+    const begin = cursor.offsetValue(version)
+    const dims = dimIds.map(id => {
+      const dim = dimensions[id]
+      if (!dim) throw new Error(`Variable ${name} refers to unknown dimension ${id}`)
+      return dim
+    })
+    return {
+      name,
+      dimensions: dims.map(dim => dim.name),
+      shape: dims.map(dim => dim.size),
+      attributes: varAttributes,
+      type,
+      isRecord: dims[0]?.isRecord ?? false,
+      vsize,
+      begin,
+    }
+  })
+
+  const recordVariables = variables.filter(variable => variable.isRecord)
+  // A single record variable is stored without padding between records
+  const recordSize = recordVariables.length === 1
+    ? recordVariables[0].shape.slice(1).reduce((product, size) => product * size, 1) * TYPE_SIZES[recordVariables[0].type]
+    : recordVariables.reduce((sum, variable) => sum + variable.vsize, 0)
+
+  return { version, numRecords: rawNumRecords, recordSize, dimensions, attributes, variables }
+}
+
+const HEADER_CHUNK_BYTES = 64 * 1024
+
+/**
+ * Random-access reader over a File or Blob. Only the header is read up front;
+ * variable data is read with `Blob.slice`, so large model outputs are not
+ * loaded into memory as a whole.
+ */
+export class NetcdfReader {
+  private constructor(private blob: Blob, readonly header: NetcdfHeader) {}
+
+  static async open(blob: Blob): Promise<NetcdfReader> {
+    for (let length = HEADER_CHUNK_BYTES; ; length *= 4) {
+      const buffer = await blob.slice(0, length).arrayBuffer()
+      try {
+        const header = parseHeader(buffer)
+        return new NetcdfReader(blob, resolveRecordCount(header, blob.size))
+      } catch (error) {
+        if (!(error instanceof TruncatedHeader)) throw error
+        if (length >= blob.size) throw new Error('NetCDF header is truncated')
+      }
+    }
+  }
+
+  getVariable(name: string): NetcdfVariable {
+    const variable = this.header.variables.find(v => v.name === name)
+    if (!variable) throw new Error(`Variable ${name} not found`)
+    return variable
+  }
+
+  getDimension(name: string): NetcdfDimension | undefined {
+    return this.header.dimensions.find(dim => dim.name === name)
+  }
+
+  /**
+   * Read a contiguous block of a variable: `leading` fixes the first
+   * indices (including the record index for record variables) and every
+   * remaining dimension is read in full, in row-major order.
+   */
+  async readBlock(name: string, leading: number[] = []): Promise<Float64Array> {
+    const variable = this.getVariable(name)
+    const shape = variable.isRecord ? [this.header.numRecords, ...variable.shape.slice(1)] : variable.shape
+    if (leading.length > shape.length) throw new Error(`Too many indices for ${name}`)
+    leading.forEach((index, i) => {
+      if (!Number.isInteger(index) || index < 0 || index >= shape[i]) {
+        throw new Error(`Index ${index} out of range for dimension ${variable.dimensions[i]} of ${name}`)
+      }
+    })
+
+    const typeSize = TYPE_SIZES[variable.type]
+    const blockLength = shape.slice(leading.length).reduce((product, size) => product * size, 1)
+
+    // Record variables whose whole record range is requested are read record by record
+    if (variable.isRecord && leading.length === 0) {
+      const values = new Float64Array(blockLength)
+      const perRecord = blockLength / Math.max(shape[0], 1)
+      for (let record = 0; record < shape[0]; record++) {
+        values.set(await this.readBlock(name, [record]), record * perRecord)
+      }
+      return values
+    }
+
+    let offset = variable.begin
+    let inner = leading
+    if (variable.isRecord) {
+      offset += leading[0] * this.header.recordSize
+      inner = leading.slice(1)
+    }
+    const innerShape = variable.isRecord ? shape.slice(1) : shape
+    let stride = blockLength
+    for (let i = inner.length - 1; i >= 0; i--) {
+      offset += inner[i] * stride * typeSize
+      stride *= innerShape[i]
+    }
+
+    const buffer = await this.blob.slice(offset, offset + blockLength * typeSize).arrayBuffer()
+    if (buffer.byteLength < blockLength * typeSize) throw new Error(`Data of ${name} is truncated`)
+    const view = new DataView(buffer)
+    const values = new Float64Array(blockLength)
+    for (let i = 0; i < blockLength; i++) values[i] = readValue(view, variable.type, i * typeSize)
+    return values
+  }
+
+  // Whole variable, e.g. a 1D coordinate variable
+  readVariable(name: string): Promise<Float64Array> {
+    return this.readBlock(name)
+  }
+}
+
+// Streaming writers leave numrecs unset; derive it from the file size instead
+const resolveRecordCount = (header: NetcdfHeader, fileSize: number): NetcdfHeader => {
+  const recordDim = header.dimensions.find(dim => dim.isRecord)
+  let numRecords = header.numRecords
+  if (numRecords === STREAMING_NUMRECS) {
+    const firstRecord = Math.min(...header.variables.filter(v => v.isRecord).map(v => v.begin))
+    numRecords = header.recordSize > 0 && Number.isFinite(firstRecord)
+      ? Math.floor((fileSize - firstRecord) / header.recordSize)
+      : 0
+  }
+  if (recordDim) recordDim.size = numRecords
+  header.variables.forEach(variable => {
+    if (variable.isRecord) variable.shape[0] = numRecords
+  })
+  return { ...header, numRecords }
+}
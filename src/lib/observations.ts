@@ -0,0 +1,217 @@
+// Long-format monitoring observations and their aggregation into wide series
+
+import {
+  CSVUpload,
+  OBSERVATION_VARIABLES,
+  Observation,
+  ObservationVariable,
+  PHYTOPLANKTON_GROUPS,
+  TimeSeriesPoint,
+} from './schemas'
+
+export const OBSERVATION_UNITS: Record<ObservationVariable, string> = {
+  diatom: 'mmol P/m³',
+  dinoflagellates: 'mmol P/m³',
+  small_phyto: 'mmol P/m³',
+  n_fixers: 'mmol P/m³',
+  microcystis: 'mmol P/m³',
+  chlorophyll: 'µg/L',
+  temperature: '°C',
+  dissolved_oxygen: 'mg/L',
+  total_phosphorus: 'µg P/L',
+  phosphate: 'µg P/L',
+  total_nitrogen: 'mg N/L',
+  nitrate: 'mg N/L',
+  ammonium: 'mg N/L',
+  silica: 'mg Si/L',
+  iron: 'µg Fe/L',
+  zoo_herbivores: 'mmol C/m³',
+  zoo_predatory: 'mmol C/m³',
+}
+
+export const OBSERVATION_LABELS: Record<ObservationVariable, string> = {
+  diatom: 'Diatoms',
+  dinoflagellates: 'Dinoflagellates',
+  small_phyto: 'Small phytoplankton',
+  n_fixers: 'N-fixers',
+  microcystis: 'Microcystis',
+  chlorophyll: 'Chlorophyll a',
+  temperature: 'Temperature',
+  dissolved_oxygen: 'Dissolved oxygen',
+  total_phosphorus: 'Total phosphorus',
+  phosphate: 'Phosphate',
+  total_nitrogen: 'Total nitrogen',
+  nitrate: 'Nitrate',
+  ammonium: 'Ammonium',
+  silica: 'Silica',
+  iron: 'Iron',
+  zoo_herbivores: 'Herbivorous zooplankton',
+  zoo_predatory: 'Predatory zooplankton',
+}
+
+// Station and depth assigned to rows that do not specify them
+export const DEFAULT_STATION = 'A'
+export const DEFAULT_DEPTH = 0
+
+export type AggregationStat = 'mean' | 'median' | 'min' | 'max' | 'sum'
+
+export interface ObservationFilter {
+  variables?: ObservationVariable[]
+  stations?: string[]
+  minDepth?: number // m, inclusive
+  maxDepth?: number // m, inclusive
+  startDate?: string // YYYY-MM-DD, inclusive
+  endDate?: string // YYYY-MM-DD, inclusive
+}
+
+export const filterObservations = (observations: Observation[], filter: ObservationFilter = {}): Observation[] => {
+  const variables = filter.variables && new Set(filter.variables)
+  const stations = filter.stations && new Set(filter.stations)
+
+  return observations.filter(obs =>
+    (!variables || variables.has(obs.variable)) &&
+    (!stations || stations.has(obs.station)) &&
+    (filter.minDepth === undefined || obs.depth >= filter.minDepth) &&
+    (filter.maxDepth === undefined || obs.depth <= filter.maxDepth) &&
+    (!filter.startDate || obs.date >= filter.startDate) &&
+    (!filter.endDate || obs.date <= filter.endDate)
+  )
+}
+
+export const aggregate = (values: number[], stat: AggregationStat = 'mean'): number => {
+  if (values.length === 0) return NaN
+  switch (stat) {
+    case 'sum':
+      return values.reduce((sum, value) => sum + value, 0)
+    case 'min':
+      return Math.min(...values)
+    case 'max':
+      return Math.max(...values)
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b)
+      const mid = Math.floor(sorted.length / 2)
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+    }
+    default:
+      return values.reduce((sum, value) => sum + value, 0) / values.length
+  }
+}
+
+// Group observation values by a key and reduce each group with the chosen statistic
+export const aggregateBy = <K extends string | number>(
+  observations: Observation[],
+  key: (obs: Observation) => K,
+  stat: AggregationStat = 'mean'
+): Map<K, number> => {
+  const groups = new Map<K, number[]>()
+  observations.forEach(obs => {
+    const k = key(obs)
+    const values = groups.get(k)
+    if (values) values.push(obs.value)
+    else groups.set(k, [obs.value])
+  })
+
+  const result = new Map<K, number>()
+  groups.forEach((values, k) => result.set(k, aggregate(values, stat)))
+  return result
+}
+
+export interface SeriesPoint {
+  date: string
+  value: number
+}
+
+// Per-date series of one variable over the selected stations and depths
+export const deriveVariableSeries = (
+  observations: Observation[],
+  variable: ObservationVariable,
+  filter: Omit<ObservationFilter, 'variables'> = {},
+  stat: AggregationStat = 'mean'
+): SeriesPoint[] => {
+  const byDate = aggregateBy(filterObservations(observations, { ...filter, variables: [variable] }), obs => obs.date, stat)
+  return Array.from(byDate.entries())
+    .map(([date, value]) => ({ date, value }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Wide per-date series of the five groups used by the existing charts.
+ * Stations and depths are averaged (or reduced with `stat`); dates where a
+ * group was not measured are dropped so no value is invented.
+ */
+export const deriveTimeSeries = (
+  observations: Observation[],
+  filter: Omit<ObservationFilter, 'variables'> = {},
+  stat: AggregationStat = 'mean'
+): TimeSeriesPoint[] => {
+  const selected = filterObservations(observations, { ...filter, variables: [...PHYTOPLANKTON_GROUPS] })
+  const byDateGroup = aggregateBy(selected, obs => `${obs.date}|${obs.variable}`, stat)
+  const dates = Array.from(new Set(selected.map(obs => obs.date))).sort()
+
+  return dates.flatMap(date => {
+    const point = { date } as TimeSeriesPoint
+    for (const group of PHYTOPLANKTON_GROUPS) {
+      const value = byDateGroup.get(`${date}|${group}`)
+      if (value === undefined) return []
+      point[group] = value
+    }
+    return [point]
+  })
+}
+
+export interface DepthProfilePoint {
+  depth: number
+  value: number
+}
+
+// Vertical profile of one variable on one date, averaged across stations
+export const deriveDepthProfile = (
+  observations: Observation[],
+  variable: ObservationVariable,
+  date: string,
+  stations?: string[]
+): DepthProfilePoint[] => {
+  const byDepth = aggregateBy(
+    filterObservations(observations, { variables: [variable], stations, startDate: date, endDate: date }),
+    obs => obs.depth
+  )
+  return Array.from(byDepth.entries())
+    .map(([depth, value]) => ({ depth, value }))
+    .sort((a, b) => a.depth - b.depth)
+}
+
+// Mean of one variable per station over the filtered period
+export const deriveStationMeans = (
+  observations: Observation[],
+  variable: ObservationVariable,
+  filter: Omit<ObservationFilter, 'variables'> = {}
+): Record<string, number> =>
+  Object.fromEntries(aggregateBy(filterObservations(observations, { ...filter, variables: [variable] }), obs => obs.station))
+
+// Explode wide rows into long observations, one per group
+export const timeSeriesToObservations = (
+  rows: Array<TimeSeriesPoint | CSVUpload>,
+  station: string = DEFAULT_STATION,
+  depth: number = DEFAULT_DEPTH
+): Observation[] =>
+  rows.flatMap(row => {
+    const upload = row as CSVUpload
+    return PHYTOPLANKTON_GROUPS.map(group => ({
+      date: row.date,
+      station: upload.station ?? station,
+      depth: upload.depth ?? depth,
+      variable: group,
+      value: row[group],
+    }))
+  })
+
+export const getStations = (observations: Observation[]): string[] =>
+  Array.from(new Set(observations.map(obs => obs.station))).sort()
+
+export const getDepths = (observations: Observation[]): number[] =>
+  Array.from(new Set(observations.map(obs => obs.depth))).sort((a, b) => a - b)
+
+export const getObservedVariables = (observations: Observation[]): ObservationVariable[] => {
+  const present = new Set(observations.map(obs => obs.variable))
+  return OBSERVATION_VARIABLES.filter(variable => present.has(variable))
+}
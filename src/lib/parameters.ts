@@ -0,0 +1,161 @@
+// Registry of the phytoplankton group parameters: one value per group and parameter, with its
+// literature range, reference and change history. The NPZ, biomass response and water-column
+// models and every page read group parameters from here.
+
+import {
+  GroupParams,
+  GroupParamsSchema,
+  PHYTOPLANKTON_GROUPS,
+  ParameterChange,
+  ParameterRegistry,
+  ParameterRegistrySchema,
+  PhytoplanktonGroup,
+  REGISTRY_PARAMETERS,
+  RegistryParameter,
+} from '@/lib/schemas'
+import type { PiCurve } from '@/lib/model/light'
+import registryData from '@/data/parameter-registry.json'
+
+export const DEFAULT_PARAMETER_REGISTRY: ParameterRegistry = ParameterRegistrySchema.parse(registryData)
+
+// Parameters of the NPZ model, in GroupParams order
+export const GROUP_PARAM_KEYS = Object.keys(GroupParamsSchema.shape) as Array<keyof GroupParams>
+
+export const groupParamsOf = (registry: ParameterRegistry, group: PhytoplanktonGroup): GroupParams =>
+  Object.fromEntries(GROUP_PARAM_KEYS.map(key => [key, registry.groups[group].values[key].value])) as GroupParams
+
+export const modelGroupsOf = (registry: ParameterRegistry): Record<PhytoplanktonGroup, GroupParams> =>
+  Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [group, groupParamsOf(registry, group)])) as Record<PhytoplanktonGroup, GroupParams>
+
+// Group parameters saved before a parameter joined GroupParams (grazingPreference), completed with the bundled values
+export const withDefaultGroupParams = (groups: Record<PhytoplanktonGroup, Partial<GroupParams>>): Record<PhytoplanktonGroup, GroupParams> =>
+  Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [group, { ...groupParamsOf(DEFAULT_PARAMETER_REGISTRY, group), ...groups[group] }])) as Record<PhytoplanktonGroup, GroupParams>
+
+// P–I curve of a group; a zero inhibition scale means no photoinhibition
+export const piCurveOf = (registry: ParameterRegistry, group: PhytoplanktonGroup): PiCurve => {
+  const { piSaturation, piInhibition } = registry.groups[group].values
+  return piInhibition.value > 0
+    ? { saturation: piSaturation.value, inhibition: piInhibition.value }
+    : { saturation: piSaturation.value }
+}
+
+export const piCurvesOf = (registry: ParameterRegistry): Record<PhytoplanktonGroup, PiCurve> =>
+  Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [group, piCurveOf(registry, group)])) as Record<PhytoplanktonGroup, PiCurve>
+
+// Sinking velocity of each group in the water column, m/day; negative values float
+export const sinkingOf = (registry: ParameterRegistry): Record<PhytoplanktonGroup, number> =>
+  Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [group, registry.groups[group].values.sinking.value])) as Record<PhytoplanktonGroup, number>
+
+// Registry with the bundled parameter definitions; they describe the models, so files and saved state do not override them
+export const withDefaultDefinitions = (registry: ParameterRegistry): ParameterRegistry => ({
+  ...registry,
+  parameters: DEFAULT_PARAMETER_REGISTRY.parameters,
+})
+
+// Why a value cannot be used, or null when it can
+export const parameterValueError = (registry: ParameterRegistry, param: RegistryParameter, value: number): string | null => {
+  const { name, bounds: [min, max] } = registry.parameters[param]
+  if (!Number.isFinite(value)) return `${name} must be a number`
+  if (value < min || value > max) return `${name} must be between ${min} and ${max}`
+  return null
+}
+
+// Whether a value lies outside the literature range of its group
+export const isOutsideRange = (registry: ParameterRegistry, group: PhytoplanktonGroup, param: RegistryParameter): boolean => {
+  const { value, min, max } = registry.groups[group].values[param]
+  return value < min || value > max
+}
+
+/**
+ * Set a value and append the change to its history. Mutates the registry
+ * (an immer draft in the store); unchanged and inadmissible values are
+ * ignored. Returns whether the value changed.
+ */
+export const setRegistryValue = (
+  registry: ParameterRegistry,
+  group: PhytoplanktonGroup,
+  param: RegistryParameter,
+  value: number,
+  change: Pick<ParameterChange, 'source' | 'note'>,
+  date: string = new Date().toISOString()
+): boolean => {
+  const entry = registry.groups[group].values[param]
+  if (value === entry.value || parameterValueError(registry, param, value) !== null) return false
+  entry.history.push({ date, value, previous: entry.value, source: change.source, ...(change.note ? { note: change.note } : {}) })
+  entry.value = value
+  return true
+}
+
+// Last change of a value, if it has any
+export const lastChange = (registry: ParameterRegistry, group: PhytoplanktonGroup, param: RegistryParameter): ParameterChange | undefined => {
+  const { history } = registry.groups[group].values[param]
+  return history[history.length - 1]
+}
+
+export const exportRegistryFile = (registry: ParameterRegistry): string => JSON.stringify(registry, null, 2)
+
+/**
+ * Read a registry file. Parameter definitions are the bundled ones; values
+ * outside a parameter's admissible bounds are rejected so that no model is
+ * ever run with them. Throws with the first problem found.
+ */
+export const parseRegistryFile = (text: string): ParameterRegistry => {
+  const parsed = ParameterRegistrySchema.safeParse(JSON.parse(text))
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Not a parameter registry: ${issue.path.join('.') || 'file'}: ${issue.message}`)
+  }
+  const registry = withDefaultDefinitions(parsed.data)
+  for (const group of PHYTOPLANKTON_GROUPS) {
+    for (const param of REGISTRY_PARAMETERS) {
+      const error = parameterValueError(registry, param, registry.groups[group].values[param].value)
+      if (error) throw new Error(`${registry.groups[group].name}: ${error}`)
+    }
+  }
+  return registry
+}
+
+const csvCell = (value: string | number): string => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One row per group and parameter
+export const registryToCsv = (registry: ParameterRegistry): string => {
+  const header = ['group', 'parameter', 'name', 'hebrew_name', 'value', 'min', 'max', 'units', 'models', 'reference', 'changes', 'last_changed']
+  const rows = PHYTOPLANKTON_GROUPS.flatMap(group => REGISTRY_PARAMETERS.map(param => {
+    const definition = registry.parameters[param]
+    const entry = registry.groups[group].values[param]
+    return [
+      group,
+      param,
+      definition.name,
+      definition.hebrewName,
+      entry.value,
+      entry.min,
+      entry.max,
+      definition.units,
+      definition.models.join(' '),
+      entry.reference,
+      entry.history.length,
+      lastChange(registry, group, param)?.date ?? '',
+    ].map(csvCell).join(',')
+  }))
+  return [header.join(','), ...rows].join('\n')
+}
+
+/**
+ * Registry with group parameters saved before it existed. Values that
+ * differ from the defaults are recorded as changes; inadmissible ones are
+ * dropped.
+ */
+export const registryFromGroups = (groups: Partial<Record<PhytoplanktonGroup, Partial<GroupParams>>>, source: string): ParameterRegistry => {
+  const registry = structuredClone(DEFAULT_PARAMETER_REGISTRY)
+  for (const group of PHYTOPLANKTON_GROUPS) {
+    for (const key of GROUP_PARAM_KEYS) {
+      const value = groups[group]?.[key]
+      if (typeof value === 'number') setRegistryValue(registry, group, key, value, { source })
+    }
+  }
+  return registry
+}
@@ -3,6 +3,9 @@
  * Implements multiple forecasting algorithms for Lake Kinneret data
  */
 
+import { resampleRecords } from '../resampling';
+import { SkillMetrics, skillMetrics } from '../model/evaluation';
+
 export interface PredictionData {
   date: string;
   diatoms: number;
@@ -12,6 +15,8 @@ export interface PredictionData {
   microcystis: number;
 }
 
+const PREDICTION_KEYS = ['diatoms', 'dinoflagellates', 'small_phyto', 'n_fixers', 'microcystis'] as const;
+
 export interface PredictionResult {
   date: string;
   predicted: number;
@@ -57,7 +62,9 @@ export class PhytoplanktonPredictor {
   private historicalData: PredictionData[] = [];
 
   constructor(data: PredictionData[]) {
-    this.historicalData = data.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    // The models step in months, so irregular sampling is regularised onto a monthly grid first
+    this.historicalData = resampleRecords(data, PREDICTION_KEYS, { frequency: 'monthly', method: 'linear' })
+      .map(({ interpolated: _interpolated, ...point }) => point);
   }
 
   /**
@@ -272,9 +279,10 @@ export class PhytoplanktonPredictor {
   }
 
   /**
-   * Get model accuracy metrics
+   * Hold-out skill of every model: each is fitted to the first 75% of the
+   * record and scored on forecasts of the rest
    */
-  public getModelAccuracy(group: keyof Omit<PredictionData, 'date'>): Record<string, number> {
+  public getModelSkill(group: keyof Omit<PredictionData, 'date'>): Record<string, SkillMetrics> {
     const values = this.historicalData.map(d => d[group]);
     if (values.length < 12) return {};
 
@@ -282,31 +290,19 @@ export class PhytoplanktonPredictor {
     const splitIndex = Math.floor(values.length * 0.75);
     const trainingData = values.slice(0, splitIndex);
     const testData = values.slice(splitIndex);
+    const trainingValues = trainingData.map((v, i) => ({ x: i, y: v }));
 
-    const accuracies: Record<string, number> = {};
+    const skill: Record<string, SkillMetrics> = {};
 
     PREDICTION_MODELS.forEach(model => {
       try {
-        const trainingValues = trainingData.map((v, i) => ({ x: i, y: v }));
-        const predictions = [];
-        
-        for (let i = 0; i < testData.length; i++) {
-          const prediction = this.calculatePrediction(trainingValues, model, i + 1);
-          predictions.push(prediction);
-        }
-
-        // Calculate RMSE
-        const rmse = Math.sqrt(
-          predictions.reduce((sum, pred, i) => sum + Math.pow(pred - testData[i], 2), 0) / predictions.length
-        );
-        
-        // Convert RMSE to accuracy percentage (inverse relationship)
-        accuracies[model.name] = Math.max(0, 100 - rmse * 100);
+        const predictions = testData.map((_, i) => this.calculatePrediction(trainingValues, model, i + 1));
+        skill[model.name] = skillMetrics(testData, predictions);
       } catch (error) {
-        accuracies[model.name] = 0;
+        // Models that cannot be fitted to this record are left out
       }
     });
 
-    return accuracies;
+    return skill;
   }
 }
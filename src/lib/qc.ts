@@ -0,0 +1,268 @@
+// Quality control of imported observations: range, spike, duplicate, ordering and gap checks
+
+import researchParameters from '@/data/research-parameters.json'
+import {
+  Observation,
+  ObservationVariable,
+  PHYTOPLANKTON_GROUPS,
+  QcCheck,
+  QcFlag,
+  QcGap,
+  QcLevel,
+  QcReport,
+  TimeSeriesPoint,
+} from './schemas'
+import { OBSERVATION_UNITS } from './observations'
+
+export type SpikeMethod = QcReport['spikeMethod']
+
+export interface QcOptions {
+  spikeMethod: SpikeMethod
+  madThreshold: number // robust z-score above which a residual is a spike
+  iqrFactor: number // Tukey fence multiplier for the IQR method
+  spikeWindow: number // points on each side of the running median
+  gapFactor: number // gap when an interval exceeds this multiple of the median interval
+  badRangeFactor: number // values above max × factor are bad rather than suspect
+}
+
+export const DEFAULT_QC_OPTIONS: QcOptions = {
+  spikeMethod: 'mad',
+  madThreshold: 3.5,
+  iqrFactor: 3,
+  spikeWindow: 2,
+  gapFactor: 1.5,
+  badRangeFactor: 10,
+}
+
+export const QC_CHECK_LABELS: Record<QcCheck, string> = {
+  range: 'Out of range',
+  spike: 'Spike',
+  duplicate: 'Duplicate date',
+  non_monotonic: 'Date out of order',
+}
+
+export interface QcRange {
+  min: number
+  max: number
+}
+
+// Plausible bounds per variable; groups use their documented maximum concentration
+const buildRanges = (): Partial<Record<ObservationVariable, QcRange>> => {
+  const ranges: Partial<Record<ObservationVariable, QcRange>> = {}
+  PHYTOPLANKTON_GROUPS.forEach(group => {
+    ranges[group] = { min: 0, max: researchParameters.phytoplanktonGroups[group].maxConcentration }
+  })
+  ranges.zoo_herbivores = { min: 0, max: researchParameters.zooplanktonGroups.herbivores.maxConcentration }
+  ranges.zoo_predatory = { min: 0, max: researchParameters.zooplanktonGroups.predatory.maxConcentration }
+  Object.entries(researchParameters.qcRanges).forEach(([variable, range]) => {
+    ranges[variable as ObservationVariable] = { min: range.min, max: range.max }
+  })
+  return ranges
+}
+
+export const QC_RANGES = buildRanges()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS)
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+const quantile = (sorted: number[], q: number): number => {
+  const pos = (sorted.length - 1) * q
+  const lower = Math.floor(pos)
+  const upper = Math.ceil(pos)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower)
+}
+
+const flagFor = (obs: Observation, check: QcCheck, level: QcLevel, message: string): QcFlag => ({
+  date: obs.date,
+  station: obs.station,
+  depth: obs.depth,
+  variable: obs.variable,
+  value: obs.value,
+  check,
+  level,
+  message,
+})
+
+const checkRange = (obs: Observation, options: QcOptions): QcFlag | null => {
+  const range = QC_RANGES[obs.variable]
+  if (!range) return null
+  const unit = OBSERVATION_UNITS[obs.variable]
+  if (obs.value < range.min) {
+    return flagFor(obs, 'range', 'bad', `Below minimum ${range.min} ${unit}`)
+  }
+  if (obs.value > range.max * options.badRangeFactor) {
+    return flagFor(obs, 'range', 'bad', `Above ${options.badRangeFactor}× maximum ${range.max} ${unit}; check units`)
+  }
+  if (obs.value > range.max) {
+    return flagFor(obs, 'range', 'suspect', `Above documented maximum ${range.max} ${unit}`)
+  }
+  return null
+}
+
+/**
+ * Spikes are residuals from a running median that are extreme relative to
+ * all residuals of the series, scaled either by MAD or by Tukey IQR fences.
+ */
+const detectSpikes = (series: Observation[], options: QcOptions): QcFlag[] => {
+  const minLength = 2 * options.spikeWindow + 1
+  if (series.length < minLength) return []
+
+  const values = series.map(obs => obs.value)
+  const residuals = values.map((value, i) => {
+    const from = Math.max(0, i - options.spikeWindow)
+    const to = Math.min(values.length, i + options.spikeWindow + 1)
+    return value - median(values.slice(from, to))
+  })
+
+  if (options.spikeMethod === 'iqr') {
+    const sorted = [...residuals].sort((a, b) => a - b)
+    const q1 = quantile(sorted, 0.25)
+    const q3 = quantile(sorted, 0.75)
+    const iqr = q3 - q1
+    if (iqr === 0) return []
+    const lower = q1 - options.iqrFactor * iqr
+    const upper = q3 + options.iqrFactor * iqr
+    return series.flatMap((obs, i) =>
+      residuals[i] < lower || residuals[i] > upper
+        ? [flagFor(obs, 'spike', 'suspect', `Residual ${residuals[i].toPrecision(3)} outside IQR fences`)]
+        : []
+    )
+  }
+
+  const center = median(residuals)
+  const mad = median(residuals.map(r => Math.abs(r - center)))
+  if (mad === 0) return []
+  return series.flatMap((obs, i) => {
+    // 0.6745 scales MAD to a standard deviation for normal data
+    const z = (0.6745 * (residuals[i] - center)) / mad
+    return Math.abs(z) > options.madThreshold
+      ? [flagFor(obs, 'spike', 'suspect', `Robust z-score ${z.toFixed(1)}`)]
+      : []
+  })
+}
+
+const seriesKey = (obs: Observation) => `${obs.station}|${obs.depth}|${obs.variable}`
+
+// Run all checks; observations are expected in file order so ordering problems are visible
+export const runQualityControl = (
+  observations: Observation[],
+  options: Partial<QcOptions> = {}
+): QcReport => {
+  const opts = { ...DEFAULT_QC_OPTIONS, ...options }
+  const flags: QcFlag[] = []
+
+  observations.forEach(obs => {
+    const flag = checkRange(obs, opts)
+    if (flag) flags.push(flag)
+  })
+
+  // Per station/depth/variable series in file order
+  const series = new Map<string, Observation[]>()
+  observations.forEach(obs => {
+    const key = seriesKey(obs)
+    const list = series.get(key)
+    if (list) list.push(obs)
+    else series.set(key, [obs])
+  })
+
+  series.forEach(list => {
+    let latest = ''
+    list.forEach(obs => {
+      if (obs.date < latest) {
+        flags.push(flagFor(obs, 'non_monotonic', 'suspect', `Follows a later date (${latest})`))
+      } else {
+        latest = obs.date
+      }
+    })
+
+    const counts = new Map<string, number>()
+    list.forEach(obs => counts.set(obs.date, (counts.get(obs.date) ?? 0) + 1))
+    list.forEach(obs => {
+      const count = counts.get(obs.date) ?? 0
+      if (count > 1) flags.push(flagFor(obs, 'duplicate', 'suspect', `${count} values for this date`))
+    })
+
+    const sorted = [...list].sort((a, b) => a.date.localeCompare(b.date))
+    flags.push(...detectSpikes(sorted, opts))
+  })
+
+  return {
+    createdAt: new Date().toISOString(),
+    spikeMethod: opts.spikeMethod,
+    checkedValues: observations.length,
+    flags,
+    gaps: detectGaps(observations, opts.gapFactor),
+  }
+}
+
+// Intervals much longer than the usual sampling interval of each station/depth
+export const detectGaps = (observations: Observation[], gapFactor: number = DEFAULT_QC_OPTIONS.gapFactor): QcGap[] => {
+  const dates = new Map<string, Set<string>>()
+  observations.forEach(obs => {
+    const key = `${obs.station}|${obs.depth}`
+    const set = dates.get(key)
+    if (set) set.add(obs.date)
+    else dates.set(key, new Set([obs.date]))
+  })
+
+  const gaps: QcGap[] = []
+  dates.forEach((set, key) => {
+    const sorted = Array.from(set).sort()
+    if (sorted.length < 3) return
+    const intervals = sorted.slice(1).map((date, i) => daysBetween(sorted[i], date))
+    const threshold = median(intervals) * gapFactor
+    const [station, depth] = key.split('|')
+    intervals.forEach((days, i) => {
+      if (days > threshold) {
+        gaps.push({ station, depth: Number(depth), from: sorted[i], to: sorted[i + 1], days })
+      }
+    })
+  })
+  return gaps.sort((a, b) => a.from.localeCompare(b.from))
+}
+
+export const countFlags = (report: QcReport): Record<QcCheck, number> => {
+  const counts: Record<QcCheck, number> = { range: 0, spike: 0, duplicate: 0, non_monotonic: 0 }
+  report.flags.forEach(flag => counts[flag.check]++)
+  return counts
+}
+
+// Number of distinct values with at least one flag
+export const countFlaggedValues = (report: QcReport): number =>
+  new Set(report.flags.map(flag => `${flag.date}|${flag.station}|${flag.depth}|${flag.variable}`)).size
+
+// Worst flag per date and variable, for charts of the wide per-date series
+export const getFlagLevels = (report: QcReport | undefined): Map<string, QcLevel> => {
+  const levels = new Map<string, QcLevel>()
+  report?.flags.forEach(flag => {
+    const key = flagKey(flag.date, flag.variable)
+    if (levels.get(key) !== 'bad') levels.set(key, flag.level)
+  })
+  return levels
+}
+
+export const flagKey = (date: string, variable: ObservationVariable) => `${date}|${variable}`
+
+export const QC_DISPLAY_MODES = ['show', 'highlight', 'hide'] as const
+
+export type QcDisplayMode = typeof QC_DISPLAY_MODES[number]
+
+// Replace flagged group values with NaN so they drop out of charts and statistics
+export const maskFlaggedValues = (timeseries: TimeSeriesPoint[], levels: Map<string, QcLevel>): TimeSeriesPoint[] => {
+  if (levels.size === 0) return timeseries
+  return timeseries.map(point => {
+    const masked = { ...point }
+    PHYTOPLANKTON_GROUPS.forEach(group => {
+      if (levels.has(flagKey(point.date, group))) masked[group] = NaN
+    })
+    return masked
+  })
+}
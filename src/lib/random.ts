@@ -0,0 +1,13 @@
+// Seeded random numbers, so maps, searches and ensembles can be repeated exactly
+
+// Deterministic generator of uniform numbers in [0, 1) (mulberry32)
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,48 @@
+// Bundled Lake Kinneret bathymetry: water depth per cell, sampling and depth contours.
+// The grid is synthetic (scripts/generate-bathymetry.js), so every view of depths carries BATHYMETRY_NOTE.
+
+import bathymetryData from '@/data/kinneret-bathymetry.json'
+import { GridField, fieldFromRows, maskField, sampleField } from './grid-field'
+import { KINNERET_LAKE, LakeGeometry, LonLatBounds } from './lake'
+import { contourLines } from './contours'
+
+export const BATHYMETRY_CONTOUR_LEVELS = [10, 20, 30, 40]
+
+export const BATHYMETRY_NOTE = bathymetryData.synthetic
+  ? 'Synthetic bathymetry modelled from distance to shore, not survey data'
+  : bathymetryData.source
+
+// Depth in m below the reference water level; NaN on land
+export const KINNERET_BATHYMETRY: GridField = fieldFromRows(
+  bathymetryData.depths.map(row => row.map(depth => depth ?? NaN)),
+  bathymetryData.bounds as LonLatBounds,
+  {
+    id: 'kinneret-bathymetry',
+    name: bathymetryData.name,
+    source: bathymetryData.source,
+    variable: 'depth',
+    units: bathymetryData.units,
+    createdAt: '',
+  }
+)
+
+const lakeBathymetry = new WeakMap<LakeGeometry, GridField>()
+
+// Bathymetry clipped to a shoreline; cells of a custom outline beyond the bundled grid have no depth
+export const getLakeBathymetry = (lake: LakeGeometry = KINNERET_LAKE): GridField => {
+  if (lake === KINNERET_LAKE) return KINNERET_BATHYMETRY
+  let field = lakeBathymetry.get(lake)
+  if (!field) {
+    field = maskField(KINNERET_BATHYMETRY, lake.polygons)
+    lakeBathymetry.set(lake, field)
+  }
+  return field
+}
+
+// Water depth at a coordinate in m; NaN on land or outside the grid
+export const depthAt = (lon: number, lat: number, bathymetry: GridField = KINNERET_BATHYMETRY): number =>
+  sampleField(bathymetry, lon, lat, 'bilinear')
+
+// Depth contours for the map, clipped to the shoreline
+export const bathymetryContours = (lake: LakeGeometry = KINNERET_LAKE, levels: number[] = BATHYMETRY_CONTOUR_LEVELS) =>
+  contourLines(getLakeBathymetry(lake), levels, lake.polygons)
@@ -0,0 +1,82 @@
+// Contour lines of gridded fields by marching squares over cell centres
+
+import { GridField, cellToLonLat } from './grid-field'
+import { LonLat, PolygonRings, pointInPolygons } from './lake'
+
+// Segment end points in fractional cell units from the grid corner
+export type ContourSegment = [[number, number], [number, number]]
+
+/**
+ * Segments where the field crosses `level`. Squares touching a nodata cell
+ * are skipped, so contours never leave a masked field. Saddles are resolved
+ * with the mean of the four corners.
+ */
+export const contourSegments = (field: GridField, level: number): ContourSegment[] => {
+  const segments: ContourSegment[] = []
+  const { width, values } = field
+
+  for (let j = 0; j < field.height - 1; j++) {
+    for (let i = 0; i < width - 1; i++) {
+      const a = values[j * width + i] // top left
+      const b = values[j * width + i + 1] // top right
+      const c = values[(j + 1) * width + i + 1] // bottom right
+      const d = values[(j + 1) * width + i] // bottom left
+      if (!(Number.isFinite(a) && Number.isFinite(b) && Number.isFinite(c) && Number.isFinite(d))) continue
+
+      const above = [a >= level, b >= level, c >= level, d >= level]
+      if (above.every(Boolean) || !above.some(Boolean)) continue
+
+      // Crossing point on the edge between two corners, in cell units
+      const x = i + 0.5
+      const y = j + 0.5
+      const cross = (v1: number, v2: number) => (level - v1) / (v2 - v1)
+      const top: [number, number] | null = above[0] !== above[1] ? [x + cross(a, b), y] : null
+      const right: [number, number] | null = above[1] !== above[2] ? [x + 1, y + cross(b, c)] : null
+      const bottom: [number, number] | null = above[3] !== above[2] ? [x + cross(d, c), y + 1] : null
+      const left: [number, number] | null = above[0] !== above[3] ? [x, y + cross(a, d)] : null
+
+      if (top && right && bottom && left) {
+        // Cut off the two corners that differ from the centre
+        const centreAbove = (a + b + c + d) / 4 >= level
+        if (above[0] !== centreAbove) {
+          segments.push([top, left], [bottom, right])
+        } else {
+          segments.push([top, right], [bottom, left])
+        }
+        continue
+      }
+
+      const ends = [top, right, bottom, left].filter((point): point is [number, number] => point !== null)
+      if (ends.length === 2) segments.push([ends[0], ends[1]])
+    }
+  }
+
+  return segments
+}
+
+// Contours at each level as GeoJSON, optionally dropping segments outside the polygons
+export const contourLines = (field: GridField, levels: number[], clipTo?: PolygonRings[]) => ({
+  type: 'FeatureCollection' as const,
+  features: levels.flatMap(level => {
+    const lines = contourSegments(field, level)
+      .map(segment => segment.map(([column, row]) => cellToLonLat(field, column, row)) as [LonLat, LonLat])
+      .filter(([[x1, y1], [x2, y2]]) => !clipTo || pointInPolygons((x1 + x2) / 2, (y1 + y2) / 2, clipTo))
+    return lines.length === 0
+      ? []
+      : [{
+          type: 'Feature' as const,
+          properties: { value: level, units: field.units },
+          geometry: { type: 'MultiLineString' as const, coordinates: lines },
+        }]
+  }),
+})
+
+// Evenly spaced levels covering the field's range
+export const contourLevels = (min: number, max: number, interval: number): number[] => {
+  if (!(interval > 0) || !Number.isFinite(min) || !Number.isFinite(max)) return []
+  const levels: number[] = []
+  for (let level = Math.ceil(min / interval) * interval; level <= max; level += interval) {
+    levels.push(Number(level.toPrecision(12)))
+  }
+  return levels
+}
@@ -0,0 +1,240 @@
+// Georeferenced gridded fields: dimensions, CRS, affine transform, nodata, sampling, masking and statistics
+
+import { ObservationVariable } from '@/lib/schemas'
+import { LAKE_POLYGONS, LonLatBounds, PolygonRings, pointInPolygons } from './lake'
+
+export const CRS_WGS84 = 'EPSG:4326'
+
+/**
+ * GDAL-style affine transform from cell indices to coordinates, measured
+ * from the outer corner of the first cell:
+ *   x = t[0] + column * t[1] + row * t[2]
+ *   y = t[3] + column * t[4] + row * t[5]
+ * A north-up grid has t[2] = t[4] = 0 and a negative t[5].
+ */
+export type GeoTransform = [number, number, number, number, number, number]
+
+export interface GridField {
+  id: string
+  name: string
+  source: string // file or model the field came from
+  variable: string // variable name in the source
+  quantity: ObservationVariable | null // what the field represents, when known
+  units: string
+  width: number
+  height: number
+  crs: string
+  transform: GeoTransform
+  nodata: number | null // sentinel used by the source; `values` holds NaN in its place
+  values: Float32Array // row-major in transform order
+  time: string | null // ISO date of the time slice
+  depth: number | null // m below the surface
+  timeIndex: number | null // index of the slice in the source time axis
+  depthIndex: number | null // index of the slice in the source depth axis
+  min: number
+  max: number
+  createdAt: string
+  categories?: string[] // labels of a categorical field; cell values index them
+}
+
+export type GridFieldOptions = Partial<Omit<GridField, 'width' | 'height' | 'transform' | 'values' | 'min' | 'max'>>
+
+export interface GridFieldStats {
+  count: number // cells with data
+  nodataCount: number
+  min: number
+  max: number
+  mean: number
+  std: number
+  median: number
+  sum: number
+}
+
+export type SampleMethod = 'nearest' | 'bilinear'
+
+// North-up transform whose cells exactly cover the bounds
+export const boundsToTransform = ([[west, south], [east, north]]: LonLatBounds, width: number, height: number): GeoTransform =>
+  [west, (east - west) / width, 0, north, 0, -(north - south) / height]
+
+const valueRange = (values: ArrayLike<number>): { min: number; max: number } => {
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (!Number.isFinite(value)) continue
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  return Number.isFinite(min) ? { min, max } : { min: 0, max: 0 }
+}
+
+const createFieldId = () => `grid-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+/**
+ * Build a field from row-major values. Values equal to `options.nodata`
+ * and non-finite values are stored as NaN.
+ */
+export const createGridField = (
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  transform: GeoTransform,
+  options: GridFieldOptions = {}
+): GridField => {
+  if (values.length !== width * height) {
+    throw new Error(`Grid of ${width}×${height} cells needs ${width * height} values, got ${values.length}`)
+  }
+  const nodata = options.nodata ?? null
+  const stored = new Float32Array(values.length)
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    stored[i] = value === nodata || !Number.isFinite(value) ? NaN : value
+  }
+
+  return {
+    id: options.id ?? createFieldId(),
+    name: options.name ?? options.variable ?? 'Grid',
+    source: options.source ?? '',
+    variable: options.variable ?? options.name ?? 'grid',
+    quantity: options.quantity ?? null,
+    units: options.units ?? '',
+    width,
+    height,
+    crs: options.crs ?? CRS_WGS84,
+    transform,
+    nodata,
+    values: stored,
+    time: options.time ?? null,
+    depth: options.depth ?? null,
+    timeIndex: options.timeIndex ?? null,
+    depthIndex: options.depthIndex ?? null,
+    ...valueRange(stored),
+    createdAt: options.createdAt ?? new Date().toISOString(),
+    ...(options.categories ? { categories: options.categories } : {}),
+  }
+}
+
+// Field from rows listed north to south, covering `bounds`
+export const fieldFromRows = (rows: number[][], bounds: LonLatBounds, options: GridFieldOptions = {}): GridField => {
+  const height = rows.length
+  const width = rows[0]?.length ?? 0
+  const values = new Float32Array(width * height)
+  rows.forEach((row, j) => row.forEach((value, i) => {
+    values[j * width + i] = value
+  }))
+  return createGridField(values, width, height, boundsToTransform(bounds, width, height), options)
+}
+
+export const fieldToRows = (field: GridField): number[][] =>
+  Array.from({ length: field.height }, (_, j) => Array.from(field.values.subarray(j * field.width, (j + 1) * field.width)))
+
+// Same georeferencing and metadata with new values, e.g. after masking
+export const withValues = (field: GridField, values: Float32Array): GridField => ({
+  ...field,
+  values,
+  ...valueRange(values),
+})
+
+// Coordinates of a point given in (fractional) cell units from the grid corner
+export const cellToLonLat = (field: GridField, column: number, row: number): [number, number] => {
+  const [x0, a, b, y0, d, e] = field.transform
+  return [x0 + column * a + row * b, y0 + column * d + row * e]
+}
+
+export const cellCenter = (field: GridField, column: number, row: number): [number, number] =>
+  cellToLonLat(field, column + 0.5, row + 0.5)
+
+// Inverse transform: fractional cell units of a coordinate
+export const lonLatToCell = (field: GridField, lon: number, lat: number): [number, number] => {
+  const [x0, a, b, y0, d, e] = field.transform
+  const det = a * e - b * d
+  const dx = lon - x0
+  const dy = lat - y0
+  return [(e * dx - b * dy) / det, (a * dy - d * dx) / det]
+}
+
+// Corners in the order first row start, first row end, last row end, last row start
+export const getFieldCorners = (field: GridField): [[number, number], [number, number], [number, number], [number, number]] => [
+  cellToLonLat(field, 0, 0),
+  cellToLonLat(field, field.width, 0),
+  cellToLonLat(field, field.width, field.height),
+  cellToLonLat(field, 0, field.height),
+]
+
+export const getFieldBounds = (field: GridField): LonLatBounds => {
+  const corners = getFieldCorners(field)
+  const lons = corners.map(([lon]) => lon)
+  const lats = corners.map(([, lat]) => lat)
+  return [[Math.min(...lons), Math.min(...lats)], [Math.max(...lons), Math.max(...lats)]]
+}
+
+const valueAt = (field: GridField, column: number, row: number): number =>
+  column < 0 || column >= field.width || row < 0 || row >= field.height
+    ? NaN
+    : field.values[row * field.width + column]
+
+/**
+ * Value at a coordinate; NaN outside the grid or on nodata. Bilinear
+ * interpolation uses cell centres and falls back to the nearest cell
+ * where a neighbour has no data.
+ */
+export const sampleField = (field: GridField, lon: number, lat: number, method: SampleMethod = 'nearest'): number => {
+  const [column, row] = lonLatToCell(field, lon, lat)
+  const nearest = valueAt(field, Math.floor(column), Math.floor(row))
+  if (method === 'nearest') return nearest
+
+  const x = column - 0.5
+  const y = row - 0.5
+  const i = Math.floor(x)
+  const j = Math.floor(y)
+  const fx = x - i
+  const fy = y - j
+  const v00 = valueAt(field, i, j)
+  const v10 = valueAt(field, i + 1, j)
+  const v01 = valueAt(field, i, j + 1)
+  const v11 = valueAt(field, i + 1, j + 1)
+  if (![v00, v10, v01, v11].every(Number.isFinite)) return nearest
+  return (v00 * (1 - fx) + v10 * fx) * (1 - fy) + (v01 * (1 - fx) + v11 * fx) * fy
+}
+
+// Cells whose centre lies outside the polygons become nodata
+export const maskField = (field: GridField, polygons: PolygonRings[] = LAKE_POLYGONS): GridField => {
+  const values = new Float32Array(field.values)
+  for (let j = 0; j < field.height; j++) {
+    for (let i = 0; i < field.width; i++) {
+      const [lon, lat] = cellCenter(field, i, j)
+      if (!pointInPolygons(lon, lat, polygons)) values[j * field.width + i] = NaN
+    }
+  }
+  return withValues(field, values)
+}
+
+export const fieldStats = (field: GridField): GridFieldStats => {
+  const finite = Array.from(field.values).filter(Number.isFinite)
+  const count = finite.length
+  if (count === 0) {
+    return { count: 0, nodataCount: field.values.length, min: NaN, max: NaN, mean: NaN, std: NaN, median: NaN, sum: 0 }
+  }
+  const sum = finite.reduce((total, value) => total + value, 0)
+  const mean = sum / count
+  const variance = finite.reduce((total, value) => total + (value - mean) ** 2, 0) / count
+  const sorted = finite.sort((a, b) => a - b)
+  const mid = Math.floor(count / 2)
+  return {
+    count,
+    nodataCount: field.values.length - count,
+    min: sorted[0],
+    max: sorted[count - 1],
+    mean,
+    std: Math.sqrt(variance),
+    median: count % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid],
+    sum,
+  }
+}
+
+export const describeGridField = (field: GridField): string => {
+  const parts = [field.name]
+  if (field.time) parts.push(field.time)
+  if (field.depth !== null) parts.push(`${field.depth} m`)
+  return parts.join(' · ')
+}
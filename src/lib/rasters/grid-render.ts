@@ -0,0 +1,92 @@
+// Colouring of grid fields for map overlays and heatmap canvases
+
+import { COLOR_MAPS, hexToRgb } from '@/lib/biomass/colormap'
+import { GridField } from './grid-field'
+
+export const getFieldColorMap = (field: GridField): string =>
+  field.quantity === 'temperature' ? 'turbo' : 'biomass'
+
+// Colours of the classes of a categorical field, in category order
+export const CATEGORY_COLORS = ['#7C3AED', '#2563EB', '#059669', '#B45309', '#DC2626', '#0891B2', '#DB2777', '#65A30D']
+
+export const categoryColor = (index: number): string => CATEGORY_COLORS[index % CATEGORY_COLORS.length]
+
+const categoryLookup = (count: number): Uint8ClampedArray => {
+  const lookup = new Uint8ClampedArray(count * 3)
+  for (let k = 0; k < count; k++) {
+    const { r, g, b } = hexToRgb(categoryColor(k)) ?? { r: 0, g: 0, b: 0 }
+    lookup.set([r, g, b], k * 3)
+  }
+  return lookup
+}
+
+// 256-entry RGB lookup table of a named colormap
+const buildLookup = (colorMap: string): Uint8ClampedArray => {
+  const colors = (COLOR_MAPS[colorMap] ?? COLOR_MAPS.biomass).colors.map(hex => hexToRgb(hex) ?? { r: 0, g: 0, b: 0 })
+  const lookup = new Uint8ClampedArray(256 * 3)
+  for (let k = 0; k < 256; k++) {
+    const scaled = (k / 255) * (colors.length - 1)
+    const index = Math.min(Math.floor(scaled), colors.length - 2)
+    const fraction = scaled - index
+    const from = colors[index]
+    const to = colors[index + 1]
+    lookup[k * 3] = from.r + (to.r - from.r) * fraction
+    lookup[k * 3 + 1] = from.g + (to.g - from.g) * fraction
+    lookup[k * 3 + 2] = from.b + (to.b - from.b) * fraction
+  }
+  return lookup
+}
+
+/**
+ * Colour a field into RGBA pixels of the requested size, in cell order
+ * (nearest cell). Nodata cells are transparent. Categorical fields take a
+ * fixed colour per class and ignore the range and colormap.
+ */
+export const gridFieldToImageData = (
+  field: GridField,
+  width: number = field.width,
+  height: number = field.height,
+  range: { min: number; max: number } = field,
+  colorMap: string = getFieldColorMap(field),
+  alpha: number = 255
+): ImageData => {
+  const categories = field.categories?.length ?? 0
+  const lookup = categories > 0 ? categoryLookup(categories) : buildLookup(colorMap)
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  const span = range.max - range.min || 1
+
+  for (let y = 0; y < height; y++) {
+    const j = Math.min(field.height - 1, Math.floor((y / height) * field.height))
+    for (let x = 0; x < width; x++) {
+      const i = Math.min(field.width - 1, Math.floor((x / width) * field.width))
+      const value = field.values[j * field.width + i]
+      if (!Number.isFinite(value)) continue
+      const k = categories > 0
+        ? Math.max(0, Math.min(categories - 1, Math.round(value)))
+        : Math.round(Math.max(0, Math.min(1, (value - range.min) / span)) * 255)
+      const index = (y * width + x) * 4
+      pixels[index] = lookup[k * 3]
+      pixels[index + 1] = lookup[k * 3 + 1]
+      pixels[index + 2] = lookup[k * 3 + 2]
+      pixels[index + 3] = alpha
+    }
+  }
+
+  return new ImageData(pixels, width, height)
+}
+
+// Canvas of a field; at native resolution it can be stretched over getFieldCorners on a map
+export const gridFieldToCanvas = (
+  field: GridField,
+  width: number = field.width,
+  height: number = field.height,
+  range?: { min: number; max: number },
+  colorMap?: string,
+  alpha?: number
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')?.putImageData(gridFieldToImageData(field, width, height, range, colorMap, alpha), 0, 0)
+  return canvas
+}
@@ -0,0 +1,161 @@
+// Lake Kinneret geometry shared by every map and grid: shoreline polygons, bounds and centre
+
+import { z } from 'zod'
+import shorelineData from '@/data/kinneret-shoreline.json'
+
+export type LonLat = [number, number]
+
+// Rings of one polygon: the outer ring first, then holes
+export type PolygonRings = LonLat[][]
+
+export type LonLatBounds = [LonLat, LonLat] // [[west, south], [east, north]]
+
+interface GeoJsonGeometry {
+  type: string
+  coordinates: unknown
+}
+
+// Polygon and MultiPolygon geometries of a GeoJSON object as lists of rings
+export const geoJsonToPolygons = (geojson: { type: string; features?: Array<{ geometry: GeoJsonGeometry | null }>; geometry?: GeoJsonGeometry | null; coordinates?: unknown }): PolygonRings[] => {
+  const geometries: GeoJsonGeometry[] =
+    geojson.type === 'FeatureCollection'
+      ? (geojson.features ?? []).flatMap(feature => (feature.geometry ? [feature.geometry] : []))
+      : geojson.type === 'Feature'
+      ? (geojson.geometry ? [geojson.geometry] : [])
+      : [geojson as GeoJsonGeometry]
+
+  return geometries.flatMap(geometry => {
+    if (geometry.type === 'Polygon') return [geometry.coordinates as PolygonRings]
+    if (geometry.type === 'MultiPolygon') return geometry.coordinates as PolygonRings[]
+    return []
+  })
+}
+
+export const polygonBounds = (polygons: PolygonRings[]): LonLatBounds => {
+  let west = Infinity
+  let south = Infinity
+  let east = -Infinity
+  let north = -Infinity
+  polygons.forEach(rings => rings[0]?.forEach(([lon, lat]) => {
+    west = Math.min(west, lon)
+    east = Math.max(east, lon)
+    south = Math.min(south, lat)
+    north = Math.max(north, lat)
+  }))
+  return [[west, south], [east, north]]
+}
+
+// Even-odd ray casting over all rings, so holes are excluded
+export const pointInPolygon = (lon: number, lat: number, rings: PolygonRings): boolean => {
+  let inside = false
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i]
+      const [xj, yj] = ring[j]
+      if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside
+    }
+  })
+  return inside
+}
+
+export const pointInPolygons = (lon: number, lat: number, polygons: PolygonRings[]): boolean =>
+  polygons.some(rings => pointInPolygon(lon, lat, rings))
+
+// Local east/north offset of a point from an origin in km (equirectangular, fine at lake scale)
+export const offsetKm = ([lon, lat]: LonLat, [originLon, originLat]: LonLat): [number, number] => [
+  (lon - originLon) * 111.32 * Math.cos((originLat * Math.PI) / 180),
+  (lat - originLat) * 110.57,
+]
+
+// Distance in km from a point to the nearest edge of any ring
+export const distanceToShore = (lon: number, lat: number, polygons: PolygonRings[]): number => {
+  let nearest = Infinity
+  polygons.forEach(rings => rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [ax, ay] = offsetKm(ring[j], [lon, lat])
+      const [bx, by] = offsetKm(ring[i], [lon, lat])
+      const dx = bx - ax
+      const dy = by - ay
+      const lengthSquared = dx * dx + dy * dy
+      const t = lengthSquared > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared)) : 0
+      nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy))
+    }
+  }))
+  return nearest
+}
+
+export const polygonsToGeoJson = (polygons: PolygonRings[], properties: Record<string, unknown> = {}) => ({
+  type: 'FeatureCollection' as const,
+  features: [{
+    type: 'Feature' as const,
+    properties,
+    geometry: { type: 'MultiPolygon' as const, coordinates: polygons },
+  }],
+})
+
+// Polygons of an uploaded shoreline file; throws when it has no usable lon/lat polygon
+export const parseShorelineGeoJson = (text: string): PolygonRings[] => {
+  let geojson: unknown
+  try {
+    geojson = JSON.parse(text)
+  } catch {
+    throw new Error('Shoreline file is not valid JSON')
+  }
+  if (!geojson || typeof geojson !== 'object' || typeof (geojson as { type?: unknown }).type !== 'string') {
+    throw new Error('Shoreline file is not a GeoJSON object')
+  }
+
+  const polygons = geoJsonToPolygons(geojson as Parameters<typeof geoJsonToPolygons>[0])
+    .map(rings => rings.filter(ring => Array.isArray(ring) && ring.length >= 4))
+    .filter(rings => rings.length > 0)
+  if (polygons.length === 0) {
+    throw new Error('Shoreline file has no Polygon or MultiPolygon geometry')
+  }
+
+  const valid = polygons.every(rings => rings.every(ring => ring.every(point =>
+    Array.isArray(point) &&
+    Number.isFinite(point[0]) && Math.abs(point[0]) <= 180 &&
+    Number.isFinite(point[1]) && Math.abs(point[1]) <= 90
+  )))
+  if (!valid) {
+    throw new Error('Shoreline coordinates must be longitude/latitude pairs (WGS84)')
+  }
+  return polygons
+}
+
+export interface LakeGeometry {
+  name: string
+  polygons: PolygonRings[]
+  bounds: LonLatBounds
+  center: LonLat
+}
+
+export const createLakeGeometry = (polygons: PolygonRings[], name: string): LakeGeometry => {
+  const bounds = polygonBounds(polygons)
+  return {
+    name,
+    polygons,
+    bounds,
+    center: [(bounds[0][0] + bounds[1][0]) / 2, (bounds[0][1] + bounds[1][1]) / 2],
+  }
+}
+
+// Shoreline loaded from a user's GeoJSON file
+export const CustomShorelineSchema = z.object({
+  name: z.string(),
+  polygons: z.array(z.array(z.array(z.tuple([z.number(), z.number()])))).min(1),
+})
+
+export type CustomShoreline = z.infer<typeof CustomShorelineSchema>
+
+// Bundled shoreline, used unless a custom outline is loaded on the Data page
+export const KINNERET_LAKE: LakeGeometry = createLakeGeometry(
+  geoJsonToPolygons(shorelineData),
+  shorelineData.features[0].properties.name
+)
+
+export const LAKE_POLYGONS: PolygonRings[] = KINNERET_LAKE.polygons
+
+export const LAKE_BOUNDS: LonLatBounds = KINNERET_LAKE.bounds
+
+export const LAKE_CENTER: LonLat = KINNERET_LAKE.center
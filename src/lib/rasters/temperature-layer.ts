@@ -1,4 +1,6 @@
 import rastersData from '@/data/rasters.json'
+import { GridField, cellCenter, fieldFromRows, maskField } from './grid-field'
+import { KINNERET_LAKE, LAKE_POLYGONS, LakeGeometry, PolygonRings, pointInPolygons } from './lake'
 
 export interface TemperatureRaster {
   id: string
@@ -35,20 +37,12 @@ export function getAllTemperatureRasters(): TemperatureRaster[] {
   return rastersData as TemperatureRaster[]
 }
 
-// Generate mock temperature data for Lake Kinneret
-export function generateMockTemperatureData(season: 'winter' | 'summer'): {
-  data: number[][]
-  bounds: [[number, number], [number, number]]
-  min: number
-  max: number
-} {
+// Generate mock surface temperature field for Lake Kinneret
+export function generateMockTemperatureData(season: 'winter' | 'summer', lake: LakeGeometry = KINNERET_LAKE): GridField {
   const nx = 50
   const ny = 40
   const data: number[][] = []
   
-  // Lake Kinneret bounds
-  const bounds: [[number, number], [number, number]] = [[35.55, 32.65], [35.65, 32.95]]
-  
   // Temperature ranges based on season
   const tempRange = season === 'winter' ? { min: 10, max: 20 } : { min: 20, max: 30 }
   
@@ -80,19 +74,21 @@ export function generateMockTemperatureData(season: 'winter' | 'summer'): {
     data.push(row)
   }
   
-  return {
-    data,
-    bounds,
-    min: tempRange.min,
-    max: tempRange.max
-  }
+  return maskField(fieldFromRows(data, lake.bounds, {
+    name: `Mock ${season} surface temperature`,
+    source: 'generateMockTemperatureData',
+    variable: 'temperature',
+    quantity: 'temperature',
+    units: '°C',
+    depth: 0,
+  }), lake.polygons)
 }
 
-// Convert temperature data to canvas image
+// Convert a temperature field to canvas image
 export function temperatureDataToCanvas(
-  tempData: number[][],
-  min: number,
-  max: number,
+  field: GridField,
+  min: number = field.min,
+  max: number = field.max,
   width: number = 500,
   height: number = 400
 ): HTMLCanvasElement {
@@ -104,15 +100,16 @@ export function temperatureDataToCanvas(
   const imageData = ctx.createImageData(width, height)
   const data = imageData.data
   
-  const ny = tempData.length
-  const nx = tempData[0].length
+  const ny = field.height
+  const nx = field.width
   
   for (let j = 0; j < height; j++) {
     for (let i = 0; i < width; i++) {
       const x = Math.floor((i / width) * nx)
       const y = Math.floor((j / height) * ny)
       
-      const temp = tempData[y][x]
+      const temp = field.values[y * nx + x]
+      if (!Number.isFinite(temp)) continue // nodata stays transparent
       const normalized = (temp - min) / (max - min)
       
       // Use turbo colormap
@@ -150,12 +147,13 @@ function turboColormap(t: number): { r: number, g: number, b: number } {
   }
 }
 
-// Create temperature contour lines
+// Create temperature contour lines, keeping only points inside the shoreline
 export function generateTemperatureContours(
-  tempData: number[][],
-  min: number,
-  max: number,
-  interval: number = 2
+  field: GridField,
+  min: number = field.min,
+  max: number = field.max,
+  interval: number = 2,
+  clipTo: PolygonRings[] = LAKE_POLYGONS
 ): Array<{ value: number, points: Array<[number, number]> }> {
   const contours: Array<{ value: number, points: Array<[number, number]> }> = []
   
@@ -163,17 +161,16 @@ export function generateTemperatureContours(
     const points: Array<[number, number]> = []
     
     // Simple contour extraction (would need more sophisticated algorithm for production)
-    const ny = tempData.length
-    const nx = tempData[0].length
+    const ny = field.height
+    const nx = field.width
     
     for (let j = 0; j < ny - 1; j++) {
       for (let i = 0; i < nx - 1; i++) {
-        const val = tempData[j][i]
+        const val = field.values[j * nx + i]
         if (Math.abs(val - temp) < interval * 0.1) {
           // Convert grid coordinates to lat/lng
-          const lng = 35.55 + (i / nx) * 0.1
-          const lat = 32.95 - (j / ny) * 0.3
-          points.push([lng, lat])
+          const [lon, lat] = cellCenter(field, i, j)
+          if (pointInPolygons(lon, lat, clipTo)) points.push([lon, lat])
         }
       }
     }
@@ -0,0 +1,217 @@
+// Regularise irregular series onto daily, weekly or monthly grids with gap filling
+
+import dayjs from 'dayjs'
+import { z } from 'zod'
+import { PHYTOPLANKTON_GROUPS, PhytoplanktonGroup, TimeSeriesPoint } from './schemas'
+
+export const RESAMPLE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const
+
+export type ResampleFrequency = typeof RESAMPLE_FREQUENCIES[number]
+
+export const INTERPOLATION_METHODS = ['linear', 'spline', 'climatology'] as const
+
+export type InterpolationMethod = typeof INTERPOLATION_METHODS[number]
+
+export const FREQUENCY_LABELS: Record<ResampleFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+}
+
+export const INTERPOLATION_LABELS: Record<InterpolationMethod, string> = {
+  linear: 'Linear',
+  spline: 'Cubic spline',
+  climatology: 'Seasonal climatology',
+}
+
+export const ResampleOptionsSchema = z.object({
+  frequency: z.enum(RESAMPLE_FREQUENCIES),
+  method: z.enum(INTERPOLATION_METHODS),
+})
+
+export type ResampleOptions = z.infer<typeof ResampleOptionsSchema>
+
+export const DEFAULT_RESAMPLE_OPTIONS: ResampleOptions = {
+  frequency: 'monthly',
+  method: 'linear',
+}
+
+// A regular grid record; `interpolated` lists the keys that were filled rather than observed
+export type ResampledRecord<K extends string> = { date: string; interpolated: K[] } & Record<K, number>
+
+export type ResampledPoint = ResampledRecord<PhytoplanktonGroup> & TimeSeriesPoint
+
+// Start of the grid cell a date falls in (weeks start on Monday)
+export const binStart = (date: string, frequency: ResampleFrequency): string => {
+  const d = dayjs(date)
+  if (frequency === 'monthly') return d.startOf('month').format('YYYY-MM-DD')
+  if (frequency === 'weekly') return d.subtract((d.day() + 6) % 7, 'day').format('YYYY-MM-DD')
+  return d.format('YYYY-MM-DD')
+}
+
+const nextBin = (date: string, frequency: ResampleFrequency): string => {
+  const unit = frequency === 'monthly' ? 'month' : frequency === 'weekly' ? 'week' : 'day'
+  return dayjs(date).add(1, unit).format('YYYY-MM-DD')
+}
+
+// Every grid date from the first to the last bin, inclusive
+export const buildGrid = (first: string, last: string, frequency: ResampleFrequency): string[] => {
+  const grid: string[] = []
+  const end = binStart(last, frequency)
+  for (let date = binStart(first, frequency); date <= end; date = nextBin(date, frequency)) {
+    grid.push(date)
+  }
+  return grid
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const toDays = (date: string) => Date.parse(date) / DAY_MS
+
+/**
+ * Natural cubic spline through (xs, ys); xs must be strictly increasing.
+ * Returns an evaluator that is linear outside the knot range.
+ */
+export const naturalCubicSpline = (xs: number[], ys: number[]): ((x: number) => number) => {
+  const n = xs.length
+  if (n < 3) return (x) => linearAt(xs, ys, x)
+
+  const h = xs.slice(1).map((x, i) => x - xs[i])
+  // Second derivatives m[i], with m[0] = m[n-1] = 0, from the tridiagonal system
+  const m = new Array<number>(n).fill(0)
+  const c = new Array<number>(n).fill(0)
+  const d = new Array<number>(n).fill(0)
+  for (let i = 1; i < n - 1; i++) {
+    const a = h[i - 1]
+    const b = 2 * (h[i - 1] + h[i])
+    const rhs = 6 * ((ys[i + 1] - ys[i]) / h[i] - (ys[i] - ys[i - 1]) / h[i - 1])
+    const denom = b - a * c[i - 1]
+    c[i] = h[i] / denom
+    d[i] = (rhs - a * d[i - 1]) / denom
+  }
+  for (let i = n - 2; i >= 1; i--) {
+    m[i] = d[i] - c[i] * m[i + 1]
+  }
+
+  return (x) => {
+    if (x <= xs[0] || x >= xs[n - 1]) return linearAt(xs, ys, x)
+    let i = 0
+    while (i < n - 2 && x > xs[i + 1]) i++
+    const t = x - xs[i]
+    const hi = h[i]
+    const slope = (ys[i + 1] - ys[i]) / hi - (hi * (2 * m[i] + m[i + 1])) / 6
+    return ys[i] + slope * t + (m[i] / 2) * t * t + ((m[i + 1] - m[i]) / (6 * hi)) * t * t * t
+  }
+}
+
+// Piecewise-linear interpolation; constant beyond the ends
+const linearAt = (xs: number[], ys: number[], x: number): number => {
+  if (xs.length === 0) return NaN
+  if (x <= xs[0]) return ys[0]
+  if (x >= xs[xs.length - 1]) return ys[ys.length - 1]
+  let i = 0
+  while (x > xs[i + 1]) i++
+  const w = (x - xs[i]) / (xs[i + 1] - xs[i])
+  return ys[i] + w * (ys[i + 1] - ys[i])
+}
+
+// Fill NaN cells of one regular column; returns values and which cells were filled
+const fillColumn = (
+  grid: string[],
+  binned: number[],
+  method: InterpolationMethod
+): { values: number[]; filled: boolean[] } => {
+  const xs: number[] = []
+  const ys: number[] = []
+  grid.forEach((date, i) => {
+    if (Number.isFinite(binned[i])) {
+      xs.push(toDays(date))
+      ys.push(binned[i])
+    }
+  })
+
+  const filled = binned.map(value => !Number.isFinite(value))
+  if (xs.length === 0) return { values: binned, filled: binned.map(() => false) }
+
+  const spline = method === 'spline' ? naturalCubicSpline(xs, ys) : null
+
+  // Month-of-year means of the observed cells, used by the climatology method
+  const climatology = new Map<number, number>()
+  if (method === 'climatology') {
+    const sums = new Map<number, { sum: number; count: number }>()
+    grid.forEach((date, i) => {
+      if (!Number.isFinite(binned[i])) return
+      const month = dayjs(date).month()
+      const entry = sums.get(month) ?? { sum: 0, count: 0 }
+      entry.sum += binned[i]
+      entry.count++
+      sums.set(month, entry)
+    })
+    sums.forEach(({ sum, count }, month) => climatology.set(month, sum / count))
+  }
+
+  const values = binned.map((value, i) => {
+    if (!filled[i]) return value
+    const x = toDays(grid[i])
+    if (spline) return spline(x)
+    if (method === 'climatology') {
+      // Months never observed fall back to linear interpolation
+      return climatology.get(dayjs(grid[i]).month()) ?? linearAt(xs, ys, x)
+    }
+    return linearAt(xs, ys, x)
+  })
+
+  return { values, filled }
+}
+
+/**
+ * Resample records with arbitrary sampling dates onto a regular grid.
+ * Observations in the same cell are averaged; empty cells (and NaN values,
+ * e.g. hidden by QC) are interpolated and listed in `interpolated`.
+ * The grid spans the first to the last observed date, so nothing is extrapolated.
+ */
+export const resampleRecords = <K extends string>(
+  records: Array<{ date: string } & Record<K, number>>,
+  keys: readonly K[],
+  options: ResampleOptions = DEFAULT_RESAMPLE_OPTIONS,
+  nonNegative: boolean = true
+): ResampledRecord<K>[] => {
+  if (records.length === 0) return []
+
+  const dates = records.map(record => record.date).sort()
+  const grid = buildGrid(dates[0], dates[dates.length - 1], options.frequency)
+  const index = new Map(grid.map((date, i) => [date, i]))
+
+  const columns = keys.map(key => {
+    const sums = new Array<number>(grid.length).fill(0)
+    const counts = new Array<number>(grid.length).fill(0)
+    records.forEach(record => {
+      const value = record[key]
+      if (!Number.isFinite(value)) return
+      const i = index.get(binStart(record.date, options.frequency))
+      if (i === undefined) return
+      sums[i] += value
+      counts[i]++
+    })
+    const binned = sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : NaN))
+    return fillColumn(grid, binned, options.method)
+  })
+
+  return grid.map((date, i) => {
+    const record = { date, interpolated: [] as K[] } as ResampledRecord<K>
+    keys.forEach((key, k) => {
+      const value = columns[k].values[i]
+      ;(record as Record<K, number>)[key] = nonNegative ? Math.max(0, value) : value
+      if (columns[k].filled[i]) record.interpolated.push(key)
+    })
+    return record
+  })
+}
+
+// Regular series of the five groups for charts, PCA and statistics
+export const resampleTimeSeries = (
+  timeseries: TimeSeriesPoint[],
+  options: ResampleOptions = DEFAULT_RESAMPLE_OPTIONS
+): ResampledPoint[] => resampleRecords(timeseries, PHYTOPLANKTON_GROUPS, options)
+
+export const countInterpolated = (series: Array<{ interpolated: readonly string[] }>): number =>
+  series.reduce((sum, point) => sum + point.interpolated.length, 0)
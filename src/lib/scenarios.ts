@@ -0,0 +1,223 @@
+import dayjs from 'dayjs'
+import { z } from 'zod'
+import {
+  GroupParams,
+  GroupParamsSchema,
+  Nutrients,
+  NutrientsSchema,
+  PHYTOPLANKTON_GROUPS,
+  PhytoplanktonGroup,
+  Scenario,
+  ScenarioForcing,
+  ScenarioResults,
+  ScenarioResultsSchema,
+  ScenarioSchema,
+} from './schemas'
+import { NUTRIENT_KEYS, NpzResult } from './model/npz'
+import { BASELINE_FORCING, FORCING_VARIABLES, FORCING_VARIABLE_INFO } from './model/forcing'
+import { ZOOPLANKTON_GROUPS } from './model/zooplankton'
+import { withDefaultGroupParams } from './parameters'
+
+// Version of the scenario file written by exportScenarioFile
+export const SCENARIO_FILE_VERSION = 1
+
+export const createScenarioId = (): string => {
+  return `sc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Tags typed as a comma-separated list, trimmed and without duplicates
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))]
+
+// Saved results keep five significant digits, so a library of runs fits in localStorage
+const compact = (value: number) => Number(value.toPrecision(5))
+
+// Typed-array series as plain arrays for JSON
+const seriesToArrays = <K extends string>(series: Record<K, Float64Array>) =>
+  Object.fromEntries(Object.entries<Float64Array>(series).map(([key, values]) => [key, Array.from(values, compact)])) as Record<K, number[]>
+
+export const resultsFromRun = (result: NpzResult): ScenarioResults => ({
+  dates: result.dates,
+  biomass: seriesToArrays(result.biomass),
+  zooplankton: seriesToArrays(result.zooplankton),
+  nutrients: seriesToArrays(result.nutrients),
+  detritus: seriesToArrays(result.detritus),
+  temperature: Array.from(result.temperature, compact),
+})
+
+// Saved results back in the shape of a model run; series the file lacks are zero
+export const resultsToRun = (results: ScenarioResults): NpzResult => {
+  const length = results.dates.length
+  const series = <K extends string>(keys: readonly K[], saved?: Record<string, number[]>) =>
+    Object.fromEntries(keys.map(key => [key, Float64Array.from(saved?.[key] ?? new Array<number>(length).fill(0))])) as Record<K, Float64Array>
+  const start = dayjs(results.dates[0])
+  return {
+    days: Float64Array.from(results.dates, date => dayjs(date).diff(start, 'day')),
+    dates: results.dates,
+    biomass: series(PHYTOPLANKTON_GROUPS, results.biomass),
+    zooplankton: series(ZOOPLANKTON_GROUPS, results.zooplankton),
+    nutrients: series(NUTRIENT_KEYS, results.nutrients),
+    detritus: series(NUTRIENT_KEYS, results.detritus),
+    temperature: Float64Array.from(results.temperature ?? new Array<number>(length).fill(NaN)),
+    solver: { steps: 0, rejected: 0, evaluations: 0 },
+  }
+}
+
+export const createScenario = (
+  name: string,
+  tags: string[],
+  groups: Record<PhytoplanktonGroup, GroupParams>,
+  nutrients: Nutrients,
+  forcing: ScenarioForcing,
+  result: NpzResult | null,
+  description?: string
+): Scenario => ({
+  id: createScenarioId(),
+  name: name.trim() || 'Untitled scenario',
+  tags,
+  createdAt: new Date().toISOString(),
+  ...(description ? { description } : {}),
+  groups,
+  nutrients,
+  forcing,
+  results: result ? resultsFromRun(result) : null,
+})
+
+export const exportScenarioFile = (scenarios: Scenario[]): string =>
+  JSON.stringify({
+    format: 'kinneret-scenarios',
+    version: SCENARIO_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    scenarios,
+  }, null, 2)
+
+// Saved group parameters; those written before a parameter existed take its bundled value
+export const SavedGroupsSchema = z
+  .record(z.enum(PHYTOPLANKTON_GROUPS), GroupParamsSchema.partial({ KsSi: true, grazingPreference: true }))
+  .transform(withDefaultGroupParams)
+
+export const SavedScenarioSchema = ScenarioSchema.extend({ groups: SavedGroupsSchema })
+
+// Single-scenario download written before the library existed
+const LegacyExportSchema = z.object({
+  timestamp: z.string(),
+  parameters: z.object({
+    nutrients: NutrientsSchema,
+    groups: SavedGroupsSchema,
+  }),
+  results: ScenarioResultsSchema.nullable(),
+})
+
+const fromLegacyExport = (legacy: z.infer<typeof LegacyExportSchema>): Scenario => {
+  const dates = legacy.results?.dates ?? []
+  return {
+    id: createScenarioId(),
+    name: `Scenario ${dayjs(legacy.timestamp).format('YYYY-MM-DD HH:mm')}`,
+    tags: ['imported'],
+    createdAt: legacy.timestamp,
+    groups: legacy.parameters.groups,
+    nutrients: legacy.parameters.nutrients,
+    forcing: {
+      startDate: dates[0] ?? dayjs(legacy.timestamp).startOf('year').format('YYYY-MM-DD'),
+      days: dates.length > 1 ? dayjs(dates[dates.length - 1]).diff(dates[0], 'day') : 365,
+      initialBiomass: Object.fromEntries(
+        PHYTOPLANKTON_GROUPS.map(group => [group, legacy.results?.biomass[group][0] ?? 0])
+      ) as Record<PhytoplanktonGroup, number>,
+    },
+    results: legacy.results,
+  }
+}
+
+/**
+ * Read scenarios from a scenario file, a single saved scenario, or a
+ * download from before the library. Imported scenarios get fresh ids so
+ * they never replace saved ones. Throws when nothing validates.
+ */
+export const parseScenarioFile = (text: string): Scenario[] => {
+  const json: unknown = JSON.parse(text)
+  const file = z.object({ scenarios: z.array(z.unknown()) }).safeParse(json)
+  const candidates = file.success ? file.data.scenarios : [json]
+
+  const scenarios = candidates.flatMap(candidate => {
+    const scenario = SavedScenarioSchema.safeParse(candidate)
+    if (scenario.success) return [{ ...scenario.data, id: createScenarioId() }]
+    const legacy = LegacyExportSchema.safeParse(candidate)
+    return legacy.success ? [fromLegacyExport(legacy.data)] : []
+  })
+  if (scenarios.length === 0) throw new Error('No valid scenario found in the file')
+  return scenarios
+}
+
+// One row of a parameter comparison: the value in each scenario
+export interface ParameterDiff {
+  key: string
+  group: PhytoplanktonGroup | null // null for nutrients and forcing
+  name: string
+  values: Array<number | string>
+  changed: boolean // differs between at least two scenarios
+}
+
+const PARAM_NAMES: Array<keyof GroupParams> = ['mu', 'KsP', 'KsN', 'KsFe', 'KsSi', 'Rnp', 'Rsip', 'Rfep', 'grazingPreference']
+
+/**
+ * Every parameter, nutrient and forcing setting of the scenarios side by
+ * side. Forcing series show their annual mean and count as changed when
+ * any month differs; scenarios saved without series have the baseline.
+ */
+export const diffScenarios = (scenarios: Scenario[]): ParameterDiff[] => {
+  const row = (
+    key: string,
+    group: PhytoplanktonGroup | null,
+    name: string,
+    values: Array<number | string>,
+    changed = values.some(value => value !== values[0])
+  ): ParameterDiff => ({ key, group, name, values, changed })
+  const series = scenarios.map(s => s.forcing.series ?? BASELINE_FORCING)
+  return [
+    ...PHYTOPLANKTON_GROUPS.flatMap(group =>
+      PARAM_NAMES.map(param => row(`${group}.${param}`, group, param, scenarios.map(s => s.groups[group][param])))
+    ),
+    ...(Object.keys(scenarios[0]?.nutrients ?? {}) as Array<keyof Nutrients>).map(nutrient =>
+      row(`nutrient.${nutrient}`, null, `Ambient ${nutrient} (μM)`, scenarios.map(s => s.nutrients[nutrient]))
+    ),
+    row('forcing.startDate', null, 'Start date', scenarios.map(s => s.forcing.startDate)),
+    row('forcing.days', null, 'Days', scenarios.map(s => s.forcing.days)),
+    ...PHYTOPLANKTON_GROUPS.map(group =>
+      row(`initial.${group}`, group, 'Initial biomass', scenarios.map(s => s.forcing.initialBiomass[group]))
+    ),
+    ...FORCING_VARIABLES.map(variable => {
+      const { label, units } = FORCING_VARIABLE_INFO[variable]
+      return row(
+        `forcing.${variable}`,
+        null,
+        `${label}, annual mean (${units})`,
+        series.map(s => s[variable].reduce((sum, value) => sum + value, 0) / 12),
+        series.some(s => s[variable].some((value, i) => value !== series[0][variable][i]))
+      )
+    }),
+  ]
+}
+
+/**
+ * Biomass of a group in each scenario minus the first one, on the dates
+ * the first one and the other share. Scenarios without results are skipped.
+ */
+export const biomassDifference = (scenarios: Scenario[], group: PhytoplanktonGroup): Array<Record<string, string | number | null>> => {
+  const [baseline, ...others] = scenarios
+  const base = baseline?.results
+  if (!base) return []
+  const lookups = others.map(scenario => {
+    const results = scenario.results
+    return results ? new Map(results.dates.map((date, i) => [date, results.biomass[group][i]])) : null
+  })
+  return base.dates.map((date, i) => {
+    const reference = base.biomass[group][i]
+    return {
+      date,
+      ...Object.fromEntries(others.map((scenario, s) => {
+        const value = lookups[s]?.get(date)
+        return [scenario.id, value === undefined ? null : value - reference]
+      })),
+    }
+  })
+}
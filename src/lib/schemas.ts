@@ -16,10 +16,12 @@ export const GroupParamsSchema = z.object({
   mu: z.number().min(0).max(2), // max growth rate [1/d]
   Rnp: z.number().min(0).max(50), // N:P ratio
   Rfep: z.number().min(0).max(10), // Fe:P ratio
-  Rsip: z.number().min(0).max(50), // Si:P ratio
+  Rsip: z.number().min(0).max(50), // Si:P uptake ratio
   KsP: z.number().min(0).max(1), // P half-saturation [μM P]
   KsN: z.number().min(0).max(2), // N half-saturation [μM N]
   KsFe: z.number().min(0).max(0.1), // Fe half-saturation [μM Fe]
+  KsSi: z.number().min(0).max(10), // Si half-saturation [μM Si]; 0 without a Si requirement
+  grazingPreference: z.number().min(0).max(1), // relative palatability to herbivorous zooplankton
 })
 
 export type GroupParams = z.infer<typeof GroupParamsSchema>
@@ -36,6 +38,84 @@ export const TimeSeriesPointSchema = z.object({
 
 export type TimeSeriesPoint = z.infer<typeof TimeSeriesPointSchema>
 
+// Variables measured by the monitoring program; group biomass uses the group keys
+export const OBSERVATION_VARIABLES = [
+  ...PHYTOPLANKTON_GROUPS,
+  'chlorophyll',
+  'temperature',
+  'dissolved_oxygen',
+  'total_phosphorus',
+  'phosphate',
+  'total_nitrogen',
+  'nitrate',
+  'ammonium',
+  'silica',
+  'iron',
+  'zoo_herbivores',
+  'zoo_predatory',
+] as const
+
+export type ObservationVariable = typeof OBSERVATION_VARIABLES[number]
+
+// One long-format measurement: station × depth × date × variable
+export const ObservationSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  station: z.string().min(1),
+  depth: z.number().min(0), // m below surface
+  variable: z.enum(OBSERVATION_VARIABLES),
+  value: z.number().refine(Number.isFinite, 'Expected a finite number'),
+}).refine(
+  // Temperature may be negative in principle; concentrations may not
+  obs => obs.variable === 'temperature' || obs.value >= 0,
+  { message: 'Concentrations must be non-negative', path: ['value'] }
+)
+
+export type Observation = z.infer<typeof ObservationSchema>
+
+// Quality-control checks run on import
+export const QC_CHECKS = ['range', 'spike', 'duplicate', 'non_monotonic'] as const
+
+export type QcCheck = typeof QC_CHECKS[number]
+
+export const QcLevelSchema = z.enum(['suspect', 'bad'])
+
+export type QcLevel = z.infer<typeof QcLevelSchema>
+
+// Flag attached to one observed value
+export const QcFlagSchema = z.object({
+  date: z.string(),
+  station: z.string(),
+  depth: z.number(),
+  variable: z.enum(OBSERVATION_VARIABLES),
+  value: z.number(),
+  check: z.enum(QC_CHECKS),
+  level: QcLevelSchema,
+  message: z.string(),
+})
+
+export type QcFlag = z.infer<typeof QcFlagSchema>
+
+// Sampling gap in one station/depth series
+export const QcGapSchema = z.object({
+  station: z.string(),
+  depth: z.number(),
+  from: z.string(),
+  to: z.string(),
+  days: z.number(),
+})
+
+export type QcGap = z.infer<typeof QcGapSchema>
+
+export const QcReportSchema = z.object({
+  createdAt: z.string(),
+  spikeMethod: z.enum(['mad', 'iqr']),
+  checkedValues: z.number(),
+  flags: z.array(QcFlagSchema),
+  gaps: z.array(QcGapSchema),
+})
+
+export type QcReport = z.infer<typeof QcReportSchema>
+
 // Spatial data schema
 export const SpatialDataSchema = z.object({
   season: z.enum(['winter', 'summer']),
@@ -57,8 +137,8 @@ export const NutrientsSchema = z.object({
 export type Nutrients = z.infer<typeof NutrientsSchema>
 
 // Main data store schema
+// Group parameters are kept in the parameter registry, not here
 export const KinneretDataSchema = z.object({
-  groups: z.record(z.enum(PHYTOPLANKTON_GROUPS), GroupParamsSchema),
   timeseries: z.array(TimeSeriesPointSchema),
   spatial: z.array(SpatialDataSchema),
   nutrients: NutrientsSchema,
@@ -71,6 +151,170 @@ export const KinneretDataSchema = z.object({
 
 export type KinneretData = z.infer<typeof KinneretDataSchema>
 
+// Dataset origin: the bundled seed series or a user upload
+export const DatasetOriginSchema = z.enum(['default', 'uploaded'])
+
+export type DatasetOrigin = z.infer<typeof DatasetOriginSchema>
+
+// Dataset metadata schema
+export const DatasetMetadataSchema = z.object({
+  source: z.string(), // e.g. monitoring program, model run, station subset
+  units: z.string(), // e.g. "mmol P/m³"
+  createdAt: z.string(), // ISO timestamp
+  description: z.string().optional(),
+})
+
+export type DatasetMetadata = z.infer<typeof DatasetMetadataSchema>
+
+// Named dataset schema (one campaign, model run or monitoring year)
+export const DatasetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  origin: DatasetOriginSchema,
+  metadata: DatasetMetadataSchema,
+  timeseries: z.array(TimeSeriesPointSchema), // wide per-date series, derived from observations when present
+  observations: z.array(ObservationSchema).optional(),
+  qc: QcReportSchema.optional(), // set for uploads; bundled data is not checked
+})
+
+export type Dataset = z.infer<typeof DatasetSchema>
+
+// Twelve monthly values, January first
+const MonthlySeriesSchema = z.array(z.number()).length(12)
+
+// External forcing of a scenario as monthly series
+export const ForcingSeriesSchema = z.object({
+  loadingP: MonthlySeriesSchema, // multipliers of the ambient (inflow) concentrations
+  loadingN: MonthlySeriesSchema,
+  loadingSi: MonthlySeriesSchema,
+  loadingFe: MonthlySeriesSchema,
+  temperatureOffset: MonthlySeriesSchema, // °C added to the surface temperature
+  windSpeed: MonthlySeriesSchema, // m/s
+  waterLevel: MonthlySeriesSchema, // m above sea level
+  inflow: MonthlySeriesSchema, // 10⁶ m³/month
+})
+
+export type ForcingSeries = z.infer<typeof ForcingSeriesSchema>
+
+// Run settings of a saved scenario besides the parameters
+export const ScenarioForcingSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  days: z.number().positive(),
+  initialBiomass: z.record(z.enum(PHYTOPLANKTON_GROUPS), z.number().min(0)),
+  series: ForcingSeriesSchema.optional(), // absent in scenarios saved before forcing series; the baseline
+})
+
+export type ScenarioForcing = z.infer<typeof ScenarioForcingSchema>
+
+// Model output of a saved scenario, as plain arrays on `dates`
+export const ScenarioResultsSchema = z.object({
+  dates: z.array(z.string()),
+  biomass: z.record(z.enum(PHYTOPLANKTON_GROUPS), z.array(z.number())),
+  zooplankton: z.record(z.string(), z.array(z.number())).optional(),
+  nutrients: z.record(z.string(), z.array(z.number())).optional(),
+  detritus: z.record(z.string(), z.array(z.number())).optional(),
+  temperature: z.array(z.number()).optional(),
+})
+
+export type ScenarioResults = z.infer<typeof ScenarioResultsSchema>
+
+// Named, tagged scenario of the scenario library
+export const ScenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  tags: z.array(z.string()),
+  createdAt: z.string(), // ISO timestamp
+  description: z.string().optional(),
+  groups: z.record(z.enum(PHYTOPLANKTON_GROUPS), GroupParamsSchema),
+  nutrients: NutrientsSchema,
+  forcing: ScenarioForcingSchema,
+  results: ScenarioResultsSchema.nullable(),
+})
+
+export type Scenario = z.infer<typeof ScenarioSchema>
+
+// Parameters of the phytoplankton groups: the NPZ model's GroupParams, the biomass response model's curves
+// and the water-column model's light response and vertical movement
+export const REGISTRY_PARAMETERS = [
+  'mu',
+  'KsP',
+  'KsN',
+  'KsFe',
+  'KsSi',
+  'Rnp',
+  'Rsip',
+  'Rfep',
+  'grazingPreference',
+  'optimalTemp',
+  'tempMin',
+  'tempMax',
+  'q10',
+  'mixingSensitivity',
+  'buoyancy',
+  'piSaturation',
+  'piInhibition',
+  'sinking',
+] as const
+
+export type RegistryParameter = typeof REGISTRY_PARAMETERS[number]
+
+export const PARAMETER_MODELS = ['npz', 'response', 'water-column'] as const
+
+export type ParameterModel = typeof PARAMETER_MODELS[number]
+
+// What a parameter is, shared by every group
+export const ParameterDefinitionSchema = z.object({
+  name: z.string().min(1),
+  hebrewName: z.string(),
+  units: z.string(),
+  description: z.string(),
+  models: z.array(z.enum(PARAMETER_MODELS)).min(1),
+  step: z.number().positive(),
+  bounds: z.tuple([z.number(), z.number()]), // admissible values
+})
+
+export type ParameterDefinition = z.infer<typeof ParameterDefinitionSchema>
+
+// One edit of a parameter value
+export const ParameterChangeSchema = z.object({
+  date: z.string(), // ISO timestamp
+  value: z.number(),
+  previous: z.number(),
+  source: z.string(), // e.g. Parameters page, Calibration, Import
+  note: z.string().optional(),
+})
+
+export type ParameterChange = z.infer<typeof ParameterChangeSchema>
+
+// Value of a parameter for one group, with its literature range and provenance
+export const ParameterEntrySchema = z.object({
+  value: z.number(),
+  min: z.number(),
+  max: z.number(),
+  reference: z.string(),
+  history: z.array(ParameterChangeSchema),
+})
+
+export type ParameterEntry = z.infer<typeof ParameterEntrySchema>
+
+export const RegistryGroupSchema = z.object({
+  name: z.string().min(1),
+  hebrewName: z.string(),
+  description: z.string(),
+  values: z.record(z.enum(REGISTRY_PARAMETERS), ParameterEntrySchema),
+})
+
+export type RegistryGroup = z.infer<typeof RegistryGroupSchema>
+
+export const ParameterRegistrySchema = z.object({
+  format: z.literal('kinneret-parameters'),
+  version: z.literal(1),
+  parameters: z.record(z.enum(REGISTRY_PARAMETERS), ParameterDefinitionSchema),
+  groups: z.record(z.enum(PHYTOPLANKTON_GROUPS), RegistryGroupSchema),
+})
+
+export type ParameterRegistry = z.infer<typeof ParameterRegistrySchema>
+
 // CSV upload schema
 export const CSVUploadSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
@@ -79,6 +323,8 @@ export const CSVUploadSchema = z.object({
   small_phyto: z.number().min(0),
   n_fixers: z.number().min(0),
   microcystis: z.number().min(0),
+  station: z.string().min(1).optional(),
+  depth: z.number().min(0).optional(), // m
 })
 
 export type CSVUpload = z.infer<typeof CSVUploadSchema>
@@ -2,12 +2,27 @@ import { useState, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ScatterChart, Scatter, Cell, Line, BarChart, Bar } from 'recharts'
-import { useDataStore } from '@/store/data-store'
+import { useActiveDataset, useComparisonDataset } from '@/store/kinneret-store'
+import { PHYTOPLANKTON_GROUPS } from '@/lib/schemas'
+import { computeGroupStats } from '@/lib/datasets'
+import { DatasetCompareSelect } from '@/components/dataset-selector'
+import { QcDisplaySelect } from '@/components/qc-report'
+import { ResamplingSelect } from '@/components/resampling-select'
+import { useQcView } from '@/hooks/use-qc-view'
+import { useRegularSeries, useResampled } from '@/hooks/use-regular-series'
 import { Button } from '@/components/ui/button'
 import { RAGChat } from '@/components/rag'
 
+const groupLabels = {
+  diatom: 'Diatoms',
+  dinoflagellates: 'Dinoflagellates',
+  small_phyto: 'Small Phytoplankton',
+  n_fixers: 'N-fixers',
+  microcystis: 'Microcystis',
+}
+
 const colors = {
-  diatoms: '#2563EB',
+  diatom: '#2563EB',
   dinoflagellates: '#10B981',
   small_phyto: '#F59E0B',
   n_fixers: '#EF4444',
@@ -104,8 +119,16 @@ const calculateEigenvectors = (matrix: number[][], eigenvalues: number[]) => {
   return eigenvectors
 }
 
+// Outline for PCA sites containing QC-flagged values
+const FLAG_STROKE = '#DC2626'
+
 export function DashboardPage() {
-  const { timeSeriesData } = useDataStore()
+  const { report: qcReport, levels: qcLevels, mode: qcMode, setMode: setQcMode } = useQcView()
+  // PCA and statistics run on the regular grid so irregular sampling does not weight some months more
+  const { series: timeSeriesData, isFlagged } = useRegularSeries()
+  const activeDataset = useActiveDataset()
+  const comparisonDataset = useComparisonDataset()
+  const comparisonSeries = useResampled(comparisonDataset)
   const [pcaView, setPcaView] = useState<'biplot' | 'scree' | 'loadings'>('biplot')
 
   // Create ecological data matrix for PCA (sites × variables)
@@ -120,20 +143,26 @@ export function DashboardPage() {
       return acc
     }, {} as Record<string, typeof timeSeriesData>)
 
-    // Calculate monthly averages and create data matrix
-    const sites = Object.keys(monthlyData).sort()
-    const variables = ['diatoms', 'dinoflagellates', 'small_phyto', 'n_fixers', 'microcystis']
-    
-    const dataMatrix = sites.map(site => {
+    // Calculate monthly averages and create data matrix; values hidden by QC are NaN and skipped
+    const monthlyMeans = Object.keys(monthlyData).sort().map(site => {
       const monthData = monthlyData[site]
-      return variables.map(variable => {
-        const values = monthData.map(item => item[variable as keyof typeof item]).filter(v => typeof v === 'number')
-        return values.reduce((sum, val) => sum + val, 0) / values.length
-      })
-    })
+      return {
+        site,
+        row: PHYTOPLANKTON_GROUPS.map(variable => {
+          const values = monthData.map(item => item[variable]).filter(Number.isFinite)
+          return values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : NaN
+        }),
+        flagged: monthData.some(item => PHYTOPLANKTON_GROUPS.some(group => isFlagged(item.date, group))),
+      }
+    }).filter(({ row }) => row.every(Number.isFinite))
+
+    const sites = monthlyMeans.map(({ site }) => site)
+    const variables: string[] = [...PHYTOPLANKTON_GROUPS]
+    const dataMatrix = monthlyMeans.map(({ row }) => row)
+    const flaggedSites = new Set(monthlyMeans.filter(({ flagged }) => flagged).map(({ site }) => site))
 
-    return { sites, variables, dataMatrix }
-  }, [timeSeriesData])
+    return { sites, variables, dataMatrix, flaggedSites }
+  }, [timeSeriesData, isFlagged])
 
   // Perform PCA analysis following lecture methodology
   const pcaResults = useMemo(() => {
@@ -184,6 +213,7 @@ export function DashboardPage() {
     
     return ecologicalData.sites.map((site, index) => ({
       site,
+      flagged: ecologicalData.flaggedSites.has(site),
       pc1: pcaResults.pcScores[index][0],
       pc2: pcaResults.pcScores[index][1],
       // Determine dominant group for coloring
@@ -216,19 +246,11 @@ export function DashboardPage() {
   }, [pcaResults, ecologicalData])
 
   // Calculate statistics from actual data
-  const calculateStats = (group: keyof typeof timeSeriesData[0]) => {
-    const values = timeSeriesData.map((item: any) => item[group]).filter((v: any) => typeof v === 'number')
-    const mean = values.reduce((sum: number, val: number) => sum + val, 0) / values.length
-    const variance = values.reduce((sum: number, val: number) => sum + Math.pow(val - mean, 2), 0) / values.length
-    const stdDev = Math.sqrt(variance)
-    return { mean: mean.toFixed(2), stdDev: stdDev.toFixed(2) }
-  }
-
-  const diatomsStats = calculateStats('diatoms')
-  const dinoflagellatesStats = calculateStats('dinoflagellates')
-  const smallPhytoStats = calculateStats('small_phyto')
-  const nFixersStats = calculateStats('n_fixers')
-  const microcystisStats = calculateStats('microcystis')
+  const groupStats = useMemo(() => computeGroupStats(timeSeriesData), [timeSeriesData])
+  const comparisonStats = useMemo(
+    () => comparisonSeries ? computeGroupStats(comparisonSeries) : null,
+    [comparisonSeries]
+  )
 
   return (
     <div className="space-y-4 sm:space-y-6">
@@ -239,6 +261,12 @@ export function DashboardPage() {
             Interactive Kinneret biogeochemical insights — groups, seasons, and nutrient scenarios.
           </p>
         </div>
+        <div className="flex flex-wrap gap-2">
+          <ResamplingSelect />
+          {qcReport && (
+            <QcDisplaySelect mode={qcMode} onChange={setQcMode} flaggedCount={qcLevels.size} />
+          )}
+        </div>
       </div>
 
       <Tabs defaultValue="overview" className="space-y-4">
@@ -249,36 +277,48 @@ export function DashboardPage() {
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Compare {activeDataset?.name} with</span>
+            <DatasetCompareSelect />
+          </div>
           <div className="grid gap-4 sm:grid-cols-2">
             <Card>
               <CardHeader>
                 <CardTitle>Concentration Statistics</CardTitle>
                 <CardDescription>
                   Summary statistics for phytoplankton groups
+                  {comparisonDataset && ` — ${activeDataset?.name} vs ${comparisonDataset.name}`}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Diatoms</span>
-                    <span className="font-medium">{diatomsStats.mean} ± {diatomsStats.stdDev}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Dinoflagellates</span>
-                    <span className="font-medium">{dinoflagellatesStats.mean} ± {dinoflagellatesStats.stdDev}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Small Phytoplankton</span>
-                    <span className="font-medium">{smallPhytoStats.mean} ± {smallPhytoStats.stdDev}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">N-fixers</span>
-                    <span className="font-medium">{nFixersStats.mean} ± {nFixersStats.stdDev}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Microcystis</span>
-                    <span className="font-medium">{microcystisStats.mean} ± {microcystisStats.stdDev}</span>
-                  </div>
+                  {PHYTOPLANKTON_GROUPS.map(group => {
+                    const stats = groupStats[group]
+                    const comparison = comparisonStats?.[group]
+                    const change = comparison && comparison.mean > 0
+                      ? ((stats.mean - comparison.mean) / comparison.mean) * 100
+                      : null
+                    const flaggedCount = timeSeriesData.filter(item => isFlagged(item.date, group)).length
+                    return (
+                      <div key={group} className="flex justify-between gap-2">
+                        <span className="text-sm text-muted-foreground">
+                          {groupLabels[group]}
+                          {flaggedCount > 0 && (
+                            <span className="block text-xs text-red-600">{flaggedCount} QC-flagged</span>
+                          )}
+                        </span>
+                        <span className="font-medium text-right">
+                          {stats.mean.toFixed(3)} ± {stats.stdDev.toFixed(3)}
+                          {comparison && (
+                            <span className="block text-xs text-muted-foreground">
+                              vs {comparison.mean.toFixed(3)} ± {comparison.stdDev.toFixed(3)}
+                              {change !== null && ` (${change >= 0 ? '+' : ''}${change.toFixed(0)}%)`}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    )
+                  })}
                 </div>
               </CardContent>
             </Card>
@@ -294,7 +334,7 @@ export function DashboardPage() {
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Total Samples</span>
-                    <span className="font-medium">{timeSeriesData.length}</span>
+                    <span className="font-medium">{activeDataset?.timeseries.length ?? 0}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Sampling Points</span>
@@ -391,7 +431,12 @@ export function DashboardPage() {
                     />
                     <Scatter dataKey="pc2" fill="#8884d8">
                       {pcaData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={Object.values(colors)[entry.group]} />
+                        <Cell
+                          key={`cell-${index}`}
+                          fill={Object.values(colors)[entry.group]}
+                          stroke={entry.flagged ? FLAG_STROKE : undefined}
+                          strokeWidth={entry.flagged ? 2 : 0}
+                        />
                       ))}
                     </Scatter>
                   </ScatterChart>
@@ -1,166 +1,104 @@
-import React, { useState, useCallback } from 'react'
+import { useState, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Upload, Download, FileText, CheckCircle, AlertCircle, X, Database } from 'lucide-react'
+import { Upload, Download, FileText, CheckCircle, AlertCircle, Database } from 'lucide-react'
 import { useDropzone } from 'react-dropzone'
-import { useDataStore, TimeSeriesData } from '@/store/data-store'
+import { useKinneretStore, useActiveDataset, useTimeSeries } from '@/store/kinneret-store'
+import { useCSVOperations } from '@/hooks/use-csv-operations'
+import { CsvParseProgress, CsvParseResult, CsvPreview, readCSVPreview, summarizeParseResult } from '@/lib/csv-utils'
+import { ColumnMapping } from '@/lib/csv/mapping'
+import { PHYTOPLANKTON_GROUPS } from '@/lib/schemas'
+import { DatasetManager } from '@/components/dataset-manager'
+import { ImportWizard } from '@/components/import-wizard'
+import { ObservationImport } from '@/components/observation-import'
+import { QcReportCard } from '@/components/qc-report'
+import { GridLayerList, NetcdfImport } from '@/components/netcdf-import'
+import { LakeOutlineCard } from '@/components/lake-outline-card'
+import { countFlaggedValues } from '@/lib/qc'
+import { NetcdfReader } from '@/lib/netcdf/reader'
+import { GriddedVariable, listGriddedVariables } from '@/lib/netcdf/cf'
 
-// Mock data for the table
-const mockData = [
-  { date: '2019-01-01', diatoms: 0.8, dinoflagellates: 0.6, small_phyto: 0.4, n_fixers: 0.3, microcystis: 0.2 },
-  { date: '2019-02-01', diatoms: 0.9, dinoflagellates: 0.7, small_phyto: 0.5, n_fixers: 0.4, microcystis: 0.3 },
-  { date: '2019-03-01', diatoms: 0.7, dinoflagellates: 0.8, small_phyto: 0.6, n_fixers: 0.5, microcystis: 0.4 },
-  { date: '2019-04-01', diatoms: 0.6, dinoflagellates: 0.9, small_phyto: 0.7, n_fixers: 0.6, microcystis: 0.5 },
-  { date: '2019-05-01', diatoms: 0.5, dinoflagellates: 0.8, small_phyto: 0.8, n_fixers: 0.7, microcystis: 0.6 },
-  { date: '2019-06-01', diatoms: 0.4, dinoflagellates: 0.7, small_phyto: 0.9, n_fixers: 0.8, microcystis: 0.7 },
-  { date: '2019-07-01', diatoms: 0.3, dinoflagellates: 0.6, small_phyto: 0.8, n_fixers: 0.9, microcystis: 0.8 },
-  { date: '2019-08-01', diatoms: 0.2, dinoflagellates: 0.5, small_phyto: 0.7, n_fixers: 0.8, microcystis: 0.9 },
-  { date: '2019-09-01', diatoms: 0.3, dinoflagellates: 0.6, small_phyto: 0.6, n_fixers: 0.7, microcystis: 0.8 },
-  { date: '2019-10-01', diatoms: 0.4, dinoflagellates: 0.7, small_phyto: 0.5, n_fixers: 0.6, microcystis: 0.7 },
-  { date: '2019-11-01', diatoms: 0.6, dinoflagellates: 0.8, small_phyto: 0.4, n_fixers: 0.5, microcystis: 0.6 },
-  { date: '2019-12-01', diatoms: 0.7, dinoflagellates: 0.7, small_phyto: 0.3, n_fixers: 0.4, microcystis: 0.5 },
-]
-
-const requiredColumns = ['date', 'diatoms', 'dinoflagellates', 'small_phyto', 'n_fixers', 'microcystis']
+const requiredColumns = ['date', ...PHYTOPLANKTON_GROUPS] as const
 
 export function DataPage() {
-  const { timeSeriesData, loadData, clearData, isDataLoaded, dataSource, getDataSummary } = useDataStore()
+  const { error, setError, deleteDataset, getDataSummary } = useKinneretStore()
+  const activeDataset = useActiveDataset()
+  const { handleFileUpload, handleExportCSV, handleExportJSON } = useCSVOperations()
   const dataSummary = getDataSummary()
+  const isDataLoaded = activeDataset?.origin === 'uploaded'
   
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'success' | 'error'>('idle')
-  const [errorMessage, setErrorMessage] = useState('')
   const [isProcessing, setIsProcessing] = useState(false)
+  const [progress, setProgress] = useState<CsvParseProgress | null>(null)
+  const [parseResult, setParseResult] = useState<CsvParseResult | null>(null)
+  const [pendingImport, setPendingImport] = useState<{ file: File; preview: CsvPreview } | null>(null)
+  const [netcdfImport, setNetcdfImport] = useState<{ fileName: string; reader: NetcdfReader; variables: GriddedVariable[] } | null>(null)
 
-  // Use store data directly instead of local state
-  const uploadedData = timeSeriesData
+  const uploadedData = useTimeSeries()
+  const errorMessage = error ?? ''
 
-  const handleClearData = () => {
-    clearData()
+  const handleDeleteDataset = () => {
+    if (activeDataset) {
+      deleteDataset(activeDataset.id)
+    }
     setUploadStatus('idle')
-    setErrorMessage('')
   }
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  // A dropped CSV is previewed first; parsing starts once its columns are mapped.
+  // NetCDF model output opens the variable picker instead.
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const file = acceptedFiles[0]
     if (!file) return
 
-    setIsProcessing(true)
     setUploadStatus('idle')
+    setProgress(null)
+    setParseResult(null)
 
-    const reader = new FileReader()
-    reader.onload = (e) => {
+    if (file.name.toLowerCase().endsWith('.nc')) {
       try {
-        const csv = e.target?.result as string
-        const lines = csv.split('\n').filter(line => line.trim())
-        
-        if (lines.length < 2) {
-          throw new Error('CSV file must contain at least a header and one data row')
-        }
-
-        const headers = lines[0].split(',').map(h => h.trim().toLowerCase())
-        
-        // Validate required columns
-        const missingColumns = requiredColumns.filter(col => !headers.includes(col))
-        if (missingColumns.length > 0) {
-          throw new Error(`Missing required columns: ${missingColumns.join(', ')}`)
-        }
-
-        // Parse data rows
-        const data = lines.slice(1).map((line, index) => {
-          const values = line.split(',').map(v => v.trim())
-          const row: any = {}
-          
-          headers.forEach((header, i) => {
-            if (requiredColumns.includes(header)) {
-              const value = values[i]
-              if (header === 'date') {
-                // Validate date format (YYYY-MM-DD)
-                if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-                  throw new Error(`Invalid date format in row ${index + 2}: ${value}. Expected YYYY-MM-DD`)
-                }
-                row[header] = value
-              } else {
-                // Validate numeric values
-                const numValue = parseFloat(value)
-                if (isNaN(numValue)) {
-                  throw new Error(`Invalid numeric value in row ${index + 2}, column ${header}: ${value}`)
-                }
-                row[header] = numValue
-              }
-            }
-          })
-          
-          return row
-        })
-
-        loadData(data)
-        setUploadStatus('success')
-        setErrorMessage('')
+        const reader = await NetcdfReader.open(file)
+        setNetcdfImport({ fileName: file.name, reader, variables: await listGriddedVariables(reader) })
       } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to read NetCDF file')
         setUploadStatus('error')
-        setErrorMessage(error instanceof Error ? error.message : 'Unknown error occurred')
-      } finally {
-        setIsProcessing(false)
       }
+      return
+    }
+
+    try {
+      const preview = await readCSVPreview(file)
+      setPendingImport({ file, preview })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to read CSV file')
+      setUploadStatus('error')
     }
+  }, [setError])
 
-    reader.readAsText(file)
-  }, [])
+  const handleImport = useCallback(async (mapping: ColumnMapping) => {
+    if (!pendingImport) return
+    const { file } = pendingImport
+    setPendingImport(null)
+    setIsProcessing(true)
+
+    const { imported, result } = await handleFileUpload(file, setProgress, mapping)
+    setParseResult(result)
+    setUploadStatus(imported ? 'success' : 'error')
+    setIsProcessing(false)
+  }, [pendingImport, handleFileUpload])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
-      'application/vnd.ms-excel': ['.csv']
+      'application/vnd.ms-excel': ['.csv'],
+      'application/x-netcdf': ['.nc']
     },
-    multiple: false
+    multiple: false,
+    disabled: isProcessing,
   })
 
-  const exportToJSON = () => {
-    const dataStr = JSON.stringify(uploadedData, null, 2)
-    const dataBlob = new Blob([dataStr], { type: 'application/json' })
-    const url = URL.createObjectURL(dataBlob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = 'kinneret-data.json'
-    link.click()
-    URL.revokeObjectURL(url)
-  }
-
-  const exportToCSV = () => {
-    const headers = requiredColumns
-    const csvContent = [
-      headers.join(','),
-      ...uploadedData.map(row => 
-        headers.map(header => row[header] || '').join(',')
-      )
-    ].join('\n')
-    
-    const dataBlob = new Blob([csvContent], { type: 'text/csv' })
-    const url = URL.createObjectURL(dataBlob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = 'kinneret-data.csv'
-    link.click()
-    URL.revokeObjectURL(url)
-  }
-
-  const loadDataIntoApp = () => {
-    const typedData: TimeSeriesData[] = uploadedData.map(row => ({
-      date: row.date,
-      diatoms: row.diatoms,
-      dinoflagellates: row.dinoflagellates,
-      small_phyto: row.small_phyto,
-      n_fixers: row.n_fixers,
-      microcystis: row.microcystis
-    }))
-    
-    loadData(typedData)
-    setUploadStatus('success')
-  }
-
   return (
     <div className="space-y-4 sm:space-y-6">
       <div>
@@ -177,7 +115,7 @@ export function DataPage() {
             <CardHeader>
               <CardTitle>Upload Data</CardTitle>
               <CardDescription>
-                Upload CSV files with phytoplankton data
+                Upload CSV files with phytoplankton data, or NetCDF model output as map layers
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -208,14 +146,16 @@ export function DataPage() {
                   <div>
                     <p className="text-base sm:text-lg font-medium">
                       {isProcessing 
-                        ? 'Processing...' 
+                        ? progress
+                          ? `Processing... ${Math.round((progress.bytesRead / Math.max(progress.totalBytes, 1)) * 100)}% (${progress.rowsParsed.toLocaleString()} rows)`
+                          : 'Processing...' 
                         : uploadStatus === 'success'
                         ? 'Upload Successful!'
                         : uploadStatus === 'error'
                         ? 'Upload Failed'
                         : isDragActive
                         ? 'Drop the file here'
-                        : 'Drag & drop a CSV file here'
+                        : 'Drag & drop a CSV or NetCDF (.nc) file here'
                       }
                     </p>
                     <p className="text-xs sm:text-sm text-muted-foreground">
@@ -236,26 +176,59 @@ export function DataPage() {
                 <Alert className="mt-4">
                   <CheckCircle className="h-4 w-4" />
                   <AlertDescription>
-                    Data uploaded successfully! {uploadedData.length} rows processed.
-                    {!isDataLoaded && (
-                      <div className="mt-2">
-                        <Button onClick={loadDataIntoApp} size="sm" className="mt-2">
-                          <Database className="mr-2 h-4 w-4" />
-                          Load into App
-                        </Button>
-                      </div>
+                    Data uploaded successfully! {uploadedData.length} rows added as dataset "{activeDataset?.name}".
+                    {parseResult && parseResult.errorCount > 0 && (
+                      <span className="block">{summarizeParseResult(parseResult)}.</span>
+                    )}
+                    {activeDataset?.qc && activeDataset.qc.flags.length > 0 && (
+                      <span className="block">
+                        QC flagged {countFlaggedValues(activeDataset.qc)} values; see the Quality Control report below.
+                      </span>
                     )}
                   </AlertDescription>
                 </Alert>
               )}
 
+              {parseResult && parseResult.errors.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Row errors</span>
+                    <Badge variant="outline" className="text-xs">
+                      {parseResult.errorCount} total · delimiter "{parseResult.delimiter === '\t' ? 'tab' : parseResult.delimiter}"
+                    </Badge>
+                  </div>
+                  <div className="max-h-48 overflow-y-auto rounded-lg border">
+                    <table className="w-full text-xs">
+                      <thead className="sticky top-0 bg-background">
+                        <tr className="border-b">
+                          <th className="text-left p-1 sm:p-2 font-medium">Line</th>
+                          <th className="text-left p-1 sm:p-2 font-medium">Column</th>
+                          <th className="text-left p-1 sm:p-2 font-medium">Message</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {parseResult.errors.map((rowError, index) => (
+                          <tr key={index} className="border-b">
+                            <td className="p-1 sm:p-2 font-mono">{rowError.line}</td>
+                            <td className="p-1 sm:p-2 font-mono">
+                              {rowError.column !== undefined ? `${rowError.column}${rowError.field ? ` (${rowError.field})` : ''}` : '—'}
+                            </td>
+                            <td className="p-1 sm:p-2">{rowError.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {isDataLoaded && (
                 <Alert className="mt-4">
                   <Database className="h-4 w-4" />
                   <AlertDescription>
-                    Data is loaded in the app! ({dataSource} data)
-                    <Button onClick={handleClearData} variant="outline" size="sm" className="ml-2">
-                      Clear Data
+                    Active dataset: {activeDataset?.name}
+                    <Button onClick={handleDeleteDataset} variant="outline" size="sm" className="ml-2">
+                      Delete Dataset
                     </Button>
                   </AlertDescription>
                 </Alert>
@@ -263,12 +236,41 @@ export function DataPage() {
             </CardContent>
           </Card>
 
+          {pendingImport && (
+            <ImportWizard
+              fileName={pendingImport.file.name}
+              preview={pendingImport.preview}
+              onImport={handleImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
+          {netcdfImport && (
+            <NetcdfImport
+              key={netcdfImport.fileName}
+              fileName={netcdfImport.fileName}
+              reader={netcdfImport.reader}
+              variables={netcdfImport.variables}
+              onClose={() => setNetcdfImport(null)}
+            />
+          )}
+
+          <ObservationImport />
+
+          <GridLayerList />
+
+          <LakeOutlineCard />
+
+          <DatasetManager />
+
+          <QcReportCard />
+
           {/* Required Format */}
           <Card>
             <CardHeader>
               <CardTitle>Required Format</CardTitle>
               <CardDescription>
-                CSV file must contain these columns
+                Files with these headers are mapped automatically; other headers can be mapped in the import wizard
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -285,9 +287,12 @@ export function DataPage() {
                   ))}
                 </div>
                 <div className="text-xs text-muted-foreground space-y-1">
-                  <p>• Date format: YYYY-MM-DD</p>
-                  <p>• Numeric values for phytoplankton groups</p>
+                  <p>• Date format: YYYY-MM-DD, or choose another format when mapping</p>
+                  <p>• Optional station and depth columns; rows sharing a date are averaged</p>
+                  <p>• Numeric values for phytoplankton groups (decimal point or comma)</p>
                   <p>• First row must be headers</p>
+                  <p>• Comma, semicolon or tab delimited; quoted fields and CRLF line endings are supported</p>
+                  <p>• NetCDF: classic or 64-bit offset files with CF longitude/latitude coordinates</p>
                 </div>
               </div>
             </CardContent>
@@ -302,15 +307,15 @@ export function DataPage() {
                 <div>
                   <CardTitle>Data Preview</CardTitle>
                   <CardDescription>
-                    {uploadedData.length} rows of data
+                    {activeDataset?.name}: {uploadedData.length} rows of data
                   </CardDescription>
                 </div>
                 <div className="flex flex-col sm:flex-row gap-2 mt-2 sm:mt-0">
-                  <Button onClick={exportToCSV} variant="outline" size="sm" className="text-xs sm:text-sm">
+                  <Button onClick={handleExportCSV} variant="outline" size="sm" className="text-xs sm:text-sm">
                     <Download className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
                     CSV
                   </Button>
-                  <Button onClick={exportToJSON} variant="outline" size="sm" className="text-xs sm:text-sm">
+                  <Button onClick={handleExportJSON} variant="outline" size="sm" className="text-xs sm:text-sm">
                     <Download className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" />
                     JSON
                   </Button>
@@ -334,9 +339,9 @@ export function DataPage() {
                       <tr key={index} className="border-b">
                         {requiredColumns.map((column) => (
                           <td key={column} className="p-1 sm:p-2 whitespace-nowrap">
-                            {typeof row[column] === 'number' 
-                              ? row[column].toFixed(2) 
-                              : row[column]
+                            {column === 'date' 
+                              ? row.date 
+                              : row[column].toFixed(3)
                             }
                           </td>
                         ))}
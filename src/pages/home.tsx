@@ -2,11 +2,11 @@ import { Link } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { BarChart3, PlayCircle, Database, MapPin, Calendar, Zap } from 'lucide-react'
-import { useDataStore } from '@/store/data-store'
+import { useTimeSeries } from '@/store/kinneret-store'
 import { formatNumber } from '@/lib/localization'
 
 export function HomePage() {
-  const { timeSeriesData } = useDataStore()
+  const timeSeriesData = useTimeSeries()
   
   // Calculate real KPIs from data
   const totalSamples = timeSeriesData.length * 5 // 5 groups per sample
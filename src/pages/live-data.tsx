@@ -2,13 +2,25 @@ import { useState, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
 import { EnhancedMapView } from '@/components/enhanced-map-view'
+import { StationObservationMeans } from '@/components/observed-profile'
 import { FigureFrame } from '@/components/figure-frame'
-import { MapPin, BarChart3, Clock, Map } from 'lucide-react'
+import { LiveKinneret } from '@/components/map/LiveKinneret'
+import { BiomassHeatmap } from '@/components/biomass/BiomassHeatmap'
+import { MapPin, BarChart3, Clock, Map, Layers } from 'lucide-react'
+import { useGridLayers } from '@/store/kinneret-store'
+import { describeGridField } from '@/lib/rasters/grid-field'
 import mapData from '@/data/maps.json'
 
 export function LiveDataPage() {
   const [selectedMarker, setSelectedMarker] = useState<typeof mapData.stations[0] | null>(null)
+  const gridLayers = useGridLayers()
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null)
+  const [layerOpacity, setLayerOpacity] = useState(0.8)
+  // Most recently imported layer until one is picked
+  const selectedLayer = gridLayers.find(layer => layer.id === selectedLayerId) ?? gridLayers[gridLayers.length - 1] ?? null
   
   // Refs for export
   const mapViewRef = useRef<HTMLDivElement>(null)
@@ -39,6 +51,10 @@ export function LiveDataPage() {
             <Clock className="mr-2 h-4 w-4" />
             Timeline
           </TabsTrigger>
+          <TabsTrigger value="model">
+            <Layers className="mr-2 h-4 w-4" />
+            Model Layers
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="map" className="space-y-4">
@@ -118,12 +134,12 @@ export function LiveDataPage() {
                         <span className="text-sm text-muted-foreground">Position</span>
                         <span className="font-medium">{selectedMarker.position[0].toFixed(3)}, {selectedMarker.position[1].toFixed(3)}</span>
                       </div>
-                      <div className="flex justify-between">
-                        <span className="text-sm text-muted-foreground">Note</span>
-                        <span className="font-medium">Sample metadata here</span>
-                      </div>
                     </div>
                   </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <h4 className="font-medium">Observed Means</h4>
+                    <StationObservationMeans station={selectedMarker.id} />
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -177,6 +193,84 @@ export function LiveDataPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="model" className="space-y-4">
+          {!selectedLayer ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Model Layers</CardTitle>
+                <CardDescription>
+                  Drop a NetCDF model output on the Data page and add variables to show them here
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                    <Select value={selectedLayer.id} onValueChange={setSelectedLayerId}>
+                      <SelectTrigger className="h-9 sm:w-96 text-sm" aria-label="Model layer">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {gridLayers.map(layer => (
+                          <SelectItem key={layer.id} value={layer.id}>{describeGridField(layer)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-3 sm:w-64">
+                      <span className="text-sm text-muted-foreground whitespace-nowrap">Opacity</span>
+                      <Slider
+                        value={[Math.round(layerOpacity * 100)]}
+                        onValueChange={([value]) => setLayerOpacity(value / 100)}
+                        min={0}
+                        max={100}
+                        step={5}
+                        aria-label="Layer opacity"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <div className="grid gap-4 lg:grid-cols-2">
+                <FigureFrame
+                  title="Model Field Map"
+                  subtitle={describeGridField(selectedLayer)}
+                  caption={`${selectedLayer.name} from ${selectedLayer.source}, ${selectedLayer.width}×${selectedLayer.height} cells.`}
+                  units={selectedLayer.units}
+                  source={selectedLayer.source}
+                  pageName="live-data"
+                  figureKey="model-layer-map"
+                  supportsSVG={false}
+                >
+                  <div className="h-96">
+                    <LiveKinneret gridLayer={selectedLayer} gridOpacity={layerOpacity} />
+                  </div>
+                </FigureFrame>
+
+                <FigureFrame
+                  title="Model Field Heatmap"
+                  subtitle={describeGridField(selectedLayer)}
+                  caption={`Gridded values of ${selectedLayer.variable}; cells without data are blank.`}
+                  units={selectedLayer.units}
+                  source={selectedLayer.source}
+                  pageName="live-data"
+                  figureKey="model-layer-heatmap"
+                  supportsSVG={false}
+                >
+                  <BiomassHeatmap
+                    groupId={selectedLayer.quantity ?? selectedLayer.variable}
+                    grid={selectedLayer}
+                    width={400}
+                    height={Math.round((400 * selectedLayer.height) / selectedLayer.width)}
+                  />
+                </FigureFrame>
+              </div>
+            </>
+          )}
+        </TabsContent>
       </Tabs>
 
       <Card className="bg-muted/50">
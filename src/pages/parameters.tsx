@@ -0,0 +1,272 @@
+import { Fragment, useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { BookOpen, Download, History, RotateCcw, Upload } from 'lucide-react'
+import dayjs from 'dayjs'
+import { useKinneretStore, useParameterRegistry } from '@/store/kinneret-store'
+import { PARAMETER_MODELS, PHYTOPLANKTON_GROUPS, ParameterModel, PhytoplanktonGroup, REGISTRY_PARAMETERS, RegistryParameter } from '@/lib/schemas'
+import { exportRegistryFile, isOutsideRange, parameterValueError, parseRegistryFile, registryToCsv } from '@/lib/parameters'
+import { downloadFile } from '@/lib/csv-utils'
+
+type ModelFilter = 'all' | ParameterModel
+
+const MODEL_LABELS: Record<ParameterModel, string> = {
+  npz: 'NPZ',
+  response: 'Response',
+  'water-column': 'Water column',
+}
+
+const inputClassName = 'w-full px-2 py-1 text-xs border border-input rounded-md bg-background font-mono focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent'
+
+export function ParametersPage() {
+  const registry = useParameterRegistry()
+  const setParameter = useKinneretStore(state => state.setParameter)
+  const resetGroupParams = useKinneretStore(state => state.resetGroupParams)
+  const resetParameters = useKinneretStore(state => state.resetParameters)
+  const importParameters = useKinneretStore(state => state.importParameters)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const [groupFilter, setGroupFilter] = useState<PhytoplanktonGroup | 'all'>('all')
+  const [modelFilter, setModelFilter] = useState<ModelFilter>('all')
+  const [note, setNote] = useState('')
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const groups = groupFilter === 'all' ? PHYTOPLANKTON_GROUPS : [groupFilter]
+  const params = REGISTRY_PARAMETERS.filter(param => modelFilter === 'all' || registry.parameters[param].models.includes(modelFilter))
+  const changeCount = PHYTOPLANKTON_GROUPS.reduce(
+    (sum, group) => sum + REGISTRY_PARAMETERS.reduce((count, param) => count + registry.groups[group].values[param].history.length, 0),
+    0
+  )
+
+  const commit = (group: PhytoplanktonGroup, param: RegistryParameter, text: string) => {
+    const value = Number(text)
+    if (text.trim() === '' || value === registry.groups[group].values[param].value) return
+    const problem = parameterValueError(registry, param, value)
+    if (problem) {
+      setMessage(null)
+      setError(`${registry.groups[group].name}: ${problem}`)
+      return
+    }
+    setParameter(group, param, value, { source: 'Parameters page', note: note.trim() || undefined })
+    setError(null)
+    setMessage(`${registry.groups[group].name} ${registry.parameters[param].name}: ${registry.groups[group].values[param].value} → ${value}`)
+  }
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    try {
+      importParameters(parseRegistryFile(await file.text()))
+      setMessage(`Imported the parameter registry from ${file.name}`)
+    } catch (err) {
+      setMessage(null)
+      setError(err instanceof Error ? err.message : 'Failed to read parameter file')
+    }
+  }
+
+  const stamp = dayjs().format('YYYY-MM-DD')
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Parameters</h1>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Phytoplankton group parameters of every model, with literature ranges, references and the history of each change
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="responsive-heading flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Parameter Registry
+          </CardTitle>
+          <CardDescription className="responsive-text">
+            The NPZ model, the biomass response map, scenarios and calibration all read these values; edits apply to the next run
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={groupFilter} onValueChange={value => setGroupFilter(value as PhytoplanktonGroup | 'all')}>
+              <SelectTrigger className="h-8 w-48 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All groups</SelectItem>
+                {PHYTOPLANKTON_GROUPS.map(group => (
+                  <SelectItem key={group} value={group}>{registry.groups[group].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={modelFilter} onValueChange={value => setModelFilter(value as ModelFilter)}>
+              <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All models</SelectItem>
+                {PARAMETER_MODELS.map(model => (
+                  <SelectItem key={model} value={model}>{MODEL_LABELS[model]} model</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0]
+                if (file) handleFile(file)
+                event.target.value = ''
+              }}
+            />
+            <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import JSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => downloadFile(exportRegistryFile(registry), `kinneret-parameters-${stamp}.json`, 'application/json')}>
+              <Download className="mr-2 h-4 w-4" />
+              Export JSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => downloadFile(registryToCsv(registry), `kinneret-parameters-${stamp}.csv`, 'text/csv')}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+            <Button size="sm" variant="outline" onClick={resetParameters}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset values
+            </Button>
+          </div>
+
+          <label className="block space-y-1 text-xs text-muted-foreground max-w-md">
+            Note recorded with the next edits
+            <input value={note} onChange={e => setNote(e.target.value)} placeholder="e.g. Matched to the 2019 monitoring data" className={inputClassName} />
+          </label>
+
+          {message && <p className="text-sm text-muted-foreground">{message}</p>}
+          {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium">Parameter</th>
+                  <th className="text-left p-2 font-medium">Hebrew name</th>
+                  <th className="text-left p-2 font-medium w-28">Value</th>
+                  <th className="text-left p-2 font-medium">Range</th>
+                  <th className="text-left p-2 font-medium">Units</th>
+                  <th className="text-left p-2 font-medium">Models</th>
+                  <th className="text-left p-2 font-medium">Reference</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(group => {
+                  const entry = registry.groups[group]
+                  return (
+                    <Fragment key={group}>
+                      <tr className="border-b bg-muted/40">
+                        <td className="p-2 font-medium" colSpan={7}>
+                          {entry.name}
+                          <span className="ml-2 font-normal" dir="rtl" lang="he">{entry.hebrewName}</span>
+                          <span className="ml-2 font-normal text-muted-foreground">{entry.description}</span>
+                        </td>
+                        <td className="p-2 text-right">
+                          <Button size="sm" variant="ghost" onClick={() => resetGroupParams(group)} aria-label={`Reset ${entry.name}`}>
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                      {params.map(param => {
+                        const definition = registry.parameters[param]
+                        const value = entry.values[param]
+                        const rowKey = `${group}.${param}`
+                        const isExpanded = expanded === rowKey
+                        return (
+                          <Fragment key={rowKey}>
+                            <tr className="border-b align-middle">
+                              <td className="p-2">
+                                <div className="font-medium">{definition.name}</div>
+                                <div className="font-mono text-muted-foreground">{param}</div>
+                              </td>
+                              <td className="p-2" dir="rtl" lang="he">{definition.hebrewName}</td>
+                              <td className="p-2">
+                                <input
+                                  // Remounted when the value changes elsewhere (import, reset, calibration)
+                                  key={`${rowKey}-${value.value}`}
+                                  type="number"
+                                  defaultValue={value.value}
+                                  min={definition.bounds[0]}
+                                  max={definition.bounds[1]}
+                                  step={definition.step}
+                                  onBlur={e => commit(group, param, e.target.value)}
+                                  onKeyDown={e => {
+                                    if (e.key === 'Enter') e.currentTarget.blur()
+                                  }}
+                                  className={inputClassName}
+                                  aria-label={`${definition.name} of ${entry.name}`}
+                                />
+                              </td>
+                              <td className="p-2 font-mono whitespace-nowrap">
+                                {value.min}–{value.max}
+                                {isOutsideRange(registry, group, param) && (
+                                  <Badge variant="destructive" className="ml-2 text-[10px]">outside</Badge>
+                                )}
+                              </td>
+                              <td className="p-2 whitespace-nowrap">{definition.units || '—'}</td>
+                              <td className="p-2">
+                                <div className="flex gap-1">
+                                  {definition.models.map(model => (
+                                    <Badge key={model} variant="secondary" className="text-[10px]">{MODEL_LABELS[model]}</Badge>
+                                  ))}
+                                </div>
+                              </td>
+                              <td className="p-2 min-w-[240px] text-muted-foreground">{value.reference}</td>
+                              <td className="p-2 text-right">
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setExpanded(isExpanded ? null : rowKey)}
+                                  disabled={value.history.length === 0}
+                                  aria-expanded={isExpanded}
+                                  aria-label={`History of ${definition.name} of ${entry.name}`}
+                                >
+                                  <History className="mr-1 h-4 w-4" />
+                                  {value.history.length}
+                                </Button>
+                              </td>
+                            </tr>
+                            {isExpanded && (
+                              <tr className="border-b bg-muted/20">
+                                <td className="p-2" colSpan={8}>
+                                  <ul className="space-y-1">
+                                    {[...value.history].reverse().map((change, i) => (
+                                      <li key={`${change.date}-${i}`} className="flex flex-wrap gap-x-3">
+                                        <span className="text-muted-foreground">{dayjs(change.date).format('YYYY-MM-DD HH:mm')}</span>
+                                        <span className="font-mono">{change.previous} → {change.value}</span>
+                                        <span>{change.source}</span>
+                                        {change.note && <span className="text-muted-foreground">{change.note}</span>}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        )
+                      })}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {changeCount} recorded change{changeCount === 1 ? '' : 's'}. Values must lie within each parameter's admissible bounds;
+            values outside the literature range are allowed and flagged. The JSON export keeps the full history and can be imported again.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
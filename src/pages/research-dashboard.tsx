@@ -1,14 +1,23 @@
-import React, { useRef, useState } from 'react'
+import React, { useMemo, useRef, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ZooplanktonChart } from '@/components/zooplankton-chart'
 import { EnhancedMapView } from '@/components/enhanced-map-view'
 import { FigureExportControls } from '@/components/figure-export-controls'
+import { ObservedDepthProfile } from '@/components/observed-profile'
 import { TrendingUp } from 'lucide-react'
-import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts'
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart, Legend, Line, LineChart } from 'recharts'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PhytoplanktonGroup } from '@/lib/schemas'
+import { depthTimeMatrix, kinneretWindSpeed, monthlyProfiles } from '@/lib/model/water-column'
+import { analyzeStratification } from '@/lib/model/stratification'
+import { midMonthDayOfYear } from '@/lib/model/light'
+import { useWaterColumn } from '@/hooks/use-water-column'
 import mapDataRaw from '@/data/maps.json'
 const mapData = mapDataRaw as any
 
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
 export function ResearchDashboardPage() {
   
   // State for group selection
@@ -18,69 +27,77 @@ export function ResearchDashboardPage() {
   const [viewMode, setViewMode] = useState<'heatmap' | 'depth'>('heatmap')
   
   
+  // Month of the depth profile (0 = January)
+  const [profileMonth, setProfileMonth] = useState(new Date().getMonth())
+  const { result: column, isRunning: isColumnRunning, progress: columnProgress } = useWaterColumn()
+  
   // Group data
-  const groups = [
-    { id: 'diatoms', name: 'Diatoms', color: '#3B82F6' },
-    { id: 'dinoflagellates', name: 'Dinoflagellates', color: '#10B981' },
-    { id: 'small_phyto', name: 'Small Phytoplankton', color: '#F59E0B' },
-    { id: 'n_fixers', name: 'N-fixing Cyanobacteria', color: '#EF4444' },
-    { id: 'microcystis', name: 'Microcystis', color: '#8B5CF6' }
+  const groups: Array<{ id: string; group: PhytoplanktonGroup; name: string; color: string }> = [
+    { id: 'diatoms', group: 'diatom', name: 'Diatoms', color: '#3B82F6' },
+    { id: 'dinoflagellates', group: 'dinoflagellates', name: 'Dinoflagellates', color: '#10B981' },
+    { id: 'small_phyto', group: 'small_phyto', name: 'Small Phytoplankton', color: '#F59E0B' },
+    { id: 'n_fixers', group: 'n_fixers', name: 'N-fixing Cyanobacteria', color: '#EF4444' },
+    { id: 'microcystis', group: 'microcystis', name: 'Microcystis', color: '#8B5CF6' }
   ]
   
   const selectedGroupData = groups.find(g => g.id === selectedGroup)
+  const modelGroup = selectedGroupData?.group ?? 'diatom'
   
-  // Generate depth profile data
-  const generateDepthProfileData = () => {
-    const depths = Array.from({ length: 21 }, (_, i) => -i * 2) // 0 to -40m
-    
-    return depths.map(depth => {
-      let biomass = 0
-      
-      // Different depth patterns for different phytoplankton groups
-      switch (selectedGroup) {
-        case 'diatoms':
-          // Diatoms peak at surface and decrease with depth
-          biomass = Math.max(0, 0.04 * Math.exp(-Math.abs(depth) / 15))
-          break
-        case 'dinoflagellates':
-          // Dinoflagellates peak at mid-depth (10-20m)
-          biomass = Math.max(0, 0.035 * Math.exp(-Math.pow((depth + 15) / 8, 2)))
-          break
-        case 'small_phyto':
-          // Small phytoplankton more evenly distributed
-          biomass = Math.max(0, 0.03 * (1 - Math.abs(depth) / 40))
-          break
-        case 'n_fixers':
-          // N-fixers peak near surface (0-10m)
-          biomass = Math.max(0, 0.025 * Math.exp(-Math.abs(depth) / 10))
-          break
-        case 'microcystis':
-          // Microcystis buoyant, concentrated at surface
-          biomass = Math.max(0, 0.045 * Math.exp(-Math.abs(depth) / 8))
-          break
-        default:
-          biomass = Math.max(0, 0.03 * Math.exp(-Math.abs(depth) / 15))
-      }
-      
-      // Add some seasonal variation based on current month
-      const monthVariation = 1 + 0.2 * Math.sin((new Date().getMonth() + 1) * Math.PI / 6)
-      
-      return {
-        depth: depth,
-        biomass: biomass * monthVariation,
-        depthLabel: `${depth}m`
-      }
-    })
-  }
+  // Depth-time heatmap from the water-column model: 2 m bins to 40 m, monthly means
+  const heatmapGrid = useMemo(
+    () => (column ? depthTimeMatrix(column, column.biomass[modelGroup], 2, 20) : null),
+    [column, modelGroup]
+  )
+  const heatmapMax = useMemo(
+    () => (heatmapGrid ? Math.max(0, ...heatmapGrid.flat().filter(Number.isFinite)) : 0),
+    [heatmapGrid]
+  )
   
-  const depthProfileData = generateDepthProfileData()
+  // Monthly mean profile of the selected month, one point per model layer
+  const depthProfileData = useMemo(() => {
+    if (!column) return []
+    const profile = monthlyProfiles(column, column.biomass[modelGroup])[profileMonth]
+    if (!profile) return []
+    return [
+      { depth: 0, biomass: profile[0], depthLabel: '0m' },
+      ...Array.from(column.depths, (depth, i) => ({
+        depth: -depth,
+        biomass: profile[i],
+        depthLabel: `${-depth}m`
+      }))
+    ]
+  }, [column, modelGroup, profileMonth])
   
+  // Stratification of the monthly mean temperature profile under the climatological wind
+  const stratificationData = useMemo(() => {
+    if (!column) return []
+    return monthlyProfiles(column, column.temperature).flatMap((profile, month) => {
+      if (!profile) return []
+      const windSpeed = kinneretWindSpeed(midMonthDayOfYear(month + 1))
+      const stratification = analyzeStratification(column.depths, profile, windSpeed)
+      return [{
+        month: MONTH_LABELS[month],
+        surfaceTemperature: profile[0],
+        bottomTemperature: profile[profile.length - 1],
+        windSpeed,
+        mixedLayerDepth: stratification.mixedLayerDepth,
+        thermoclineDepth: stratification.thermoclineDepth,
+        densityDifference: stratification.densityDifference,
+        schmidtStability: stratification.schmidtStability,
+        wedderburn: stratification.wedderburn,
+        lakeNumber: stratification.lakeNumber,
+        mixingIndex: stratification.mixingIndex,
+      }]
+    })
+  }, [column])
+
   // Export functions
   
   // Refs for export
   const phytoplanktonRef = useRef<HTMLDivElement>(null)
   const zooplanktonRef = useRef<HTMLDivElement>(null)
   const spatialMapRef = useRef<HTMLDivElement>(null)
+  const stratificationRef = useRef<HTMLDivElement>(null)
 
 
   return (
@@ -135,7 +152,7 @@ export function ResearchDashboardPage() {
       <Tabs defaultValue="phytoplankton" className="space-y-4">
         <Card>
           <CardContent className="p-4">
-            <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 gap-1 h-auto">
+            <TabsList className="grid w-full grid-cols-2 sm:grid-cols-5 gap-1 h-auto">
               <TabsTrigger 
                 value="phytoplankton" 
                 className="text-xs sm:text-sm px-2 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -154,6 +171,12 @@ export function ResearchDashboardPage() {
               >
                 Spatial
               </TabsTrigger>
+              <TabsTrigger 
+                value="stratification" 
+                className="text-xs sm:text-sm px-2 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+              >
+                Stratification
+              </TabsTrigger>
               <TabsTrigger 
                 value="parameters" 
                 className="text-xs sm:text-sm px-2 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -183,12 +206,12 @@ export function ResearchDashboardPage() {
                     : `${selectedGroupData?.name} Depth Profile`,
                   subtitle: viewMode === 'heatmap' 
                     ? 'Depth: 0 to -40m | Time: January to December'
-                    : 'Average biomass concentration across depth layers',
+                    : 'Monthly mean biomass across depth layers',
                   caption: viewMode === 'heatmap' 
                     ? 'Biomass (mmol P/m³) across depth (m) and months; depth increases downward. Units: mmol P/m³'
                     : 'Vertical distribution of phytoplankton biomass showing concentration changes with depth. Units: mmol P/m³',
                   units: 'mmol P/m³',
-                  source: 'Lake Kinneret monitoring program',
+                  source: '1D water-column model, Lake Kinneret Station A',
                   timestamp: new Date().toISOString(),
                   appName: 'Kinneret3DEcology',
                   appVersion: '1.0.0'
@@ -244,6 +267,23 @@ export function ResearchDashboardPage() {
               >
                 Depth Profile
               </button>
+              {viewMode === 'depth' && (
+                <Select value={String(profileMonth)} onValueChange={(value) => setProfileMonth(Number(value))}>
+                  <SelectTrigger className="w-28 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTH_LABELS.map((month, index) => (
+                      <SelectItem key={month} value={String(index)}>{month}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {isColumnRunning && (
+                <span className="self-center text-xs text-muted-foreground">
+                  Running water-column model… {Math.round(columnProgress * 100)}%
+                </span>
+              )}
             </div>
 
             {/* Chart Area - Auto-sizing to fit content */}
@@ -258,11 +298,11 @@ export function ResearchDashboardPage() {
                 <p className="text-sm text-muted-foreground">
                   {viewMode === 'heatmap' 
                     ? 'Depth: 0 to -40m | Time: January to December'
-                    : 'Average biomass concentration across depth layers'
+                    : 'Monthly mean biomass across depth layers'
                   }
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  Units: mmol P/m³ | Based on research data from Lake Kinneret
+                  Units: mmol P/m³ | 1D water-column model of Station A
                 </p>
               </div>
               
@@ -274,7 +314,7 @@ export function ResearchDashboardPage() {
                     <div className="grid grid-cols-12 gap-1 text-xs">
                       {/* Month headers */}
                       <div className="col-span-1"></div>
-                      {['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'].map((month, index) => (
+                      {MONTH_LABELS.map((month, index) => (
                         <div key={month} className="text-center font-medium text-muted-foreground py-1" style={{ gridColumn: index + 2 }}>
                           {month}
                         </div>
@@ -290,9 +330,10 @@ export function ResearchDashboardPage() {
                           
                           {/* Heatmap cells */}
                           {Array.from({ length: 12 }, (_, monthIndex) => {
-                            const value = Math.random() * 0.05; // Simulated data
-                            const intensity = value / 0.05;
-                            const opacity = Math.max(0.1, intensity);
+                            const cell = heatmapGrid?.[depthIndex][monthIndex]
+                            const value = cell !== undefined && Number.isFinite(cell) ? cell : 0
+                            const intensity = heatmapMax > 0 ? value / heatmapMax : 0
+                            const opacity = Math.max(0.1, intensity)
                             
                             return (
                               <div
@@ -302,7 +343,7 @@ export function ResearchDashboardPage() {
                                   backgroundColor: selectedGroupData?.color || '#3B82F6',
                                   opacity: opacity,
                                 }}
-                                title={`Month ${monthIndex + 1}, Depth ${-(depthIndex + 1) * 2}m: ${value.toFixed(4)} mmol P/m³`}
+                                title={`Month ${monthIndex + 1}, Depth ${-(depthIndex + 1) * 2}m: ${value.toPrecision(3)} mmol P/m³`}
                               />
                             )
                           })}
@@ -354,7 +395,7 @@ export function ResearchDashboardPage() {
                             width={60}
                           />
                           <Tooltip 
-                            formatter={(value: number) => [`${value.toFixed(4)} mmol P/m³`, 'Biomass']}
+                            formatter={(value: number) => [`${value.toPrecision(3)} mmol P/m³`, 'Biomass']}
                             labelFormatter={(depth) => `Depth: ${depth}m`}
                           />
                           <Area
@@ -381,6 +422,11 @@ export function ResearchDashboardPage() {
                       </div>
                       <span className="text-xs text-muted-foreground">Bottom (-40m)</span>
                     </div>
+
+                    {/* Measured profile of the same group */}
+                    <div className="mt-6 pt-4 border-t border-muted/50">
+                      <ObservedDepthProfile variable={modelGroup} color={selectedGroupData?.color} />
+                    </div>
                   </div>
                 </>
               )}
@@ -592,6 +638,97 @@ export function ResearchDashboardPage() {
           </div>
         </TabsContent>
 
+        <TabsContent value="stratification" className="space-y-4">
+          <div>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div className="text-center mb-4">
+                <h2 className="text-2xl font-bold">Stratification and Mixing</h2>
+                <p className="text-muted-foreground mt-1">
+                  Mixed layer, Schmidt stability, Wedderburn and Lake numbers of the monthly mean temperature profile at Station A
+                </p>
+              </div>
+              <FigureExportControls
+                elementRef={stratificationRef as React.RefObject<HTMLElement>}
+                metadata={{
+                  title: 'Stratification and Mixing',
+                  subtitle: 'Monthly mean temperature profile at Station A under the climatological wind',
+                  caption: 'Mixed-layer and thermocline depth (m) by month; table lists stability numbers. Units: m',
+                  units: 'm',
+                  source: '1D water-column model, Lake Kinneret Station A',
+                  timestamp: new Date().toISOString(),
+                  appName: 'Kinneret3DEcology',
+                  appVersion: '1.0.0'
+                }}
+                filename="research-stratification"
+                pageName="research"
+                figureKey="stratification"
+                supportsSVG={true}
+              />
+            </div>
+
+            <div id="stratification-chart" className="p-4 space-y-4" ref={stratificationRef}>
+              {stratificationData.length === 0 ? (
+                <div className="h-80 flex items-center justify-center text-sm text-muted-foreground">
+                  {isColumnRunning ? `Running water-column model… ${Math.round(columnProgress * 100)}%` : 'No water-column run available'}
+                </div>
+              ) : (
+                <>
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={stratificationData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="month" />
+                        <YAxis reversed domain={[0, 40]} label={{ value: 'Depth (m)', angle: -90, position: 'insideLeft' }} />
+                        <Tooltip formatter={value => (typeof value === 'number' ? `${value.toFixed(1)} m` : '—')} />
+                        <Legend />
+                        <Line type="monotone" dataKey="mixedLayerDepth" name="Mixed layer" stroke="#3B82F6" strokeWidth={2} />
+                        <Line type="monotone" dataKey="thermoclineDepth" name="Thermocline" stroke="#EF4444" strokeWidth={2} connectNulls={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs sm:text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left p-2 font-medium">Month</th>
+                          <th className="text-right p-2 font-medium">Surface / bottom (°C)</th>
+                          <th className="text-right p-2 font-medium">Wind (m/s)</th>
+                          <th className="text-right p-2 font-medium">Δρ (kg/m³)</th>
+                          <th className="text-right p-2 font-medium">Schmidt (J/m²)</th>
+                          <th className="text-right p-2 font-medium">Wedderburn</th>
+                          <th className="text-right p-2 font-medium">Lake number</th>
+                          <th className="text-right p-2 font-medium">Mixing index</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stratificationData.map(row => (
+                          <tr key={row.month} className="border-b">
+                            <td className="p-2">{row.month}</td>
+                            <td className="p-2 text-right font-mono">{row.surfaceTemperature.toFixed(1)} / {row.bottomTemperature.toFixed(1)}</td>
+                            <td className="p-2 text-right font-mono">{row.windSpeed.toFixed(1)}</td>
+                            <td className="p-2 text-right font-mono">{row.densityDifference.toFixed(2)}</td>
+                            <td className="p-2 text-right font-mono">{row.schmidtStability.toFixed(0)}</td>
+                            <td className="p-2 text-right font-mono">{row.wedderburn.toFixed(2)}</td>
+                            <td className="p-2 text-right font-mono">{row.lakeNumber.toFixed(2)}</td>
+                            <td className="p-2 text-right font-mono">{row.mixingIndex.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="mt-4 pt-3 border-t border-muted/50">
+              <p className="text-sm text-muted-foreground text-center">
+                W &lt; 1 or a Lake number &lt; 1: the wind tilts the thermocline and mixes the epilimnion; the mixing index 1 / (1 + W) drives the mixing response of each group.
+              </p>
+            </div>
+          </div>
+        </TabsContent>
+
         <TabsContent value="parameters" className="space-y-4">
           <Card>
             <CardHeader>
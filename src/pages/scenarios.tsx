@@ -1,91 +1,59 @@
-import { useState, useRef } from 'react'
+import { useState, useRef, useMemo, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion'
 import { Slider } from '@/components/ui/slider'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Play, RotateCcw, Download } from 'lucide-react'
-import { useDataStore } from '@/store/data-store'
+import { Play, RotateCcw, Download, Square } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import dayjs from 'dayjs'
+import { useKinneretStore, useParameterRegistry, useTimeSeries } from '@/store/kinneret-store'
+import { ForcingSeries, GroupParams, Nutrients, PHYTOPLANKTON_GROUPS, PhytoplanktonGroup, Scenario, ScenarioForcing, TimeSeriesPoint } from '@/lib/schemas'
+import { DEFAULT_NPZ_OPTIONS, NUTRIENT_KEYS, NpzResult, monthlyMeanBiomass } from '@/lib/model/npz'
+import { BASELINE_FORCING, isBaselineForcing } from '@/lib/model/forcing'
+import { createScenario, exportScenarioFile, resultsToRun } from '@/lib/scenarios'
+import { downloadFile } from '@/lib/csv-utils'
+import { GROUP_PARAM_KEYS } from '@/lib/parameters'
+import { useComputeTask } from '@/hooks/use-compute-task'
+import { useModelGroups } from '@/hooks/use-parameters'
 import { LazyChart } from '@/components/lazy-chart'
 import { FigureFrame } from '@/components/figure-frame'
+import { CalibrationPanel } from '@/components/calibration-panel'
+import { SensitivityPanel } from '@/components/sensitivity-panel'
+import { EnsemblePanel } from '@/components/ensemble-panel'
+import { ScenarioLibrary } from '@/components/scenario-library'
+import { ForcingEditor } from '@/components/forcing-editor'
+import { LimitationPanel } from '@/components/limitation-panel'
 
-// Mock data for groups and their parameters
-const groups = [
-  {
-    name: 'Diatoms',
-    params: {
-      mu: { value: 0.8, min: 0.1, max: 2.0, step: 0.1, description: 'Maximum growth rate (day⁻¹)' },
-      KsP: { value: 0.5, min: 0.1, max: 2.0, step: 0.1, description: 'P half-saturation constant' },
-      KsN: { value: 0.3, min: 0.1, max: 1.0, step: 0.1, description: 'N half-saturation constant' },
-      KsFe: { value: 0.2, min: 0.05, max: 0.5, step: 0.05, description: 'Fe half-saturation constant' },
-      Rnp: { value: 0.6, min: 0.1, max: 1.0, step: 0.1, description: 'N:P ratio' },
-      Rfep: { value: 0.1, min: 0.01, max: 0.2, step: 0.01, description: 'Fe:P ratio' },
-      Rsip: { value: 0.8, min: 0.1, max: 2.0, step: 0.1, description: 'Si:P ratio' }
-    }
-  },
-  {
-    name: 'Dinoflagellates',
-    params: {
-      mu: { value: 1.2, min: 0.1, max: 2.0, step: 0.1, description: 'Maximum growth rate (day⁻¹)' },
-      KsP: { value: 0.4, min: 0.1, max: 2.0, step: 0.1, description: 'P half-saturation constant' },
-      KsN: { value: 0.2, min: 0.1, max: 1.0, step: 0.1, description: 'N half-saturation constant' },
-      KsFe: { value: 0.15, min: 0.05, max: 0.5, step: 0.05, description: 'Fe half-saturation constant' },
-      Rnp: { value: 0.7, min: 0.1, max: 1.0, step: 0.1, description: 'N:P ratio' },
-      Rfep: { value: 0.08, min: 0.01, max: 0.2, step: 0.01, description: 'Fe:P ratio' }
-    }
-  },
-  {
-    name: 'Small Phytoplankton',
-    params: {
-      mu: { value: 1.0, min: 0.1, max: 2.0, step: 0.1, description: 'Maximum growth rate (day⁻¹)' },
-      KsP: { value: 0.6, min: 0.1, max: 2.0, step: 0.1, description: 'P half-saturation constant' },
-      KsN: { value: 0.4, min: 0.1, max: 1.0, step: 0.1, description: 'N half-saturation constant' },
-      KsFe: { value: 0.25, min: 0.05, max: 0.5, step: 0.05, description: 'Fe half-saturation constant' },
-      Rnp: { value: 0.5, min: 0.1, max: 1.0, step: 0.1, description: 'N:P ratio' },
-      Rfep: { value: 0.12, min: 0.01, max: 0.2, step: 0.01, description: 'Fe:P ratio' }
-    }
-  },
-  {
-    name: 'N-fixers',
-    params: {
-      mu: { value: 0.6, min: 0.1, max: 2.0, step: 0.1, description: 'Maximum growth rate (day⁻¹)' },
-      KsP: { value: 0.3, min: 0.1, max: 2.0, step: 0.1, description: 'P half-saturation constant' },
-      KsFe: { value: 0.3, min: 0.05, max: 0.5, step: 0.05, description: 'Fe half-saturation constant' },
-      Rnp: { value: 0.8, min: 0.1, max: 1.0, step: 0.1, description: 'N:P ratio' },
-      Rfep: { value: 0.15, min: 0.01, max: 0.2, step: 0.01, description: 'Fe:P ratio' }
-    }
-  },
-  {
-    name: 'Microcystis',
-    params: {
-      mu: { value: 0.9, min: 0.1, max: 2.0, step: 0.1, description: 'Maximum growth rate (day⁻¹)' },
-      KsP: { value: 0.7, min: 0.1, max: 2.0, step: 0.1, description: 'P half-saturation constant' },
-      KsN: { value: 0.5, min: 0.1, max: 1.0, step: 0.1, description: 'N half-saturation constant' },
-      KsFe: { value: 0.18, min: 0.05, max: 0.5, step: 0.05, description: 'Fe half-saturation constant' },
-      Rnp: { value: 0.4, min: 0.1, max: 1.0, step: 0.1, description: 'N:P ratio' },
-      Rfep: { value: 0.06, min: 0.01, max: 0.2, step: 0.01, description: 'Fe:P ratio' }
-    }
-  }
-]
-
-// Mock data for nutrients
-const nutrients = {
-  P: { value: 0.5, min: 0.1, max: 2.0, step: 0.1, unit: 'mmol P/m³' },
-  N: { value: 0.8, min: 0.1, max: 3.0, step: 0.1, unit: 'mmol P/m³' },
-  Fe: { value: 0.1, min: 0.01, max: 0.5, step: 0.01, unit: 'mmol P/m³' },
-  Si: { value: 1.2, min: 0.1, max: 5.0, step: 0.1, unit: 'mmol P/m³' }
+interface SliderConfig {
+  min: number
+  max: number
+  step: number
+  description: string
 }
 
-// Function to get base results data from data store
-const getBaseResultsData = (data: any[]) => {
-  return data.map(item => ({
-    month: new Date(item.date).toLocaleDateString('en-US', { month: 'short' }),
-    diatoms: item.diatoms,
-    dinoflagellates: item.dinoflagellates,
-    small_phyto: item.small_phyto,
-    n_fixers: item.n_fixers,
-    microcystis: item.microcystis,
-  }))
+const nutrientConfig: Record<keyof Nutrients, SliderConfig & { unit: string }> = {
+  P: { min: 0, max: 2, step: 0.01, unit: 'μM', description: 'Dissolved phosphorus' },
+  N: { min: 0, max: 10, step: 0.05, unit: 'μM', description: 'Dissolved inorganic nitrogen' },
+  Fe: { min: 0, max: 0.2, step: 0.005, unit: 'μM', description: 'Dissolved iron' },
+  Si: { min: 0, max: 10, step: 0.1, unit: 'μM', description: 'Dissolved silicon' },
+}
+
+const groupLabels: Record<PhytoplanktonGroup, string> = {
+  diatom: 'Diatoms',
+  dinoflagellates: 'Dinoflagellates',
+  small_phyto: 'Small Phytoplankton',
+  n_fixers: 'N-fixers',
+  microcystis: 'Microcystis',
+}
+
+// Chart series keys used by LazyChart
+const chartKeys: Record<PhytoplanktonGroup, string> = {
+  diatom: 'diatoms',
+  dinoflagellates: 'dinoflagellates',
+  small_phyto: 'small_phyto',
+  n_fixers: 'n_fixers',
+  microcystis: 'microcystis',
 }
 
 const colors = {
@@ -96,136 +64,161 @@ const colors = {
   microcystis: '#8B5CF6',
 }
 
-// Function to calculate simulation results based on parameters
-const calculateSimulationResults = (groupParams: typeof groups, nutrientValues: typeof nutrients, baseData: any[]) => {
-  return baseData.map(monthData => {
-    const results: any = { month: monthData.month }
-    
-    // Calculate biomass for each group based on parameters and nutrients
-    Object.keys(monthData).forEach(groupKey => {
-      if (groupKey === 'month') return
-      
-      const group = groupParams.find(g => g.name.toLowerCase().replace(' ', '_') === groupKey)
-      if (!group) return
-      
-      // Get base value
-      let baseValue = monthData[groupKey as keyof typeof monthData] as number
-      
-      // Apply nutrient effects
-      const pEffect = Math.min(nutrientValues.P.value / 0.5, 2) // P effect (0.5 is baseline)
-      const nEffect = Math.min(nutrientValues.N.value / 0.8, 2) // N effect (0.8 is baseline)
-      const feEffect = Math.min(nutrientValues.Fe.value / 0.1, 2) // Fe effect (0.1 is baseline)
-      const siEffect = Math.min(nutrientValues.Si.value / 1.2, 2) // Si effect (1.2 is baseline)
-      
-      // Apply growth rate effect
-      const muEffect = group.params.mu.value / 0.8 // Growth rate effect (0.8 is baseline)
-      
-      // Calculate final biomass with all effects
-      let finalValue = baseValue * muEffect * pEffect * nEffect * feEffect
-      
-      // Apply group-specific effects
-      if (groupKey === 'diatoms') {
-        finalValue *= siEffect // Diatoms are silica-dependent
-      }
-      if (groupKey === 'n_fixers') {
-        finalValue *= (2 - nEffect) // N-fixers benefit from low N
-      }
-      if (groupKey === 'microcystis') {
-        finalValue *= Math.pow(pEffect, 1.5) // Microcystis is very P-sensitive
-      }
-      
-      // Normalize to 0-1 range
-      results[groupKey] = Math.min(Math.max(finalValue, 0), 1)
-    })
-    
-    return results
-  })
+const nutrientColors: Record<keyof Nutrients, string> = {
+  P: '#7C3AED',
+  N: '#2563EB',
+  Si: '#059669',
+  Fe: '#B45309',
 }
 
+// Days between points on the trajectory charts
+const CHART_INTERVAL = 3
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Observed monthly series, shown until a scenario has been run
+const getBaseResultsData = (data: TimeSeriesPoint[]) => {
+  return data.map(item => ({
+    month: new Date(item.date).toLocaleDateString('en-US', { month: 'short' }),
+    ...Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [chartKeys[group], item[group]])),
+  }))
+}
+
+// Model trajectories as chart rows, labelled by date
+const getTrajectoryData = (result: NpzResult) =>
+  result.dates.flatMap((date, index) => index % CHART_INTERVAL === 0 || index === result.dates.length - 1
+    ? [{
+        month: dayjs(date).format('MMM D'),
+        ...Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [chartKeys[group], result.biomass[group][index]])),
+      }]
+    : [])
+
+// Dissolved pools as a percentage of their ambient concentration
+const getNutrientData = (result: NpzResult, ambient: Nutrients) =>
+  result.dates.flatMap((date, index) => index % CHART_INTERVAL === 0 || index === result.dates.length - 1
+    ? [{
+        month: dayjs(date).format('MMM D'),
+        ...Object.fromEntries(NUTRIENT_KEYS.map(key => [
+          key,
+          ambient[key] > 0 ? (100 * result.nutrients[key][index]) / ambient[key] : null,
+        ])),
+      }]
+    : [])
+
 export function ScenariosPage() {
-  const { timeSeriesData } = useDataStore()
-  const baseResultsData = getBaseResultsData(timeSeriesData)
+  const timeSeriesData = useTimeSeries()
+  const registry = useParameterRegistry()
+  const defaultGroups = useModelGroups()
+  const defaultNutrients = useKinneretStore(state => state.data.nutrients)
+  const baseResultsData = useMemo(() => getBaseResultsData(timeSeriesData), [timeSeriesData])
   
-  const [groupParams, setGroupParams] = useState(groups)
-  const [nutrientValues, setNutrientValues] = useState(nutrients)
-  const [isRunning, setIsRunning] = useState(false)
-  const [resultsData, setResultsData] = useState(baseResultsData)
+  const [groupParams, setGroupParams] = useState(defaultGroups)
+  const [nutrientValues, setNutrientValues] = useState(defaultNutrients)
+  const [forcingSeries, setForcingSeries] = useState<ForcingSeries>(BASELINE_FORCING)
+  const [simulation, setSimulation] = useState<NpzResult | null>(null)
+  // Settings the shown simulation was run with
+  const [simulationKey, setSimulationKey] = useState<string | null>(null)
+  const { run, cancel, isRunning, progress, error: runError } = useComputeTask()
+
+  // A run started before the parameters changed would be stale
+  useEffect(() => cancel(), [groupParams, nutrientValues, forcingSeries, cancel])
   
   // Refs for export
   const modelResultsRef = useRef<HTMLDivElement>(null)
+  const nutrientPoolsRef = useRef<HTMLDivElement>(null)
 
+  const resultsData = useMemo(
+    () => (simulation ? getTrajectoryData(simulation) : baseResultsData),
+    [simulation, baseResultsData]
+  )
+  const nutrientData = useMemo(
+    () => (simulation ? getNutrientData(simulation, nutrientValues) : []),
+    [simulation, nutrientValues]
+  )
+
+  // Monthly mean biomass per group, from the model run or the observations
+  const monthlyData = useMemo<Array<Record<string, string | number>>>(() => {
+    if (simulation) {
+      return monthlyMeanBiomass(simulation).map(({ month, ...values }) => ({
+        month: MONTH_LABELS[month],
+        ...Object.fromEntries(PHYTOPLANKTON_GROUPS.map(group => [chartKeys[group], values[group]])),
+      }))
+    }
+    return baseResultsData
+  }, [simulation, baseResultsData])
 
-  const updateGroupParam = (groupIndex: number, paramName: string, value: number) => {
-    setGroupParams(prev => prev.map((group, index) => {
-      if (index === groupIndex) {
-        return {
-          ...group,
-          params: {
-            ...group.params,
-            [paramName]: {
-              ...group.params[paramName as keyof typeof group.params],
-              value
-            }
-          }
-        } as typeof group
-      }
-      return group
-    }))
+  const updateGroupParam = (group: PhytoplanktonGroup, paramName: keyof GroupParams, value: number) => {
+    setGroupParams(prev => ({ ...prev, [group]: { ...prev[group], [paramName]: value } }))
   }
 
-  const updateNutrient = (nutrient: string, value: number) => {
-    setNutrientValues(prev => ({ ...prev, [nutrient]: { ...prev[nutrient as keyof typeof prev], value } }))
+  const updateNutrient = (nutrient: keyof Nutrients, value: number) => {
+    setNutrientValues(prev => ({ ...prev, [nutrient]: value }))
   }
 
-  const runScenario = () => {
-    setIsRunning(true)
-    // Simulate model run with actual calculation
-    setTimeout(() => {
-      const newResults = calculateSimulationResults(groupParams, nutrientValues, baseResultsData)
-      setResultsData(newResults)
-      setIsRunning(false)
-    }, 2000)
+  // The baseline series leaves the model unforced
+  const forcing = isBaselineForcing(forcingSeries) ? undefined : forcingSeries
+
+  // Model run of the current scenario, from the first observation at the start of its year
+  const scenarioOptions = useMemo(() => {
+    const first = timeSeriesData[0]
+    return {
+      groups: groupParams,
+      nutrients: nutrientValues,
+      initialBiomass: Object.fromEntries(
+        PHYTOPLANKTON_GROUPS.map(group => [group, first?.[group] ?? 0.01])
+      ) as Record<PhytoplanktonGroup, number>,
+      startDate: first ? dayjs(first.date).startOf('year').format('YYYY-MM-DD') : undefined,
+      forcing,
+    }
+  }, [timeSeriesData, groupParams, nutrientValues, forcing])
+
+  const scenarioForcing = useMemo<ScenarioForcing>(() => ({
+    startDate: scenarioOptions.startDate ?? DEFAULT_NPZ_OPTIONS.startDate,
+    days: DEFAULT_NPZ_OPTIONS.days,
+    initialBiomass: scenarioOptions.initialBiomass,
+    ...(scenarioOptions.forcing ? { series: scenarioOptions.forcing } : {}),
+  }), [scenarioOptions])
+  const currentKey = JSON.stringify([groupParams, nutrientValues, scenarioForcing])
+
+  const runScenario = async () => {
+    const key = currentKey
+    const result = await run({ kind: 'scenario', options: scenarioOptions })
+    if (result) {
+      setSimulation(result)
+      setSimulationKey(key)
+    }
   }
 
   const resetToDefaults = () => {
-    setGroupParams(groups)
-    setNutrientValues(nutrients)
-    setResultsData(getBaseResultsData(timeSeriesData))
+    setGroupParams(defaultGroups)
+    setNutrientValues(defaultNutrients)
+    setForcingSeries(BASELINE_FORCING)
+    setSimulation(null)
   }
 
-  const exportScenario = () => {
-    const scenarioData = {
-      timestamp: new Date().toISOString(),
-      parameters: {
-        nutrients: nutrientValues,
-        groups: groupParams.map(group => ({
-          name: group.name,
-          params: group.params
-        }))
-      },
-      results: resultsData,
-      metadata: {
-        description: "Kinneret3DEcology Scenario Export",
-        version: "1.0.0"
-      }
-    }
+  // Snapshot for the library; results are kept only when they were run with these settings
+  const createCurrentScenario = (name: string, tags: string[]) =>
+    createScenario(name, tags, groupParams, nutrientValues, scenarioForcing, simulationKey === currentKey ? simulation : null)
 
-    const dataStr = JSON.stringify(scenarioData, null, 2)
-    const dataBlob = new Blob([dataStr], { type: 'application/json' })
-    const url = URL.createObjectURL(dataBlob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = `kinneret-scenario-${new Date().toISOString().split('T')[0]}.json`
-    link.click()
-    URL.revokeObjectURL(url)
+  const loadScenario = (scenario: Scenario) => {
+    setGroupParams(scenario.groups)
+    setNutrientValues(scenario.nutrients)
+    setForcingSeries(scenario.forcing.series ?? BASELINE_FORCING)
+    setSimulation(scenario.results ? resultsToRun(scenario.results) : null)
+    setSimulationKey(JSON.stringify([scenario.groups, scenario.nutrients, scenario.forcing]))
+  }
+
+  const exportScenario = () => {
+    const scenario = createCurrentScenario(`Scenario ${dayjs().format('YYYY-MM-DD HH:mm')}`, [])
+    downloadFile(exportScenarioFile([scenario]), `kinneret-scenario-${new Date().toISOString().split('T')[0]}.json`, 'application/json')
   }
 
   const getDominantGroup = (month: string) => {
-    const data = resultsData.find(d => d.month === month)
+    const data = monthlyData.find(d => d.month === month)
     if (!data) return 'N/A'
     
-    const values = Object.entries(data).filter(([key]) => key !== 'month')
-    const max = Math.max(...values.map(([, value]) => value as number))
+    const values = Object.entries(data).filter((entry): entry is [string, number] => entry[0] !== 'month' && typeof entry[1] === 'number')
+    const max = Math.max(...values.map(([, value]) => value))
     const dominant = values.find(([, value]) => value === max)?.[0]
     
     return dominant || 'N/A'
@@ -258,12 +251,14 @@ export function ScenariosPage() {
         <CardHeader className="pb-4">
           <CardTitle className="responsive-heading">Global Nutrient Concentrations</CardTitle>
           <CardDescription className="responsive-text">
-            Set ambient nutrient levels for the simulation
+            Initial and ambient dissolved nutrient levels for the simulation
           </CardDescription>
         </CardHeader>
         <CardContent className="responsive-space-md">
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-            {Object.entries(nutrientValues).map(([nutrient, config]) => (
+            {(Object.keys(nutrientConfig) as Array<keyof Nutrients>).map((nutrient) => {
+              const config = nutrientConfig[nutrient]
+              return (
               <div key={nutrient} className="responsive-space-sm">
                 <div className="flex justify-between items-center mb-3">
                   <label 
@@ -277,12 +272,12 @@ export function ScenariosPage() {
                     aria-live="polite"
                     aria-label={`Current ${nutrient} value`}
                   >
-                    {config.value} {config.unit}
+                    {nutrientValues[nutrient]} {config.unit}
                   </span>
                 </div>
                 <Slider
                   id={`nutrient-${nutrient}`}
-                  value={[config.value]}
+                  value={[nutrientValues[nutrient]]}
                   onValueChange={([value]) => updateNutrient(nutrient, value)}
                   min={config.min}
                   max={config.max}
@@ -291,11 +286,15 @@ export function ScenariosPage() {
                   aria-label={`Adjust ${nutrient} concentration from ${config.min} to ${config.max} ${config.unit}`}
                 />
               </div>
-            ))}
+              )
+            })}
           </div>
         </CardContent>
       </Card>
 
+      {/* Monthly external forcing */}
+      <ForcingEditor series={forcingSeries} onChange={setForcingSeries} nutrients={nutrientValues} />
+
       {/* Phytoplankton Group Parameters */}
       <Card className="responsive-card mb-8">
         <CardHeader className="pb-4">
@@ -306,47 +305,55 @@ export function ScenariosPage() {
         </CardHeader>
         <CardContent>
           <Accordion type="single" collapsible className="w-full">
-            {groupParams.map((group, groupIndex) => (
-              <AccordionItem key={group.name} value={group.name}>
+            {PHYTOPLANKTON_GROUPS.map((group) => (
+              <AccordionItem key={group} value={group}>
                 <AccordionTrigger 
                   className="responsive-text"
-                  aria-label={`Expand ${group.name} parameters`}
+                  aria-label={`Expand ${groupLabels[group]} parameters`}
                 >
-                  {group.name}
+                  {groupLabels[group]}
                 </AccordionTrigger>
                 <AccordionContent className="responsive-space-md">
-                  {Object.entries(group.params).map(([paramName, config]) => (
+                  {GROUP_PARAM_KEYS.map((paramName) => {
+                    // Sliders span the admissible bounds; the literature range is shown with the description
+                    const definition = registry.parameters[paramName]
+                    const entry = registry.groups[group].values[paramName]
+                    const config = { min: definition.bounds[0], max: definition.bounds[1], step: definition.step }
+                    return (
                     <div key={paramName} className="responsive-space-sm">
                       <div className="flex justify-between items-center">
                         <div>
                           <label 
-                            htmlFor={`${group.name}-${paramName}`}
+                            htmlFor={`${group}-${paramName}`}
                             className="responsive-text font-medium"
                           >
                             {paramName}
                           </label>
-                          <p className="text-xs text-muted-foreground responsive-text-wrap">{config.description}</p>
+                          <p className="text-xs text-muted-foreground responsive-text-wrap">
+                            {definition.description}{definition.units && ` (${definition.units})`}; literature range {entry.min}–{entry.max}
+                          </p>
                         </div>
                         <span 
                           className="responsive-text text-muted-foreground font-mono"
                           aria-live="polite"
                           aria-label={`Current ${paramName} value`}
                         >
-                          {config.value}
+                          {groupParams[group][paramName]}
                         </span>
                       </div>
                       <Slider
-                        id={`${group.name}-${paramName}`}
-                        value={[config.value]}
-                        onValueChange={([value]) => updateGroupParam(groupIndex, paramName, value)}
+                        id={`${group}-${paramName}`}
+                        value={[groupParams[group][paramName]]}
+                        onValueChange={([value]) => updateGroupParam(group, paramName, value)}
                         min={config.min}
                         max={config.max}
                         step={config.step}
                         className="w-full"
-                        aria-label={`Adjust ${paramName} for ${group.name} from ${config.min} to ${config.max}`}
+                        aria-label={`Adjust ${paramName} for ${groupLabels[group]} from ${config.min} to ${config.max}`}
                       />
                     </div>
-                  ))}
+                    )
+                  })}
                 </AccordionContent>
               </AccordionItem>
             ))}
@@ -354,17 +361,31 @@ export function ScenariosPage() {
         </CardContent>
       </Card>
 
+      {/* Calibration against the active dataset */}
+      <CalibrationPanel
+        groups={groupParams}
+        nutrients={nutrientValues}
+        forcing={forcing}
+        labels={groupLabels}
+        onApply={setGroupParams}
+      />
+
+      {/* Global sensitivity around the current scenario */}
+      <SensitivityPanel model={scenarioOptions} labels={groupLabels} />
+
+      {/* Monte Carlo uncertainty around the current scenario */}
+      <EnsemblePanel model={scenarioOptions} labels={groupLabels} />
+
       {/* Control Buttons */}
       <div className="flex flex-wrap justify-center gap-3 mb-8" role="group" aria-label="Scenario controls">
         <Button 
-          onClick={runScenario} 
-          disabled={isRunning} 
+          onClick={isRunning ? cancel : runScenario} 
           size="sm"
           className="px-4 sm:px-8 text-sm sm:text-base"
-          aria-label={isRunning ? 'Running scenario simulation' : 'Run scenario simulation'}
+          aria-label={isRunning ? 'Cancel scenario simulation' : 'Run scenario simulation'}
         >
-          <Play className="mr-2 h-4 w-4" />
-          {isRunning ? 'Running...' : 'Run'}
+          {isRunning ? <Square className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+          {isRunning ? `Running ${Math.round(progress * 100)}% · Cancel` : 'Run'}
         </Button>
         <Button 
           onClick={resetToDefaults} 
@@ -388,25 +409,74 @@ export function ScenariosPage() {
         </Button>
       </div>
 
+      {runError && (
+        <p className="mb-8 text-center text-sm text-destructive" role="alert">{runError}</p>
+      )}
+
       {/* Results Chart - Full Width */}
-      <div className="mb-8">
+      <div className="mb-8 space-y-6">
         <FigureFrame
           ref={modelResultsRef}
           title="Model Results"
-          subtitle="12-month biomass simulation results"
-          caption="Simulated biomass under current parameter set; % change vs baseline noted in legend."
+          subtitle={simulation
+            ? `NPZ simulation, ${simulation.dates[0]} to ${simulation.dates[simulation.dates.length - 1]}`
+            : 'Observed monthly biomass; run the model to simulate the scenario'}
+          caption={simulation
+            ? `Phytoplankton biomass from the nutrient–phytoplankton–detritus model (adaptive RK45: ${simulation.solver.steps} steps, ${simulation.solver.rejected} rejected).`
+            : 'Baseline observations of the active dataset.'}
           units="mmol P/m³"
-          source="Lake Kinneret monitoring program"
+          source={simulation ? 'Kinneret NPZ model' : 'Lake Kinneret monitoring program'}
           pageName="scenarios"
           figureKey="model-results"
           supportsSVG={true}
         >
-          <div className="h-[300px] sm:h-[350px] lg:h-[400px] min-w-[360px] w-full" role="img" aria-label="Phytoplankton biomass simulation chart showing monthly data for five groups">
+          <div className="h-[300px] sm:h-[350px] lg:h-[400px] min-w-[360px] w-full" role="img" aria-label="Phytoplankton biomass trajectories for five groups">
             <LazyChart data={resultsData} colors={colors} height={320} />
           </div>
         </FigureFrame>
+
+        {simulation && (
+          <FigureFrame
+            ref={nutrientPoolsRef}
+            title="Dissolved Nutrient Pools"
+            subtitle="Simulated dissolved P, N, Si and Fe relative to their ambient levels"
+            caption="Uptake follows each group's Rnp, Rsip and Rfep; remineralised detritus and exchange with ambient water resupply the pools."
+            units="% of ambient"
+            source="Kinneret NPZ model"
+            pageName="scenarios"
+            figureKey="nutrient-pools"
+            supportsSVG={true}
+          >
+            <div className="h-[300px] min-w-[360px] w-full" role="img" aria-label="Dissolved nutrient trajectories">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={nutrientData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis domain={[0, 'auto']} unit="%" />
+                  <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                  <Legend />
+                  {NUTRIENT_KEYS.map(key => (
+                    <Line key={key} type="monotone" dataKey={key} stroke={nutrientColors[key]} strokeWidth={2} dot={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </FigureFrame>
+        )}
       </div>
 
+      {/* Limiting nutrients of the shown run */}
+      <LimitationPanel
+        simulation={simulationKey === currentKey ? simulation : null}
+        groups={groupParams}
+        labels={groupLabels}
+        forcing={forcingSeries}
+        nutrients={nutrientValues}
+      />
+
+      {/* Saved scenarios and their comparison */}
+      <ScenarioLibrary createCurrent={createCurrentScenario} onLoad={loadScenario} labels={groupLabels} />
+
       {/* Analysis Cards - Below Chart */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Delta vs Baseline */}
@@ -419,16 +489,15 @@ export function ScenariosPage() {
           </CardHeader>
           <CardContent>
             <div className="responsive-space-sm">
-              {groupParams.map((group, index) => (
-                <div key={group.name} className="flex justify-between items-center">
-                  <span className="responsive-text">{group.name}</span>
+              {PHYTOPLANKTON_GROUPS.map((group) => (
+                <div key={group} className="flex justify-between items-center">
+                  <span className="responsive-text">{groupLabels[group]}</span>
                   <div className="flex gap-1 flex-wrap">
-                    {Object.entries(group.params).map(([paramName, config]) => {
-                      const original = groups[index]?.params[paramName as keyof typeof groups[0]['params']]?.value || 0
-                      const delta = config.value - original
+                    {GROUP_PARAM_KEYS.map((paramName) => {
+                      const delta = groupParams[group][paramName] - defaultGroups[group][paramName]
                       const isPositive = delta > 0
                       
-                      if (Math.abs(delta) < 0.01) return null
+                      if (Math.abs(delta) < 1e-9) return null
                       
                       return (
                         <Badge 
@@ -436,7 +505,7 @@ export function ScenariosPage() {
                           variant={isPositive ? "default" : "destructive"}
                           className="text-xs"
                         >
-                          {paramName}: {isPositive ? '+' : ''}{delta.toFixed(1)}
+                          {paramName}: {isPositive ? '+' : ''}{Number(delta.toPrecision(2))}
                         </Badge>
                       )
                     })}
@@ -1,35 +1,87 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts'
-import { useDataStore } from '@/store/data-store'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Legend, Cell } from 'recharts'
+import { useActiveDataset, useComparisonDataset } from '@/store/kinneret-store'
+import { PHYTOPLANKTON_GROUPS, PhytoplanktonGroup } from '@/lib/schemas'
+import { computeGroupStats } from '@/lib/datasets'
+import { DatasetCompareSelect } from '@/components/dataset-selector'
 import { FigureFrame } from '@/components/figure-frame'
+import { EmptyState } from '@/components/empty-state'
 import { PredictionChart } from '@/components/predictions'
-import { useRef } from 'react'
+import { SkillAssessment } from '@/components/skill-assessment'
+import { QcDisplaySelect } from '@/components/qc-report'
+import { ResamplingSelect } from '@/components/resampling-select'
+import { useQcView } from '@/hooks/use-qc-view'
+import { useRegularSeries, useResampled } from '@/hooks/use-regular-series'
+import { FREQUENCY_LABELS, INTERPOLATION_LABELS } from '@/lib/resampling'
+import { useMemo, useRef } from 'react'
+
+const groupLabels: Record<PhytoplanktonGroup, string> = {
+  diatom: 'Diatoms',
+  dinoflagellates: 'Dinoflagellates',
+  small_phyto: 'Small Phytoplankton',
+  n_fixers: 'N-fixers',
+  microcystis: 'Microcystis',
+}
 
 const colors = {
-  diatoms: '#2563EB',
+  diatom: '#2563EB',
   dinoflagellates: '#10B981',
   small_phyto: '#F59E0B',
   n_fixers: '#EF4444',
   microcystis: '#8B5CF6',
 }
 
+// Outline drawn around bars whose value carries a QC flag
+const FLAG_STROKE = '#DC2626'
+
+// Interpolated (gap-filled) bars are drawn faded
+const INTERPOLATED_OPACITY = 0.35
+
 export function StatisticsPage() {
-  const { timeSeriesData } = useDataStore()
+  const { report: qcReport, levels: qcLevels, mode: qcMode, setMode: setQcMode } = useQcView()
+  // Charts and statistics use the regular grid; predictions always use gap-free monthly steps
+  const { series: timeSeriesData, options: resampling, isFlagged, isInterpolated, interpolatedCount } = useRegularSeries()
+  const { series: monthlySeries } = useRegularSeries('monthly', true)
+  const activeDataset = useActiveDataset()
+  const comparisonDataset = useComparisonDataset()
+  const comparisonSeries = useResampled(comparisonDataset)
   
   // Refs for export
   const temporalTrendsRef = useRef<HTMLDivElement>(null)
   const monthlyTrendsRef = useRef<HTMLDivElement>(null)
   const yearlyDistributionRef = useRef<HTMLDivElement>(null)
+  const datasetComparisonRef = useRef<HTMLDivElement>(null)
+
+  // Per-group means of the active and comparison datasets side by side
+  const comparisonData = useMemo(() => {
+    if (!comparisonSeries) return []
+    const activeStats = computeGroupStats(timeSeriesData)
+    const otherStats = computeGroupStats(comparisonSeries)
+    return PHYTOPLANKTON_GROUPS.map(group => ({
+      group: groupLabels[group],
+      active: activeStats[group].mean,
+      comparison: otherStats[group].mean,
+      activeMax: activeStats[group].max,
+      comparisonMax: otherStats[group].max,
+    }))
+  }, [timeSeriesData, comparisonSeries])
   
   // Convert data to chart formats
+  // Values hidden by QC are NaN; recharts needs null to leave them out
+  const visibleValue = (value: number) => Number.isFinite(value) ? value : null
+  const spansYears = timeSeriesData.length > 0 && timeSeriesData[0].date.slice(0, 4) !== timeSeriesData[timeSeriesData.length - 1].date.slice(0, 4)
+  const periodFormat: Intl.DateTimeFormatOptions = resampling.frequency === 'monthly'
+    ? { month: 'short', ...(spansYears ? { year: '2-digit' } : {}) }
+    : { day: 'numeric', month: 'short' }
   const monthlyData = timeSeriesData.map(item => ({
-    month: new Date(item.date).toLocaleDateString('en-US', { month: 'short' }),
-    diatoms: item.diatoms,
-    dinoflagellates: item.dinoflagellates,
-    small_phyto: item.small_phyto,
-    n_fixers: item.n_fixers,
-    microcystis: item.microcystis,
+    month: new Date(item.date).toLocaleDateString('en-US', periodFormat),
+    date: item.date,
+    diatom: visibleValue(item.diatom),
+    dinoflagellates: visibleValue(item.dinoflagellates),
+    small_phyto: visibleValue(item.small_phyto),
+    n_fixers: visibleValue(item.n_fixers),
+    microcystis: visibleValue(item.microcystis),
   }))
 
   // Generate historical data (2010-2019) with 2019 emphasized
@@ -38,7 +90,7 @@ export function StatisticsPage() {
     const is2019 = year === 2019
     return {
       year,
-      diatoms: is2019 ? 0.62 : 0.45 + (i * 0.02),
+      diatom: is2019 ? 0.62 : 0.45 + (i * 0.02),
       dinoflagellates: is2019 ? 0.69 : 0.52 + (i * 0.02),
       small_phyto: is2019 ? 0.56 : 0.38 + (i * 0.02),
       n_fixers: is2019 ? 0.58 : 0.41 + (i * 0.02),
@@ -46,9 +98,10 @@ export function StatisticsPage() {
     }
   })
 
-  // Calculate box plot data from actual data
-  const calculateBoxPlotData = (group: keyof typeof timeSeriesData[0]) => {
-    const values = timeSeriesData.map(item => item[group]).filter(v => typeof v === 'number').sort((a, b) => a - b)
+  // Calculate box plot data from actual data; null when the group has no values
+  const calculateBoxPlotData = (group: PhytoplanktonGroup) => {
+    const values = timeSeriesData.map(item => item[group]).filter(Number.isFinite).sort((a, b) => a - b)
+    if (values.length === 0) return null
     const q1 = values[Math.floor(values.length * 0.25)]
     const median = values[Math.floor(values.length * 0.5)]
     const q3 = values[Math.floor(values.length * 0.75)]
@@ -63,30 +116,54 @@ export function StatisticsPage() {
     }
   }
 
-  const yearlyDistributionData = [
-    { group: 'Diatoms', ...calculateBoxPlotData('diatoms') },
-    { group: 'Dinoflagellates', ...calculateBoxPlotData('dinoflagellates') },
-    { group: 'Small Phytoplankton', ...calculateBoxPlotData('small_phyto') },
-    { group: 'N-fixers', ...calculateBoxPlotData('n_fixers') },
-    { group: 'Microcystis', ...calculateBoxPlotData('microcystis') },
-  ]
+  const yearlyDistributionData = PHYTOPLANKTON_GROUPS.flatMap(group => {
+    const boxPlot = calculateBoxPlotData(group)
+    return boxPlot ? [{ group: groupLabels[group], ...boxPlot }] : []
+  })
+
+  // Box plot positions are relative to the largest value across all groups
+  const boxPlotScale = Math.max(...yearlyDistributionData.map(item => item.max), Number.EPSILON)
+  const toPercent = (value: number) => `${(value / boxPlotScale) * 100}%`
+
+  const header = (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+      <div className="min-w-0">
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Statistics</h1>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Comprehensive analysis of phytoplankton data trends and patterns
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <ResamplingSelect />
+        {qcReport && (
+          <QcDisplaySelect mode={qcMode} onChange={setQcMode} flaggedCount={qcLevels.size} />
+        )}
+      </div>
+    </div>
+  )
 
+  // e.g. an observation import without any date on which all five groups were measured
+  if (timeSeriesData.length === 0) {
+    return (
+      <div className="space-y-4 sm:space-y-6 min-h-screen">
+        {header}
+        <EmptyState
+          variant="chart"
+          title="No phytoplankton series"
+          description={`${activeDataset?.name ?? 'The active dataset'} has no dates with all five phytoplankton groups. Choose another dataset or import a file with group biomass on the Data page.`}
+        />
+      </div>
+    )
+  }
 
   return (
     <div className="space-y-4 sm:space-y-6 min-h-screen">
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-        <div className="min-w-0">
-          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Statistics</h1>
-          <p className="text-muted-foreground text-sm sm:text-base">
-            Comprehensive analysis of phytoplankton data trends and patterns
-          </p>
-        </div>
-      </div>
+      {header}
 
       <Tabs defaultValue="temporal" className="space-y-4">
         <Card>
           <CardContent className="p-4">
-            <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 gap-1 h-auto">
+            <TabsList className="grid w-full grid-cols-3 sm:grid-cols-6 gap-1 h-auto">
               <TabsTrigger 
                 value="temporal" 
                 className="text-xs sm:text-sm px-1 sm:px-2 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
@@ -111,6 +188,18 @@ export function StatisticsPage() {
               >
                 Predictions
               </TabsTrigger>
+              <TabsTrigger 
+                value="skill" 
+                className="text-xs sm:text-sm px-1 sm:px-2 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+              >
+                Skill
+              </TabsTrigger>
+              <TabsTrigger 
+                value="compare" 
+                className="text-xs sm:text-sm px-1 sm:px-2 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+              >
+                Compare
+              </TabsTrigger>
             </TabsList>
           </CardContent>
         </Card>
@@ -136,8 +225,8 @@ export function StatisticsPage() {
                   <Tooltip />
                   <Line 
                     type="monotone" 
-                    dataKey="diatoms" 
-                    stroke={colors.diatoms} 
+                    dataKey="diatom" 
+                    stroke={colors.diatom} 
                     strokeWidth={2}
                     strokeDasharray={temporalData[temporalData.length - 1].year === 2019 ? "0" : "5 5"}
                   />
@@ -200,9 +289,13 @@ export function StatisticsPage() {
         <TabsContent value="monthly" className="space-y-4">
           <FigureFrame
             ref={monthlyTrendsRef}
-            title="Monthly Biomass Patterns"
+            title={`${FREQUENCY_LABELS[resampling.frequency]} Biomass Patterns`}
             subtitle="Seasonal variations in phytoplankton composition"
-            caption="Monthly composition of phytoplankton functional groups."
+            caption={`${FREQUENCY_LABELS[resampling.frequency]} composition of phytoplankton functional groups. ${
+              interpolatedCount > 0
+                ? `${interpolatedCount} gap-filled values (${INTERPOLATION_LABELS[resampling.method].toLowerCase()}) are shown faded.`
+                : 'All values observed.'
+            }`}
             units="mmol P/m³"
             source="Lake Kinneret monitoring program"
             pageName="statistics"
@@ -214,13 +307,20 @@ export function StatisticsPage() {
                 <BarChart data={monthlyData}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="month" />
-                  <YAxis domain={[0, 1]} />
+                  <YAxis domain={[0, 'auto']} />
                   <Tooltip />
-                  <Bar dataKey="diatoms" fill={colors.diatoms} />
-                  <Bar dataKey="dinoflagellates" fill={colors.dinoflagellates} />
-                  <Bar dataKey="small_phyto" fill={colors.small_phyto} />
-                  <Bar dataKey="n_fixers" fill={colors.n_fixers} />
-                  <Bar dataKey="microcystis" fill={colors.microcystis} />
+                  {PHYTOPLANKTON_GROUPS.map(group => (
+                    <Bar key={group} dataKey={group} fill={colors[group]}>
+                      {monthlyData.map((item, index) => (
+                        <Cell
+                          key={item.date}
+                          fillOpacity={isInterpolated(index, group) ? INTERPOLATED_OPACITY : 1}
+                          stroke={isFlagged(item.date, group) ? FLAG_STROKE : undefined}
+                          strokeWidth={isFlagged(item.date, group) ? 2 : 0}
+                        />
+                      ))}
+                    </Bar>
+                  ))}
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -272,16 +372,16 @@ export function StatisticsPage() {
                       <div 
                         className="absolute h-0.5 bg-gray-400"
                         style={{ 
-                          left: `${item.min * 100}%`, 
-                          width: `${(item.max - item.min) * 100}%` 
+                          left: toPercent(item.min), 
+                          width: toPercent(item.max - item.min) 
                         }}
                       />
                       {/* Q1-Q3 box */}
                       <div 
                         className="absolute h-6 bg-blue-200 border border-blue-400 rounded"
                         style={{ 
-                          left: `${item.q1 * 100}%`, 
-                          width: `${(item.q3 - item.q1) * 100}%`,
+                          left: toPercent(item.q1), 
+                          width: toPercent(item.q3 - item.q1),
                           top: '50%',
                           transform: 'translateY(-50%)'
                         }}
@@ -290,7 +390,7 @@ export function StatisticsPage() {
                       <div 
                         className="absolute h-6 border-l-2 border-blue-600"
                         style={{ 
-                          left: `${item.median * 100}%`,
+                          left: toPercent(item.median),
                           top: '50%',
                           transform: 'translateY(-50%)'
                         }}
@@ -299,7 +399,7 @@ export function StatisticsPage() {
                       <div 
                         className="absolute w-2 h-2 bg-gray-600 rounded-full"
                         style={{ 
-                          left: `${item.min * 100}%`,
+                          left: toPercent(item.min),
                           top: '50%',
                           transform: 'translate(-50%, -50%)'
                         }}
@@ -308,7 +408,7 @@ export function StatisticsPage() {
                       <div 
                         className="absolute w-2 h-2 bg-gray-600 rounded-full"
                         style={{ 
-                          left: `${item.max * 100}%`,
+                          left: toPercent(item.max),
                           top: '50%',
                           transform: 'translate(-50%, -50%)'
                         }}
@@ -318,24 +418,24 @@ export function StatisticsPage() {
                       <div 
                         className="absolute -top-2 text-xs text-gray-500"
                         style={{ 
-                          left: `${item.min * 100}%`,
+                          left: toPercent(item.min),
                           transform: 'translateX(-50%)'
                         }}
                       >
-                        {item.min.toFixed(1)}
+                        {item.min.toFixed(3)}
                       </div>
                       <div 
                         className="absolute -top-2 text-xs text-gray-500"
                         style={{ 
-                          left: `${item.max * 100}%`,
+                          left: toPercent(item.max),
                           transform: 'translateX(-50%)'
                         }}
                       >
-                        {item.max.toFixed(1)}
+                        {item.max.toFixed(3)}
                       </div>
                     </div>
                     <div className="w-16 text-xs text-gray-600">
-                      Med: {item.median.toFixed(1)}
+                      Med: {item.median.toFixed(3)}
                     </div>
                   </div>
                 ))}
@@ -401,9 +501,9 @@ export function StatisticsPage() {
                   </p>
                 </div>
                 <div className="p-4 bg-green-50 rounded-lg">
-                  <h4 className="font-semibold text-green-900 mb-2">Accuracy Tracking</h4>
+                  <h4 className="font-semibold text-green-900 mb-2">Hold-out Skill</h4>
                   <p className="text-sm text-green-800">
-                    Real-time model performance metrics and confidence intervals for reliable predictions
+                    Nash–Sutcliffe efficiency and RMSE of each model on the last quarter of the record, with confidence intervals
                   </p>
                 </div>
                 <div className="p-4 bg-purple-50 rounded-lg">
@@ -416,13 +516,13 @@ export function StatisticsPage() {
 
               <div className="space-y-4">
                 <PredictionChart 
-                  data={timeSeriesData.map(item => ({
+                  data={monthlySeries.map(item => ({
                     date: item.date,
-                    diatoms: item.diatoms || 0,
-                    dinoflagellates: item.dinoflagellates || 0,
-                    small_phyto: item.small_phyto || 0,
-                    n_fixers: item.n_fixers || 0,
-                    microcystis: item.microcystis || 0,
+                    diatoms: item.diatom,
+                    dinoflagellates: item.dinoflagellates,
+                    small_phyto: item.small_phyto,
+                    n_fixers: item.n_fixers,
+                    microcystis: item.microcystis,
                   }))}
                 />
               </div>
@@ -474,6 +574,89 @@ export function StatisticsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="skill" className="space-y-4">
+          <SkillAssessment />
+        </TabsContent>
+
+        <TabsContent value="compare" className="space-y-4">
+          <Card>
+            <CardContent className="p-4 flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Compare {activeDataset?.name} with</span>
+              <DatasetCompareSelect />
+            </CardContent>
+          </Card>
+
+          {comparisonDataset ? (
+            <>
+              <FigureFrame
+                ref={datasetComparisonRef}
+                title="Dataset Comparison"
+                subtitle={`${activeDataset?.name} vs ${comparisonDataset.name}`}
+                caption="Mean biomass per functional group in each dataset."
+                units={activeDataset?.metadata.units}
+                source={`${activeDataset?.metadata.source}; ${comparisonDataset.metadata.source}`}
+                pageName="statistics"
+                figureKey="dataset-comparison"
+                supportsSVG={true}
+              >
+                <div className="responsive-chart h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={comparisonData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="group" tick={{ fontSize: 12 }} />
+                      <YAxis domain={[0, 'auto']} />
+                      <Tooltip formatter={(value: number) => value.toFixed(4)} />
+                      <Legend />
+                      <Bar dataKey="active" name={activeDataset?.name} fill="#2563EB" />
+                      <Bar dataKey="comparison" name={comparisonDataset.name} fill="#F59E0B" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </FigureFrame>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Group Differences</CardTitle>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full text-xs sm:text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-2 font-medium">Group</th>
+                        <th className="text-right p-2 font-medium">Mean ({activeDataset?.name})</th>
+                        <th className="text-right p-2 font-medium">Mean ({comparisonDataset.name})</th>
+                        <th className="text-right p-2 font-medium">Δ %</th>
+                        <th className="text-right p-2 font-medium">Max ({activeDataset?.name})</th>
+                        <th className="text-right p-2 font-medium">Max ({comparisonDataset.name})</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparisonData.map(row => (
+                        <tr key={row.group} className="border-b">
+                          <td className="p-2">{row.group}</td>
+                          <td className="p-2 text-right font-mono">{row.active.toFixed(4)}</td>
+                          <td className="p-2 text-right font-mono">{row.comparison.toFixed(4)}</td>
+                          <td className="p-2 text-right font-mono">
+                            {row.comparison > 0 ? `${(((row.active - row.comparison) / row.comparison) * 100).toFixed(1)}%` : '—'}
+                          </td>
+                          <td className="p-2 text-right font-mono">{row.activeMax.toFixed(4)}</td>
+                          <td className="p-2 text-right font-mono">{row.comparisonMax.toFixed(4)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            </>
+          ) : (
+            <Card>
+              <CardContent className="p-6 text-sm text-muted-foreground">
+                Select a second dataset to compare it with the active one.
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
       </Tabs>
     </div>
   )
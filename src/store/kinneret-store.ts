@@ -1,25 +1,73 @@
 import { create } from 'zustand'
-import { devtools, persist } from 'zustand/middleware'
+import { createJSONStorage, devtools, persist } from 'zustand/middleware'
 import { immer } from 'zustand/middleware/immer'
 import { 
   KinneretData, 
   KinneretDataSchema, 
   GroupParams, 
   Nutrients, 
+  PHYTOPLANKTON_GROUPS,
+  ParameterChange,
+  ParameterRegistry,
   PhytoplanktonGroup,
+  RegistryParameter,
   TimeSeriesPoint,
   CSVUpload,
-  CSVUploadSchema
+  CSVUploadSchema,
+  Dataset,
+  DatasetMetadata,
+  Observation,
+  ObservationSchema,
+  Scenario
 } from '@/lib/schemas'
+import { DEFAULT_DATASET_ID, createDatasetId, createDefaultDataset, createUploadedDataset } from '@/lib/datasets'
+import { deriveTimeSeries, timeSeriesToObservations } from '@/lib/observations'
+import { QcDisplayMode, QcOptions, runQualityControl } from '@/lib/qc'
+import { DEFAULT_RESAMPLE_OPTIONS, ResampleOptions } from '@/lib/resampling'
+import { ColumnMapping, MappingPreset } from '@/lib/csv/mapping'
+import { GridField } from '@/lib/rasters/grid-field'
+import { CustomShoreline } from '@/lib/rasters/lake'
+import { DEFAULT_PARAMETER_REGISTRY, GROUP_PARAM_KEYS, setRegistryValue } from '@/lib/parameters'
 import kinneretData from '@/data/kinneret.json'
+import {
+  KINNERET_STORE_KEY,
+  KINNERET_STORE_VERSION,
+  kinneretStorage,
+  migrateKinneretStore,
+} from './migrations'
+
+export interface DataSummary {
+  totalRows: number
+  dateRange: string
+  groups: number
+  status: string
+}
+
+export type ParameterChangeInfo = Pick<ParameterChange, 'source' | 'note'>
+
+export interface ImportOptions {
+  name?: string
+  metadata?: Partial<DatasetMetadata>
+}
 
 interface KinneretStore {
   // State
   data: KinneretData
+  datasets: Dataset[]
+  activeDatasetId: string
+  comparisonDatasetId: string | null
   isLoading: boolean
   error: string | null
   selectedGroup: PhytoplanktonGroup | null
   selectedDate: string | null
+  mappingPresets: MappingPreset[]
+  qcDisplayMode: QcDisplayMode
+  resampling: ResampleOptions
+  // Gridded model layers are kept for the session only; they are too large for localStorage
+  gridLayers: GridField[]
+  customShoreline: CustomShoreline | null // replaces the bundled shoreline when set
+  scenarios: Scenario[] // scenario library
+  parameters: ParameterRegistry // group parameters of every model, with provenance
   
   // Actions
   setLoading: (loading: boolean) => void
@@ -27,66 +75,100 @@ interface KinneretStore {
   setSelectedGroup: (group: PhytoplanktonGroup | null) => void
   setSelectedDate: (date: string | null) => void
   
-  // Group parameters
-  updateGroupParams: (group: PhytoplanktonGroup, params: Partial<GroupParams>) => void
+  // Group parameters; every change is recorded in the registry's history
+  updateGroupParams: (group: PhytoplanktonGroup, params: Partial<GroupParams>, change?: ParameterChangeInfo) => void
+  setParameter: (group: PhytoplanktonGroup, param: RegistryParameter, value: number, change?: ParameterChangeInfo) => void
   resetGroupParams: (group: PhytoplanktonGroup) => void
+  resetParameters: () => void
+  importParameters: (registry: ParameterRegistry) => void
   
   // Nutrients
   updateNutrients: (nutrients: Partial<Nutrients>) => void
   resetNutrients: () => void
   
-  // Time series
+  // Datasets
+  setActiveDataset: (id: string) => void
+  setComparisonDataset: (id: string | null) => void
+  renameDataset: (id: string, name: string) => void
+  updateDatasetMetadata: (id: string, metadata: Partial<DatasetMetadata>) => void
+  deleteDataset: (id: string) => void
+  runDatasetQc: (id: string, options?: Partial<QcOptions>) => void
+  setQcDisplayMode: (mode: QcDisplayMode) => void
+  setResampling: (options: Partial<ResampleOptions>) => void
+  getDataSummary: () => DataSummary
+  
+  // Time series (active dataset)
   addTimeSeriesPoint: (point: TimeSeriesPoint) => void
   updateTimeSeriesPoint: (date: string, point: Partial<TimeSeriesPoint>) => void
   removeTimeSeriesPoint: (date: string) => void
   
   // CSV operations
-  importCSV: (csvData: CSVUpload[]) => void
+  importCSV: (csvData: CSVUpload[], options?: ImportOptions) => void
+  importObservations: (observations: Observation[], options?: ImportOptions) => void
   exportJSON: () => string
   exportCSV: () => string
   
+  // Import mapping presets
+  saveMappingPreset: (name: string, mapping: ColumnMapping) => void
+  deleteMappingPreset: (id: string) => void
+  
+  // Gridded model layers
+  addGridLayer: (layer: GridField) => void
+  removeGridLayer: (id: string) => void
+  setCustomShoreline: (shoreline: CustomShoreline | null) => void
+  
+  // Scenario library
+  saveScenario: (scenario: Scenario) => void
+  updateScenario: (id: string, changes: Partial<Pick<Scenario, 'name' | 'tags' | 'description'>>) => void
+  deleteScenario: (id: string) => void
+  importScenarios: (scenarios: Scenario[]) => void
+  
   // Data management
   resetData: () => void
   loadData: (data: KinneretData) => void
 }
 
-// Model calculations
-export const calculateGrowth = (
-  group: PhytoplanktonGroup,
-  params: GroupParams,
-  nutrients: Nutrients
-): number => {
-  const { mu, KsP, KsN, KsFe, Rsip } = params
-  const { P, N, Fe, Si } = nutrients
-  
-  // Growth rate calculation based on limiting nutrient
-  const pGrowth = P / (KsP + P)
-  const nGrowth = N / (KsN + N)
-  const feGrowth = Fe / (KsFe + Fe)
-  const siGrowth = Rsip > 0 ? Si / (Rsip + Si) : 1
-  
-  // Return minimum of all growth factors (Liebig's law)
-  return mu * Math.min(pGrowth, nGrowth, feGrowth, siGrowth)
-}
+// Model calculations live in lib/model; re-exported for existing imports
+export { calculateBiomass, calculateGrowth } from '@/lib/model/growth'
+
+const findDataset = (datasets: Dataset[], id: string | null): Dataset | undefined =>
+  datasets.find(dataset => dataset.id === id)
+
+// Long-format observations and QC reports stay in memory for the session, like grid layers;
+// monitoring files would quickly exceed the localStorage quota
+const persistedDataset = (dataset: Dataset): Dataset => ({ ...dataset, observations: undefined, qc: undefined })
 
-export const calculateBiomass = (
-  currentBiomass: number,
-  growth: number,
-  mortality: number = 0.02
-): number => {
-  return currentBiomass * (1 + growth - mortality)
+const DEFAULT_CHANGE: ParameterChangeInfo = { source: 'Edit' }
+
+// Back to the bundled values; the resets are recorded like any other change
+const resetGroup = (registry: ParameterRegistry, group: PhytoplanktonGroup) => {
+  for (const [param, entry] of Object.entries(DEFAULT_PARAMETER_REGISTRY.groups[group].values)) {
+    setRegistryValue(registry, group, param as RegistryParameter, entry.value, { source: 'Reset' })
+  }
 }
 
+const seedDatasets = (): Dataset[] => [createDefaultDataset((kinneretData as KinneretData).timeseries)]
+
 export const useKinneretStore = create<KinneretStore>()(
   devtools(
     persist(
       immer((set, get) => ({
         // Initial state
         data: kinneretData as KinneretData,
+        datasets: seedDatasets(),
+        activeDatasetId: DEFAULT_DATASET_ID,
+        comparisonDatasetId: null,
         isLoading: false,
         error: null,
         selectedGroup: null,
         selectedDate: null,
+        mappingPresets: [],
+        qcDisplayMode: 'show',
+        resampling: DEFAULT_RESAMPLE_OPTIONS,
+        gridLayers: [],
+        customShoreline: null,
+        scenarios: [],
+        parameters: DEFAULT_PARAMETER_REGISTRY,
         
         // Basic setters
         setLoading: (loading) => set({ isLoading: loading }),
@@ -95,19 +177,28 @@ export const useKinneretStore = create<KinneretStore>()(
         setSelectedDate: (date) => set({ selectedDate: date }),
         
         // Group parameters
-        updateGroupParams: (group, params) => set((state) => {
-          if (state.data.groups[group]) {
-            state.data.groups[group] = { ...state.data.groups[group], ...params }
+        updateGroupParams: (group, params, change = DEFAULT_CHANGE) => set((state) => {
+          const date = new Date().toISOString()
+          for (const key of GROUP_PARAM_KEYS) {
+            const value = params[key]
+            if (value !== undefined) setRegistryValue(state.parameters, group, key, value, change, date)
           }
         }),
         
+        setParameter: (group, param, value, change = DEFAULT_CHANGE) => set((state) => {
+          setRegistryValue(state.parameters, group, param, value, change)
+        }),
+        
         resetGroupParams: (group) => set((state) => {
-          const originalData = kinneretData as KinneretData
-          if (state.data.groups[group] && originalData.groups[group]) {
-            state.data.groups[group] = { ...originalData.groups[group] }
-          }
+          resetGroup(state.parameters, group)
+        }),
+        
+        resetParameters: () => set((state) => {
+          PHYTOPLANKTON_GROUPS.forEach(group => resetGroup(state.parameters, group))
         }),
         
+        importParameters: (registry) => set({ parameters: registry }),
+        
         // Nutrients
         updateNutrients: (nutrients) => set((state) => {
           state.data.nutrients = { ...state.data.nutrients, ...nutrients }
@@ -118,8 +209,77 @@ export const useKinneretStore = create<KinneretStore>()(
           state.data.nutrients = { ...originalData.nutrients }
         }),
         
+        // Datasets
+        setActiveDataset: (id) => set((state) => {
+          if (findDataset(state.datasets, id)) {
+            state.activeDatasetId = id
+            if (state.comparisonDatasetId === id) {
+              state.comparisonDatasetId = null
+            }
+          }
+        }),
+        
+        setComparisonDataset: (id) => set((state) => {
+          state.comparisonDatasetId = id !== null && findDataset(state.datasets, id) ? id : null
+        }),
+        
+        renameDataset: (id, name) => set((state) => {
+          const dataset = findDataset(state.datasets, id)
+          if (dataset && name.trim()) {
+            dataset.name = name.trim()
+          }
+        }),
+        
+        updateDatasetMetadata: (id, metadata) => set((state) => {
+          const dataset = findDataset(state.datasets, id)
+          if (dataset) {
+            dataset.metadata = { ...dataset.metadata, ...metadata }
+          }
+        }),
+        
+        // The bundled dataset is kept so there is always something to show
+        deleteDataset: (id) => set((state) => {
+          if (id === DEFAULT_DATASET_ID) return
+          state.datasets = state.datasets.filter(dataset => dataset.id !== id)
+          if (state.activeDatasetId === id) {
+            state.activeDatasetId = DEFAULT_DATASET_ID
+          }
+          if (state.comparisonDatasetId === id) {
+            state.comparisonDatasetId = null
+          }
+        }),
+        
+        // Re-run QC, e.g. with another spike method; wide-only datasets are checked per group
+        runDatasetQc: (id, options) => set((state) => {
+          const dataset = findDataset(state.datasets, id)
+          if (!dataset) return
+          dataset.qc = runQualityControl(dataset.observations ?? timeSeriesToObservations(dataset.timeseries), options)
+        }),
+        
+        setQcDisplayMode: (mode) => set({ qcDisplayMode: mode }),
+        
+        setResampling: (options) => set((state) => {
+          state.resampling = { ...state.resampling, ...options }
+        }),
+        
+        getDataSummary: () => {
+          const { datasets, activeDatasetId } = get()
+          const dataset = findDataset(datasets, activeDatasetId)
+          const dates = (dataset?.timeseries ?? []).map(p => p.date).sort()
+          
+          return {
+            totalRows: dates.length,
+            dateRange: dates.length > 0 ? `${dates[0]} - ${dates[dates.length - 1]}` : 'No data',
+            groups: PHYTOPLANKTON_GROUPS.length,
+            status: dataset?.origin === 'uploaded' ? 'Uploaded' : 'Default'
+          }
+        },
+        
         // Time series
         addTimeSeriesPoint: (point) => set((state) => {
+          const dataset = findDataset(state.datasets, state.activeDatasetId)
+          if (!dataset) return
+          
           // Validate the point
           const validatedPoint = CSVUploadSchema.parse(point)
           const timeSeriesPoint: TimeSeriesPoint = {
@@ -132,49 +292,46 @@ export const useKinneretStore = create<KinneretStore>()(
           }
           
           // Check if date already exists
-          const existingIndex = state.data.timeseries.findIndex(p => p.date === point.date)
+          const existingIndex = dataset.timeseries.findIndex(p => p.date === point.date)
           if (existingIndex >= 0) {
-            state.data.timeseries[existingIndex] = timeSeriesPoint
+            dataset.timeseries[existingIndex] = timeSeriesPoint
           } else {
-            state.data.timeseries.push(timeSeriesPoint)
+            dataset.timeseries.push(timeSeriesPoint)
             // Sort by date
-            state.data.timeseries.sort((a, b) => a.date.localeCompare(b.date))
+            dataset.timeseries.sort((a, b) => a.date.localeCompare(b.date))
           }
         }),
         
         updateTimeSeriesPoint: (date, point) => set((state) => {
-          const index = state.data.timeseries.findIndex(p => p.date === date)
+          const dataset = findDataset(state.datasets, state.activeDatasetId)
+          if (!dataset) return
+          const index = dataset.timeseries.findIndex(p => p.date === date)
           if (index >= 0) {
-            state.data.timeseries[index] = { ...state.data.timeseries[index], ...point }
+            dataset.timeseries[index] = { ...dataset.timeseries[index], ...point }
           }
         }),
         
         removeTimeSeriesPoint: (date) => set((state) => {
-          state.data.timeseries = state.data.timeseries.filter(p => p.date !== date)
+          const dataset = findDataset(state.datasets, state.activeDatasetId)
+          if (!dataset) return
+          dataset.timeseries = dataset.timeseries.filter(p => p.date !== date)
         }),
         
         // CSV operations
-        importCSV: (csvData) => set((state) => {
+        importCSV: (csvData, options = {}) => set((state) => {
           try {
             // Validate all CSV data
             const validatedData = csvData.map(row => CSVUploadSchema.parse(row))
             
-            // Convert to time series points
-            const timeSeriesPoints: TimeSeriesPoint[] = validatedData.map(row => ({
-              date: row.date,
-              diatom: row.diatom,
-              dinoflagellates: row.dinoflagellates,
-              small_phyto: row.small_phyto,
-              n_fixers: row.n_fixers,
-              microcystis: row.microcystis,
-            }))
-            
-            // Replace existing time series data
-            state.data.timeseries = timeSeriesPoints.sort((a, b) => a.date.localeCompare(b.date))
+            // Keep rows long-format (station × depth) and derive the wide per-date series from them
+            const observations = timeSeriesToObservations(validatedData)
+            const timeSeriesPoints = deriveTimeSeries(observations)
             
-            // Update metadata
-            state.data.metadata.lastUpdated = new Date().toISOString()
-            state.data.metadata.version = '1.1.0'
+            // Keep the upload as a new named dataset alongside existing ones
+            const dataset = createUploadedDataset(options.name ?? 'Uploaded data', timeSeriesPoints, options.metadata, observations)
+            dataset.qc = runQualityControl(observations)
+            state.datasets.push(dataset)
+            state.activeDatasetId = dataset.id
             
             state.error = null
           } catch (error) {
@@ -182,17 +339,42 @@ export const useKinneretStore = create<KinneretStore>()(
           }
         }),
         
+        importObservations: (observations, options = {}) => set((state) => {
+          try {
+            const validated = observations.map(obs => ObservationSchema.parse(obs))
+            const timeseries = deriveTimeSeries(validated)
+            const dataset = createUploadedDataset(options.name ?? 'Observations', timeseries, options.metadata, validated)
+            dataset.qc = runQualityControl(validated)
+            state.datasets.push(dataset)
+            // Without a date on which all five groups were measured (e.g. chlorophyll only)
+            // there is no wide series for the phytoplankton pages, so the active dataset stays
+            if (timeseries.length > 0) {
+              state.activeDatasetId = dataset.id
+            }
+            state.error = null
+          } catch (error) {
+            state.error = `Observation validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          }
+        }),
+        
         exportJSON: () => {
           const state = get()
-          return JSON.stringify(state.data, null, 2)
+          const dataset = findDataset(state.datasets, state.activeDatasetId)
+          return JSON.stringify({
+            ...state.data,
+            timeseries: dataset?.timeseries ?? [],
+            observations: dataset?.observations,
+            dataset: dataset && { id: dataset.id, name: dataset.name, origin: dataset.origin, metadata: dataset.metadata },
+          }, null, 2)
         },
         
         exportCSV: () => {
           const state = get()
+          const dataset = findDataset(state.datasets, state.activeDatasetId)
           const headers = ['date', 'diatom', 'dinoflagellates', 'small_phyto', 'n_fixers', 'microcystis']
           const csvRows = [headers.join(',')]
           
-          state.data.timeseries.forEach(point => {
+          dataset?.timeseries.forEach(point => {
             const row = [
               point.date,
               point.diatom.toString(),
@@ -207,9 +389,65 @@ export const useKinneretStore = create<KinneretStore>()(
           return csvRows.join('\n')
         },
         
+        // Import mapping presets; saving under an existing name replaces it
+        saveMappingPreset: (name, mapping) => set((state) => {
+          const trimmed = name.trim()
+          if (!trimmed) return
+          const preset: MappingPreset = {
+            id: createDatasetId(),
+            name: trimmed,
+            mapping,
+            createdAt: new Date().toISOString(),
+          }
+          const index = state.mappingPresets.findIndex(p => p.name === trimmed)
+          if (index >= 0) {
+            state.mappingPresets[index] = { ...preset, id: state.mappingPresets[index].id }
+          } else {
+            state.mappingPresets.push(preset)
+          }
+        }),
+        
+        deleteMappingPreset: (id) => set((state) => {
+          state.mappingPresets = state.mappingPresets.filter(p => p.id !== id)
+        }),
+        
+        addGridLayer: (layer) => set((state) => {
+          state.gridLayers.push(layer)
+        }),
+        
+        removeGridLayer: (id) => set((state) => {
+          state.gridLayers = state.gridLayers.filter(layer => layer.id !== id)
+        }),
+        
+        setCustomShoreline: (shoreline) => set({ customShoreline: shoreline }),
+        
+        // Scenario library
+        saveScenario: (scenario) => set((state) => {
+          state.scenarios.push(scenario)
+        }),
+        
+        updateScenario: (id, changes) => set((state) => {
+          const scenario = state.scenarios.find(s => s.id === id)
+          if (!scenario) return
+          if (changes.name !== undefined && changes.name.trim()) scenario.name = changes.name.trim()
+          if (changes.tags !== undefined) scenario.tags = changes.tags
+          if (changes.description !== undefined) scenario.description = changes.description
+        }),
+        
+        deleteScenario: (id) => set((state) => {
+          state.scenarios = state.scenarios.filter(s => s.id !== id)
+        }),
+        
+        importScenarios: (scenarios) => set((state) => {
+          state.scenarios.push(...scenarios)
+        }),
+        
         // Data management
         resetData: () => set((state) => {
           state.data = kinneretData as KinneretData
+          state.datasets = seedDatasets()
+          state.activeDatasetId = DEFAULT_DATASET_ID
+          state.comparisonDatasetId = null
           state.error = null
         }),
         
@@ -217,6 +455,10 @@ export const useKinneretStore = create<KinneretStore>()(
           try {
             const validatedData = KinneretDataSchema.parse(data)
             state.data = validatedData
+            const defaultDataset = findDataset(state.datasets, DEFAULT_DATASET_ID)
+            if (defaultDataset) {
+              defaultDataset.timeseries = [...validatedData.timeseries]
+            }
             state.error = null
           } catch (error) {
             state.error = `Data validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -224,11 +466,29 @@ export const useKinneretStore = create<KinneretStore>()(
         }),
       })),
       {
-        name: 'kinneret-store',
+        name: KINNERET_STORE_KEY,
+        version: KINNERET_STORE_VERSION,
+        storage: createJSONStorage(() => kinneretStorage),
+        migrate: migrateKinneretStore,
+        // Reports are not persisted, so uploads are checked again (on their wide series) after loading
+        onRehydrateStorage: () => (state) => {
+          state?.datasets
+            .filter(dataset => dataset.origin === 'uploaded' && !dataset.qc)
+            .forEach(dataset => state.runDatasetQc(dataset.id))
+        },
         partialize: (state) => ({
           data: state.data,
+          datasets: state.datasets.map(persistedDataset),
+          activeDatasetId: state.activeDatasetId,
+          comparisonDatasetId: state.comparisonDatasetId,
           selectedGroup: state.selectedGroup,
           selectedDate: state.selectedDate,
+          mappingPresets: state.mappingPresets,
+          qcDisplayMode: state.qcDisplayMode,
+          resampling: state.resampling,
+          customShoreline: state.customShoreline,
+          scenarios: state.scenarios,
+          parameters: state.parameters,
         }),
       }
     ),
@@ -239,14 +499,44 @@ export const useKinneretStore = create<KinneretStore>()(
 )
 
 // Selectors for common use cases
+export const useParameterRegistry = () => 
+  useKinneretStore(state => state.parameters)
+
+// Registry entry of a group; see hooks/use-parameters for the models' view
 export const useGroupParams = (group: PhytoplanktonGroup) => 
-  useKinneretStore(state => state.data.groups[group])
+  useKinneretStore(state => state.parameters.groups[group])
 
 export const useNutrients = () => 
   useKinneretStore(state => state.data.nutrients)
 
+const EMPTY_TIMESERIES: TimeSeriesPoint[] = []
+const EMPTY_OBSERVATIONS: Observation[] = []
+
+export const useDatasets = () => 
+  useKinneretStore(state => state.datasets)
+
+export const useActiveDataset = () => 
+  useKinneretStore(state => findDataset(state.datasets, state.activeDatasetId))
+
+export const useComparisonDataset = () => 
+  useKinneretStore(state => findDataset(state.datasets, state.comparisonDatasetId))
+
+// Time series of the active dataset
 export const useTimeSeries = () => 
-  useKinneretStore(state => state.data.timeseries)
+  useKinneretStore(state => findDataset(state.datasets, state.activeDatasetId)?.timeseries ?? EMPTY_TIMESERIES)
+
+// Long-format observations of the active dataset (empty for wide-only datasets)
+export const useObservations = () => 
+  useKinneretStore(state => findDataset(state.datasets, state.activeDatasetId)?.observations ?? EMPTY_OBSERVATIONS)
+
+export const useGridLayers = () => 
+  useKinneretStore(state => state.gridLayers)
+
+export const useCustomShoreline = () => 
+  useKinneretStore(state => state.customShoreline)
+
+export const useScenarios = () => 
+  useKinneretStore(state => state.scenarios)
 
 export const useSpatialData = () => 
   useKinneretStore(state => state.data.spatial)
@@ -0,0 +1,247 @@
+import type { StateStorage } from 'zustand/middleware'
+import { z } from 'zod'
+import {
+  Dataset,
+  DatasetSchema,
+  GroupParams,
+  KinneretData,
+  KinneretDataSchema,
+  ParameterRegistry,
+  ParameterRegistrySchema,
+  PhytoplanktonGroup,
+  Scenario,
+  TimeSeriesPoint,
+  TimeSeriesPointSchema,
+} from '@/lib/schemas'
+import { DEFAULT_DATASET_ID, createDefaultDataset, createUploadedDataset } from '@/lib/datasets'
+import { DEFAULT_PARAMETER_REGISTRY, registryFromGroups, withDefaultDefinitions } from '@/lib/parameters'
+import { MappingPreset, MappingPresetSchema } from '@/lib/csv/mapping'
+import { QC_DISPLAY_MODES, QcDisplayMode } from '@/lib/qc'
+import { DEFAULT_RESAMPLE_OPTIONS, ResampleOptions, ResampleOptionsSchema } from '@/lib/resampling'
+import { CustomShoreline, CustomShorelineSchema } from '@/lib/rasters/lake'
+import { SavedScenarioSchema } from '@/lib/scenarios'
+import kinneretData from '@/data/kinneret.json'
+
+// Persisted schema version of the canonical store.
+// Bump this and add a step to migrateKinneretStore when the persisted shape changes.
+export const KINNERET_STORE_VERSION = 9
+
+export const KINNERET_STORE_KEY = 'kinneret-store'
+
+// Key used by the former `useDataStore` (src/store/data-store.ts)
+export const LEGACY_DATA_STORE_KEY = 'kinneret-data-store'
+
+type DataSource = 'default' | 'uploaded'
+
+export interface PersistedKinneretState {
+  data: KinneretData
+  datasets: Dataset[]
+  activeDatasetId: string
+  comparisonDatasetId: string | null
+  selectedGroup: PhytoplanktonGroup | null
+  selectedDate: string | null
+  mappingPresets: MappingPreset[]
+  qcDisplayMode: QcDisplayMode
+  resampling: ResampleOptions
+  customShoreline: CustomShoreline | null
+  scenarios: Scenario[]
+  parameters: ParameterRegistry
+}
+
+// Shape persisted by version 1, before named datasets; group parameters were kept in `data` until version 3
+interface PersistedV1State {
+  data?: KinneretData & { groups?: Partial<Record<PhytoplanktonGroup, Partial<GroupParams>>> }
+  dataSource?: DataSource
+  datasets?: Dataset[]
+  activeDatasetId?: string
+  comparisonDatasetId?: string | null
+  selectedGroup?: PhytoplanktonGroup | null
+  selectedDate?: string | null
+}
+
+// Fields added after version 2; read as unknown and validated against their schemas
+type PersistedLaterFields = Partial<Record<'mappingPresets' | 'qcDisplayMode' | 'resampling' | 'customShoreline' | 'scenarios' | 'parameters', unknown>>
+
+// Row shape written by the legacy store (plural `diatoms` key)
+interface LegacyTimeSeriesRow {
+  date: string
+  diatoms: number
+  dinoflagellates: number
+  small_phyto: number
+  n_fixers: number
+  microcystis: number
+}
+
+interface LegacyDataStoreState {
+  timeSeriesData?: LegacyTimeSeriesRow[]
+  isDataLoaded?: boolean
+  dataSource?: DataSource
+}
+
+const readLegacyDataStore = (): LegacyDataStoreState | null => {
+  if (typeof localStorage === 'undefined') return null
+  const raw = localStorage.getItem(LEGACY_DATA_STORE_KEY)
+  if (!raw) return null
+
+  try {
+    const parsed = JSON.parse(raw) as { state?: LegacyDataStoreState }
+    return parsed.state ?? null
+  } catch {
+    return null
+  }
+}
+
+// Convert legacy rows, dropping any that do not validate
+const convertLegacyRows = (rows: LegacyTimeSeriesRow[]): TimeSeriesPoint[] => {
+  return rows
+    .map(row => TimeSeriesPointSchema.safeParse({
+      date: row.date,
+      diatom: row.diatoms,
+      dinoflagellates: row.dinoflagellates,
+      small_phyto: row.small_phyto,
+      n_fixers: row.n_fixers,
+      microcystis: row.microcystis,
+    }))
+    .filter(result => result.success)
+    .map(result => result.data as TimeSeriesPoint)
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// A persisted value if it still validates, otherwise the default
+const validOr = <T>(schema: z.ZodType<T>, value: unknown, fallback: T): T => {
+  const result = schema.safeParse(value)
+  return result.success ? result.data : fallback
+}
+
+// Entries of a persisted list that still validate; anything that is not a list becomes empty
+const validEntries = <T>(schema: z.ZodType<T>, value: unknown): T[] =>
+  Array.isArray(value)
+    ? value.flatMap(entry => {
+      const result = schema.safeParse(entry)
+      return result.success ? [result.data] : []
+    })
+    : []
+
+/**
+ * Storage adapter for the canonical store.
+ * When only the legacy data store exists, an empty version-0 record is returned
+ * so that zustand runs migrateKinneretStore and picks the legacy rows up.
+ */
+export const kinneretStorage: StateStorage = {
+  getItem: (name) => {
+    const stored = localStorage.getItem(name)
+    if (stored !== null) return stored
+    if (localStorage.getItem(LEGACY_DATA_STORE_KEY) !== null) {
+      return JSON.stringify({ state: {}, version: 0 })
+    }
+    return null
+  },
+  // A full quota (large uploads) must not break the state update that triggered the write;
+  // the session keeps its state and the last stored copy stays in place
+  setItem: (name, value) => {
+    try {
+      localStorage.setItem(name, value)
+    } catch (error) {
+      console.warn(`Could not save ${name} to localStorage:`, error)
+    }
+  },
+  removeItem: (name) => localStorage.removeItem(name),
+}
+
+/**
+ * Migrate persisted state from any earlier version to KINNERET_STORE_VERSION.
+ *
+ * v0 → v1: folds in time series uploaded through the legacy `kinneret-data-store`,
+ * which pages displayed in preference to this store.
+ * v1 → v2: moves the single time series into named datasets; an uploaded series
+ * becomes its own dataset next to the bundled one and stays active.
+ * v2 → v3: adds the import wizard's mapping presets; presets that no longer
+ * validate are dropped.
+ * v3 → v4: adds the QC display mode, 'show' unless a valid mode was stored.
+ * v4 → v5: adds the resampling options, DEFAULT_RESAMPLE_OPTIONS unless valid
+ * options were stored.
+ * v5 → v6: adds the custom shoreline; none (the bundled outline) unless a
+ * valid outline was stored.
+ * v6 → v7: adds the Si half-saturation KsSi to the group parameters; stored
+ * groups without it take the bundled value.
+ * v7 → v8: adds the scenario library; scenarios that no longer validate are
+ * dropped.
+ * v8 → v9: moves the group parameters out of `data` into the parameter
+ * registry; values that had been edited are recorded as changes. Saved
+ * scenarios take the bundled values of parameters added with the registry.
+ * A stored registry always takes the bundled parameter definitions.
+ */
+export const migrateKinneretStore = (persisted: unknown, version: number): PersistedKinneretState => {
+  const state = (persisted ?? {}) as PersistedV1State & PersistedLaterFields
+  const seed = kinneretData as KinneretData
+
+  // Read before `data` is parsed, which drops the former groups; parameters they lack keep the bundled values
+  const parameters = version < 9
+    ? registryFromGroups(state.data?.groups ?? {}, 'Saved parameters')
+    : withDefaultDefinitions(validOr(ParameterRegistrySchema, state.parameters, DEFAULT_PARAMETER_REGISTRY))
+
+  const parsedData = KinneretDataSchema.safeParse(state.data)
+  let data: KinneretData = parsedData.success ? parsedData.data : seed
+  let dataSource: DataSource = state.dataSource ?? 'default'
+
+  if (version < 1) {
+    const legacy = readLegacyDataStore()
+    if (legacy?.isDataLoaded && legacy.timeSeriesData) {
+      const timeseries = convertLegacyRows(legacy.timeSeriesData)
+      if (timeseries.length > 0) {
+        data = { ...data, timeseries }
+        dataSource = 'uploaded'
+      }
+    }
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(LEGACY_DATA_STORE_KEY)
+    }
+  }
+
+  let datasets = (state.datasets ?? []).filter(dataset => DatasetSchema.safeParse(dataset).success)
+  let activeDatasetId = state.activeDatasetId ?? DEFAULT_DATASET_ID
+
+  if (version < 2) {
+    datasets = [createDefaultDataset(seed.timeseries)]
+    activeDatasetId = DEFAULT_DATASET_ID
+    if (dataSource === 'uploaded') {
+      const uploaded = createUploadedDataset('Uploaded data', data.timeseries, {
+        createdAt: data.metadata.lastUpdated,
+      })
+      datasets.push(uploaded)
+      activeDatasetId = uploaded.id
+    }
+    data = { ...data, timeseries: seed.timeseries }
+  }
+
+  if (!datasets.some(dataset => dataset.id === DEFAULT_DATASET_ID)) {
+    datasets.unshift(createDefaultDataset(seed.timeseries))
+  }
+  if (!datasets.some(dataset => dataset.id === activeDatasetId)) {
+    activeDatasetId = DEFAULT_DATASET_ID
+  }
+  const comparisonDatasetId = datasets.some(dataset => dataset.id === state.comparisonDatasetId)
+    ? state.comparisonDatasetId ?? null
+    : null
+
+  const mappingPresets = version < 3 ? [] : validEntries(MappingPresetSchema, state.mappingPresets)
+  const qcDisplayMode = version < 4 ? 'show' : validOr(z.enum(QC_DISPLAY_MODES), state.qcDisplayMode, 'show')
+  const resampling = version < 5 ? DEFAULT_RESAMPLE_OPTIONS : validOr(ResampleOptionsSchema, state.resampling, DEFAULT_RESAMPLE_OPTIONS)
+  const customShoreline = version < 6 ? null : validOr(CustomShorelineSchema.nullable(), state.customShoreline, null)
+  const scenarios = version < 8 ? [] : validEntries(SavedScenarioSchema, state.scenarios)
+
+  return {
+    data,
+    datasets,
+    activeDatasetId,
+    comparisonDatasetId,
+    selectedGroup: state.selectedGroup ?? null,
+    selectedDate: state.selectedDate ?? null,
+    mappingPresets,
+    qcDisplayMode,
+    resampling,
+    customShoreline,
+    scenarios,
+    parameters,
+  }
+}